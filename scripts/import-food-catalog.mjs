@@ -0,0 +1,204 @@
+// scripts/import-food-catalog.mjs
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import zlib from "zlib";
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Loads a local Open Food Facts dump into disciplined.food_catalog (barcode scans + food search).
+ *
+ * Download the CSV export (tab-separated, ~10 GB unpacked) from
+ * https://world.openfoodfacts.org/data — en.openfoodfacts.org.products.csv.gz can be read as-is.
+ *
+ * Only products with a barcode, a name and calories are kept. Macros are stored per serving
+ * when OFF knows the serving weight, otherwise per 100 g. Rows are upserted on (source, source_id),
+ * so re-running with a newer dump updates products in place.
+ *
+ * Usage:
+ *   node scripts/import-food-catalog.mjs --file <dump.csv[.gz]>                 # dry run, counts rows
+ *   node scripts/import-food-catalog.mjs --file <dump.csv[.gz]> --apply
+ *   node scripts/import-food-catalog.mjs --file <dump> --country en:united-states --limit 50000 --apply
+ */
+
+function loadEnvFile(filePath) {
+  try {
+    if (!fs.existsSync(filePath)) return;
+    const raw = fs.readFileSync(filePath, "utf8");
+    const lines = raw.split(/\r?\n/);
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+
+      const eq = trimmed.indexOf("=");
+      if (eq === -1) continue;
+
+      const key = trimmed.slice(0, eq).trim();
+      let val = trimmed.slice(eq + 1).trim();
+
+      if (
+        (val.startsWith('"') && val.endsWith('"')) ||
+        (val.startsWith("'") && val.endsWith("'"))
+      ) {
+        val = val.slice(1, -1);
+      }
+
+      if (!process.env[key] && key) process.env[key] = val;
+    }
+  } catch (e) {
+    console.warn(`[food-catalog] env load failed for ${filePath}:`, e?.message ?? String(e));
+  }
+}
+
+function ensureEnvLoaded() {
+  const projectRoot = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+  loadEnvFile(path.join(projectRoot, ".env.local"));
+  loadEnvFile(path.join(projectRoot, ".env"));
+  loadEnvFile(path.join(process.cwd(), ".env.local"));
+  loadEnvFile(path.join(process.cwd(), ".env"));
+}
+ensureEnvLoaded();
+
+function need(name) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function argValue(flag) {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? null : process.argv[i + 1] ?? null;
+}
+
+const APPLY = process.argv.includes("--apply");
+const FILE = argValue("--file");
+const COUNTRY = argValue("--country"); // e.g. en:united-states (matches countries_tags)
+const LIMIT = Number(argValue("--limit") ?? "0") || Infinity;
+const BATCH = 500;
+
+const admin = createClient(need("NEXT_PUBLIC_SUPABASE_URL"), need("SUPABASE_SERVICE_ROLE_KEY"), {
+  auth: { persistSession: false },
+});
+
+const db = () => admin.schema("disciplined");
+
+const stats = { read: 0, kept: 0, skipped: 0, written: 0 };
+
+function log(...args) {
+  console.log(APPLY ? "[food-catalog]" : "[food-catalog:dry-run]", ...args);
+}
+
+function num(v) {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function round1(n) {
+  return n == null ? null : Math.round(n * 10) / 10;
+}
+
+/**
+ * One OFF row -> food_catalog row, or null when it isn't usable.
+ */
+function toCatalogRow(get) {
+  const code = (get("code") ?? "").trim();
+  const name = (get("product_name") ?? "").trim();
+  const kcal100 = num(get("energy-kcal_100g"));
+
+  if (!/^[0-9]{8,14}$/.test(code) || !name || kcal100 == null) return null;
+  if (COUNTRY && !(get("countries_tags") ?? "").split(",").includes(COUNTRY)) return null;
+
+  const servingGrams = num(get("serving_quantity"));
+  const servingText = (get("serving_size") ?? "").trim();
+  const perServing = servingGrams != null && servingGrams > 0 && servingText !== "";
+  const factor = perServing ? servingGrams / 100 : 1;
+
+  const per = (key) => {
+    const v = num(get(key));
+    return v == null ? null : round1(v * factor);
+  };
+
+  return {
+    source: "off",
+    source_id: code,
+    barcode: code,
+    name: name.slice(0, 200),
+    brand: (get("brands") ?? "").split(",")[0].trim() || null,
+    serving_size: perServing ? servingText.slice(0, 80) : "100 g",
+    serving_grams: perServing ? servingGrams : 100,
+    calories: round1(kcal100 * factor),
+    protein_g: per("proteins_100g"),
+    carbs_g: per("carbohydrates_100g"),
+    fat_g: per("fat_100g"),
+    imported_at: new Date().toISOString(),
+  };
+}
+
+async function flush(rows) {
+  if (rows.length === 0 || !APPLY) return;
+
+  const { error } = await db().from("food_catalog").upsert(rows, { onConflict: "source,source_id" });
+  if (error) throw error;
+
+  stats.written += rows.length;
+}
+
+async function main() {
+  if (!FILE) throw new Error("Pass --file <path to the Open Food Facts CSV export>");
+
+  let input = fs.createReadStream(FILE);
+  if (FILE.endsWith(".gz")) input = input.pipe(zlib.createGunzip());
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  let header = null;
+  let batch = [];
+  const seen = new Set(); // OFF dumps contain a few duplicate codes; upsert can't take both in one batch
+
+  for await (const line of lines) {
+    if (!header) {
+      header = new Map(line.split("\t").map((h, i) => [h.trim(), i]));
+      for (const col of ["code", "product_name", "energy-kcal_100g"]) {
+        if (!header.has(col)) throw new Error(`Not an Open Food Facts CSV export (missing "${col}" column)`);
+      }
+      continue;
+    }
+
+    stats.read++;
+
+    const cells = line.split("\t");
+    const row = toCatalogRow((col) => {
+      const i = header.get(col);
+      return i === undefined ? null : cells[i];
+    });
+
+    if (!row || seen.has(row.source_id)) {
+      stats.skipped++;
+      continue;
+    }
+
+    seen.add(row.source_id);
+    stats.kept++;
+    batch.push(row);
+
+    if (batch.length >= BATCH) {
+      await flush(batch);
+      batch = [];
+      if (stats.kept % 20_000 < BATCH) log(`read=${stats.read} kept=${stats.kept} written=${stats.written}`);
+    }
+
+    if (stats.kept >= LIMIT) break;
+  }
+
+  await flush(batch);
+
+  log(`done. read=${stats.read} kept=${stats.kept} skipped=${stats.skipped} written=${stats.written}`);
+  if (!APPLY) log("nothing was written — re-run with --apply");
+}
+
+main().catch((e) => {
+  console.error("food catalog import failed:", e);
+  process.exit(1);
+});
@@ -85,6 +85,33 @@ function localMinuteNow(now) {
   return mod1440(now.hour * 60 + now.minute);
 }
 
+/**
+ * A weekday's rule from the fasting schedule (same shape as FastingDay in src/lib/fasting.ts).
+ * No schedule = the default window every day. weekday: 0 = Sunday.
+ */
+function fastingDayRule(fsRow, weekday) {
+  const schedule = Array.isArray(fsRow.schedule) && fsRow.schedule.length === 7 ? fsRow.schedule : null;
+  return schedule?.[weekday] ?? { kind: "window" };
+}
+
+/**
+ * [startMin, endMin) of a window day from its midnight; endMin passes 1440 when it runs past midnight.
+ */
+function fastingDayWindow(fsRow, rule) {
+  const startMin = timeToMinutes(rule.eating_start ?? fsRow.eating_start);
+  const hours = Number(rule.eating_hours ?? fsRow.eating_hours ?? 0);
+  return [startMin, startMin + hours * 60];
+}
+
+/**
+ * The user's "pillar day" (same rule as localDateISO in src/lib/localDay.ts):
+ * before day_start_hour we are still on the previous calendar day.
+ */
+function pillarDateNow(now, dayStartHour) {
+  const h = Number(dayStartHour || 0);
+  return now.hour < h ? now.minus({ days: 1 }).toISODate() : now.toISODate();
+}
+
 /**
  * Cron runs every 5 minutes.
  * If we only check "==", we can miss events if execution drifts.
@@ -121,7 +148,7 @@ async function markSent(userId, kind, localDate, localMin) {
 /**
  * SINGLE SOURCE OF TRUTH:
  * - timezone + push toggles come from user_settings
- * - fasting window time/flags come from fasting_settings
+ * - fasting window time/flags come from fasting_settings (default window + weekly schedule)
  *
  * This fixes the mismatch you hit (fasting_settings changed, user_settings mins didn’t).
  */
@@ -130,7 +157,7 @@ async function fetchUsersForPush() {
     .schema("disciplined")
     .from("user_settings")
     .select(
-      "user_id,timezone,push_enabled,push_daily_reminder,daily_reminder_time_min,push_fasting_windows"
+      "user_id,timezone,day_start_hour,push_enabled,push_daily_reminder,daily_reminder_time_min,push_fasting_windows"
     );
 
   if (error) throw error;
@@ -143,7 +170,7 @@ async function fetchUsersForPush() {
   const { data: fsData, error: fsErr } = await admin
     .schema("disciplined")
     .from("fasting_settings")
-    .select("user_id,eating_start,eating_hours,notify_window_start,notify_window_end")
+    .select("user_id,eating_start,eating_hours,schedule,notify_window_start,notify_window_end")
     .in("user_id", userIds);
 
   if (fsErr) throw fsErr;
@@ -181,17 +208,31 @@ async function sendPush(userId, payload) {
   }
 }
 
-async function areAllPillarsCompletedToday(userId, localDateISO, tz) {
-  // v1 compatibility with your current UTC-based entry_date
-  const noonLocal = DateTime.fromISO(localDateISO, { zone: tz }).set({ hour: 12, minute: 0 });
-  const utcDate = noonLocal.toUTC().toISODate(); // YYYY-MM-DD
+// the user's active pillar catalog (built-ins if it hasn't been seeded yet)
+async function activePillarKeys(userId, localDateISO) {
+  const { data, error } = await admin
+    .schema("disciplined")
+    .from("user_pillars")
+    .select("key,rest_weekdays")
+    .eq("user_id", userId)
+    .is("archived_at", null);
+
+  if (error) throw error;
+  if (!data?.length) return ["train", "eat", "word", "freedom"];
+
+  // planned rest days (0 = Sunday) don't need a reminder
+  const weekday = DateTime.fromISO(localDateISO).weekday % 7;
+  return data.filter((r) => !(r.rest_weekdays ?? []).includes(weekday)).map((r) => r.key);
+}
 
+async function areAllPillarsCompletedToday(userId, localDateISO) {
+  // entry_date is the user's local date (same engine as src/lib/localDay.ts)
   const { data: entry, error: entryErr } = await admin
     .schema("disciplined")
     .from("daily_entries")
     .select("id")
     .eq("user_id", userId)
-    .eq("entry_date", utcDate)
+    .eq("entry_date", localDateISO)
     .maybeSingle();
 
   if (entryErr) throw entryErr;
@@ -205,7 +246,7 @@ async function areAllPillarsCompletedToday(userId, localDateISO, tz) {
 
   if (pilErr) throw pilErr;
 
-  const needed = new Set(["train", "eat", "word", "freedom"]);
+  const needed = new Set(await activePillarKeys(userId, localDateISO));
   for (const row of pillars ?? []) if (row.completed === true) needed.delete(row.pillar);
   return needed.size === 0;
 }
@@ -221,17 +262,33 @@ async function main() {
     const now = DateTime.now().setZone(tz);
     const localDate = now.toISODate();
     const localMin = localMinuteNow(now);
+    const pillarDate = pillarDateNow(now, u.day_start_hour);
 
     // --- (1) Fasting/Eating window transitions ---
-    // Must have fasting settings row
+    // Must have fasting settings row. Today's window opens today; it closes today, or tomorrow
+    // when it runs past midnight (so yesterday's window can close this morning). Non-fasting
+    // and fast days have no transitions of their own.
     const fsRow = u.fasting;
     if (u.push_fasting_windows && fsRow) {
-      const startMin = timeToMinutes(fsRow.eating_start);
-      const hours = Number(fsRow.eating_hours || 0);
-      const endMin = mod1440(startMin + hours * 60);
+      const weekday = now.weekday % 7;
+      const today = fastingDayRule(fsRow, weekday);
+      const yesterday = fastingDayRule(fsRow, (weekday + 6) % 7);
+
+      let startMin = null;
+      let endMin = null;
+
+      if (today.kind === "window") {
+        const [start, end] = fastingDayWindow(fsRow, today);
+        startMin = start;
+        if (end < 1440) endMin = end;
+      }
+      if (yesterday.kind === "window" && today.kind !== "off") {
+        const [, end] = fastingDayWindow(fsRow, yesterday);
+        if (end >= 1440 && endMin === null) endMin = mod1440(end);
+      }
 
       // Start notification
-      if (fsRow.notify_window_start && inLastWindow(localMin, startMin, 5)) {
+      if (fsRow.notify_window_start && startMin !== null && inLastWindow(localMin, startMin, 5)) {
         const kind = "window_start";
         if (!(await alreadySent(u.user_id, kind, localDate))) {
           const res = await sendPush(u.user_id, {
@@ -247,7 +304,7 @@ async function main() {
       }
 
       // End notification
-      if (fsRow.notify_window_end && inLastWindow(localMin, endMin, 5)) {
+      if (fsRow.notify_window_end && endMin !== null && inLastWindow(localMin, endMin, 5)) {
         const kind = "window_end";
         if (!(await alreadySent(u.user_id, kind, localDate))) {
           const res = await sendPush(u.user_id, {
@@ -264,13 +321,15 @@ async function main() {
     }
 
     // --- (2) daily reminder if incomplete ---
+    // Keyed by the pillar day, not the calendar day: with a 4 AM rollover a 1 AM
+    // reminder belongs to (and checks) the day that is still in progress.
     if (u.push_daily_reminder && Number.isFinite(u.daily_reminder_time_min)) {
       const reminderMin = Number(u.daily_reminder_time_min);
 
       if (inLastWindow(localMin, reminderMin, 5)) {
         const kind = "daily_reminder";
-        if (!(await alreadySent(u.user_id, kind, localDate))) {
-          const allDone = await areAllPillarsCompletedToday(u.user_id, localDate, tz);
+        if (!(await alreadySent(u.user_id, kind, pillarDate))) {
+          const allDone = await areAllPillarsCompletedToday(u.user_id, pillarDate);
 
           if (!allDone) {
             const res = await sendPush(u.user_id, {
@@ -279,12 +338,12 @@ async function main() {
               data: { url: "/today" },
             });
             if (res.ok) {
-              await markSent(u.user_id, kind, localDate, localMin);
+              await markSent(u.user_id, kind, pillarDate, localMin);
               sentCount++;
             }
           } else {
             // mark so we don't re-check on retries
-            await markSent(u.user_id, kind, localDate, localMin);
+            await markSent(u.user_id, kind, pillarDate, localMin);
           }
         }
       }
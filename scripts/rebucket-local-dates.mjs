@@ -0,0 +1,321 @@
+// scripts/rebucket-local-dates.mjs
+import fs from "fs";
+import path from "path";
+import { DateTime } from "luxon";
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * ONE-TIME MIGRATION
+ *
+ * Before src/lib/localDay.ts every page wrote "today" as the UTC date, so anything
+ * logged in the evening (US time) landed on tomorrow's row. This script moves
+ * those rows back to the user's local date (user_settings.timezone).
+ *
+ * A row is considered mis-bucketed when its stored date equals the UTC date of the
+ * moment it was written but NOT the local date of that moment. Rows we already
+ * moved no longer match, so the script is safe to re-run.
+ *
+ * Usage:
+ *   node scripts/rebucket-local-dates.mjs            # dry run, prints the plan
+ *   node scripts/rebucket-local-dates.mjs --apply    # writes changes
+ *   node scripts/rebucket-local-dates.mjs --user <uuid> [--apply]
+ */
+
+function loadEnvFile(filePath) {
+  try {
+    if (!fs.existsSync(filePath)) return;
+    const raw = fs.readFileSync(filePath, "utf8");
+    const lines = raw.split(/\r?\n/);
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+
+      const eq = trimmed.indexOf("=");
+      if (eq === -1) continue;
+
+      const key = trimmed.slice(0, eq).trim();
+      let val = trimmed.slice(eq + 1).trim();
+
+      if (
+        (val.startsWith('"') && val.endsWith('"')) ||
+        (val.startsWith("'") && val.endsWith("'"))
+      ) {
+        val = val.slice(1, -1);
+      }
+
+      if (!process.env[key] && key) process.env[key] = val;
+    }
+  } catch (e) {
+    console.warn(`[rebucket] env load failed for ${filePath}:`, e?.message ?? String(e));
+  }
+}
+
+function ensureEnvLoaded() {
+  const projectRoot = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+  loadEnvFile(path.join(projectRoot, ".env.local"));
+  loadEnvFile(path.join(projectRoot, ".env"));
+  loadEnvFile(path.join(process.cwd(), ".env.local"));
+  loadEnvFile(path.join(process.cwd(), ".env"));
+}
+ensureEnvLoaded();
+
+function need(name) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function argValue(flag) {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? null : process.argv[i + 1] ?? null;
+}
+
+const APPLY = process.argv.includes("--apply");
+const ONLY_USER = argValue("--user");
+const DEFAULT_TIMEZONE = "America/Chicago";
+const PAGE = 1000;
+const CHUNK = 200;
+
+const admin = createClient(need("NEXT_PUBLIC_SUPABASE_URL"), need("SUPABASE_SERVICE_ROLE_KEY"), {
+  auth: { persistSession: false },
+});
+
+const db = () => admin.schema("disciplined");
+
+const stats = { pillars: 0, mealItems: 0, word: 0, freedom: 0, conflicts: 0 };
+
+function log(...args) {
+  console.log(APPLY ? "[rebucket]" : "[rebucket:dry-run]", ...args);
+}
+
+/**
+ * Returns the local date the row SHOULD have, or null if it is already correct.
+ */
+function correctedDate(storedDate, writtenAt, tz) {
+  if (!writtenAt) return null;
+  const at = DateTime.fromISO(writtenAt, { setZone: true });
+  if (!at.isValid) return null;
+
+  const utcDate = at.toUTC().toISODate();
+  const localDate = at.setZone(tz).toISODate();
+
+  if (utcDate !== storedDate) return null; // not written by the old UTC logic
+  if (localDate === storedDate) return null; // UTC and local agree
+  return localDate;
+}
+
+function chunks(arr, size = CHUNK) {
+  const out = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+async function selectAll(build) {
+  const rows = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await build().range(from, from + PAGE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if ((data?.length ?? 0) < PAGE) return rows;
+  }
+}
+
+async function selectIn(table, columns, column, ids) {
+  const rows = [];
+  for (const part of chunks(ids)) {
+    rows.push(...(await selectAll(() => db().from(table).select(columns).in(column, part))));
+  }
+  return rows;
+}
+
+async function ensureEntryId(userId, entryDate) {
+  const { data, error } = await db()
+    .from("daily_entries")
+    .upsert({ user_id: userId, entry_date: entryDate }, { onConflict: "user_id,entry_date" })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+/**
+ * daily_pillars: move each completion to the entry for the local date it was completed on.
+ * The old row is reset (not deleted) so the source day keeps its full set of pillar rows.
+ */
+async function rebucketPillars(userId, tz) {
+  const entries = await selectAll(() =>
+    db().from("daily_entries").select("id,entry_date").eq("user_id", userId).order("entry_date")
+  );
+  if (entries.length === 0) return;
+
+  const dateByEntryId = new Map(entries.map((e) => [e.id, e.entry_date]));
+
+  const pillars = await selectIn(
+    "daily_pillars",
+    "entry_id,pillar,completed,completed_at,source,notes",
+    "entry_id",
+    entries.map((e) => e.id)
+  );
+
+  for (const p of pillars) {
+    if (!p.completed) continue;
+
+    const stored = dateByEntryId.get(p.entry_id);
+    const target = correctedDate(stored, p.completed_at, tz);
+    if (!target) continue;
+
+    log(`user=${userId} pillar=${p.pillar} ${stored} -> ${target}`);
+    stats.pillars++;
+    if (!APPLY) continue;
+
+    const targetEntryId = await ensureEntryId(userId, target);
+
+    const seed = await db()
+      .from("daily_pillars")
+      .upsert(
+        [{ entry_id: targetEntryId, pillar: p.pillar, completed: false, completed_at: null, source: null }],
+        { onConflict: "entry_id,pillar", ignoreDuplicates: true }
+      );
+    if (seed.error) throw seed.error;
+
+    const cur = await db()
+      .from("daily_pillars")
+      .select("completed")
+      .eq("entry_id", targetEntryId)
+      .eq("pillar", p.pillar)
+      .single();
+    if (cur.error) throw cur.error;
+
+    if (!cur.data.completed) {
+      const upd = await db()
+        .from("daily_pillars")
+        .update({ completed: true, completed_at: p.completed_at, source: p.source, notes: p.notes })
+        .eq("entry_id", targetEntryId)
+        .eq("pillar", p.pillar);
+      if (upd.error) throw upd.error;
+    }
+
+    const reset = await db()
+      .from("daily_pillars")
+      .update({ completed: false, completed_at: null, source: null })
+      .eq("entry_id", p.entry_id)
+      .eq("pillar", p.pillar);
+    if (reset.error) throw reset.error;
+  }
+}
+
+/**
+ * meal_items: re-parent each item onto the same meal_type for the local date.
+ * Meals left without items are removed (same as deleting the last item on /eat).
+ */
+async function rebucketMeals(userId, tz) {
+  const meals = await selectAll(() =>
+    db().from("meals").select("id,meal_date,meal_type").eq("user_id", userId).order("meal_date")
+  );
+  if (meals.length === 0) return;
+
+  const mealById = new Map(meals.map((m) => [m.id, m]));
+  const items = await selectIn("meal_items", "id,meal_id,created_at", "meal_id", meals.map((m) => m.id));
+
+  const touchedMealIds = new Set();
+
+  for (const it of items) {
+    const meal = mealById.get(it.meal_id);
+    const target = correctedDate(meal.meal_date, it.created_at, tz);
+    if (!target) continue;
+
+    log(`user=${userId} meal_item=${it.id} ${meal.meal_type} ${meal.meal_date} -> ${target}`);
+    stats.mealItems++;
+    if (!APPLY) continue;
+
+    const mealUp = await db()
+      .from("meals")
+      .upsert(
+        { user_id: userId, meal_date: target, meal_type: meal.meal_type },
+        { onConflict: "user_id,meal_date,meal_type" }
+      )
+      .select("id")
+      .single();
+    if (mealUp.error) throw mealUp.error;
+
+    const upd = await db().from("meal_items").update({ meal_id: mealUp.data.id }).eq("id", it.id);
+    if (upd.error) throw upd.error;
+
+    touchedMealIds.add(meal.id);
+  }
+
+  for (const mealId of touchedMealIds) {
+    const left = await db().from("meal_items").select("id").eq("meal_id", mealId).limit(1);
+    if (left.error) throw left.error;
+    if ((left.data?.length ?? 0) > 0) continue;
+
+    const del = await db().from("meals").delete().eq("id", mealId);
+    if (del.error) throw del.error;
+  }
+}
+
+/**
+ * word_entries / freedom_entries: one row per user per day, so a move is only
+ * possible when the local date is still free. Conflicts are reported, not merged.
+ */
+async function rebucketOnePerDay(table, statKey, userId, tz) {
+  const rows = await selectAll(() =>
+    db().from(table).select("id,entry_date,created_at").eq("user_id", userId).order("entry_date")
+  );
+
+  const taken = new Set(rows.map((r) => r.entry_date));
+
+  for (const r of rows) {
+    const target = correctedDate(r.entry_date, r.created_at, tz);
+    if (!target) continue;
+
+    if (taken.has(target)) {
+      log(`user=${userId} ${table}=${r.id} ${r.entry_date} -> ${target} CONFLICT (left in place)`);
+      stats.conflicts++;
+      continue;
+    }
+
+    log(`user=${userId} ${table}=${r.id} ${r.entry_date} -> ${target}`);
+    stats[statKey]++;
+
+    taken.delete(r.entry_date);
+    taken.add(target);
+    if (!APPLY) continue;
+
+    const upd = await db()
+      .from(table)
+      .update({ entry_date: target, updated_at: new Date().toISOString() })
+      .eq("id", r.id);
+    if (upd.error) throw upd.error;
+  }
+}
+
+async function main() {
+  let q = db().from("user_settings").select("user_id,timezone");
+  if (ONLY_USER) q = q.eq("user_id", ONLY_USER);
+
+  const { data: users, error } = await q;
+  if (error) throw error;
+
+  for (const u of users ?? []) {
+    const tz = u.timezone || DEFAULT_TIMEZONE;
+
+    await rebucketPillars(u.user_id, tz);
+    await rebucketMeals(u.user_id, tz);
+    await rebucketOnePerDay("word_entries", "word", u.user_id, tz);
+    await rebucketOnePerDay("freedom_entries", "freedom", u.user_id, tz);
+  }
+
+  log(
+    `done. users=${users?.length ?? 0} pillars=${stats.pillars} meal_items=${stats.mealItems}` +
+      ` word=${stats.word} freedom=${stats.freedom} conflicts=${stats.conflicts}`
+  );
+  if (!APPLY) log("nothing was written — re-run with --apply");
+}
+
+main().catch((e) => {
+  console.error("rebucket failed:", e);
+  process.exit(1);
+});
@@ -0,0 +1,227 @@
+// src/app/(app)/eat/fasting/page.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDuration } from "@/lib/fasting";
+import {
+  deleteFast,
+  fastMinutes,
+  fastSucceeded,
+  fastingStreaks,
+  listFastingSessions,
+  updateFastTimes,
+  type FastingSession,
+} from "@/lib/fastingSessions";
+
+// <input type="datetime-local"> wants local "YYYY-MM-DDTHH:MM"
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  const pad = (v: number) => String(v).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString([], { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+export default function FastingHistoryPage() {
+  const queryClient = useQueryClient();
+
+  const [error, setError] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const sessionsQuery = useQuery({
+    queryKey: ["fasting-history"],
+    queryFn: () => listFastingSessions(),
+    staleTime: 30_000,
+  });
+
+  const sessions = useMemo(() => sessionsQuery.data ?? [], [sessionsQuery.data]);
+
+  const stats = useMemo(() => {
+    const finished = sessions.filter((s) => s.ended_at);
+    const succeeded = finished.filter(fastSucceeded).length;
+    const avg = finished.length ? finished.reduce((a, s) => a + fastMinutes(s), 0) / finished.length : 0;
+    return { finished: finished.length, succeeded, avgMinutes: Math.round(avg), ...fastingStreaks(sessions) };
+  }, [sessions]);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editStart, setEditStart] = useState("");
+  const [editEnd, setEditEnd] = useState("");
+
+  function startEdit(s: FastingSession) {
+    setError(null);
+    setMsg(null);
+    setEditingId(s.id);
+    setEditStart(toLocalInput(s.started_at));
+    setEditEnd(s.ended_at ? toLocalInput(s.ended_at) : "");
+  }
+
+  async function refresh() {
+    await queryClient.invalidateQueries({ queryKey: ["fasting-history"] });
+    await queryClient.invalidateQueries({ queryKey: ["fasting-session"] });
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async (s: FastingSession) => {
+      setError(null);
+      setMsg(null);
+      await updateFastTimes(s.id, new Date(editStart), s.ended_at ? new Date(editEnd) : null);
+    },
+    onSuccess: async () => {
+      setEditingId(null);
+      setMsg("Fast updated.");
+      await refresh();
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to update fast."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      setError(null);
+      setMsg(null);
+      await deleteFast(id);
+    },
+    onSuccess: async () => {
+      setEditingId(null);
+      setMsg("Fast deleted.");
+      await refresh();
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to delete fast."),
+  });
+
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Fasting</h1>
+          <div className="text-sm opacity-70 mt-1">
+            Every fast you started, how long it actually ran, and whether it reached the plan.
+          </div>
+        </div>
+
+        <Link
+          href="/eat"
+          className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+        >
+          Back
+        </Link>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {msg && <div className="text-sm">{msg}</div>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          ["Current streak", String(stats.current)],
+          ["Best streak", String(stats.best)],
+          ["Reached plan", stats.finished ? `${stats.succeeded} / ${stats.finished}` : "—"],
+          ["Average fast", stats.finished ? formatDuration(stats.avgMinutes) : "—"],
+        ].map(([label, value]) => (
+          <div key={label} className="border rounded-xl p-4">
+            <div className="text-xs opacity-70">{label}</div>
+            <div className="text-2xl font-semibold">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {sessionsQuery.isLoading ? (
+        <div className="text-sm opacity-70">Loading…</div>
+      ) : sessionsQuery.error ? (
+        <div className="text-sm text-red-600">{(sessionsQuery.error as Error).message}</div>
+      ) : sessions.length === 0 ? (
+        <div className="border rounded-2xl p-6 text-sm opacity-70">
+          No fasts yet. Start one from the fasting card on Eat.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((s) => {
+            const minutes = fastMinutes(s);
+            const running = !s.ended_at;
+
+            return (
+              <div key={s.id} className="border rounded-xl p-4 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="font-medium">
+                      {formatDuration(minutes)} of {s.planned_hours}h{" "}
+                      {running ? (
+                        <span className="text-xs opacity-70">· in progress</span>
+                      ) : fastSucceeded(s) ? (
+                        <span className="text-xs">· reached plan</span>
+                      ) : (
+                        <span className="text-xs text-red-600">· {formatDuration(s.planned_hours * 60 - minutes)} short</span>
+                      )}
+                    </div>
+                    <div className="text-xs opacity-70">
+                      {formatWhen(s.started_at)} → {s.ended_at ? formatWhen(s.ended_at) : "now"}
+                      {s.end_reason === "meal" ? " · broken by a logged meal" : ""}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => (editingId === s.id ? setEditingId(null) : startEdit(s))}
+                      disabled={busy}
+                    >
+                      {editingId === s.id ? "Close" : "Edit"}
+                    </button>
+                    <button
+                      type="button"
+                      className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => deleteMutation.mutate(s.id)}
+                      disabled={busy}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {editingId === s.id ? (
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1">
+                      <label className="text-sm">Started</label>
+                      <input
+                        type="datetime-local"
+                        className="border rounded px-3 py-2 bg-transparent"
+                        value={editStart}
+                        onChange={(e) => setEditStart(e.target.value)}
+                        disabled={busy}
+                      />
+                    </div>
+                    {running ? null : (
+                      <div className="space-y-1">
+                        <label className="text-sm">Ended</label>
+                        <input
+                          type="datetime-local"
+                          className="border rounded px-3 py-2 bg-transparent"
+                          value={editEnd}
+                          onChange={(e) => setEditEnd(e.target.value)}
+                          disabled={busy}
+                        />
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => saveMutation.mutate(s)}
+                      disabled={busy}
+                    >
+                      {saveMutation.isPending ? "Saving…" : "Save"}
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
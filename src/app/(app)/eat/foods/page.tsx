@@ -0,0 +1,540 @@
+// src/app/(app)/eat/foods/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  FOOD_PAGE_SIZE,
+  fetchFoodDuplicates,
+  mergeFoods,
+  searchFoods,
+  setFoodArchived,
+  setFoodFavorite,
+  updateFood,
+  type Food,
+  type FoodDuplicateGroup,
+} from "@/lib/foods";
+import MicroInputs from "@/components/eat/MicroInputs";
+import { microDraft, parseMicroDraft, type MicroKey } from "@/lib/micronutrients";
+import { COMMON_UNITS, formatServing, normalizeUnit, servingDefFor, unitKind } from "@/lib/servings";
+
+type Draft = {
+  id: string;
+  name: string;
+  brand: string;
+  servingAmount: string;
+  servingUnit: string;
+  servingGrams: string;
+  altServings: Food["alt_servings"]; // carried through unchanged
+  cal: string;
+  p: string;
+  c: string;
+  f: string;
+  micros: Record<MicroKey, string>;
+};
+
+function toDraft(food: Food): Draft {
+  const def = servingDefFor(food);
+  const num = (v: number | null) => (v === null ? "" : String(v));
+  return {
+    id: food.id,
+    name: food.name,
+    brand: food.brand ?? "",
+    servingAmount: String(def.amount),
+    servingUnit: def.unit,
+    servingGrams: unitKind(def.unit) === "mass" ? "" : num(def.grams),
+    altServings: food.alt_servings,
+    cal: num(food.calories),
+    p: num(food.protein_g),
+    c: num(food.carbs_g),
+    f: num(food.fat_g),
+    micros: microDraft(food),
+  };
+}
+
+function fmt(v: number | null | undefined) {
+  return Math.round((v ?? 0) * 10) / 10;
+}
+
+export default function FoodsPage() {
+  const queryClient = useQueryClient();
+
+  const [error, setError] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(0);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // search server-side once typing pauses
+  useEffect(() => {
+    const t = setTimeout(() => setSearch(query.trim()), 250);
+    return () => clearTimeout(t);
+  }, [query]);
+
+  const libraryQuery = useQuery({
+    queryKey: ["foods", "library", search, page, showArchived],
+    queryFn: () => searchFoods({ query: search, page, includeArchived: showArchived }),
+    staleTime: 30_000,
+  });
+
+  const foods = libraryQuery.data?.foods ?? [];
+  const total = libraryQuery.data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / FOOD_PAGE_SIZE));
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const duplicatesQuery = useQuery({
+    queryKey: ["foods", "duplicates"],
+    queryFn: fetchFoodDuplicates,
+    enabled: showDuplicates,
+    staleTime: 0,
+  });
+  const duplicates = duplicatesQuery.data ?? [];
+
+  // group key -> food id to keep (defaults to the first, i.e. favorite / most recently used)
+  const [keepByGroup, setKeepByGroup] = useState<Record<string, string>>({});
+  const [confirmGroup, setConfirmGroup] = useState<string | null>(null);
+
+  function groupKey(g: FoodDuplicateGroup) {
+    return g.foods.map((f) => f.id).join(",");
+  }
+
+  async function refreshFoods() {
+    await queryClient.invalidateQueries({ queryKey: ["foods"] });
+  }
+
+  const favoriteMutation = useMutation({
+    mutationFn: async (food: Food) => {
+      setError(null);
+      await setFoodFavorite(food.id, !food.is_favorite);
+    },
+    onSuccess: refreshFoods,
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to update favorite."),
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (food: Food) => {
+      setError(null);
+      setMsg(null);
+      await setFoodArchived(food.id, !food.archived_at);
+      return !food.archived_at;
+    },
+    onSuccess: async (archived) => {
+      setDraft(null);
+      setMsg(archived ? "Food archived. Meals already logged with it are unchanged." : "Food restored.");
+      await refreshFoods();
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to archive food."),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft) return;
+      setError(null);
+      setMsg(null);
+
+      const amount = Number(draft.servingAmount);
+      const unit = normalizeUnit(draft.servingUnit) || "serving";
+      if (!Number.isFinite(amount) || amount <= 0) throw new Error("Serving amount must be greater than 0.");
+
+      const grams = draft.servingGrams && unitKind(unit) !== "mass" ? Number(draft.servingGrams) : null;
+      if (grams !== null && (!Number.isFinite(grams) || grams <= 0)) {
+        throw new Error("Serving weight must be greater than 0.");
+      }
+
+      const def = servingDefFor({ serving_amount: amount, serving_unit: unit, serving_grams: grams });
+      const num = (v: string) => (v.trim() ? Number(v) : null);
+      const micros = parseMicroDraft(draft.micros);
+
+      await updateFood(draft.id, {
+        name: draft.name,
+        brand: draft.brand,
+        serving_size: formatServing(def),
+        serving_amount: amount,
+        serving_unit: unit,
+        serving_grams: def.grams,
+        alt_servings: draft.altServings,
+        calories: num(draft.cal),
+        protein_g: num(draft.p),
+        carbs_g: num(draft.c),
+        fat_g: num(draft.f),
+        ...micros,
+      });
+    },
+    onSuccess: async () => {
+      setDraft(null);
+      setMsg("Food saved. Meals already logged keep the macros they were logged with.");
+      await refreshFoods();
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to save food."),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ keep, merge }: { keep: string; merge: string[] }) => {
+      setError(null);
+      setMsg(null);
+      return mergeFoods(keep, merge);
+    },
+    onSuccess: async (res) => {
+      setConfirmGroup(null);
+      setMsg(
+        `Merged ${res.merged} food(s) · ${res.meal_items} logged item(s) and ${res.recipe_items} recipe ingredient(s) now point at the kept food.`
+      );
+      await refreshFoods();
+      await queryClient.invalidateQueries({ queryKey: ["recipes"] });
+      await queryClient.invalidateQueries({ queryKey: ["meal-templates"] });
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to merge foods."),
+  });
+
+  const busy = saveMutation.isPending || archiveMutation.isPending || mergeMutation.isPending;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Foods</h1>
+          <div className="text-sm opacity-70 mt-1">
+            Your saved foods. Favorites show first on Eat; archived foods are hidden from pickers.
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Link
+            href="/eat"
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            Back
+          </Link>
+
+          <button
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => setShowDuplicates((v) => !v)}
+            disabled={busy}
+          >
+            {showDuplicates ? "Hide duplicates" : "Find duplicates"}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {msg && <div className="text-sm">{msg}</div>}
+
+      {showDuplicates ? (
+        <div className="border rounded-2xl p-5 space-y-3">
+          <div className="font-semibold">Duplicates</div>
+          <div className="text-sm opacity-70">
+            Foods with the same name and brand. Merging keeps one and moves every logged meal, recipe and
+            template over to it.
+          </div>
+
+          {duplicatesQuery.isLoading ? (
+            <div className="text-sm opacity-70">Looking…</div>
+          ) : duplicatesQuery.error ? (
+            <div className="text-sm text-red-600">{(duplicatesQuery.error as Error).message}</div>
+          ) : duplicates.length === 0 ? (
+            <div className="text-sm opacity-70">No duplicates found.</div>
+          ) : (
+            duplicates.map((g) => {
+              const key = groupKey(g);
+              const keep = keepByGroup[key] ?? g.foods[0]?.id;
+              const merge = g.foods.filter((x) => x.id !== keep).map((x) => x.id);
+
+              return (
+                <div key={key} className="border rounded-xl p-3 space-y-2">
+                  <div className="font-medium">
+                    {g.name}
+                    {g.brand ? ` (${g.brand})` : ""}
+                  </div>
+
+                  {g.foods.map((x) => (
+                    <label key={x.id} className="flex items-start gap-2 text-sm">
+                      <input
+                        type="radio"
+                        name={`keep-${key}`}
+                        checked={x.id === keep}
+                        onChange={() => {
+                          setKeepByGroup((prev) => ({ ...prev, [key]: x.id }));
+                          setConfirmGroup(null);
+                        }}
+                        disabled={busy}
+                      />
+                      <span>
+                        {x.is_favorite ? "★ " : ""}
+                        {x.name} · {x.serving_size ?? "—"} · {Math.round(x.calories ?? 0)} cal · used {x.uses}×
+                        {x.last_used_at ? `, last ${x.last_used_at.slice(0, 10)}` : ""}
+                      </span>
+                    </label>
+                  ))}
+
+                  {confirmGroup === key ? (
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span>
+                        Delete {merge.length} food(s) and move their history to the selected one?
+                      </span>
+                      <button
+                        type="button"
+                        className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                        onClick={() => keep && mergeMutation.mutate({ keep, merge })}
+                        disabled={busy}
+                      >
+                        {mergeMutation.isPending ? "Merging…" : "Merge"}
+                      </button>
+                      <button
+                        type="button"
+                        className="text-sm underline"
+                        onClick={() => setConfirmGroup(null)}
+                        disabled={busy}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => setConfirmGroup(key)}
+                      disabled={busy || merge.length === 0}
+                    >
+                      Keep selected, merge {merge.length} other(s)
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      ) : null}
+
+      {draft ? (
+        <div className="border rounded-2xl p-5 space-y-4">
+          <div className="font-semibold">Edit food</div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-sm">Name</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                disabled={busy}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">Brand (optional)</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={draft.brand}
+                onChange={(e) => setDraft({ ...draft, brand: e.target.value })}
+                disabled={busy}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label className="text-sm">Serving amount</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={draft.servingAmount}
+                onChange={(e) => setDraft({ ...draft, servingAmount: e.target.value })}
+                inputMode="decimal"
+                disabled={busy}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">Unit</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={draft.servingUnit}
+                onChange={(e) => setDraft({ ...draft, servingUnit: e.target.value })}
+                list="food-library-units"
+                disabled={busy}
+              />
+              <datalist id="food-library-units">
+                {COMMON_UNITS.map((u) => (
+                  <option key={u} value={u} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">Weighs (g, optional)</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={draft.servingGrams}
+                onChange={(e) => setDraft({ ...draft, servingGrams: e.target.value })}
+                inputMode="decimal"
+                disabled={busy || unitKind(normalizeUnit(draft.servingUnit)) === "mass"}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {(
+              [
+                ["cal", "Calories"],
+                ["p", "Protein (g)"],
+                ["c", "Carbs (g)"],
+                ["f", "Fat (g)"],
+              ] as const
+            ).map(([k, label]) => (
+              <div key={k} className="space-y-1">
+                <label className="text-sm">{label}</label>
+                <input
+                  className="w-full border rounded px-3 py-2 bg-transparent"
+                  value={draft[k]}
+                  onChange={(e) => setDraft({ ...draft, [k]: e.target.value })}
+                  inputMode="decimal"
+                  disabled={busy}
+                />
+              </div>
+            ))}
+          </div>
+
+          <MicroInputs
+            value={draft.micros}
+            onChange={(micros) => setDraft({ ...draft, micros })}
+            disabled={busy}
+          />
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="border rounded-lg px-4 py-2 font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() => saveMutation.mutate()}
+              disabled={busy}
+            >
+              {saveMutation.isPending ? "Saving…" : "Save food"}
+            </button>
+            <button
+              type="button"
+              className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() => setDraft(null)}
+              disabled={busy}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          className="flex-1 min-w-48 border rounded px-3 py-2 bg-transparent"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setPage(0);
+          }}
+          placeholder="Search by name or brand…"
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => {
+              setShowArchived(e.target.checked);
+              setPage(0);
+            }}
+          />
+          Show archived
+        </label>
+      </div>
+
+      {libraryQuery.isLoading ? (
+        <div className="text-sm opacity-70">Loading…</div>
+      ) : libraryQuery.error ? (
+        <div className="text-sm text-red-600">{(libraryQuery.error as Error).message}</div>
+      ) : foods.length === 0 ? (
+        <div className="border rounded-2xl p-6 text-sm opacity-70">
+          {search ? "No foods match that search." : "No foods yet. Save some on Eat."}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {foods.map((x) => (
+            <div
+              key={x.id}
+              className={`border rounded-xl p-4 flex items-start justify-between gap-3 ${x.archived_at ? "opacity-60" : ""}`}
+            >
+              <div className="flex items-start gap-3">
+                <button
+                  type="button"
+                  className="text-lg leading-none"
+                  onClick={() => favoriteMutation.mutate(x)}
+                  disabled={favoriteMutation.isPending}
+                  aria-label={x.is_favorite ? "Remove from favorites" : "Add to favorites"}
+                  title={x.is_favorite ? "Remove from favorites" : "Add to favorites"}
+                >
+                  {x.is_favorite ? "★" : "☆"}
+                </button>
+                <div>
+                  <div className="font-medium">
+                    {x.name}
+                    {x.brand ? <span className="opacity-70"> ({x.brand})</span> : null}
+                    {x.archived_at ? <span className="text-xs opacity-70"> · archived</span> : null}
+                  </div>
+                  <div className="text-xs opacity-70">
+                    {formatServing(servingDefFor(x))} · {Math.round(x.calories ?? 0)} cal · P {fmt(x.protein_g)}g · C{" "}
+                    {fmt(x.carbs_g)}g · F {fmt(x.fat_g)}g
+                    {x.last_used_at ? ` · last used ${x.last_used_at.slice(0, 10)}` : ""}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                  onClick={() => {
+                    setError(null);
+                    setMsg(null);
+                    setDraft(toDraft(x));
+                  }}
+                  disabled={busy}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                  onClick={() => archiveMutation.mutate(x)}
+                  disabled={busy}
+                >
+                  {x.archived_at ? "Restore" : "Archive"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {total > FOOD_PAGE_SIZE ? (
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <button
+            type="button"
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            disabled={page === 0 || libraryQuery.isFetching}
+          >
+            Previous
+          </button>
+          <div className="opacity-70">
+            Page {page + 1} of {pageCount} · {total} food(s)
+          </div>
+          <button
+            type="button"
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page + 1 >= pageCount || libraryQuery.isFetching}
+          >
+            Next
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
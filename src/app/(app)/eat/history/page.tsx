@@ -3,10 +3,24 @@
 
 import { useMemo } from "react";
 import Link from "next/link";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
-
-type MealType = "breakfast" | "lunch" | "dinner" | "snack";
+import { formatAmount } from "@/lib/servings";
+import { todayLocalISO } from "@/lib/localDay";
+import { copyMeal, type MealType } from "@/lib/meals";
+import SaveMealTemplate from "@/components/eat/SaveMealTemplate";
+import {
+  MACRO_KEYS,
+  MACRO_LABELS,
+  fetchTrainingDates,
+  getMacroTargets,
+  targetStatus,
+  targetsForDay,
+  type MacroKey,
+  type TargetStatus,
+} from "@/lib/macroTargets";
+
+const STATUS_LABELS: Record<TargetStatus, string> = { under: "under", on: "on target", over: "over" };
 
 type MealRow = {
   id: string;
@@ -20,6 +34,7 @@ type MealItemRow = {
   meal_id: string;
   name: string;
   quantity: number;
+  amount: number | null;
   unit: string | null;
   calories: number | null;
   protein_g: number | null;
@@ -68,15 +83,21 @@ async function fetchEatHistory() {
   const meals = (mealsRes.data ?? []) as MealRow[];
 
   if (meals.length === 0) {
-    return { meals: [], items: [] as MealItemRow[] };
+    return { meals: [], items: [] as MealItemRow[], targets: null, trainingDates: new Set<string>() };
   }
 
+  // meals are newest first
+  const targets = await getMacroTargets();
+  const trainingDates = targets
+    ? await fetchTrainingDates(meals[meals.length - 1].meal_date, meals[0].meal_date)
+    : new Set<string>();
+
   const mealIds = meals.map((x) => x.id);
 
   const itemsRes = await supabase
     .schema("disciplined")
     .from("meal_items")
-    .select("id,meal_id,name,quantity,unit,calories,protein_g,carbs_g,fat_g,created_at")
+    .select("id,meal_id,name,quantity,amount,unit,calories,protein_g,carbs_g,fat_g,created_at")
     .in("meal_id", mealIds)
     .order("created_at", { ascending: true });
 
@@ -84,10 +105,12 @@ async function fetchEatHistory() {
 
   const items = (itemsRes.data ?? []) as MealItemRow[];
 
-  return { meals, items };
+  return { meals, items, targets, trainingDates };
 }
 
 export default function EatHistoryPage() {
+  const queryClient = useQueryClient();
+
   const {
     data,
     isLoading,
@@ -125,6 +148,56 @@ export default function EatHistoryPage() {
 
   const dates = useMemo(() => Array.from(mealsByDate.keys()), [mealsByDate]);
 
+  // per day: how each tracked macro compared with that day's target
+  const statusByDate = useMemo(() => {
+    const map = new Map<string, { key: MacroKey; status: TargetStatus; target: number; total: number }[]>();
+    const targets = data?.targets;
+    if (!targets) return map;
+
+    for (const d of dates) {
+      const dayTargets = targetsForDay(targets, data.trainingDates.has(d));
+      const totals = sumMacroItems((mealsByDate.get(d) ?? []).flatMap((m) => itemsByMeal.get(m.id) ?? []));
+
+      map.set(
+        d,
+        MACRO_KEYS.flatMap((key) => {
+          const target = dayTargets[key];
+          return target === null ? [] : [{ key, status: targetStatus(totals[key], target), target, total: totals[key] }];
+        })
+      );
+    }
+    return map;
+  }, [data, dates, mealsByDate, itemsByMeal]);
+
+  const statusSummary = useMemo(() => {
+    const counts = new Map<MacroKey, Record<TargetStatus, number>>();
+    for (const rows of statusByDate.values()) {
+      for (const r of rows) {
+        const c = counts.get(r.key) ?? { under: 0, on: 0, over: 0 };
+        c[r.status]++;
+        counts.set(r.key, c);
+      }
+    }
+    return MACRO_KEYS.flatMap((key) => {
+      const c = counts.get(key);
+      return c ? [{ key, ...c }] : [];
+    });
+  }, [statusByDate]);
+
+  // copy a past meal into today's meal of the same type
+  const logAgainMutation = useMutation({
+    mutationFn: async (m: MealRow) => {
+      const today = todayLocalISO();
+      await copyMeal({ date: m.meal_date, mealType: m.meal_type }, { date: today });
+      return today;
+    },
+    onSuccess: async (today) => {
+      await queryClient.invalidateQueries({ queryKey: ["eat-day", today] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-meal-types", today] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-history"] });
+    },
+  });
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
       <div className="flex items-start justify-between gap-4">
@@ -157,6 +230,25 @@ export default function EatHistoryPage() {
         </div>
       ) : null}
 
+      {logAgainMutation.isError ? (
+        <div className="text-sm text-red-600">
+          {logAgainMutation.error instanceof Error ? logAgainMutation.error.message : "Failed to log meal."}
+        </div>
+      ) : logAgainMutation.isSuccess ? (
+        <div className="text-sm">Logged again for today.</div>
+      ) : null}
+
+      {statusSummary.length > 0 ? (
+        <div className="border rounded-2xl p-5 space-y-1">
+          <div className="font-semibold">Against your targets</div>
+          {statusSummary.map((s) => (
+            <div key={s.key} className="text-sm opacity-80">
+              {MACRO_LABELS[s.key].label}: {s.on} day(s) on target · {s.over} over · {s.under} under
+            </div>
+          ))}
+        </div>
+      ) : null}
+
       {isLoading ? (
         <div className="text-sm opacity-70">Loading…</div>
       ) : dates.length === 0 ? (
@@ -178,6 +270,25 @@ export default function EatHistoryPage() {
                       Totals: {Math.round(totals.calories)} cal · P {totals.protein.toFixed(1)}g · C{" "}
                       {totals.carbs.toFixed(1)}g · F {totals.fat.toFixed(1)}g
                     </div>
+                    {statusByDate.get(d)?.length ? (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {(statusByDate.get(d) ?? []).map((r) => (
+                          <span
+                            key={r.key}
+                            className={[
+                              "border rounded-full px-2 py-0.5 text-xs",
+                              r.status === "over" ? "text-red-600" : r.status === "on" ? "" : "opacity-70",
+                            ].join(" ")}
+                            title={`${Math.round(r.total)} / ${Math.round(r.target)} ${MACRO_LABELS[r.key].unit}`}
+                          >
+                            {MACRO_LABELS[r.key].label} {STATUS_LABELS[r.status]}
+                          </span>
+                        ))}
+                        {data?.trainingDates.has(d) ? (
+                          <span className="border rounded-full px-2 py-0.5 text-xs opacity-70">training day</span>
+                        ) : null}
+                      </div>
+                    ) : null}
                   </div>
                   <div className="text-sm opacity-70">{dayMeals.length} meal(s)</div>
                 </div>
@@ -198,6 +309,26 @@ export default function EatHistoryPage() {
                               {mealTotals.fat.toFixed(1)}g
                             </div>
                           </div>
+
+                          {mealItems.length > 0 ? (
+                            <div className="flex flex-wrap justify-end gap-2">
+                              <button
+                                type="button"
+                                className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                                onClick={() => logAgainMutation.mutate(m)}
+                                disabled={logAgainMutation.isPending}
+                              >
+                                {logAgainMutation.isPending && logAgainMutation.variables?.id === m.id
+                                  ? "Logging…"
+                                  : "Log again today"}
+                              </button>
+                              <SaveMealTemplate
+                                mealId={m.id}
+                                mealType={m.meal_type}
+                                defaultName={`${m.meal_type[0].toUpperCase()}${m.meal_type.slice(1)} · ${d}`}
+                              />
+                            </div>
+                          ) : null}
                         </div>
 
                         {mealItems.length === 0 ? (
@@ -208,7 +339,7 @@ export default function EatHistoryPage() {
                               <div key={it.id} className="border rounded-xl p-3">
                                 <div className="font-medium">{it.name}</div>
                                 <div className="text-sm opacity-70">
-                                  Qty: {it.quantity} {it.unit ?? ""} ·{" "}
+                                  Qty: {formatAmount(it.amount ?? it.quantity, it.unit ?? "")} ·{" "}
                                   {Math.round(n(it.calories) * n(it.quantity))} cal · P{" "}
                                   {(n(it.protein_g) * n(it.quantity)).toFixed(1)}g · C{" "}
                                   {(n(it.carbs_g) * n(it.quantity)).toFixed(1)}g · F{" "}
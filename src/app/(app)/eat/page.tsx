@@ -5,28 +5,57 @@ import { useMemo, useState } from "react";
 import Link from "next/link";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
-import { recomputePillar } from "@/lib/recomputePillar";
+import DayPicker from "@/components/day/DayPicker";
+import { useSelectedDay } from "@/lib/useSelectedDay";
 import FastingCard from "@/components/eat/FastingCard";
-
-type Food = {
-  id: string;
-  name: string;
-  brand: string | null;
-  serving_size: string | null;
-  calories: number | null;
-  protein_g: number | null;
-  carbs_g: number | null;
-  fat_g: number | null;
-};
-
-type MealType = "breakfast" | "lunch" | "dinner" | "snack";
-
-type DraftItem =
+import FoodImportCard from "@/components/eat/FoodImportCard";
+import {
+  COMMON_UNITS,
+  entryUnits,
+  formatAmount,
+  formatServing,
+  normalizeUnit,
+  servingDefFor,
+  servingsMultiplier,
+  unitKind,
+  type AltServing,
+} from "@/lib/servings";
+import { fetchFoods } from "@/lib/foods";
+import { listRecipes } from "@/lib/recipes";
+import {
+  MEAL_TYPES,
+  deleteMeal,
+  deleteMealItem,
+  logMealItems,
+  moveMealItem,
+  updateMealItemAmount,
+  type MealType,
+} from "@/lib/meals";
+import QuickLogCard from "@/components/eat/QuickLogCard";
+import SaveMealTemplate from "@/components/eat/SaveMealTemplate";
+import MacroRings from "@/components/eat/MacroRings";
+import { fetchDayTargets } from "@/lib/macroTargets";
+import MicroInputs from "@/components/eat/MicroInputs";
+import WaterCard from "@/components/eat/WaterCard";
+import {
+  MICRO_COLUMNS,
+  emptyMicros,
+  formatMicros,
+  hasAnyMicro,
+  microDraft,
+  parseMicroDraft,
+  pickMicros,
+  sumMicros,
+  type MicroValues,
+} from "@/lib/micronutrients";
+
+type DraftItem = (
   | {
       kind: "saved";
       food_id: string;
       name: string;
-      quantity: number;
+      quantity: number; // base servings (macro multiplier)
+      amount: number; // as entered, in `unit`
       unit: string;
       calories: number | null;
       protein_g: number | null;
@@ -37,13 +66,29 @@ type DraftItem =
       kind: "custom";
       food_id: null;
       name: string;
-      quantity: number;
+      quantity: number; // base servings (macro multiplier)
+      amount: number; // as entered, in `unit`
       unit: string;
       calories: number | null;
       protein_g: number | null;
       carbs_g: number | null;
       fat_g: number | null;
-    };
+    }
+  | {
+      kind: "recipe";
+      food_id: null;
+      recipe_id: string;
+      name: string;
+      quantity: number; // recipe servings; macros are per serving
+      amount: number;
+      unit: string;
+      calories: number | null;
+      protein_g: number | null;
+      carbs_g: number | null;
+      fat_g: number | null;
+    }
+) &
+  MicroValues;
 
 type MealRow = {
   id: string;
@@ -56,17 +101,14 @@ type MealItemRow = {
   meal_id: string;
   name: string;
   quantity: number;
+  amount: number | null;
   unit: string | null;
   calories: number | null;
   protein_g: number | null;
   carbs_g: number | null;
   fat_g: number | null;
   created_at: string;
-};
-
-function todayISODateUTC() {
-  return new Date().toISOString().slice(0, 10);
-}
+} & MicroValues;
 
 function n(v: number | null | undefined) {
   return typeof v === "number" && !Number.isNaN(v) ? v : 0;
@@ -88,6 +130,49 @@ function sumMacroItems(
   return { calories, protein, carbs, fat };
 }
 
+type EatDay = { meals: MealRow[]; items: MealItemRow[] };
+
+type ItemEdit =
+  | { kind: "edit"; item: MealItemRow; amount: number | null; toType: MealType | null }
+  | { kind: "delete"; item: MealItemRow }
+  | { kind: "delete-meal"; mealId: string };
+
+/**
+ * What the day looks like once an edit lands (optimistic cache update; the refetch after the
+ * server call replaces it). Meals left without items disappear, as they do in the database.
+ */
+function applyItemEdit(day: EatDay, edit: ItemEdit, date: string): EatDay {
+  let meals = day.meals;
+  let items = day.items;
+
+  if (edit.kind === "edit") {
+    const { item, amount, toType } = edit;
+
+    if (amount !== null) {
+      const previous = item.amount ?? item.quantity;
+      const quantity = previous > 0 ? (item.quantity * amount) / previous : amount;
+      items = items.map((it) => (it.id === item.id ? { ...it, amount, quantity } : it));
+    }
+
+    if (toType !== null) {
+      let target = meals.find((m) => m.meal_type === toType);
+      if (!target) {
+        target = { id: `pending-${toType}`, meal_type: toType, meal_date: date };
+        meals = [...meals, target];
+      }
+      const mealId = target.id;
+      items = items.map((it) => (it.id === item.id ? { ...it, meal_id: mealId } : it));
+    }
+  } else if (edit.kind === "delete") {
+    items = items.filter((it) => it.id !== edit.item.id);
+  } else {
+    items = items.filter((it) => it.meal_id !== edit.mealId);
+  }
+
+  const used = new Set(items.map((it) => it.meal_id));
+  return { meals: meals.filter((m) => used.has(m.id)), items };
+}
+
 async function getUserId(): Promise<string> {
   const { data, error } = await supabase.auth.getUser();
   if (error) throw error;
@@ -96,19 +181,7 @@ async function getUserId(): Promise<string> {
   return uid;
 }
 
-async function fetchFoods(): Promise<Food[]> {
-  // foods is per-user in DB, but your query doesn't filter; leaving as-is
-  const { data, error } = await supabase
-    .schema("disciplined")
-    .from("foods")
-    .select("id,name,brand,serving_size,calories,protein_g,carbs_g,fat_g")
-    .order("name", { ascending: true });
-
-  if (error) throw error;
-  return (data ?? []) as Food[];
-}
-
-async function fetchEatToday(todayUtc: string): Promise<{ meals: MealRow[]; items: MealItemRow[] }> {
+async function fetchEatDay(date: string): Promise<{ meals: MealRow[]; items: MealItemRow[] }> {
   const uid = await getUserId();
 
   const mealsRes = await supabase
@@ -116,7 +189,7 @@ async function fetchEatToday(todayUtc: string): Promise<{ meals: MealRow[]; item
     .from("meals")
     .select("id,meal_type,meal_date")
     .eq("user_id", uid)
-    .eq("meal_date", todayUtc)
+    .eq("meal_date", date)
     .order("meal_type", { ascending: true });
 
   if (mealsRes.error) throw mealsRes.error;
@@ -132,7 +205,7 @@ async function fetchEatToday(todayUtc: string): Promise<{ meals: MealRow[]; item
   const itemsRes = await supabase
     .schema("disciplined")
     .from("meal_items")
-    .select("id,meal_id,name,quantity,unit,calories,protein_g,carbs_g,fat_g,created_at")
+    .select(`id,meal_id,name,quantity,amount,unit,calories,protein_g,carbs_g,fat_g,${MICRO_COLUMNS},created_at`)
     .in("meal_id", mealIds)
     .order("created_at", { ascending: true });
 
@@ -144,7 +217,7 @@ async function fetchEatToday(todayUtc: string): Promise<{ meals: MealRow[]; item
 
 export default function EatPage() {
   const queryClient = useQueryClient();
-  const todayUtc = useMemo(() => todayISODateUTC(), []);
+  const { date, today, isToday, editable, setDate } = useSelectedDay();
 
   const [error, setError] = useState<string | null>(null);
   const [msg, setMsg] = useState<string | null>(null);
@@ -160,34 +233,48 @@ export default function EatPage() {
   const loadingFoods = foodsQuery.isLoading;
   const foodsRefreshing = foodsQuery.isFetching;
 
-  // ---- Today meals (cached) ----
-  const todayQuery = useQuery({
-    queryKey: ["eat-today", todayUtc],
-    queryFn: () => fetchEatToday(todayUtc),
+  // ---- Selected day's meals (cached) ----
+  const dayQuery = useQuery({
+    queryKey: ["eat-day", date],
+    queryFn: () => fetchEatDay(date),
     staleTime: 30_000, // 30s
   });
 
-  const todayMeals = todayQuery.data?.meals ?? [];
-  const todayItems = todayQuery.data?.items ?? [];
-  const loadingToday = todayQuery.isLoading;
-  const todayRefreshing = todayQuery.isFetching;
+  const dayMeals = dayQuery.data?.meals ?? [];
+  const dayItems = useMemo(() => dayQuery.data?.items ?? [], [dayQuery.data]);
+  const loadingDay = dayQuery.isLoading;
+  const dayRefreshing = dayQuery.isFetching;
 
   const itemsByMeal = useMemo(() => {
     const map = new Map<string, MealItemRow[]>();
-    for (const it of todayItems) {
+    for (const it of dayItems) {
       const arr = map.get(it.meal_id) ?? [];
       arr.push(it);
       map.set(it.meal_id, arr);
     }
     return map;
-  }, [todayItems]);
+  }, [dayItems]);
 
-  const dayTotals = useMemo(() => sumMacroItems(todayItems), [todayItems]);
+  const dayTotals = useMemo(() => sumMacroItems(dayItems), [dayItems]);
+  const dayMicros = useMemo(() => sumMicros(dayItems), [dayItems]);
+
+  // ---- Targets for the selected day (training days can differ) ----
+  const targetsQuery = useQuery({
+    queryKey: ["macro-targets-day", date],
+    queryFn: () => fetchDayTargets(date),
+    staleTime: 60_000,
+  });
+
+  const dayTargets = targetsQuery.data ?? null;
 
   // ---- Create food form ----
   const [foodName, setFoodName] = useState("");
   const [foodBrand, setFoodBrand] = useState("");
-  const [foodServing, setFoodServing] = useState("");
+  const [servingAmount, setServingAmount] = useState("1");
+  const [servingUnit, setServingUnit] = useState("serving");
+  const [servingGrams, setServingGrams] = useState("");
+  const [altServings, setAltServings] = useState<{ amount: string; unit: string; grams: string }[]>([]);
+  const [foodMicros, setFoodMicros] = useState(() => microDraft());
   const [cal, setCal] = useState<string>("");
   const [p, setP] = useState<string>("");
   const [c, setC] = useState<string>("");
@@ -198,17 +285,43 @@ export default function EatPage() {
       setError(null);
       setMsg(null);
 
+      const amount = Number(servingAmount);
+      const unit = normalizeUnit(servingUnit) || "serving";
+      if (!Number.isFinite(amount) || amount <= 0) throw new Error("Serving amount must be greater than 0.");
+
+      const grams = servingGrams && unitKind(unit) !== "mass" ? Number(servingGrams) : null;
+      if (grams !== null && (!Number.isFinite(grams) || grams <= 0)) {
+        throw new Error("Serving weight must be greater than 0.");
+      }
+
+      const alternates: AltServing[] = [];
+      for (const a of altServings) {
+        const alt = { amount: Number(a.amount), unit: normalizeUnit(a.unit), grams: Number(a.grams) };
+        if (!alt.unit || !(alt.amount > 0) || !(alt.grams > 0)) {
+          throw new Error("Each alternate serving needs an amount, a unit and a weight in grams.");
+        }
+        alternates.push(alt);
+      }
+
+      const def = servingDefFor({ serving_amount: amount, serving_unit: unit, serving_grams: grams });
+      const micros = parseMicroDraft(foodMicros);
+
       const uid = await getUserId();
 
       const ins = await supabase.schema("disciplined").from("foods").insert({
         user_id: uid,
         name: foodName.trim(),
         brand: foodBrand.trim() || null,
-        serving_size: foodServing.trim() || null,
+        serving_size: formatServing(def),
+        serving_amount: amount,
+        serving_unit: unit,
+        serving_grams: def.grams,
+        alt_servings: alternates,
         calories: cal ? Number(cal) : null,
         protein_g: p ? Number(p) : null,
         carbs_g: c ? Number(c) : null,
         fat_g: f ? Number(f) : null,
+        ...micros,
       });
 
       if (ins.error) throw ins.error;
@@ -216,11 +329,15 @@ export default function EatPage() {
     onSuccess: async () => {
       setFoodName("");
       setFoodBrand("");
-      setFoodServing("");
+      setServingAmount("1");
+      setServingUnit("serving");
+      setServingGrams("");
+      setAltServings([]);
       setCal("");
       setP("");
       setC("");
       setF("");
+      setFoodMicros(microDraft());
 
       await queryClient.invalidateQueries({ queryKey: ["foods"] });
       setMsg("Food saved.");
@@ -240,12 +357,28 @@ export default function EatPage() {
   // add saved item controls
   const [selectedFoodId, setSelectedFoodId] = useState<string>("");
   const [savedQty, setSavedQty] = useState<string>("1");
+  const [savedUnit, setSavedUnit] = useState<string>("");
 
   const selectedFood = useMemo(
     () => foods.find((x) => x.id === selectedFoodId) ?? null,
     [foods, selectedFoodId]
   );
 
+  const selectedServing = useMemo(() => (selectedFood ? servingDefFor(selectedFood) : null), [selectedFood]);
+  const selectedUnits = useMemo(() => (selectedServing ? entryUnits(selectedServing) : []), [selectedServing]);
+
+  // a unit left over from another food falls back to this food's base unit
+  const entryUnit = selectedUnits.includes(savedUnit) ? savedUnit : (selectedServing?.unit ?? "serving");
+  const savedServings = selectedServing ? servingsMultiplier(selectedServing, Number(savedQty), entryUnit) : null;
+
+  // add recipe controls
+  const recipesQuery = useQuery({ queryKey: ["recipes"], queryFn: () => listRecipes(), staleTime: 60_000 });
+  const recipes = recipesQuery.data ?? [];
+  const [selectedRecipeId, setSelectedRecipeId] = useState<string>("");
+  const [recipeServings, setRecipeServings] = useState<string>("1");
+
+  const selectedRecipe = recipes.find((r) => r.id === selectedRecipeId) ?? null;
+
   // add custom item controls
   const [customName, setCustomName] = useState("");
   const [customUnit, setCustomUnit] = useState("serving");
@@ -272,13 +405,18 @@ export default function EatPage() {
       return;
     }
 
-    const qty = savedQty ? Number(savedQty) : 1;
-    if (!Number.isFinite(qty) || qty <= 0) {
+    const amount = savedQty ? Number(savedQty) : 1;
+    if (!Number.isFinite(amount) || amount <= 0) {
       setError("Quantity must be a number greater than 0.");
       return;
     }
 
-    const unit = selectedFood.serving_size?.trim() || "serving";
+    const def = servingDefFor(selectedFood);
+    const qty = servingsMultiplier(def, amount, entryUnit);
+    if (qty === null) {
+      setError(`Can't convert ${entryUnit} for ${selectedFood.name}. Add an alternate serving for it.`);
+      return;
+    }
 
     setDraftItems((prev) => [
       ...prev,
@@ -287,17 +425,55 @@ export default function EatPage() {
         food_id: selectedFood.id,
         name: selectedFood.name,
         quantity: qty,
-        unit,
+        amount,
+        unit: entryUnit,
         calories: selectedFood.calories,
         protein_g: selectedFood.protein_g,
         carbs_g: selectedFood.carbs_g,
         fat_g: selectedFood.fat_g,
+        ...pickMicros(selectedFood),
       },
     ]);
 
     setSavedQty("1");
   }
 
+  function addRecipeToMeal() {
+    setError(null);
+    setMsg(null);
+
+    if (!selectedRecipe) {
+      setError("Pick a recipe first.");
+      return;
+    }
+
+    const servings = recipeServings ? Number(recipeServings) : 1;
+    if (!Number.isFinite(servings) || servings <= 0) {
+      setError("Servings must be a number greater than 0.");
+      return;
+    }
+
+    setDraftItems((prev) => [
+      ...prev,
+      {
+        kind: "recipe",
+        food_id: null,
+        recipe_id: selectedRecipe.id,
+        name: selectedRecipe.name,
+        quantity: servings,
+        amount: servings,
+        unit: "serving",
+        calories: selectedRecipe.calories,
+        protein_g: selectedRecipe.protein_g,
+        carbs_g: selectedRecipe.carbs_g,
+        fat_g: selectedRecipe.fat_g,
+        ...pickMicros(selectedRecipe),
+      },
+    ]);
+
+    setRecipeServings("1");
+  }
+
   function addCustomToMeal() {
     setError(null);
     setMsg(null);
@@ -321,11 +497,13 @@ export default function EatPage() {
         food_id: null,
         name,
         quantity: qty,
+        amount: qty,
         unit: customUnit.trim() || "serving",
         calories: customCal ? Number(customCal) : null,
         protein_g: customP ? Number(customP) : null,
         carbs_g: customC ? Number(customC) : null,
         fat_g: customF ? Number(customF) : null,
+        ...emptyMicros(),
       },
     ]);
 
@@ -351,109 +529,149 @@ export default function EatPage() {
         throw new Error("Add at least one item before saving the meal.");
       }
 
-      const uid = await getUserId();
-
-      const mealDate = todayUtc;
-
-      const mealUp = await supabase
-        .schema("disciplined")
-        .from("meals")
-        .upsert(
-          { user_id: uid, meal_date: mealDate, meal_type: mealType },
-          { onConflict: "user_id,meal_date,meal_type" }
-        )
-        .select("id")
-        .single<{ id: string }>();
-
-      if (mealUp.error) throw mealUp.error;
-
-      const mealId = mealUp.data.id;
-
-      const payload = draftItems.map((it) => ({
-        meal_id: mealId,
-        food_id: it.food_id,
-        name: it.name,
-        quantity: it.quantity,
-        unit: it.unit,
-        calories: it.calories,
-        protein_g: it.protein_g,
-        carbs_g: it.carbs_g,
-        fat_g: it.fat_g,
-      }));
-
-      const ins = await supabase.schema("disciplined").from("meal_items").insert(payload);
-      if (ins.error) throw ins.error;
-
-      // recompute Eat completion (respects manual override)
-      await recomputePillar("eat");
+      if (!editable) throw new Error(`${date} is outside your back-fill window.`);
+
+      await logMealItems(
+        date,
+        mealType,
+        draftItems.map((it) => ({
+          food_id: it.food_id,
+          recipe_id: it.kind === "recipe" ? it.recipe_id : null,
+          name: it.name,
+          quantity: it.quantity,
+          amount: it.amount,
+          unit: it.unit,
+          calories: it.calories,
+          protein_g: it.protein_g,
+          carbs_g: it.carbs_g,
+          fat_g: it.fat_g,
+          ...pickMicros(it),
+        }))
+      );
     },
     onSuccess: async () => {
       setDraftItems([]);
       setMsg("Meal saved.");
 
-      await queryClient.invalidateQueries({ queryKey: ["eat-today", todayUtc] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-day", date] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-meal-types", date] });
       await queryClient.invalidateQueries({ queryKey: ["eat-history"] }); // keep history warm too
+      await queryClient.invalidateQueries({ queryKey: ["fasting-session"] }); // a meal ends a running fast
     },
     onError: (e: any) => setError(e?.message ?? "Failed to save meal."),
   });
 
-  async function deleteMealItem(itemId: string) {
+  // ---- Editing logged items (optimistic) ----
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [editAmount, setEditAmount] = useState("");
+  const [editType, setEditType] = useState<MealType>("lunch");
+
+  function startEditItem(it: MealItemRow, mealType: MealType) {
     setError(null);
     setMsg(null);
+    setEditingItemId(it.id);
+    setEditAmount(String(Math.round((it.amount ?? it.quantity) * 100) / 100));
+    setEditType(mealType);
+  }
 
-    // Find meal_id in cached state
-    const item = todayItems.find((x) => x.id === itemId);
-    const mealId = item?.meal_id;
+  const itemMutation = useMutation({
+    mutationFn: async (edit: ItemEdit) => {
+      if (!editable) throw new Error(`${date} is outside your back-fill window.`);
 
-    const del = await supabase.schema("disciplined").from("meal_items").delete().eq("id", itemId);
-    if (del.error) {
-      setError(del.error.message);
-      return;
-    }
+      if (edit.kind === "edit") {
+        if (edit.toType !== null) await moveMealItem(edit.item, date, edit.toType);
+        // moving within the day doesn't change Eat; a new amount does (and recomputes)
+        if (edit.amount !== null) await updateMealItemAmount(edit.item, edit.amount, date);
+      } else if (edit.kind === "delete") await deleteMealItem(edit.item, date);
+      else await deleteMeal(edit.mealId, date);
 
-    // If the meal has no items left, delete the meal row too
-    if (mealId) {
-      const check = await supabase
-        .schema("disciplined")
-        .from("meal_items")
-        .select("id")
-        .eq("meal_id", mealId)
-        .limit(1);
-
-      if (!check.error && (check.data?.length ?? 0) === 0) {
-        await supabase.schema("disciplined").from("meals").delete().eq("id", mealId);
-      }
+      return edit;
+    },
+    onMutate: async (edit) => {
+      setError(null);
+      setMsg(null);
+      setEditingItemId(null);
+
+      await queryClient.cancelQueries({ queryKey: ["eat-day", date] });
+      const previous = queryClient.getQueryData<EatDay>(["eat-day", date]);
+      if (previous) queryClient.setQueryData<EatDay>(["eat-day", date], applyItemEdit(previous, edit, date));
+
+      return { previous };
+    },
+    onError: (e: unknown, _edit, context) => {
+      if (context?.previous) queryClient.setQueryData(["eat-day", date], context.previous);
+      setError(e instanceof Error ? e.message : "Failed to update meal.");
+    },
+    onSuccess: (edit) => {
+      setMsg(
+        edit.kind === "edit"
+          ? edit.toType
+            ? `Item moved to ${edit.toType}.`
+            : "Item updated."
+          : edit.kind === "delete"
+            ? "Item deleted."
+            : "Meal deleted."
+      );
+    },
+    onSettled: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["eat-day", date] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-meal-types", date] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-history"] });
+    },
+  });
+
+  function saveItemEdit(it: MealItemRow, currentType: MealType) {
+    const amount = Number(editAmount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError("Quantity must be a number greater than 0.");
+      return;
     }
 
-    await recomputePillar("eat");
+    const changedAmount = amount !== (it.amount ?? it.quantity) ? amount : null;
+    const toType = editType !== currentType ? editType : null;
 
-    await queryClient.invalidateQueries({ queryKey: ["eat-today", todayUtc] });
-    await queryClient.invalidateQueries({ queryKey: ["eat-history"] });
+    if (changedAmount === null && toType === null) {
+      setEditingItemId(null);
+      return;
+    }
 
-    setMsg("Item deleted.");
+    itemMutation.mutate({ kind: "edit", item: it, amount: changedAmount, toType });
   }
 
-  const busy =
-    createFoodMutation.isPending || saveMealMutation.isPending || foodsRefreshing || todayRefreshing;
-
   return (
     <div className="space-y-6">
       <div className="flex items-start justify-between gap-3">
         <h1 className="text-2xl font-semibold">Eat</h1>
 
-        <Link
-          href="/eat/history"
-          className="border rounded-xl px-4 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
-        >
-          History
-        </Link>
+        <div className="flex gap-2">
+          <Link
+            href="/eat/foods"
+            className="border rounded-xl px-4 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            Foods
+          </Link>
+          <Link
+            href="/eat/history"
+            className="border rounded-xl px-4 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            History
+          </Link>
+        </div>
       </div>
 
+      <DayPicker date={date} today={today} editable={editable} onChange={setDate} />
+
       <FastingCard />
 
       {error && <div className="text-sm text-red-600">{error}</div>}
       {msg && <div className="text-sm">{msg}</div>}
 
+      {/* Templates / copy yesterday -> one-tap logging */}
+      <QuickLogCard date={date} isToday={isToday} editable={editable} />
+
+      {/* Barcode scan / catalog search -> saved foods */}
+      <FoodImportCard onImported={setSelectedFoodId} />
+
       {/* Create food */}
       <div className="border rounded-xl p-4 space-y-3">
         <div className="font-semibold">Saved foods (reusable)</div>
@@ -481,15 +699,105 @@ export default function EatPage() {
             </div>
           </div>
 
-          <div className="space-y-1">
-            <label className="text-sm">Serving size text (optional)</label>
-            <input
-              className="w-full border rounded px-3 py-2 bg-transparent"
-              placeholder='e.g. "1 cup" or "100g"'
-              value={foodServing}
-              onChange={(e) => setFoodServing(e.target.value)}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label className="text-sm">Serving amount</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={servingAmount}
+                onChange={(e) => setServingAmount(e.target.value)}
+                inputMode="decimal"
+                disabled={createFoodMutation.isPending}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">Unit</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={servingUnit}
+                onChange={(e) => setServingUnit(e.target.value)}
+                list="eat-serving-units"
+                disabled={createFoodMutation.isPending}
+              />
+            </div>
+            {unitKind(normalizeUnit(servingUnit)) !== "mass" ? (
+              <div className="space-y-1">
+                <label className="text-sm">Weighs (g, optional)</label>
+                <input
+                  className="w-full border rounded px-3 py-2 bg-transparent"
+                  value={servingGrams}
+                  onChange={(e) => setServingGrams(e.target.value)}
+                  inputMode="decimal"
+                  disabled={createFoodMutation.isPending}
+                />
+              </div>
+            ) : null}
+          </div>
+
+          <datalist id="eat-serving-units">
+            {COMMON_UNITS.map((u) => (
+              <option key={u} value={u} />
+            ))}
+          </datalist>
+
+          <div className="space-y-2">
+            <div className="text-xs opacity-70">
+              Macros below are per one serving. Alternate servings let you log it another way, e.g. 1 cup = 240 g.
+            </div>
+
+            {altServings.map((a, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <input
+                  className="w-20 border rounded px-3 py-2 bg-transparent"
+                  value={a.amount}
+                  onChange={(e) =>
+                    setAltServings((prev) => prev.map((x, i) => (i === idx ? { ...x, amount: e.target.value } : x)))
+                  }
+                  inputMode="decimal"
+                  placeholder="1"
+                  disabled={createFoodMutation.isPending}
+                />
+                <input
+                  className="w-28 border rounded px-3 py-2 bg-transparent"
+                  value={a.unit}
+                  onChange={(e) =>
+                    setAltServings((prev) => prev.map((x, i) => (i === idx ? { ...x, unit: e.target.value } : x)))
+                  }
+                  list="eat-serving-units"
+                  placeholder="cup"
+                  disabled={createFoodMutation.isPending}
+                />
+                <span className="text-sm">=</span>
+                <input
+                  className="w-24 border rounded px-3 py-2 bg-transparent"
+                  value={a.grams}
+                  onChange={(e) =>
+                    setAltServings((prev) => prev.map((x, i) => (i === idx ? { ...x, grams: e.target.value } : x)))
+                  }
+                  inputMode="decimal"
+                  placeholder="240"
+                  disabled={createFoodMutation.isPending}
+                />
+                <span className="text-sm">g</span>
+                <button
+                  type="button"
+                  className="text-sm underline"
+                  onClick={() => setAltServings((prev) => prev.filter((_, i) => i !== idx))}
+                  disabled={createFoodMutation.isPending}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              className="text-sm underline"
+              onClick={() => setAltServings((prev) => [...prev, { amount: "1", unit: "", grams: "" }])}
               disabled={createFoodMutation.isPending}
-            />
+            >
+              + Alternate serving
+            </button>
           </div>
 
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
@@ -535,6 +843,8 @@ export default function EatPage() {
             </div>
           </div>
 
+          <MicroInputs value={foodMicros} onChange={setFoodMicros} disabled={createFoodMutation.isPending} />
+
           <button
             className="border rounded-lg px-4 py-2 font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
             disabled={createFoodMutation.isPending}
@@ -617,22 +927,39 @@ export default function EatPage() {
 
               <div className="space-y-1">
                 <label className="text-sm">Qty</label>
-                <input
-                  className="w-full border rounded px-3 py-2 bg-transparent"
-                  value={savedQty}
-                  onChange={(e) => setSavedQty(e.target.value)}
-                  inputMode="decimal"
-                  disabled={saveMealMutation.isPending}
-                />
+                <div className="flex gap-2">
+                  <input
+                    className="w-full min-w-0 border rounded px-3 py-2 bg-transparent"
+                    value={savedQty}
+                    onChange={(e) => setSavedQty(e.target.value)}
+                    inputMode="decimal"
+                    disabled={saveMealMutation.isPending}
+                  />
+                  <select
+                    className="border rounded px-2 py-2 bg-transparent"
+                    value={entryUnit}
+                    onChange={(e) => setSavedUnit(e.target.value)}
+                    disabled={saveMealMutation.isPending || !selectedFood}
+                  >
+                    {(selectedUnits.length ? selectedUnits : ["serving"]).map((u) => (
+                      <option key={u} value={u}>
+                        {u.replace("_", " ")}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="sm:col-span-3 flex items-center justify-between gap-3">
                 <div className="text-xs opacity-70">
                   {selectedFood ? (
                     <>
-                      Per {selectedFood.serving_size ?? "serving"}: {selectedFood.calories ?? 0} cal · P{" "}
+                      Per {selectedServing ? formatServing(selectedServing) : "serving"}: {selectedFood.calories ?? 0} cal · P{" "}
                       {selectedFood.protein_g ?? 0}g · C {selectedFood.carbs_g ?? 0}g · F{" "}
                       {selectedFood.fat_g ?? 0}g
+                      {savedServings !== null && entryUnit !== selectedServing?.unit ? (
+                        <> · {formatAmount(Number(savedQty), entryUnit)} = {Math.round(n(selectedFood.calories) * savedServings)} cal</>
+                      ) : null}
                     </>
                   ) : (
                     "Pick a food to preview macros."
@@ -652,6 +979,73 @@ export default function EatPage() {
           )}
         </div>
 
+        <div className="border rounded-xl p-3 space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <div className="font-medium">Add a recipe</div>
+            <Link href="/eat/recipes" className="text-sm underline">
+              Manage recipes
+            </Link>
+          </div>
+
+          {recipesQuery.isLoading ? (
+            <div className="text-sm opacity-70">Loading recipes…</div>
+          ) : recipes.length === 0 ? (
+            <div className="text-sm opacity-70">No recipes yet.</div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+              <div className="space-y-1 sm:col-span-2">
+                <label className="text-sm">Recipe</label>
+                <select
+                  className="w-full border rounded px-3 py-2 bg-transparent"
+                  value={selectedRecipeId}
+                  onChange={(e) => setSelectedRecipeId(e.target.value)}
+                  disabled={saveMealMutation.isPending}
+                >
+                  <option value="">Select a recipe…</option>
+                  {recipes.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {r.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-1">
+                <label className="text-sm">Servings</label>
+                <input
+                  className="w-full border rounded px-3 py-2 bg-transparent"
+                  value={recipeServings}
+                  onChange={(e) => setRecipeServings(e.target.value)}
+                  inputMode="decimal"
+                  disabled={saveMealMutation.isPending}
+                />
+              </div>
+
+              <div className="sm:col-span-3 flex items-center justify-between gap-3">
+                <div className="text-xs opacity-70">
+                  {selectedRecipe ? (
+                    <>
+                      Per serving: {Math.round(n(selectedRecipe.calories))} cal · P {n(selectedRecipe.protein_g)}g · C{" "}
+                      {n(selectedRecipe.carbs_g)}g · F {n(selectedRecipe.fat_g)}g
+                    </>
+                  ) : (
+                    "Pick a recipe to preview macros."
+                  )}
+                </div>
+
+                <button
+                  type="button"
+                  className="border rounded-lg px-4 py-2 font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                  onClick={addRecipeToMeal}
+                  disabled={saveMealMutation.isPending}
+                >
+                  Add item
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="border rounded-xl p-3 space-y-2">
           <div className="font-medium">Add custom item (one-off)</div>
 
@@ -758,7 +1152,7 @@ export default function EatPage() {
                       {it.name} <span className="text-xs opacity-70">({it.kind})</span>
                     </div>
                     <div className="text-sm opacity-70">
-                      Qty: {it.quantity} {it.unit} · {Math.round(n(it.calories) * n(it.quantity))} cal ·
+                      Qty: {formatAmount(it.amount, it.unit)} · {Math.round(n(it.calories) * n(it.quantity))} cal ·
                       P {(n(it.protein_g) * n(it.quantity)).toFixed(1)}g · C{" "}
                       {(n(it.carbs_g) * n(it.quantity)).toFixed(1)}g · F{" "}
                       {(n(it.fat_g) * n(it.quantity)).toFixed(1)}g
@@ -793,40 +1187,57 @@ export default function EatPage() {
             type="button"
             className="border rounded-lg px-4 py-2 font-semibold hover:bg-zinc-50 dark:hover:bg-zinc-900"
             onClick={() => saveMealMutation.mutate()}
-            disabled={saveMealMutation.isPending || draftItems.length === 0}
+            disabled={saveMealMutation.isPending || draftItems.length === 0 || !editable}
           >
             {saveMealMutation.isPending ? "Saving…" : "Save meal"}
           </button>
         </div>
       </div>
 
-      {/* Today summary */}
+      {/* Water */}
+      <WaterCard date={date} editable={editable} />
+
+      {/* Day summary */}
       <div className="border rounded-xl p-4 space-y-3">
         <div className="flex items-center justify-between gap-3">
           <div>
-            <div className="font-semibold">Today’s meals</div>
+            <div className="font-semibold">{isToday ? "Today’s meals" : `Meals on ${date}`}</div>
             <div className="text-sm opacity-70">
               Totals: {Math.round(dayTotals.calories)} cal · P {dayTotals.protein.toFixed(1)}g · C{" "}
               {dayTotals.carbs.toFixed(1)}g · F {dayTotals.fat.toFixed(1)}g
+              {dayTargets?.trainingDay ? " · training-day targets" : ""}
             </div>
+            {hasAnyMicro(dayMicros) ? <div className="text-xs opacity-70">{formatMicros(dayMicros)}</div> : null}
           </div>
 
           <button
             className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
-            onClick={() => todayQuery.refetch()}
-            disabled={loadingToday || todayRefreshing}
+            onClick={() => dayQuery.refetch()}
+            disabled={loadingDay || dayRefreshing}
           >
-            {todayRefreshing ? "Refreshing…" : "Refresh"}
+            {dayRefreshing ? "Refreshing…" : "Refresh"}
           </button>
         </div>
 
-        {loadingToday ? (
+        {dayTargets ? (
+          <MacroRings totals={dayTotals} targets={dayTargets.targets} />
+        ) : targetsQuery.isSuccess ? (
+          <div className="text-xs opacity-70">
+            Set daily calorie and macro targets in{" "}
+            <Link href="/settings" className="underline">
+              Settings
+            </Link>{" "}
+            to track progress here.
+          </div>
+        ) : null}
+
+        {loadingDay ? (
           <div className="text-sm opacity-70">Loading…</div>
-        ) : todayMeals.length === 0 ? (
-          <div className="text-sm opacity-70">No meals logged today yet.</div>
+        ) : dayMeals.length === 0 ? (
+          <div className="text-sm opacity-70">{isToday ? "No meals logged today yet." : "No meals logged that day."}</div>
         ) : (
           <div className="space-y-3">
-            {todayMeals.map((m) => {
+            {dayMeals.map((m) => {
               const items = itemsByMeal.get(m.id) ?? [];
               const totals = sumMacroItems(items);
 
@@ -841,38 +1252,107 @@ export default function EatPage() {
                         {totals.fat.toFixed(1)}g
                       </div>
                     </div>
+
+                    {items.length > 0 ? (
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <SaveMealTemplate
+                          mealId={m.id}
+                          mealType={m.meal_type}
+                          defaultName={`${m.meal_type[0].toUpperCase()}${m.meal_type.slice(1)} · ${m.meal_date}`}
+                        />
+                        <button
+                          className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                          type="button"
+                          onClick={() => itemMutation.mutate({ kind: "delete-meal", mealId: m.id })}
+                          disabled={itemMutation.isPending || !editable || m.id.startsWith("pending-")}
+                        >
+                          Delete meal
+                        </button>
+                      </div>
+                    ) : null}
                   </div>
 
                   {items.length === 0 ? (
                     <div className="text-sm opacity-70">No items.</div>
                   ) : (
                     <div className="space-y-2">
-                      {items.map((it) => (
-                        <div
-                          key={it.id}
-                          className="border rounded-xl p-3 flex items-start justify-between gap-3"
-                        >
-                          <div className="min-w-0">
+                      {items.map((it) =>
+                        editingItemId === it.id ? (
+                          <div key={it.id} className="border rounded-xl p-3 space-y-2">
                             <div className="font-medium">{it.name}</div>
-                            <div className="text-sm opacity-70">
-                              Qty: {it.quantity} {it.unit ?? ""} ·{" "}
-                              {Math.round(n(it.calories) * n(it.quantity))} cal · P{" "}
-                              {(n(it.protein_g) * n(it.quantity)).toFixed(1)}g · C{" "}
-                              {(n(it.carbs_g) * n(it.quantity)).toFixed(1)}g · F{" "}
-                              {(n(it.fat_g) * n(it.quantity)).toFixed(1)}g
+                            <div className="flex flex-wrap items-center gap-2">
+                              <input
+                                className="w-24 border rounded px-3 py-2 bg-transparent"
+                                value={editAmount}
+                                onChange={(e) => setEditAmount(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") saveItemEdit(it, m.meal_type);
+                                }}
+                                inputMode="decimal"
+                                autoFocus
+                              />
+                              <span className="text-sm">{(it.unit ?? "serving").replace("_", " ")}</span>
+                              <select
+                                className="border rounded px-3 py-2 bg-transparent"
+                                value={editType}
+                                onChange={(e) => setEditType(e.target.value as MealType)}
+                              >
+                                {MEAL_TYPES.map((t) => (
+                                  <option key={t} value={t}>
+                                    {t[0].toUpperCase()}
+                                    {t.slice(1)}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                className="border rounded-lg px-3 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                                type="button"
+                                onClick={() => saveItemEdit(it, m.meal_type)}
+                              >
+                                Save
+                              </button>
+                              <button className="text-sm underline" type="button" onClick={() => setEditingItemId(null)}>
+                                Cancel
+                              </button>
                             </div>
                           </div>
-
-                          <button
-                            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
-                            type="button"
-                            onClick={() => deleteMealItem(it.id)}
-                            disabled={busy}
+                        ) : (
+                          <div
+                            key={it.id}
+                            className="border rounded-xl p-3 flex items-start justify-between gap-3"
                           >
-                            Delete
-                          </button>
-                        </div>
-                      ))}
+                            <div className="min-w-0">
+                              <div className="font-medium">{it.name}</div>
+                              <div className="text-sm opacity-70">
+                                Qty: {formatAmount(it.amount ?? it.quantity, it.unit ?? "")} ·{" "}
+                                {Math.round(n(it.calories) * n(it.quantity))} cal · P{" "}
+                                {(n(it.protein_g) * n(it.quantity)).toFixed(1)}g · C{" "}
+                                {(n(it.carbs_g) * n(it.quantity)).toFixed(1)}g · F{" "}
+                                {(n(it.fat_g) * n(it.quantity)).toFixed(1)}g
+                              </div>
+                            </div>
+
+                            <div className="flex gap-2 shrink-0">
+                              <button
+                                className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                                type="button"
+                                onClick={() => startEditItem(it, m.meal_type)}
+                                disabled={itemMutation.isPending || !editable || m.id.startsWith("pending-")}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                                type="button"
+                                onClick={() => itemMutation.mutate({ kind: "delete", item: it })}
+                                disabled={itemMutation.isPending || !editable || m.id.startsWith("pending-")}
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </div>
+                        )
+                      )}
                     </div>
                   )}
                 </div>
@@ -881,14 +1361,13 @@ export default function EatPage() {
           </div>
         )}
 
-        {todayRefreshing && !loadingToday ? (
+        {dayRefreshing && !loadingDay ? (
           <div className="text-xs opacity-60">Updating in background…</div>
         ) : null}
       </div>
 
       <div className="text-xs opacity-70">
-        Next: Fasting windows (default 16/8 + custom that must sum to 24), then free barcode scanning options (no paid
-        APIs).
+        Next: Fasting windows (default 16/8 + custom that must sum to 24).
       </div>
     </div>
   );
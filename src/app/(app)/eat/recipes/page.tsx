@@ -0,0 +1,430 @@
+// src/app/(app)/eat/recipes/page.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchFoods } from "@/lib/foods";
+import { todayLocalISO } from "@/lib/localDay";
+import { entryUnits, formatAmount, servingDefFor, servingsMultiplier } from "@/lib/servings";
+import {
+  applyRecipeToLogs,
+  getRecipeItems,
+  listRecipes,
+  recipeMacrosPerServing,
+  recipeMicrosPerServing,
+  saveRecipe,
+  setRecipeArchived,
+  type Recipe,
+  type RecipeItemInput,
+} from "@/lib/recipes";
+
+type Draft = {
+  id: string | null;
+  name: string;
+  yieldServings: string;
+  notes: string;
+  items: RecipeItemInput[];
+};
+
+const EMPTY_DRAFT: Draft = { id: null, name: "", yieldServings: "4", notes: "", items: [] };
+
+function fmt(v: number | null | undefined) {
+  return Math.round((v ?? 0) * 10) / 10;
+}
+
+export default function RecipesPage() {
+  const queryClient = useQueryClient();
+
+  const [error, setError] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const foodsQuery = useQuery({ queryKey: ["foods"], queryFn: fetchFoods, staleTime: 5 * 60_000 });
+  const recipesQuery = useQuery({ queryKey: ["recipes"], queryFn: () => listRecipes(), staleTime: 60_000 });
+
+  const foods = useMemo(() => foodsQuery.data ?? [], [foodsQuery.data]);
+  const recipes = recipesQuery.data ?? [];
+  const foodsById = useMemo(() => new Map(foods.map((f) => [f.id, f])), [foods]);
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loadingRecipeId, setLoadingRecipeId] = useState<string | null>(null);
+
+  // update already-logged meals from this date on (editing only)
+  const [propagate, setPropagate] = useState(false);
+  const [propagateFrom, setPropagateFrom] = useState(() => todayLocalISO());
+
+  // add-food controls
+  const [foodId, setFoodId] = useState("");
+  const [amount, setAmount] = useState("1");
+  const [unit, setUnit] = useState("");
+
+  const pickedFood = foodsById.get(foodId) ?? null;
+  const pickedServing = useMemo(() => (pickedFood ? servingDefFor(pickedFood) : null), [pickedFood]);
+  const pickedUnits = useMemo(() => (pickedServing ? entryUnits(pickedServing) : []), [pickedServing]);
+  const entryUnit = pickedUnits.includes(unit) ? unit : (pickedServing?.unit ?? "serving");
+
+  const yieldServings = Number(draft?.yieldServings);
+  const perServing = useMemo(
+    () => (draft ? recipeMacrosPerServing(draft.items, foods, yieldServings) : null),
+    [draft, foods, yieldServings]
+  );
+
+  function startNew() {
+    setError(null);
+    setMsg(null);
+    setPropagate(false);
+    setDraft({ ...EMPTY_DRAFT });
+  }
+
+  async function startEdit(recipe: Recipe) {
+    setError(null);
+    setMsg(null);
+    setLoadingRecipeId(recipe.id);
+    try {
+      const items = await getRecipeItems(recipe.id);
+      setPropagate(false);
+      setPropagateFrom(todayLocalISO());
+      setDraft({
+        id: recipe.id,
+        name: recipe.name,
+        yieldServings: String(recipe.yield_servings),
+        notes: recipe.notes ?? "",
+        items: items.map(({ food_id, amount, unit, quantity }) => ({ food_id, amount, unit, quantity })),
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load recipe.");
+    } finally {
+      setLoadingRecipeId(null);
+    }
+  }
+
+  function addItem() {
+    setError(null);
+    if (!draft || !pickedFood || !pickedServing) {
+      setError("Pick a food first.");
+      return;
+    }
+
+    const a = Number(amount);
+    const quantity = servingsMultiplier(pickedServing, a, entryUnit);
+    if (quantity === null) {
+      setError("Amount must be a number greater than 0.");
+      return;
+    }
+
+    setDraft({ ...draft, items: [...draft.items, { food_id: pickedFood.id, amount: a, unit: entryUnit, quantity }] });
+    setAmount("1");
+  }
+
+  function removeItem(index: number) {
+    if (!draft) return;
+    setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) });
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft) return;
+      setError(null);
+      setMsg(null);
+
+      const id = await saveRecipe({
+        id: draft.id ?? undefined,
+        name: draft.name,
+        yield_servings: yieldServings,
+        notes: draft.notes,
+        items: draft.items,
+      });
+
+      let updated = 0;
+      if (draft.id && propagate && perServing) {
+        const existing = recipes.find((r) => r.id === draft.id);
+        if (existing) {
+          const micros = recipeMicrosPerServing(draft.items, foods, yieldServings);
+          updated = await applyRecipeToLogs(
+            { ...existing, id, name: draft.name.trim(), ...perServing, ...micros },
+            propagateFrom
+          );
+        }
+      }
+
+      return { updated };
+    },
+    onSuccess: async (res) => {
+      setDraft(null);
+      setMsg(res?.updated ? `Recipe saved · ${res.updated} logged item(s) updated.` : "Recipe saved.");
+
+      await queryClient.invalidateQueries({ queryKey: ["recipes"] });
+      if (res?.updated) {
+        await queryClient.invalidateQueries({ queryKey: ["eat-day"] });
+        await queryClient.invalidateQueries({ queryKey: ["eat-history"] });
+      }
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to save recipe."),
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (recipe: Recipe) => {
+      setError(null);
+      setMsg(null);
+      await setRecipeArchived(recipe.id, true);
+    },
+    onSuccess: async () => {
+      setDraft(null);
+      setMsg("Recipe archived. Meals already logged from it keep their macros.");
+      await queryClient.invalidateQueries({ queryKey: ["recipes"] });
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to archive recipe."),
+  });
+
+  const busy = saveMutation.isPending || archiveMutation.isPending;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Recipes</h1>
+          <div className="text-sm opacity-70 mt-1">
+            Batch meals built from your saved foods. Log them on Eat by the serving.
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Link
+            href="/eat"
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            Back
+          </Link>
+
+          <button
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={startNew}
+            disabled={busy}
+          >
+            New recipe
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {msg && <div className="text-sm">{msg}</div>}
+
+      {draft ? (
+        <div className="border rounded-2xl p-5 space-y-4">
+          <div className="font-semibold">{draft.id ? "Edit recipe" : "New recipe"}</div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div className="space-y-1 sm:col-span-2">
+              <label className="text-sm">Name</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Chili"
+                disabled={busy}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm">Yield (servings)</label>
+              <input
+                className="w-full border rounded px-3 py-2 bg-transparent"
+                value={draft.yieldServings}
+                onChange={(e) => setDraft({ ...draft, yieldServings: e.target.value })}
+                inputMode="decimal"
+                disabled={busy}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm">Notes (optional)</label>
+            <textarea
+              className="w-full border rounded px-3 py-2 bg-transparent"
+              rows={2}
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              disabled={busy}
+            />
+          </div>
+
+          <div className="border rounded-xl p-3 space-y-2">
+            <div className="font-medium">Ingredients</div>
+
+            {foods.length === 0 ? (
+              <div className="text-sm opacity-70">Save some foods on Eat first.</div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+                <div className="space-y-1 sm:col-span-2">
+                  <label className="text-sm">Food</label>
+                  <select
+                    className="w-full border rounded px-3 py-2 bg-transparent"
+                    value={foodId}
+                    onChange={(e) => setFoodId(e.target.value)}
+                    disabled={busy}
+                  >
+                    <option value="">Select a food…</option>
+                    {foods.map((x) => (
+                      <option key={x.id} value={x.id}>
+                        {x.name}
+                        {x.brand ? ` (${x.brand})` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-sm">Amount</label>
+                  <div className="flex gap-2">
+                    <input
+                      className="w-full min-w-0 border rounded px-3 py-2 bg-transparent"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      inputMode="decimal"
+                      disabled={busy}
+                    />
+                    <select
+                      className="border rounded px-2 py-2 bg-transparent"
+                      value={entryUnit}
+                      onChange={(e) => setUnit(e.target.value)}
+                      disabled={busy || !pickedFood}
+                    >
+                      {(pickedUnits.length ? pickedUnits : ["serving"]).map((u) => (
+                        <option key={u} value={u}>
+                          {u.replace("_", " ")}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  className="border rounded-lg px-4 py-2 font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                  onClick={addItem}
+                  disabled={busy}
+                >
+                  Add
+                </button>
+              </div>
+            )}
+
+            {draft.items.length === 0 ? (
+              <div className="text-sm opacity-70">No ingredients yet.</div>
+            ) : (
+              <div className="space-y-2">
+                {draft.items.map((it, idx) => {
+                  const food = foodsById.get(it.food_id);
+                  return (
+                    <div key={`${it.food_id}-${idx}`} className="flex items-start justify-between gap-3 border rounded-lg p-3">
+                      <div>
+                        <div className="font-medium">{food?.name ?? "Deleted food"}</div>
+                        <div className="text-xs opacity-70">
+                          {formatAmount(it.amount, it.unit)} · {Math.round((food?.calories ?? 0) * it.quantity)} cal
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        className="text-sm underline"
+                        onClick={() => removeItem(idx)}
+                        disabled={busy}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {perServing ? (
+            <div className="text-sm">
+              Per serving: {Math.round(perServing.calories ?? 0)} cal · P {fmt(perServing.protein_g)}g · C{" "}
+              {fmt(perServing.carbs_g)}g · F {fmt(perServing.fat_g)}g
+            </div>
+          ) : null}
+
+          {draft.id ? (
+            <label className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={propagate}
+                onChange={(e) => setPropagate(e.target.checked)}
+                disabled={busy}
+              />
+              Also update meals already logged from
+              <input
+                type="date"
+                className="border rounded px-2 py-1 bg-transparent"
+                value={propagateFrom}
+                onChange={(e) => setPropagateFrom(e.target.value)}
+                disabled={busy || !propagate}
+              />
+              on
+            </label>
+          ) : null}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="border rounded-lg px-4 py-2 font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() => saveMutation.mutate()}
+              disabled={busy}
+            >
+              {saveMutation.isPending ? "Saving…" : "Save recipe"}
+            </button>
+            <button
+              type="button"
+              className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() => setDraft(null)}
+              disabled={busy}
+            >
+              Cancel
+            </button>
+            {draft.id ? (
+              <button
+                type="button"
+                className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                onClick={() => {
+                  const recipe = recipes.find((r) => r.id === draft.id);
+                  if (recipe) archiveMutation.mutate(recipe);
+                }}
+                disabled={busy}
+              >
+                Archive
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {recipesQuery.isLoading ? (
+        <div className="text-sm opacity-70">Loading…</div>
+      ) : recipes.length === 0 ? (
+        <div className="border rounded-2xl p-6 text-sm opacity-70">No recipes yet.</div>
+      ) : (
+        <div className="space-y-2">
+          {recipes.map((r) => (
+            <div key={r.id} className="border rounded-xl p-4 flex items-start justify-between gap-3">
+              <div>
+                <div className="font-medium">{r.name}</div>
+                <div className="text-xs opacity-70">
+                  Makes {fmt(r.yield_servings)} serving(s) · per serving {Math.round(r.calories ?? 0)} cal · P{" "}
+                  {fmt(r.protein_g)}g · C {fmt(r.carbs_g)}g · F {fmt(r.fat_g)}g
+                </div>
+              </div>
+              <button
+                type="button"
+                className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                onClick={() => startEdit(r)}
+                disabled={busy || loadingRecipeId === r.id}
+              >
+                {loadingRecipeId === r.id ? "Loading…" : "Edit"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
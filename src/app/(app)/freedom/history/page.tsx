@@ -5,6 +5,7 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import HistoryShell from "@/components/history/HistoryShell";
+import { todayLocalISO } from "@/lib/localDay";
 
 type FreedomEntry = {
   id: string;
@@ -30,7 +31,7 @@ export default function FreedomHistoryPage() {
   const [rows, setRows] = useState<FreedomEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
 
-  const todayUtc = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const today = useMemo(() => todayLocalISO(), []);
 
   async function load() {
     setLoading(true);
@@ -99,7 +100,7 @@ export default function FreedomHistoryPage() {
       ) : (
         <div className="space-y-3">
           {rows.map((r) => {
-            const isToday = r.entry_date === todayUtc;
+            const isToday = r.entry_date === today;
             const actionLabel = r.action_type === "custom" ? r.custom_action || "Custom" : r.action_type;
 
             return (
@@ -5,6 +5,9 @@ import { useMemo, useState } from "react";
 import Link from "next/link";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
+import DayPicker from "@/components/day/DayPicker";
+import { useSelectedDay } from "@/lib/useSelectedDay";
+import { recomputePillar } from "@/lib/recomputePillar";
 
 type FreedomEntry = {
   id: string;
@@ -17,10 +20,6 @@ type FreedomEntry = {
   updated_at: string;
 };
 
-function todayISODateUTC() {
-  return new Date().toISOString().slice(0, 10);
-}
-
 async function getUserId(): Promise<string> {
   const { data, error } = await supabase.auth.getUser();
   if (error) throw error;
@@ -29,58 +28,7 @@ async function getUserId(): Promise<string> {
   return uid;
 }
 
-async function ensureDailyEntry(uid: string, todayUtc: string): Promise<string> {
-  // ✅ Atomic create-or-get
-  const upserted = await supabase
-    .schema("disciplined")
-    .from("daily_entries")
-    .upsert({ user_id: uid, entry_date: todayUtc }, { onConflict: "user_id,entry_date" })
-    .select("id")
-    .single<{ id: string }>();
-
-  if (upserted.error) throw upserted.error;
-  return upserted.data.id;
-}
-
-async function markFreedomComplete(uid: string, todayUtc: string, completed: boolean) {
-  const entryId = await ensureDailyEntry(uid, todayUtc);
-
-  // seed row without overwrite
-  const seed = await supabase
-    .schema("disciplined")
-    .from("daily_pillars")
-    .upsert(
-      [
-        {
-          entry_id: entryId,
-          pillar: "freedom",
-          completed: false,
-          completed_at: null,
-          source: null,
-        },
-      ],
-      { onConflict: "entry_id,pillar", ignoreDuplicates: true }
-    );
-
-  if (seed.error) throw seed.error;
-
-  const upd = await supabase
-    .schema("disciplined")
-    .from("daily_pillars")
-    .update({
-      completed,
-      completed_at: completed ? new Date().toISOString() : null,
-      source: "auto",
-    })
-    .eq("entry_id", entryId)
-    .eq("pillar", "freedom");
-
-  if (upd.error) throw upd.error;
-
-  window.dispatchEvent(new Event("dl:pillar-updated"));
-}
-
-async function fetchFreedomToday(todayUtc: string): Promise<FreedomEntry | null> {
+async function fetchFreedomDay(date: string): Promise<FreedomEntry | null> {
   const uid = await getUserId();
 
   const { data, error } = await supabase
@@ -88,7 +36,7 @@ async function fetchFreedomToday(todayUtc: string): Promise<FreedomEntry | null>
     .from("freedom_entries")
     .select("id,user_id,entry_date,action_type,custom_action,notes,created_at,updated_at")
     .eq("user_id", uid)
-    .eq("entry_date", todayUtc)
+    .eq("entry_date", date)
     .maybeSingle<FreedomEntry>();
 
   if (error) throw error;
@@ -97,22 +45,32 @@ async function fetchFreedomToday(todayUtc: string): Promise<FreedomEntry | null>
 
 export default function FreedomPage() {
   const queryClient = useQueryClient();
-  const todayUtc = useMemo(() => todayISODateUTC(), []);
+  const { date, today, isToday, editable, setDate } = useSelectedDay();
 
   const [mode, setMode] = useState<"edit" | "view">("edit");
   const [actionType, setActionType] = useState<string>("avoid_trigger");
   const [customAction, setCustomAction] = useState<string>("");
   const [notes, setNotes] = useState<string>("");
   const [msg, setMsg] = useState<string | null>(null);
+  const [formDate, setFormDate] = useState(date);
 
   const freedomQuery = useQuery({
-    queryKey: ["freedom-today", todayUtc],
-    queryFn: () => fetchFreedomToday(todayUtc),
+    queryKey: ["freedom-day", date],
+    queryFn: () => fetchFreedomDay(date),
     staleTime: 30_000,
   });
 
   const saved = freedomQuery.data ?? null;
 
+  // switching days starts from a clean form
+  if (formDate !== date) {
+    setFormDate(date);
+    setActionType("avoid_trigger");
+    setCustomAction("");
+    setNotes("");
+    setMsg(null);
+  }
+
   const actionLabel = useMemo(() => {
     if (!saved) return "";
     return saved.action_type === "custom" ? saved.custom_action || "Custom" : saved.action_type;
@@ -125,7 +83,7 @@ export default function FreedomPage() {
 
       const entry = {
         user_id: uid,
-        entry_date: todayUtc,
+        entry_date: date,
         action_type: actionType,
         custom_action: actionType === "custom" ? (customAction.trim() || null) : null,
         notes: notes.trim() || null,
@@ -141,11 +99,11 @@ export default function FreedomPage() {
 
       if (error) throw error;
 
-      await markFreedomComplete(uid, todayUtc, true);
+      await recomputePillar("freedom", date);
       return data;
     },
     onSuccess: async () => {
-      await queryClient.invalidateQueries({ queryKey: ["freedom-today", todayUtc] });
+      await queryClient.invalidateQueries({ queryKey: ["freedom-day", date] });
       await queryClient.invalidateQueries({ queryKey: ["today"] });
 
       setMode("view");
@@ -164,35 +122,36 @@ export default function FreedomPage() {
         .from("freedom_entries")
         .delete()
         .eq("user_id", uid)
-        .eq("entry_date", todayUtc);
+        .eq("entry_date", date);
 
       if (error) throw error;
 
-      await markFreedomComplete(uid, todayUtc, false);
+      await recomputePillar("freedom", date);
       return true;
     },
     onSuccess: async () => {
-      await queryClient.invalidateQueries({ queryKey: ["freedom-today", todayUtc] });
+      await queryClient.invalidateQueries({ queryKey: ["freedom-day", date] });
       await queryClient.invalidateQueries({ queryKey: ["today"] });
 
       setMode("edit");
       setActionType("avoid_trigger");
       setCustomAction("");
       setNotes("");
-      setMsg("Cleared for today.");
+      setMsg(isToday ? "Cleared for today." : `Cleared ${date}.`);
     },
     onError: (e: any) => setMsg(e?.message ?? "Failed to clear."),
   });
 
   const loading = freedomQuery.isLoading;
   const busy = freedomQuery.isFetching || saveMutation.isPending || clearMutation.isPending;
+  const locked = !editable;
 
   return (
     <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
       <div className="flex items-start justify-between gap-4">
         <div>
           <h1 className="text-3xl font-semibold">Freedom</h1>
-          <div className="text-sm opacity-70 mt-1">Today (UTC): {todayUtc}</div>
+          <div className="text-sm opacity-70 mt-1">Today: {today}</div>
         </div>
 
         <div className="flex gap-2">
@@ -213,12 +172,16 @@ export default function FreedomPage() {
         </div>
       </div>
 
+      <DayPicker date={date} today={today} editable={editable} onChange={setDate} />
+
       <div className="border rounded-2xl p-6 space-y-5">
         {loading ? (
           <div className="text-sm opacity-70">Loading…</div>
         ) : saved && mode === "view" ? (
           <>
-            <div className="text-sm opacity-70">You have a saved Freedom entry for today.</div>
+            <div className="text-sm opacity-70">
+              You have a saved Freedom entry for {isToday ? "today" : date}.
+            </div>
 
             <div className="text-sm">
               <span className="opacity-70">Action:</span>{" "}
@@ -238,7 +201,7 @@ export default function FreedomPage() {
                   setNotes(saved.notes ?? "");
                   setMode("edit");
                 }}
-                disabled={busy}
+                disabled={busy || locked}
               >
                 Edit
               </button>
@@ -246,16 +209,16 @@ export default function FreedomPage() {
               <button
                 className="border rounded-xl px-5 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
                 onClick={() => clearMutation.mutate()}
-                disabled={busy}
+                disabled={busy || locked}
               >
-                {clearMutation.isPending ? "Clearing…" : "Clear today"}
+                {clearMutation.isPending ? "Clearing…" : isToday ? "Clear today" : "Clear day"}
               </button>
             </div>
           </>
         ) : (
           <>
             <div className="text-sm opacity-70">
-              Log what you did today for Freedom. Saving will mark Freedom complete on Today.
+              Log what you did {isToday ? "today" : `on ${date}`} for Freedom. Saving will mark Freedom complete on Today.
             </div>
 
             <div className="space-y-2">
@@ -264,7 +227,7 @@ export default function FreedomPage() {
                 className="w-full border rounded-xl px-4 py-3 bg-transparent"
                 value={actionType}
                 onChange={(e) => setActionType(e.target.value)}
-                disabled={loading || busy}
+                disabled={loading || busy || locked}
               >
                 <option value="avoid_trigger">Avoided a trigger</option>
                 <option value="accountability">Used accountability</option>
@@ -282,7 +245,7 @@ export default function FreedomPage() {
                   value={customAction}
                   onChange={(e) => setCustomAction(e.target.value)}
                   placeholder="Describe your action…"
-                  disabled={loading || busy}
+                  disabled={loading || busy || locked}
                 />
               </div>
             ) : null}
@@ -294,7 +257,7 @@ export default function FreedomPage() {
                 value={notes}
                 onChange={(e) => setNotes(e.target.value)}
                 placeholder="What happened, what you did, and what you’ll do next time…"
-                disabled={loading || busy}
+                disabled={loading || busy || locked}
               />
             </div>
 
@@ -302,7 +265,7 @@ export default function FreedomPage() {
               <button
                 className="border rounded-xl px-5 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
                 onClick={() => saveMutation.mutate()}
-                disabled={loading || busy}
+                disabled={loading || busy || locked}
               >
                 {saveMutation.isPending ? "Saving…" : "Save"}
               </button>
@@ -0,0 +1,222 @@
+// src/app/(app)/insights/page.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addDaysISO, todayLocalISO } from "@/lib/localDay";
+import { COMBINED_STREAK_KEY, type PillarKey } from "@/lib/pillarTypes";
+import {
+  fetchInsights,
+  heatmapWeeks,
+  indexInsights,
+  overallRate,
+  pillarCorrelations,
+  weakestWeekday,
+  weekdayBreakdown,
+  weeklyTrend,
+  WEEKDAY_NAMES,
+  type DayStatus,
+} from "@/lib/insights";
+
+// 52 full weeks + this week
+const RANGE_DAYS = 364;
+const TREND_WEEKS = 12;
+
+const CELL_CLASS: Record<DayStatus, string> = {
+  done: "bg-zinc-900 dark:bg-zinc-100",
+  missed: "border",
+  rest: "bg-zinc-200 dark:bg-zinc-700",
+  open: "border border-dashed",
+  untracked: "opacity-0",
+};
+
+const STATUS_LABEL: Record<DayStatus, string> = {
+  done: "complete",
+  missed: "missed",
+  rest: "rest day",
+  open: "in progress",
+  untracked: "not tracked",
+};
+
+export default function InsightsPage() {
+  const today = useMemo(() => todayLocalISO(), []);
+  const start = addDaysISO(today, -RANGE_DAYS);
+
+  const [selected, setSelected] = useState<PillarKey>(COMBINED_STREAK_KEY);
+
+  const insightsQuery = useQuery({
+    queryKey: ["insights", start, today],
+    queryFn: () => fetchInsights(start, today),
+    staleTime: 60_000,
+  });
+
+  const ix = useMemo(() => (insightsQuery.data ? indexInsights(insightsQuery.data) : null), [insightsQuery.data]);
+
+  const labelOf = (key: PillarKey) =>
+    key === COMBINED_STREAK_KEY ? "All pillars" : (ix?.data.catalog.find((p) => p.key === key)?.label ?? key);
+
+  const weeks = useMemo(() => (ix ? heatmapWeeks(ix, selected) : []), [ix, selected]);
+  const overall = useMemo(() => (ix ? overallRate(ix, selected) : null), [ix, selected]);
+  const trend = useMemo(() => (ix ? weeklyTrend(ix, selected).slice(-TREND_WEEKS) : []), [ix, selected]);
+  const weekdays = useMemo(() => (ix ? weekdayBreakdown(ix, selected) : []), [ix, selected]);
+  const weakest = useMemo(() => (ix ? weakestWeekday(ix, selected) : null), [ix, selected]);
+  const correlations = useMemo(() => (ix ? pillarCorrelations(ix) : []), [ix]);
+
+  const loading = insightsQuery.isLoading;
+  const error = insightsQuery.error instanceof Error ? insightsQuery.error.message : null;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Insights</h1>
+          <div className="text-sm opacity-70 mt-1">
+            The last 12 months · {start} → {today}
+          </div>
+        </div>
+
+        <button
+          className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          onClick={() => insightsQuery.refetch()}
+          disabled={insightsQuery.isFetching}
+        >
+          {insightsQuery.isFetching ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {loading || !ix ? (
+        <div className="text-sm opacity-70">Loading…</div>
+      ) : !ix.firstTracked ? (
+        <div className="border rounded-2xl p-6 text-sm opacity-70">No check-ins yet — come back after a few days.</div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {[COMBINED_STREAK_KEY, ...ix.data.catalog.map((p) => p.key)].map((key) => {
+              const pillar = ix.data.catalog.find((p) => p.key === key);
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setSelected(key)}
+                  className={[
+                    "border rounded-lg px-3 py-2 text-sm",
+                    key === selected
+                      ? "border-zinc-900 dark:border-zinc-100 font-medium"
+                      : "hover:bg-zinc-50 dark:hover:bg-zinc-900",
+                  ].join(" ")}
+                >
+                  {pillar ? `${pillar.emoji} ${pillar.label}` : "All pillars"}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Year heatmap */}
+          <section className="border rounded-2xl p-5 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="font-semibold">{labelOf(selected)}</div>
+              <div className="text-sm opacity-70">
+                {overall?.pct == null ? "—" : `${overall.pct}%`} complete · {overall?.done ?? 0}/{overall?.total ?? 0}{" "}
+                days
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <div className="flex gap-[3px]">
+                {weeks.map((week) => (
+                  <div key={week[0].date} className="grid grid-rows-7 gap-[3px]">
+                    {week.map((cell) => (
+                      <div
+                        key={cell.date}
+                        title={`${cell.date}: ${STATUS_LABEL[cell.status]}`}
+                        className={["w-3 h-3 rounded-sm", CELL_CLASS[cell.status]].join(" ")}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3 text-xs opacity-70">
+              {(["done", "missed", "rest", "open"] as DayStatus[]).map((s) => (
+                <div key={s} className="flex items-center gap-1">
+                  <span className={["inline-block w-3 h-3 rounded-sm", CELL_CLASS[s]].join(" ")} />
+                  {STATUS_LABEL[s]}
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Weekly trend */}
+          <section className="border rounded-2xl p-5 space-y-3">
+            <div className="font-semibold">Weekly completion</div>
+            {trend.length === 0 ? (
+              <div className="text-sm opacity-70">Not enough data yet.</div>
+            ) : (
+              <div className="flex items-end gap-2 h-32">
+                {trend.map((w) => (
+                  <div key={w.weekStart} className="flex-1 flex flex-col items-center justify-end gap-1 h-full">
+                    <div className="text-[10px] opacity-70">{w.pct}%</div>
+                    <div
+                      className="w-full rounded-t bg-zinc-900 dark:bg-zinc-100"
+                      style={{ height: `${Math.max(w.pct ?? 0, 2)}%` }}
+                      title={`Week of ${w.weekStart}: ${w.done}/${w.total} days`}
+                    />
+                    <div className="text-[10px] opacity-60">{w.weekStart.slice(5)}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Day of week */}
+          <section className="border rounded-2xl p-5 space-y-3">
+            <div className="font-semibold">By day of week</div>
+
+            {weakest ? (
+              <div className="text-sm">
+                You miss {labelOf(selected)} most on {WEEKDAY_NAMES[weakest.weekday]}s ({weakest.pct}% complete vs{" "}
+                {overall?.pct}% overall).
+              </div>
+            ) : null}
+
+            <div className="space-y-1">
+              {weekdays.map((w) => (
+                <div key={w.weekday} className="flex items-center gap-3 text-sm">
+                  <div className="w-10 opacity-70">{WEEKDAY_NAMES[w.weekday].slice(0, 3)}</div>
+                  <div className="flex-1 h-3 rounded bg-zinc-100 dark:bg-zinc-800 overflow-hidden">
+                    <div className="h-full bg-zinc-900 dark:bg-zinc-100" style={{ width: `${w.pct ?? 0}%` }} />
+                  </div>
+                  <div className="w-20 text-right opacity-70">
+                    {w.pct == null ? "—" : `${w.pct}%`} · {w.total}d
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Correlations */}
+          <section className="border rounded-2xl p-5 space-y-3">
+            <div className="font-semibold">How your pillars move together</div>
+            {correlations.length === 0 ? (
+              <div className="text-sm opacity-70">Needs at least two weeks of check-ins across two pillars.</div>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {correlations.map((c) => (
+                  <li key={`${c.a}:${c.b}`}>
+                    On days you complete <span className="font-medium">{labelOf(c.a)}</span>, you complete{" "}
+                    <span className="font-medium">{labelOf(c.b)}</span> {c.bGivenA}% of the time (vs {c.bGivenNotA}%
+                    otherwise).
+                    <span className="opacity-60"> · {c.days} days</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
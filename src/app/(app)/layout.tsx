@@ -4,12 +4,14 @@ import AppShell from "@/components/shell/AppShell";
 import AppProviders from "./providers";
 import ServiceWorkerRegister from "@/components/pwa/ServiceWorkerRegister";
 import ResumeFix from "@/components/pwa/ResumeFix";
+import TimezoneSync from "@/components/auth/TimezoneSync";
 
 export default function AppLayout({ children }: { children: ReactNode }) {
   return (
     <AppProviders>
       <ServiceWorkerRegister />
       <ResumeFix />
+      <TimezoneSync />
       <AppShell>{children}</AppShell>
     </AppProviders>
   );
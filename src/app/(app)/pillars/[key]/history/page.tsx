@@ -0,0 +1,134 @@
+// src/app/(app)/pillars/[key]/history/page.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import HistoryShell from "@/components/history/HistoryShell";
+import { addDaysISO, todayLocalISO } from "@/lib/localDay";
+import { fetchPillarDailyCompletion, fetchPillarStreaks, type PillarStreak } from "@/lib/pillarStats";
+import type { UserPillar } from "@/lib/pillarTypes";
+import { getUserPillar, listCustomPillarEntries, type CustomPillarEntry } from "@/lib/userPillars";
+
+const RANGE_DAYS = 30;
+
+export default function CustomPillarHistoryPage() {
+  const params = useParams<{ key: string }>();
+  const key = params.key;
+
+  const [loading, setLoading] = useState(true);
+  const [pillar, setPillar] = useState<UserPillar | null>(null);
+  const [days, setDays] = useState<{ date: string; completed: boolean }[]>([]);
+  const [streak, setStreak] = useState<PillarStreak | null>(null);
+  const [rows, setRows] = useState<CustomPillarEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = useMemo(() => todayLocalISO(), []);
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [p, completion, entries, streaks] = await Promise.all([
+        getUserPillar(key),
+        fetchPillarDailyCompletion(key, addDaysISO(today, -(RANGE_DAYS - 1)), today),
+        listCustomPillarEntries(key),
+        fetchPillarStreaks(),
+      ]);
+
+      setPillar(p);
+      setDays(completion);
+      setStreak(streaks.streaks.find((s) => s.pillar === key) ?? null);
+      setRows(entries);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load history.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const completedCount = days.filter((d) => d.completed).length;
+  const labelById = useMemo(() => new Map((pillar?.checklist ?? []).map((i) => [i.id, i.label])), [pillar]);
+
+  return (
+    <HistoryShell title={pillar?.label ?? key}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-sm opacity-70">
+          {loading
+            ? "Loading…"
+            : `Streak: ${streak?.current_streak ?? 0} · best ${streak?.longest_streak ?? 0} · ${completedCount}/${RANGE_DAYS} days complete`}
+          {!loading && streak && (streak.freezes_available > 0 || streak.freezes_used > 0) ? (
+            <div>
+              ❄️ {streak.freezes_available} freeze{streak.freezes_available === 1 ? "" : "s"} left
+              {streak.freezes_used > 0 ? ` · ${streak.freezes_used} used this streak` : ""}
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex gap-2">
+          <Link
+            href={`/pillars/${key}`}
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            Back
+          </Link>
+
+          <button
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={load}
+            disabled={loading}
+          >
+            {loading ? "Loading…" : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {!loading ? (
+        <div className="grid grid-cols-10 gap-1">
+          {days.map((d) => (
+            <div
+              key={d.date}
+              title={`${d.date}: ${d.completed ? "complete" : "not complete"}`}
+              className={[
+                "aspect-square rounded-md border",
+                d.completed ? "bg-zinc-900 dark:bg-zinc-100" : "",
+              ].join(" ")}
+            />
+          ))}
+        </div>
+      ) : null}
+
+      {loading ? null : rows.length === 0 ? (
+        <div className="border rounded-2xl p-6 text-sm opacity-70">No check-ins yet.</div>
+      ) : (
+        <div className="space-y-3">
+          {rows.map((r) => (
+            <div key={r.id} className="border rounded-2xl p-5 space-y-2">
+              <div className="font-semibold">
+                {r.entry_date}
+                {r.entry_date === today ? <span className="ml-2 text-xs opacity-70">(today)</span> : null}
+              </div>
+
+              <div className="text-sm">
+                <span className="opacity-70">Checked:</span>{" "}
+                {r.checked.length === 0
+                  ? "—"
+                  : r.checked.map((id) => labelById.get(id) ?? "(removed item)").join(", ")}
+              </div>
+
+              {r.notes ? <div className="text-sm whitespace-pre-wrap">{r.notes}</div> : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </HistoryShell>
+  );
+}
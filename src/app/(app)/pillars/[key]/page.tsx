@@ -0,0 +1,248 @@
+// src/app/(app)/pillars/[key]/page.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DayPicker from "@/components/day/DayPicker";
+import { isBuiltinPillarKey, pillarHref, type PillarChecklistItem } from "@/lib/pillarTypes";
+import {
+  getCustomPillarEntry,
+  getUserPillar,
+  saveCustomPillarEntry,
+  updateUserPillar,
+} from "@/lib/userPillars";
+import { useSelectedDay } from "@/lib/useSelectedDay";
+
+/**
+ * Generic checklist page for custom pillars (Sleep, Family, Finances, …).
+ * The pillar auto-completes once every checklist item is checked for the day.
+ */
+export default function CustomPillarPage() {
+  const queryClient = useQueryClient();
+  const params = useParams<{ key: string }>();
+  const key = params.key;
+  const { date, today, isToday, editable, setDate } = useSelectedDay();
+  const locked = !editable;
+
+  const [notesDraft, setNotesDraft] = useState<string | null>(null);
+  const [newItem, setNewItem] = useState("");
+  const [msg, setMsg] = useState<string | null>(null);
+  const [draftDate, setDraftDate] = useState(date);
+
+  const pillarQuery = useQuery({
+    queryKey: ["user-pillar", key],
+    queryFn: () => getUserPillar(key),
+    staleTime: 30_000,
+  });
+
+  const entryQuery = useQuery({
+    queryKey: ["custom-pillar-day", key, date],
+    queryFn: () => getCustomPillarEntry(key, date),
+    staleTime: 30_000,
+  });
+
+  // drop an unsaved notes draft when switching days
+  if (draftDate !== date) {
+    setDraftDate(date);
+    setNotesDraft(null);
+    setMsg(null);
+  }
+
+  const pillar = pillarQuery.data ?? null;
+  const entry = entryQuery.data ?? null;
+  const checklist = pillar?.checklist ?? [];
+  const checked = useMemo(() => new Set(entry?.checked ?? []), [entry?.checked]);
+  const notes = notesDraft ?? entry?.notes ?? "";
+  const doneCount = checklist.filter((i) => checked.has(i.id)).length;
+
+  const saveEntryMutation = useMutation({
+    mutationFn: (input: { checked: string[]; notes: string | null }) => saveCustomPillarEntry(key, date, input),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["custom-pillar-day", key, date] });
+      setNotesDraft(null);
+    },
+    onError: (e: Error) => setMsg(e.message || "Failed to save."),
+  });
+
+  const checklistMutation = useMutation({
+    mutationFn: (next: PillarChecklistItem[]) => updateUserPillar(key, { checklist: next }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["user-pillar", key] });
+    },
+    onError: (e: Error) => setMsg(e.message || "Failed to update checklist."),
+  });
+
+  function toggleItem(id: string) {
+    if (locked) return;
+    setMsg(null);
+    const next = new Set(checked);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+
+    // keep checklist order, drop ids of removed items
+    saveEntryMutation.mutate({
+      checked: checklist.filter((i) => next.has(i.id)).map((i) => i.id),
+      notes,
+    });
+  }
+
+  function addItem() {
+    const label = newItem.trim();
+    if (!label) return;
+    setMsg(null);
+    checklistMutation.mutate([...checklist, { id: crypto.randomUUID(), label }]);
+    setNewItem("");
+  }
+
+  function removeItem(id: string) {
+    setMsg(null);
+    checklistMutation.mutate(checklist.filter((i) => i.id !== id));
+  }
+
+  const loading = pillarQuery.isLoading || entryQuery.isLoading;
+  const busy = saveEntryMutation.isPending || checklistMutation.isPending;
+
+  if (!loading && !pillar) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-4">
+        <h1 className="text-3xl font-semibold">Pillar not found</h1>
+        <div className="text-sm opacity-70">
+          There is no “{key}” pillar in your catalog. Add one in{" "}
+          <Link className="underline" href="/settings">
+            Settings
+          </Link>
+          .
+        </div>
+      </div>
+    );
+  }
+
+  if (pillar && isBuiltinPillarKey(pillar.key)) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-4">
+        <h1 className="text-3xl font-semibold">{pillar.label}</h1>
+        <Link className="underline text-sm" href={pillarHref(pillar.key)}>
+          {pillar.label} has its own page →
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">
+            {pillar ? `${pillar.emoji} ${pillar.label}` : "Loading…"}
+          </h1>
+        </div>
+
+        <div className="flex gap-2">
+          <Link
+            href={`/pillars/${key}/history`}
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            History
+          </Link>
+
+          <button
+            className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => {
+              pillarQuery.refetch();
+              entryQuery.refetch();
+            }}
+            disabled={loading || busy}
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <DayPicker date={date} today={today} editable={editable} onChange={setDate} />
+
+      <div className="border rounded-2xl p-6 space-y-5">
+        {loading ? (
+          <div className="text-sm opacity-70">Loading…</div>
+        ) : (
+          <>
+            <div className="text-sm opacity-70">
+              {checklist.length === 0
+                ? "No checklist yet — add items below, or mark this pillar on Today."
+                : `${doneCount} of ${checklist.length} done. Checking everything completes ${pillar?.label} on Today.`}
+            </div>
+
+            <div className="space-y-2">
+              {checklist.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-3 border rounded-xl px-4 py-3">
+                  <label className="flex items-center gap-3 text-sm min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={checked.has(item.id)}
+                      onChange={() => toggleItem(item.id)}
+                      disabled={busy || locked}
+                    />
+                    <span className="truncate">{item.label}</span>
+                  </label>
+
+                  <button
+                    className="text-xs opacity-60 hover:opacity-100"
+                    onClick={() => removeItem(item.id)}
+                    disabled={busy}
+                    aria-label={`Remove ${item.label}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                className="flex-1 border rounded-xl px-4 py-3 bg-transparent"
+                value={newItem}
+                onChange={(e) => setNewItem(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addItem();
+                }}
+                placeholder="Add a checklist item, e.g. In bed by 10:30"
+                disabled={busy}
+              />
+              <button
+                className="border rounded-xl px-4 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                onClick={addItem}
+                disabled={busy || !newItem.trim()}
+              >
+                Add
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Notes</div>
+              <textarea
+                className="w-full min-h-[120px] border rounded-xl px-4 py-3 bg-transparent"
+                value={notes}
+                onChange={(e) => setNotesDraft(e.target.value)}
+                placeholder={isToday ? "Anything worth remembering about today…" : `Anything worth remembering about ${date}…`}
+                disabled={busy || locked}
+              />
+              <button
+                className="border rounded-xl px-5 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                onClick={() => {
+                  setMsg(null);
+                  saveEntryMutation.mutate({ checked: [...checked], notes });
+                }}
+                disabled={busy || locked || notesDraft === null}
+              >
+                {saveEntryMutation.isPending ? "Saving…" : "Save notes"}
+              </button>
+            </div>
+          </>
+        )}
+
+        {msg && <div className="text-sm">{msg}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  MACRO_KEYS,
+  MACRO_LABELS,
+  emptyMacroTargets,
+  getMacroTargets,
+  saveMacroTargets,
+  type MacroKey,
+  type MacroTargets,
+} from "@/lib/macroTargets";
+import { getWaterTarget, saveWaterTarget } from "@/lib/hydration";
+
+type Draft = Record<"everyday" | "training", Record<MacroKey, string>>;
+
+function toDraft(t: MacroTargets): Draft {
+  const side = (v: MacroTargets["everyday"]) =>
+    Object.fromEntries(MACRO_KEYS.map((k) => [k, v[k] === null ? "" : String(v[k])])) as Record<MacroKey, string>;
+  return { everyday: side(t.everyday), training: side(t.training) };
+}
+
+function fromDraft(d: Draft): MacroTargets {
+  const side = (v: Record<MacroKey, string>) =>
+    Object.fromEntries(MACRO_KEYS.map((k) => [k, v[k].trim() ? Number(v[k]) : null])) as MacroTargets["everyday"];
+  return { everyday: side(d.everyday), training: side(d.training) };
+}
+
+export default function MacroTargetsClient() {
+  const queryClient = useQueryClient();
+
+  const [draft, setDraft] = useState<Draft>(() => toDraft(emptyMacroTargets()));
+  const [water, setWater] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [t, ml] = await Promise.all([getMacroTargets(), getWaterTarget()]);
+        if (t) setDraft(toDraft(t));
+        setWater(ml === null ? "" : String(ml));
+      } catch (e) {
+        setMsg(e instanceof Error ? e.message : String(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  async function save() {
+    setSaving(true);
+    setMsg(null);
+
+    try {
+      const targets = fromDraft(draft);
+      for (const side of [targets.everyday, targets.training]) {
+        for (const k of MACRO_KEYS) {
+          const v = side[k];
+          if (v !== null && (!Number.isFinite(v) || v <= 0)) {
+            throw new Error(`${MACRO_LABELS[k].label}: enter a number greater than 0, or leave it empty.`);
+          }
+        }
+      }
+
+      const waterMl = water.trim() ? Number(water) : null;
+      if (waterMl !== null && (!Number.isFinite(waterMl) || waterMl <= 0)) {
+        throw new Error("Water: enter a number of ml greater than 0, or leave it empty.");
+      }
+
+      await saveMacroTargets(targets);
+      await saveWaterTarget(waterMl);
+      await queryClient.invalidateQueries({ queryKey: ["water-target"] });
+      await queryClient.invalidateQueries({ queryKey: ["macro-targets-day"] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-history"] });
+
+      setMsg("Targets saved.");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="text-sm opacity-70">Loading…</div>;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[auto_1fr_1fr] items-center gap-2 text-sm">
+        <div />
+        <div className="font-medium">Every day</div>
+        <div className="font-medium">Training days</div>
+
+        {MACRO_KEYS.map((k) => (
+          <div key={k} className="contents">
+            <div>
+              {MACRO_LABELS[k].label} ({MACRO_LABELS[k].unit})
+            </div>
+            {(["everyday", "training"] as const).map((side) => (
+              <input
+                key={side}
+                type="number"
+                min={1}
+                inputMode="numeric"
+                value={draft[side][k]}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, [side]: { ...prev[side], [k]: e.target.value } }))
+                }
+                placeholder={side === "training" ? draft.everyday[k] || "same" : "—"}
+                className="w-full rounded-lg border px-2 py-1 text-sm bg-transparent"
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-3 text-sm">
+        Water (ml / day)
+        <input
+          type="number"
+          min={1}
+          inputMode="numeric"
+          value={water}
+          onChange={(e) => setWater(e.target.value)}
+          placeholder="—"
+          className="w-28 rounded-lg border px-2 py-1 text-sm bg-transparent"
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-xs opacity-60">
+          Leave a target empty to not track it. Training-day values apply on days with a logged session. The water target can also count
+          toward Eat under Completion Criteria.
+        </div>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving}
+          className="rounded-lg border px-3 py-1.5 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </div>
+
+      {msg ? <div className="text-sm opacity-80">{msg}</div> : null}
+    </div>
+  );
+}
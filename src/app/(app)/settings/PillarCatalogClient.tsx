@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { pillarHref, type UserPillar } from "@/lib/pillarTypes";
+import {
+  createCustomPillar,
+  listUserPillars,
+  moveUserPillar,
+  setPillarArchived,
+  updateUserPillar,
+} from "@/lib/userPillars";
+
+// 0 = Sunday, matching Postgres extract(dow)
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export default function PillarCatalogClient() {
+  const [pillars, setPillars] = useState<UserPillar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const [newLabel, setNewLabel] = useState("");
+  const [newEmoji, setNewEmoji] = useState("");
+
+  async function load() {
+    try {
+      setPillars(await listUserPillars({ includeArchived: true }));
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function run(fn: () => Promise<unknown>, done?: string) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      await fn();
+      await load();
+      if (done) setMsg(done);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function rename(p: UserPillar, label: string, emoji: string) {
+    if (label.trim() === p.label && emoji.trim() === p.emoji) return;
+    void run(() => updateUserPillar(p.key, { label, emoji: emoji.trim() || p.emoji }));
+  }
+
+  if (loading) return <div className="text-sm opacity-70">Loading…</div>;
+
+  const active = pillars.filter((p) => !p.archived_at);
+  const archived = pillars.filter((p) => p.archived_at);
+
+  return (
+    <div className="grid gap-3">
+      {active.map((p, i) => (
+        <PillarRow
+          key={p.key}
+          pillar={p}
+          busy={busy}
+          canMoveUp={i > 0}
+          canMoveDown={i < active.length - 1}
+          onRename={(label, emoji) => rename(p, label, emoji)}
+          onMove={(dir) => run(() => moveUserPillar(p.key, dir))}
+          onRestDays={(days) => run(() => updateUserPillar(p.key, { rest_weekdays: days }))}
+          onArchive={() => run(() => setPillarArchived(p.key, true), `${p.label} archived.`)}
+        />
+      ))}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="grid gap-1">
+          <span className="text-sm">Emoji</span>
+          <input
+            value={newEmoji}
+            onChange={(e) => setNewEmoji(e.target.value)}
+            placeholder="⭐"
+            className="w-16 rounded-lg border px-3 py-2 text-center"
+          />
+        </label>
+
+        <label className="grid gap-1 flex-1 min-w-[10rem]">
+          <span className="text-sm">New pillar</span>
+          <input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="e.g. Sleep, Family, Finances"
+            maxLength={40}
+            className="rounded-lg border px-3 py-2"
+          />
+        </label>
+
+        <button
+          type="button"
+          onClick={() =>
+            run(async () => {
+              await createCustomPillar({ label: newLabel, emoji: newEmoji });
+              setNewLabel("");
+              setNewEmoji("");
+            }, "Pillar added.")
+          }
+          disabled={busy || !newLabel.trim()}
+          className="rounded-lg border px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+        >
+          Add
+        </button>
+      </div>
+
+      {archived.length > 0 ? (
+        <div className="grid gap-2">
+          <div className="text-sm font-medium opacity-70">Archived</div>
+          {archived.map((p) => (
+            <div key={p.key} className="flex items-center justify-between gap-3 rounded-xl border p-3 opacity-70">
+              <div className="text-sm">
+                {p.emoji} {p.label}
+              </div>
+              <button
+                type="button"
+                onClick={() => run(() => setPillarArchived(p.key, false), `${p.label} restored.`)}
+                disabled={busy}
+                className="rounded-lg border px-3 py-1.5 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {msg ? <div className="text-sm opacity-80">{msg}</div> : null}
+    </div>
+  );
+}
+
+function PillarRow({
+  pillar,
+  busy,
+  canMoveUp,
+  canMoveDown,
+  onRename,
+  onMove,
+  onRestDays,
+  onArchive,
+}: {
+  pillar: UserPillar;
+  busy: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onRename: (label: string, emoji: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRestDays: (days: number[]) => void;
+  onArchive: () => void;
+}) {
+  const [label, setLabel] = useState(pillar.label);
+  const [emoji, setEmoji] = useState(pillar.emoji);
+
+  function toggleRestDay(d: number) {
+    const rest = pillar.rest_weekdays;
+    onRestDays(rest.includes(d) ? rest.filter((x) => x !== d) : [...rest, d]);
+  }
+
+  return (
+    <div className="grid gap-2 rounded-xl border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={emoji}
+          onChange={(e) => setEmoji(e.target.value)}
+          onBlur={() => onRename(label, emoji)}
+          className="w-14 rounded-lg border px-2 py-1.5 text-center"
+          aria-label="Emoji"
+        />
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={() => onRename(label, emoji)}
+          maxLength={40}
+          className="flex-1 min-w-[8rem] rounded-lg border px-3 py-1.5"
+          aria-label="Name"
+        />
+
+        <Link href={pillarHref(pillar.key)} className="text-xs underline opacity-70">
+          {pillar.is_builtin ? "built-in" : "checklist"}
+        </Link>
+
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => onMove(-1)}
+            disabled={busy || !canMoveUp}
+            className="rounded-lg border px-2 py-1.5 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            aria-label="Move up"
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => onMove(1)}
+            disabled={busy || !canMoveDown}
+            className="rounded-lg border px-2 py-1.5 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            aria-label="Move down"
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            onClick={onArchive}
+            disabled={busy}
+            className="rounded-lg border px-3 py-1.5 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            Archive
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-xs opacity-70">Rest days</span>
+        {WEEKDAYS.map((name, d) => {
+          const on = pillar.rest_weekdays.includes(d);
+          return (
+            <button
+              key={name}
+              type="button"
+              onClick={() => toggleRestDay(d)}
+              disabled={busy}
+              aria-pressed={on}
+              className={[
+                "rounded-lg border px-2 py-1 text-xs",
+                on
+                  ? "bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900"
+                  : "hover:bg-zinc-50 dark:hover:bg-zinc-900",
+              ].join(" ")}
+            >
+              {name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { recomputePillar } from "@/lib/recomputePillar";
+import {
+  CRITERIA_BY_PILLAR,
+  CRITERION_DEFAULTS,
+  criterionHasValue,
+  describeCriterion,
+  listPillarCriteria,
+  savePillarCriteria,
+  type CriteriaMode,
+  type CriterionKind,
+  type PillarCriterion,
+} from "@/lib/pillarCriteria";
+import { BUILTIN_PILLAR_KEYS, type BuiltinPillarKey } from "@/lib/pillarTypes";
+
+type Draft = {
+  mode: CriteriaMode;
+  enabled: Partial<Record<CriterionKind, boolean>>;
+  values: Partial<Record<CriterionKind, string>>;
+};
+
+const PILLAR_LABELS: Record<BuiltinPillarKey, string> = {
+  train: "Train",
+  eat: "Eat",
+  word: "Word",
+  freedom: "Freedom",
+};
+
+const VALUE_LABELS: Partial<Record<CriterionKind, string>> = {
+  min_duration_min: "Minimum minutes",
+  min_steps: "Minimum steps",
+  max_calories: "Calorie ceiling",
+  min_note_words: "Minimum words",
+};
+
+function emptyDraft(): Draft {
+  return { mode: "all", enabled: {}, values: {} };
+}
+
+function draftToRules(pillar: BuiltinPillarKey, d: Draft): PillarCriterion[] {
+  return CRITERIA_BY_PILLAR[pillar]
+    .filter((kind) => d.enabled[kind])
+    .map((kind) =>
+      criterionHasValue(kind)
+        ? ({ kind, value: Number(d.values[kind] ?? CRITERION_DEFAULTS[kind]) } as PillarCriterion)
+        : ({ kind } as PillarCriterion)
+    );
+}
+
+export default function PillarCriteriaClient() {
+  const [drafts, setDrafts] = useState<Record<BuiltinPillarKey, Draft>>(() => ({
+    train: emptyDraft(),
+    eat: emptyDraft(),
+    word: emptyDraft(),
+    freedom: emptyDraft(),
+  }));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<BuiltinPillarKey | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const rows = await listPillarCriteria();
+        setDrafts((prev) => {
+          const next = { ...prev };
+          for (const row of rows) {
+            const d = emptyDraft();
+            d.mode = row.mode;
+            for (const r of row.rules) {
+              d.enabled[r.kind] = true;
+              if ("value" in r) d.values[r.kind] = String(r.value);
+            }
+            next[row.pillar] = d;
+          }
+          return next;
+        });
+      } catch (e) {
+        setMsg(e instanceof Error ? e.message : String(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  function patch(pillar: BuiltinPillarKey, fn: (d: Draft) => Draft) {
+    setDrafts((prev) => ({ ...prev, [pillar]: fn(prev[pillar]) }));
+  }
+
+  async function save(pillar: BuiltinPillarKey) {
+    setSaving(pillar);
+    setMsg(null);
+
+    try {
+      const rules = draftToRules(pillar, drafts[pillar]);
+
+      for (const r of rules) {
+        if ("value" in r && (!Number.isFinite(r.value) || r.value <= 0)) {
+          throw new Error(`${describeCriterion(r)}: enter a number greater than 0.`);
+        }
+      }
+
+      await savePillarCriteria(pillar, drafts[pillar].mode, rules);
+
+      // re-evaluate today so the Today card reflects the new definition
+      await recomputePillar(pillar);
+
+      setMsg(`${PILLAR_LABELS[pillar]} criteria saved.`);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  if (loading) return <div className="text-sm opacity-70">Loading…</div>;
+
+  return (
+    <div className="grid gap-4">
+      {BUILTIN_PILLAR_KEYS.map((pillar) => {
+        const d = drafts[pillar];
+        const kinds = CRITERIA_BY_PILLAR[pillar];
+        const enabledCount = kinds.filter((k) => d.enabled[k]).length;
+
+        return (
+          <div key={pillar} className="rounded-xl border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="font-medium">{PILLAR_LABELS[pillar]}</div>
+              {kinds.length > 1 ? (
+                <select
+                  value={d.mode}
+                  onChange={(e) => patch(pillar, (x) => ({ ...x, mode: e.target.value as CriteriaMode }))}
+                  className="rounded-lg border px-2 py-1 text-sm bg-transparent"
+                >
+                  <option value="all">Require all</option>
+                  <option value="any">Require any one</option>
+                </select>
+              ) : null}
+            </div>
+
+            {kinds.map((kind) => (
+              <div key={kind} className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!d.enabled[kind]}
+                    onChange={(e) =>
+                      patch(pillar, (x) => ({ ...x, enabled: { ...x.enabled, [kind]: e.target.checked } }))
+                    }
+                  />
+                  {criterionHasValue(kind)
+                    ? VALUE_LABELS[kind]
+                    : describeCriterion({ kind } as PillarCriterion)}
+                </label>
+
+                {criterionHasValue(kind) ? (
+                  <input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={d.values[kind] ?? String(CRITERION_DEFAULTS[kind])}
+                    onChange={(e) =>
+                      patch(pillar, (x) => ({ ...x, values: { ...x.values, [kind]: e.target.value } }))
+                    }
+                    disabled={!d.enabled[kind]}
+                    className="w-28 rounded-lg border px-2 py-1 text-sm"
+                  />
+                ) : null}
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-xs opacity-60">
+                {enabledCount === 0 ? "Default: any logged data completes this pillar." : null}
+              </div>
+              <button
+                type="button"
+                onClick={() => save(pillar)}
+                disabled={saving === pillar}
+                className="rounded-lg border px-3 py-1.5 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              >
+                {saving === pillar ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {msg ? <div className="text-sm opacity-80">{msg}</div> : null}
+    </div>
+  );
+}
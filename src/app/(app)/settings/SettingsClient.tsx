@@ -2,11 +2,19 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { MAX_DAY_START_HOUR, setCachedBackfillGraceHours, setCachedDayStartHour } from "@/lib/localDay";
 import PushSettingsClient from "./PushSettingsClient";
+import PillarCriteriaClient from "./PillarCriteriaClient";
+import PillarCatalogClient from "./PillarCatalogClient";
+import MacroTargetsClient from "./MacroTargetsClient";
+import FastingPlanEditor from "@/components/eat/FastingPlanEditor";
+import { isFastingProtocol, normalizeSchedule } from "@/lib/fasting";
 
 type FastingSettings = {
   eating_start: string; // "HH:MM:SS"
   eating_hours: number;
+  protocol: string | null;
+  schedule: unknown; // jsonb, see normalizeSchedule
   notify_window_start: boolean;
   notify_window_end: boolean;
 };
@@ -17,6 +25,9 @@ type UserSettings = {
   push_fasting_windows: boolean;
   push_daily_reminder: boolean;
   daily_reminder_time_min: number | null;
+  day_start_hour: number | null;
+  backfill_grace_hours: number | null;
+  streak_counts_backfilled: boolean;
 };
 
 function minToHHMM(min: number) {
@@ -30,6 +41,21 @@ function hhmmToMin(hhmm: string) {
   return h * 60 + m;
 }
 
+// "" = no limit
+const GRACE_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "No limit (default)" },
+  { value: "24", label: "24 hours" },
+  { value: "48", label: "48 hours" },
+  { value: "72", label: "72 hours" },
+  { value: "168", label: "7 days" },
+];
+
+function hourLabel(h: number) {
+  if (h === 0) return "Midnight (default)";
+  if (h === 12) return "12:00 PM";
+  return `${h}:00 AM`;
+}
+
 export default function SettingsClient() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null);
@@ -56,7 +82,7 @@ export default function SettingsClient() {
       const f = await supabase
         .schema("disciplined")
         .from("fasting_settings")
-        .select("eating_start,eating_hours,notify_window_start,notify_window_end")
+        .select("eating_start,eating_hours,protocol,schedule,notify_window_start,notify_window_end")
         .maybeSingle<FastingSettings>();
 
       if (f.error) throw f.error;
@@ -73,7 +99,7 @@ export default function SettingsClient() {
             notify_window_start: true,
             notify_window_end: true,
           })
-          .select("eating_start,eating_hours,notify_window_start,notify_window_end")
+          .select("eating_start,eating_hours,protocol,schedule,notify_window_start,notify_window_end")
           .single<FastingSettings>();
         if (created.error) throw created.error;
         fastingRow = created.data;
@@ -86,7 +112,7 @@ export default function SettingsClient() {
         .schema("disciplined")
         .from("user_settings")
         .select(
-          "timezone,push_enabled,push_fasting_windows,push_daily_reminder,daily_reminder_time_min"
+          "timezone,push_enabled,push_fasting_windows,push_daily_reminder,daily_reminder_time_min,day_start_hour,backfill_grace_hours,streak_counts_backfilled"
         )
         .maybeSingle<UserSettings>();
 
@@ -105,7 +131,7 @@ export default function SettingsClient() {
             daily_reminder_time_min: 20 * 60, // 8pm
           })
           .select(
-            "timezone,push_enabled,push_fasting_windows,push_daily_reminder,daily_reminder_time_min"
+            "timezone,push_enabled,push_fasting_windows,push_daily_reminder,daily_reminder_time_min,day_start_hour,backfill_grace_hours,streak_counts_backfilled"
           )
           .single<UserSettings>();
         if (created.error) throw created.error;
@@ -113,6 +139,8 @@ export default function SettingsClient() {
       }
 
       setUserSettings(userRow);
+      setCachedDayStartHour(userRow.day_start_hour ?? 0);
+      setCachedBackfillGraceHours(userRow.backfill_grace_hours ?? null);
     } catch (e: any) {
       setErr(e?.message ?? String(e));
     } finally {
@@ -188,6 +216,47 @@ export default function SettingsClient() {
     }
   }
 
+  async function saveDay(
+    patch: Partial<Pick<UserSettings, "day_start_hour" | "backfill_grace_hours" | "streak_counts_backfilled">>
+  ) {
+    if (!userSettings) return;
+    setErr(null);
+    setSaving("day");
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) throw new Error("Not logged in.");
+
+      const res = await fetch("/api/settings/day", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(patch),
+      });
+
+      if (!res.ok) {
+        const txt = await res.text().catch(() => "");
+        throw new Error(`Save failed (${res.status}) ${txt}`);
+      }
+
+      const json = await res.json();
+      setUserSettings({
+        ...userSettings,
+        day_start_hour: json.userSettings.day_start_hour,
+        backfill_grace_hours: json.userSettings.backfill_grace_hours,
+        streak_counts_backfilled: json.userSettings.streak_counts_backfilled,
+      });
+      setCachedDayStartHour(json.userSettings.day_start_hour ?? 0);
+      setCachedBackfillGraceHours(json.userSettings.backfill_grace_hours ?? null);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(null);
+    }
+  }
+
   if (loading) return <div className="min-h-[50vh] flex items-center justify-center opacity-70">Loading…</div>;
 
   return (
@@ -217,35 +286,22 @@ export default function SettingsClient() {
       <section className="rounded-2xl border p-4 space-y-3">
         <div>
           <div className="font-semibold">Fasting Window</div>
-          <div className="text-sm opacity-70">This controls your eating window and notifications.</div>
+          <div className="text-sm opacity-70">This controls your fasting protocol, weekly schedule and notifications.</div>
         </div>
 
         {!fasting ? (
           <div className="text-sm opacity-70">Missing fasting settings.</div>
         ) : (
           <div className="grid gap-3">
-            <label className="grid gap-1">
-              <span className="text-sm">Eating window start</span>
-              <input
-                type="time"
-                value={String(fasting.eating_start).slice(0, 5)}
-                onChange={(e) => saveFasting({ eating_start: e.target.value })}
-                className="rounded-lg border px-3 py-2"
-              />
-            </label>
-
-            <label className="grid gap-1">
-              <span className="text-sm">Eating window length (hours)</span>
-              <input
-                type="number"
-                min={1}
-                max={23}
-                value={fasting.eating_hours}
-                onChange={(e) => saveFasting({ eating_hours: Number(e.target.value) })}
-                className="rounded-lg border px-3 py-2"
-              />
-              <span className="text-xs opacity-60">Fasting hours = 24 − eating hours.</span>
-            </label>
+            <FastingPlanEditor
+              settings={{
+                eating_start: fasting.eating_start,
+                eating_hours: fasting.eating_hours,
+                protocol: isFastingProtocol(fasting.protocol) ? fasting.protocol : null,
+                schedule: normalizeSchedule(fasting.schedule),
+              }}
+              onSaved={(next) => setFasting({ ...fasting, ...next })}
+            />
 
             <div className="flex items-center gap-3">
               <label className="flex items-center gap-2 text-sm">
@@ -307,6 +363,105 @@ export default function SettingsClient() {
         )}
       </section>
 
+      {/* Day boundary */}
+      <section className="rounded-2xl border p-4 space-y-3">
+        <div>
+          <div className="font-semibold">Day Starts At</div>
+          <div className="text-sm opacity-70">
+            For late shifts: anything logged before this hour counts toward the previous day (pillars, streaks and the
+            daily reminder).
+          </div>
+        </div>
+
+        {!userSettings ? (
+          <div className="text-sm opacity-70">Missing user settings.</div>
+        ) : (
+          <div className="grid gap-3">
+            <label className="grid gap-1">
+              <span className="text-sm">Day starts at</span>
+              <select
+                value={userSettings.day_start_hour ?? 0}
+                onChange={(e) => saveDay({ day_start_hour: Number(e.target.value) })}
+                className="rounded-lg border px-3 py-2 bg-transparent"
+              >
+                {Array.from({ length: MAX_DAY_START_HOUR + 1 }, (_, h) => (
+                  <option key={h} value={h}>
+                    {hourLabel(h)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="grid gap-1">
+              <span className="text-sm">Back-fill window</span>
+              <select
+                value={userSettings.backfill_grace_hours == null ? "" : String(userSettings.backfill_grace_hours)}
+                onChange={(e) =>
+                  saveDay({ backfill_grace_hours: e.target.value === "" ? null : Number(e.target.value) })
+                }
+                className="rounded-lg border px-3 py-2 bg-transparent"
+              >
+                {GRACE_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs opacity-60">
+                How long after a day ends you can still log or mark it. Back-filled completions are flagged.
+              </span>
+            </label>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={userSettings.streak_counts_backfilled ?? true}
+                onChange={(e) => saveDay({ streak_counts_backfilled: e.target.checked })}
+              />
+              Count back-filled days toward streaks
+            </label>
+
+            {saving === "day" ? <div className="text-xs opacity-70">Saving…</div> : null}
+          </div>
+        )}
+      </section>
+
+      {/* Pillar catalog */}
+      <section className="rounded-2xl border p-4 space-y-3">
+        <div>
+          <div className="font-semibold">Pillars</div>
+          <div className="text-sm opacity-70">
+            Rename, reorder or archive pillars, or add your own (Sleep, Family, Finances…). Custom pillars get a daily
+            checklist page. Rest days don’t break a pillar’s streak.
+          </div>
+        </div>
+        <PillarCatalogClient />
+      </section>
+
+      {/* Completion criteria */}
+      <section className="rounded-2xl border p-4 space-y-3">
+        <div>
+          <div className="font-semibold">Completion Criteria</div>
+          <div className="text-sm opacity-70">
+            Decide what “complete” means for each pillar. Logging re-checks these and the Today card shows how many
+            are met.
+          </div>
+        </div>
+        <PillarCriteriaClient />
+      </section>
+
+      {/* Nutrition targets */}
+      <section className="rounded-2xl border p-4 space-y-3">
+        <div>
+          <div className="font-semibold">Nutrition Targets</div>
+          <div className="text-sm opacity-70">
+            Daily calorie and macro goals. Eat and the Today card show progress rings; Eat history marks days over
+            or under.
+          </div>
+        </div>
+        <MacroTargetsClient />
+      </section>
+
       {/* Bible / YouVersion */}
       <section className="rounded-2xl border p-4 space-y-3">
         <div>
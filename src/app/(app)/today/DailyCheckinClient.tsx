@@ -1,45 +1,40 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
-import { supabase } from "@/lib/supabaseClient";
-
-type PillarKey = "train" | "eat" | "word" | "freedom";
-
-type DailyEntry = {
-  id: string;
-  user_id: string;
-  entry_date: string; // YYYY-MM-DD
-};
-
-type DailyPillar = {
-  entry_id: string;
-  pillar: PillarKey;
-  completed: boolean;
-  completed_at: string | null;
-  source: "manual" | "auto" | null;
-  notes?: string | null;
-};
-
-const PILLARS: { key: PillarKey; label: string; emoji: string }[] = [
-  { key: "train", label: "Train", emoji: "🏋️" },
-  { key: "eat", label: "Eat", emoji: "🍽️" },
-  { key: "word", label: "Word", emoji: "📖" },
-  { key: "freedom", label: "Freedom", emoji: "🛡️" },
-];
-
-function todayISODateUTC() {
-  return new Date().toISOString().slice(0, 10);
-}
+import Link from "next/link";
+import DayPicker from "@/components/day/DayPicker";
+import DayMacroRings from "@/components/eat/DayMacroRings";
+import { useSelectedDay, withDate } from "@/lib/useSelectedDay";
+import { evaluateDayCriteria, type CriteriaEvaluation } from "@/lib/pillarCriteria";
+import { PILLARS_CHANGED_EVENT } from "@/lib/userPillars";
+import { COMBINED_STREAK_KEY, fetchPillarStreaks, type PillarStreak } from "@/lib/pillarStats";
+import {
+  applyPillarTransition,
+  loadDayPillars,
+  PILLAR_UPDATED_EVENT,
+  pillarHref,
+  type DailyEntryRow as DailyEntry,
+  type DailyPillarRow as DailyPillar,
+  type PillarKey,
+  type DayPillarState,
+  type PillarUpdatedDetail,
+} from "@/lib/pillarState";
 
 export default function DailyCheckinClient() {
+  const { date, today, editable, setDate } = useSelectedDay();
+
   const [loading, setLoading] = useState(true);
   const [entry, setEntry] = useState<DailyEntry | null>(null);
   const [pillars, setPillars] = useState<DailyPillar[]>([]);
+  // the user's active pillars in display order (from the same request as the rows)
+  const [catalog, setCatalog] = useState<DayPillarState["catalog"]>([]);
   const [error, setError] = useState<string | null>(null);
   const [busyPillar, setBusyPillar] = useState<PillarKey | null>(null);
+  const [criteria, setCriteria] = useState<Partial<Record<PillarKey, CriteriaEvaluation>>>({});
+  const [streaks, setStreaks] = useState<Map<string, PillarStreak>>(new Map());
 
-  // prevents concurrent ensureToday() calls (race -> duplicate inserts)
-  const ensureInFlightRef = useRef(false);
+  // only the latest loadDay() may render (switching days quickly can reorder responses)
+  const loadSeqRef = useRef(0);
 
   const byKey = useMemo(() => {
     const map = new Map<PillarKey, DailyPillar>();
@@ -47,138 +42,103 @@ export default function DailyCheckinClient() {
     return map;
   }, [pillars]);
 
+  // archived pillars can still have a row for the day — only the catalog counts
   const completedCount = useMemo(
-    () => pillars.filter((p) => p.completed).length,
-    [pillars]
+    () => catalog.filter((p) => byKey.get(p.key)?.completed).length,
+    [catalog, byKey]
   );
 
-  async function ensureToday() {
-    if (ensureInFlightRef.current) return;
-    ensureInFlightRef.current = true;
+  const combined = streaks.get(COMBINED_STREAK_KEY);
+
+  async function loadDay() {
+    const seq = ++loadSeqRef.current;
 
     setError(null);
     setLoading(true);
 
     try {
-      const { data: userData } = await supabase.auth.getUser();
-      const uid = userData.user?.id;
-      if (!uid) {
-        setError("Not logged in.");
-        return;
-      }
-
-      const entryDate = todayISODateUTC();
-
-      // ✅ Atomic "get or create" via upsert
-      // This prevents the 409 duplicate-key issue when multiple calls race.
-      const upserted = await supabase
-        .schema("disciplined")
-        .from("daily_entries")
-        .upsert(
-          { user_id: uid, entry_date: entryDate },
-          { onConflict: "user_id,entry_date" }
-        )
-        .select("id,user_id,entry_date")
-        .single<DailyEntry>();
-
-      if (upserted.error) {
-        setError(upserted.error.message);
-        return;
-      }
-
-      const todayEntry = upserted.data;
-      setEntry(todayEntry);
-
-      // 2) Ensure 4 pillar rows exist WITHOUT overwriting existing values
-      const seedRows = PILLARS.map((p) => ({
-        entry_id: todayEntry.id,
-        pillar: p.key,
-        completed: false,
-        completed_at: null,
-        source: null,
-        notes: null,
-      }));
-
-      const seed = await supabase
-        .schema("disciplined")
-        .from("daily_pillars")
-        .upsert(seedRows, {
-          onConflict: "entry_id,pillar",
-          ignoreDuplicates: true, // do not clobber existing rows
-        });
-
-      if (seed.error) {
-        setError(seed.error.message);
-        return;
-      }
-
-      // 3) Load pillar rows
-      const list = await supabase
-        .schema("disciplined")
-        .from("daily_pillars")
-        .select("entry_id,pillar,completed,completed_at,source,notes")
-        .eq("entry_id", todayEntry.id)
-        .order("pillar", { ascending: true });
-
-      if (list.error) {
-        setError(list.error.message);
-        return;
+      // One request: atomic get-or-create of the entry + all pillar rows
+      const day = await loadDayPillars(date);
+      if (seq !== loadSeqRef.current) return;
+
+      setEntry(day.entry);
+      setPillars(day.pillars);
+      setCatalog(day.catalog);
+      void loadStreaks();
+
+      // explanation only — a failure here shouldn't hide the pillars
+      try {
+        setCriteria(await evaluateDayCriteria(day.entry.entry_date));
+      } catch (e) {
+        console.error("evaluateDayCriteria failed", e);
       }
-
-      setPillars((list.data ?? []) as DailyPillar[]);
+    } catch (e) {
+      if (seq === loadSeqRef.current) setError(e instanceof Error ? e.message : String(e));
     } finally {
-      setLoading(false);
-      ensureInFlightRef.current = false;
+      if (seq === loadSeqRef.current) setLoading(false);
+    }
+  }
+
+  // cached server-side; a failure only hides the streak line
+  async function loadStreaks() {
+    try {
+      const res = await fetchPillarStreaks();
+      setStreaks(new Map(res.streaks.map((s) => [s.pillar, s])));
+    } catch (e) {
+      console.error("fetchPillarStreaks failed", e);
     }
   }
 
   async function togglePillar(key: PillarKey) {
-    if (!entry) return;
+    if (!entry || !editable) return;
     setBusyPillar(key);
     setError(null);
 
     const current = byKey.get(key);
     const nextCompleted = !current?.completed;
 
-    const update = await supabase
-      .schema("disciplined")
-      .from("daily_pillars")
-      .update({
-        completed: nextCompleted,
-        completed_at: nextCompleted ? new Date().toISOString() : null,
-        source: "manual",
-      })
-      .eq("entry_id", entry.id)
-      .eq("pillar", key)
-      .select("entry_id,pillar,completed,completed_at,source,notes")
-      .single<DailyPillar>();
-
-    if (update.error) {
-      setError(update.error.message);
+    try {
+      const res = await applyPillarTransition(
+        key,
+        nextCompleted ? "manual_complete" : "manual_uncomplete",
+        entry.entry_date
+      );
+      // the toggle returns the whole day — render it as-is
+      setEntry(res.entry);
+      setPillars(res.pillars);
+      setCatalog(res.catalog);
+      if (res.changed) void loadStreaks();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
       setBusyPillar(null);
-      return;
     }
-
-    setPillars((prev) =>
-      prev.map((p) => (p.pillar === key ? update.data : p))
-    );
-    setBusyPillar(null);
   }
 
   useEffect(() => {
-    ensureToday();
+    loadDay();
+
+    function onUpdated(e: Event) {
+      // manual toggles come from this card and are already applied locally
+      const detail = (e as CustomEvent<PillarUpdatedDetail>).detail;
+      if (detail?.transition === "manual_complete" || detail?.transition === "manual_uncomplete") return;
+      if (detail?.date && detail.date !== date) return;
+      loadDay();
+    }
 
-    function onUpdated() {
-      ensureToday();
+    function onCatalogChanged() {
+      loadDay();
     }
 
-    window.addEventListener("dl:pillar-updated", onUpdated as EventListener);
+    window.addEventListener(PILLAR_UPDATED_EVENT, onUpdated as EventListener);
+    window.addEventListener(PILLARS_CHANGED_EVENT, onCatalogChanged);
 
     return () => {
-      window.removeEventListener("dl:pillar-updated", onUpdated as EventListener);
+      window.removeEventListener(PILLAR_UPDATED_EVENT, onUpdated as EventListener);
+      window.removeEventListener(PILLARS_CHANGED_EVENT, onCatalogChanged);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [date]);
 
   return (
     <div className="border rounded-xl p-4 space-y-3">
@@ -187,28 +147,39 @@ export default function DailyCheckinClient() {
           <div className="font-semibold">Daily check-in</div>
           <div className="text-sm opacity-70">
             {entry ? `Date: ${entry.entry_date}` : "Loading date…"} · Completed:{" "}
-            {completedCount}/4
+            {completedCount}/{catalog.length}
           </div>
+          {combined ? (
+            <div className="text-sm opacity-70">
+              🔥 All pillars: {combined.current_streak} day{combined.current_streak === 1 ? "" : "s"} · best{" "}
+              {combined.longest_streak}
+              {combined.freezes_available > 0 ? ` · ❄️ ${combined.freezes_available}` : ""}
+            </div>
+          ) : null}
         </div>
 
         <button
           className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
-          onClick={ensureToday}
+          onClick={loadDay}
           disabled={loading}
         >
           Refresh
         </button>
       </div>
 
+      <DayPicker date={date} today={today} editable={editable} onChange={setDate} />
+
       {error && <div className="text-sm text-red-600">{error}</div>}
 
       {loading ? (
         <div className="text-sm opacity-70">Loading…</div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-          {PILLARS.map((p) => {
+          {catalog.map((p) => {
             const row = byKey.get(p.key);
             const done = !!row?.completed;
+            const evaluation = criteria[p.key];
+            const streak = streaks.get(p.key);
 
             return (
               <div
@@ -216,14 +187,31 @@ export default function DailyCheckinClient() {
                 className="border rounded-xl p-3 flex items-center justify-between gap-3"
               >
                 <div className="min-w-0">
-                  <div className="font-medium flex items-center gap-2">
+                  <Link href={withDate(pillarHref(p.key), date, today)} className="font-medium flex items-center gap-2 hover:underline">
                     <span className="text-lg">{p.emoji}</span>
                     <span>{p.label}</span>
-                  </div>
+                  </Link>
                   <div className="text-xs opacity-70">
                     Status: {done ? "Complete" : "Not complete"}
                     {row?.source ? ` · source: ${row.source}` : ""}
+                    {done && row?.backfilled ? " · back-filled" : ""}
+                    {streak ? ` · streak ${streak.current_streak}` : ""}
                   </div>
+                  {evaluation ? (
+                    <div className="text-xs opacity-70 mt-1">
+                      <div>
+                        {evaluation.metCount} of {evaluation.total} criteria met
+                        {evaluation.total > 1 ? ` (${evaluation.mode === "all" ? "all" : "any one"} required)` : ""}
+                      </div>
+                      <ul>
+                        {evaluation.results.map((r) => (
+                          <li key={r.criterion.kind}>
+                            {r.met ? "✓" : "✗"} {r.label} · {r.detail}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : null}
                 </div>
 
                 <button
@@ -234,7 +222,7 @@ export default function DailyCheckinClient() {
                       : "hover:bg-zinc-50 dark:hover:bg-zinc-900",
                   ].join(" ")}
                   onClick={() => togglePillar(p.key)}
-                  disabled={busyPillar === p.key}
+                  disabled={busyPillar === p.key || !editable}
                 >
                   {busyPillar === p.key ? "…" : done ? "Undo" : "Mark"}
                 </button>
@@ -244,8 +232,11 @@ export default function DailyCheckinClient() {
         </div>
       )}
 
+      <DayMacroRings date={date} href={withDate("/eat", date, today)} />
+
       <div className="text-xs opacity-70">
-        Hybrid mode: logging actions will auto-mark pillars complete. Manual marks always stay available.
+        Hybrid mode: logging actions will auto-mark pillars complete (using your criteria from Settings, if set).
+        Manual marks always stay available.
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { BUILTIN_PILLARS, pillarHref, type PillarKey, type UserPillar } from "@/lib/pillarTypes";
+import { listUserPillars, PILLARS_CHANGED_EVENT } from "@/lib/userPillars";
+
+const SUBTITLES: Partial<Record<PillarKey, string>> = {
+  train: "Workouts & movement",
+  eat: "Meals, macros, fasting",
+  word: "Scripture & journaling",
+  freedom: "Struggles → passages → response",
+};
+
+export default function PillarTiles() {
+  // built-ins render immediately; the real catalog replaces them once loaded
+  const [pillars, setPillars] = useState<UserPillar[]>(BUILTIN_PILLARS);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const rows = await listUserPillars();
+        if (!cancelled) setPillars(rows);
+      } catch (e) {
+        console.error("listUserPillars failed", e);
+      }
+    }
+
+    load();
+    window.addEventListener(PILLARS_CHANGED_EVENT, load);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(PILLARS_CHANGED_EVENT, load);
+    };
+  }, []);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {pillars.map((p) => (
+        <Link
+          key={p.key}
+          href={pillarHref(p.key)}
+          className="border rounded-xl p-4 hover:bg-gray-50 dark:hover:bg-zinc-900/40"
+        >
+          <div className="flex items-start gap-3">
+            <div className="text-2xl">{p.emoji}</div>
+            <div className="min-w-0">
+              <div className="font-semibold">{p.label}</div>
+              <div className="text-sm opacity-70">{SUBTITLES[p.key] ?? "Daily checklist"}</div>
+            </div>
+          </div>
+        </Link>
+      ))}
+    </div>
+  );
+}
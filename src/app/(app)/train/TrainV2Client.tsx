@@ -1,7 +1,7 @@
 // src/app/(app)/train/TrainV2Client.tsx
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import TimerPanel from "@/components/train/TimerPanel";
 import WalkSessionEditor from "@/components/train/WalkSessionEditor";
 import ConditioningSessionEditor from "@/components/train/ConditioningSessionEditor";
@@ -16,14 +16,16 @@ import {
   upsertBodyMetrics,
 } from "@/lib/trainV2Data";
 import type { TrainSession, TrainSessionType } from "@/lib/trainV2";
-
-function todayLocalISO(): string {
-  const d = new Date();
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
-}
+import DayPicker from "@/components/day/DayPicker";
+import { useSelectedDay } from "@/lib/useSelectedDay";
+import {
+  formatTarget,
+  getScheduledWorkout,
+  listWorkoutTemplates,
+  startWorkoutFromTemplate,
+  type WorkoutProgram,
+  type WorkoutTemplate,
+} from "@/lib/workoutPrograms";
 
 function fmtSessionLabel(t: TrainSessionType) {
   if (t === "strength") return "Workout";
@@ -35,7 +37,9 @@ function fmtSessionLabel(t: TrainSessionType) {
 type SessionPatch = Partial<Pick<TrainSession, "title" | "notes" | "duration_sec">>;
 
 export default function TrainV2Client() {
-  const localDate = useMemo(() => todayLocalISO(), []);
+  const { date: localDate, today, isToday, editable, setDate } = useSelectedDay();
+  const locked = !editable;
+  const loadSeqRef = useRef(0);
   const [loading, setLoading] = useState(true);
   const [dayId, setDayId] = useState<string | null>(null);
   const [sessions, setSessions] = useState<TrainSession[]>([]);
@@ -50,36 +54,51 @@ export default function TrainV2Client() {
   // session editing
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
 
+  // templates + the active program's plan for the day
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [scheduled, setScheduled] = useState<{
+    program: WorkoutProgram;
+    dayIndex: number;
+    template: WorkoutTemplate | null;
+  } | null>(null);
+  const [pickedTemplateId, setPickedTemplateId] = useState("");
+  const [starting, setStarting] = useState(false);
+
   async function load() {
+    const seq = ++loadSeqRef.current;
     setLoading(true);
     setError(null);
+    setEditingSessionId(null);
 
     try {
       const day = await getOrCreateTrainDay(localDate);
-      setDayId(day.id);
-
       const sess = await listSessions(day.id);
-      setSessions(sess);
-
       const m = await getBodyMetrics(localDate);
+      const [tpl, plan] = await Promise.all([listWorkoutTemplates(), getScheduledWorkout(localDate)]);
+      if (seq !== loadSeqRef.current) return; // a newer day was selected meanwhile
+
+      setDayId(day.id);
+      setSessions(sess);
+      setTemplates(tpl);
+      setScheduled(plan);
       setWeightDraft(m?.weight_lbs != null ? String(m.weight_lbs) : "");
       setWaistDraft(m?.waist_in != null ? String(m.waist_in) : "");
       setMetricsSavedAt(m?.updated_at ?? null);
-      setMetricsMode(m ? "view" : "edit");
+      setMetricsMode(m || locked ? "view" : "edit");
     } catch (e: any) {
-      setError(e?.message ?? String(e));
+      if (seq === loadSeqRef.current) setError(e?.message ?? String(e));
     } finally {
-      setLoading(false);
+      if (seq === loadSeqRef.current) setLoading(false);
     }
   }
 
   useEffect(() => {
     void load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [localDate]);
 
   async function onAddSession(type: TrainSessionType) {
-    if (!dayId) return;
+    if (!dayId || locked) return;
     setError(null);
 
     try {
@@ -93,6 +112,25 @@ export default function TrainV2Client() {
     }
   }
 
+  async function onStartTemplate(template: WorkoutTemplate) {
+    if (!dayId || locked) return;
+    setError(null);
+    setStarting(true);
+
+    try {
+      const created = await startWorkoutFromTemplate(dayId, template);
+      setSessions((prev) => [...prev, created]);
+      setPickedTemplateId("");
+
+      // straight into the editor to log the planned sets
+      setEditingSessionId(created.id);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setStarting(false);
+    }
+  }
+
   async function onDeleteSession(id: string) {
     setError(null);
     try {
@@ -125,6 +163,9 @@ export default function TrainV2Client() {
   if (loading) return <div className="min-h-[60vh] flex items-center justify-center text-sm opacity-70">Loading…</div>;
 
   const editing = sessions.find((s) => s.id === editingSessionId) ?? null;
+  const scheduledTemplate = scheduled?.template ?? null;
+  const scheduledStarted = !!scheduledTemplate && sessions.some((s) => s.template_id === scheduledTemplate.id);
+  const pickedTemplate = templates.find((t) => t.id === pickedTemplateId) ?? null;
 
   return (
     <div className="space-y-6">
@@ -138,14 +179,21 @@ export default function TrainV2Client() {
             >
               History
             </a>
+            <a
+              href="/train/programs"
+              className="rounded-lg border px-3 py-1.5 text-sm hover:bg-muted"
+            >
+              Programs
+            </a>
           </div>
           <div className="text-sm opacity-70">
             Multiple sessions per day • Sets/Reps/Weight • Walk distance/steps • Timers • Weight/Waist
           </div>
         </div>
-        <div className="text-sm opacity-70">Today: {localDate}</div>
       </div>
 
+      <DayPicker date={localDate} today={today} editable={editable} onChange={setDate} />
+
       {error ? <div className="rounded-xl border p-3 text-sm text-red-600">Error: {error}</div> : null}
 
       <TimerPanel />
@@ -172,6 +220,7 @@ export default function TrainV2Client() {
               className="col-span-2 rounded-lg border px-3 py-2 text-sm hover:bg-muted"
               type="button"
               onClick={() => setMetricsMode("edit")}
+              disabled={locked}
             >
               Edit metrics
             </button>
@@ -203,7 +252,7 @@ export default function TrainV2Client() {
             </div>
 
             <div className="flex gap-2">
-              <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={saveMetrics}>
+              <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={saveMetrics} disabled={locked}>
                 Save metrics
               </button>
               <button
@@ -218,27 +267,92 @@ export default function TrainV2Client() {
         )}
       </section>
 
+      {/* Today's workout (active program) */}
+      {scheduled ? (
+        <section className="rounded-xl border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <div className="font-semibold">{isToday ? "Today’s workout" : `Workout on ${localDate}`}</div>
+              <div className="text-xs opacity-70">
+                {scheduled.program.name} · day {scheduled.dayIndex + 1} of {scheduled.program.days.length}
+              </div>
+            </div>
+            {scheduledTemplate ? (
+              <button
+                className="rounded-lg border px-3 py-2 text-sm hover:bg-muted"
+                type="button"
+                onClick={() => onStartTemplate(scheduledTemplate)}
+                disabled={locked || starting || scheduledStarted}
+              >
+                {scheduledStarted ? "Started" : starting ? "Starting…" : "Start workout"}
+              </button>
+            ) : null}
+          </div>
+
+          {scheduledTemplate ? (
+            <div className="space-y-1">
+              <div className="text-sm font-medium">{scheduledTemplate.name}</div>
+              {scheduledTemplate.exercises.map((e, i) => (
+                <div key={`${e.name}-${i}`} className="flex justify-between gap-2 text-sm">
+                  <span>{e.name}</span>
+                  <span className="opacity-70">{formatTarget(e)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm opacity-70">Rest day.</div>
+          )}
+        </section>
+      ) : null}
+
       {/* Sessions */}
       <section className="rounded-xl border p-4 space-y-4">
         <div className="flex items-center justify-between">
-          <div className="font-semibold">Today’s sessions</div>
+          <div className="font-semibold">{isToday ? "Today’s sessions" : `Sessions on ${localDate}`}</div>
           <div className="flex gap-2 flex-wrap">
-            <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={() => onAddSession("walk")}>
+            <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={() => onAddSession("walk")} disabled={locked}>
               + Walk
             </button>
-            <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={() => onAddSession("strength")}>
+            <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={() => onAddSession("strength")} disabled={locked}>
               + Workout
             </button>
             <button
               className="rounded-lg border px-3 py-2 text-sm hover:bg-muted"
               type="button"
               onClick={() => onAddSession("conditioning")}
+              disabled={locked}
             >
               + Conditioning
             </button>
           </div>
         </div>
 
+        {templates.length > 0 ? (
+          <div className="flex gap-2">
+            <select
+              className="flex-1 rounded-lg border px-3 py-2 text-sm bg-transparent"
+              value={pickedTemplateId}
+              onChange={(e) => setPickedTemplateId(e.target.value)}
+              disabled={locked || starting}
+            >
+              <option value="">Start from a template…</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.exercises.length} exercises)
+                </option>
+              ))}
+            </select>
+            <button
+              className="rounded-lg border px-3 py-2 text-sm hover:bg-muted"
+              type="button"
+              onClick={() => pickedTemplate && onStartTemplate(pickedTemplate)}
+              disabled={locked || starting || !pickedTemplate}
+            >
+              Start
+            </button>
+          </div>
+        ) : null}
+
         {/* editor */}
         {editing ? (
           <>
@@ -267,13 +381,12 @@ export default function TrainV2Client() {
             ) : (
               <StrengthSessionEditor
                 session={editing}
+                localDate={localDate}
                 onSaveSession={async (patch: SessionPatch) => {
                   await updateSession(editing.id, patch);
                   setSessions((prev) => prev.map((s) => (s.id === editing.id ? { ...s, ...patch } : s)));
                 }}
-                onSaved={() => {
-                  setEditingSessionId(null);
-                }}
+                onSaved={() => setEditingSessionId(null)}
               />
             )}
           </>
@@ -298,6 +411,7 @@ export default function TrainV2Client() {
                         className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
                         type="button"
                         onClick={() => setEditingSessionId(s.id)}
+                        disabled={locked}
                       >
                         Edit
                       </button>
@@ -305,6 +419,7 @@ export default function TrainV2Client() {
                         className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
                         type="button"
                         onClick={() => onDeleteSession(s.id)}
+                        disabled={locked}
                       >
                         Delete
                       </button>
@@ -5,6 +5,7 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import HistoryShell from "@/components/history/HistoryShell";
+import { todayLocalISO } from "@/lib/localDay";
 
 type TrainEntry = {
   id: string;
@@ -26,7 +27,7 @@ export default function TrainHistoryPage() {
   const [rows, setRows] = useState<TrainEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
 
-  const todayUtc = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const today = useMemo(() => todayLocalISO(), []);
 
   async function load() {
     setLoading(true);
@@ -113,7 +114,7 @@ export default function TrainHistoryPage() {
       ) : (
         <div className="space-y-3">
           {rows.map((r) => {
-            const isToday = r.entry_date === todayUtc;
+            const isToday = r.entry_date === today;
             return (
               <div key={r.id + r.entry_date} className="border rounded-2xl p-5 space-y-2">
                 <div className="flex items-center justify-between gap-3">
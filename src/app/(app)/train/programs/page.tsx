@@ -0,0 +1,277 @@
+// src/app/(app)/train/programs/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import WorkoutTemplateEditor from "@/components/train/WorkoutTemplateEditor";
+import WorkoutProgramEditor from "@/components/train/WorkoutProgramEditor";
+import { listExerciseCatalog, type Exercise } from "@/lib/exercises";
+import { todayLocalISO } from "@/lib/localDay";
+import {
+  deleteWorkoutProgram,
+  deleteWorkoutTemplate,
+  formatTarget,
+  listWorkoutPrograms,
+  listWorkoutTemplates,
+  programDayIndex,
+  setActiveProgram,
+  type WorkoutProgram,
+  type WorkoutTemplate,
+} from "@/lib/workoutPrograms";
+
+export default function TrainProgramsPage() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [programs, setPrograms] = useState<WorkoutProgram[]>([]);
+  const [catalog, setCatalog] = useState<Exercise[]>([]);
+
+  // "new" = creating, an id = editing that row, null = closed
+  const [editingTemplate, setEditingTemplate] = useState<string | null>(null);
+  const [editingProgram, setEditingProgram] = useState<string | null>(null);
+
+  const today = todayLocalISO();
+
+  async function load() {
+    setError(null);
+    try {
+      const [tpl, prog, cat] = await Promise.all([listWorkoutTemplates(), listWorkoutPrograms(), listExerciseCatalog()]);
+      setTemplates(tpl);
+      setPrograms(prog);
+      setCatalog(cat);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  async function run(action: () => Promise<void>) {
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const templateName = (id: string | null) => templates.find((t) => t.id === id)?.name ?? "Rest";
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Programs</h1>
+          <div className="text-sm opacity-70 mt-1">
+            Workout templates, and programs that schedule one per day. The active program fills in Train’s
+            “Today’s workout”.
+          </div>
+        </div>
+
+        <Link href="/train" className="rounded-lg border px-3 py-2 text-sm hover:bg-muted">
+          Back
+        </Link>
+      </div>
+
+      {error ? <div className="rounded-xl border p-3 text-sm text-red-600">Error: {error}</div> : null}
+
+      {loading ? (
+        <div className="text-sm opacity-70">Loading…</div>
+      ) : (
+        <>
+          {/* Templates */}
+          <section className="rounded-xl border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="font-semibold">Workout templates</div>
+              <button
+                className="rounded-lg border px-3 py-2 text-sm hover:bg-muted"
+                type="button"
+                onClick={() => setEditingTemplate("new")}
+                disabled={editingTemplate !== null}
+              >
+                + Template
+              </button>
+            </div>
+
+            {editingTemplate === "new" ? (
+              <WorkoutTemplateEditor
+                template={null}
+                catalog={catalog}
+                onCatalogAdd={(ex) => setCatalog((prev) => [...prev, ex])}
+                onSaved={() => {
+                  setEditingTemplate(null);
+                  void load();
+                }}
+                onCancel={() => setEditingTemplate(null)}
+              />
+            ) : null}
+
+            {templates.length === 0 && editingTemplate !== "new" ? (
+              <div className="text-sm opacity-70">
+                No templates yet. Create one here, or save a logged workout as a template from its editor.
+              </div>
+            ) : null}
+
+            {templates.map((t) =>
+              editingTemplate === t.id ? (
+                <WorkoutTemplateEditor
+                  key={t.id}
+                  template={t}
+                  catalog={catalog}
+                  onCatalogAdd={(ex) => setCatalog((prev) => [...prev, ex])}
+                  onSaved={() => {
+                    setEditingTemplate(null);
+                    void load();
+                  }}
+                  onCancel={() => setEditingTemplate(null)}
+                />
+              ) : (
+                <div key={t.id} className="rounded-xl border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-semibold">{t.name}</div>
+                      {t.notes ? <div className="text-xs opacity-70">{t.notes}</div> : null}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                        type="button"
+                        onClick={() => setEditingTemplate(t.id)}
+                        disabled={editingTemplate !== null}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                        type="button"
+                        onClick={() => run(() => deleteWorkoutTemplate(t.id))}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  {t.exercises.map((e, i) => (
+                    <div key={`${e.name}-${i}`} className="flex justify-between gap-2 text-sm">
+                      <span>{e.name}</span>
+                      <span className="opacity-70">{formatTarget(e)}</span>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </section>
+
+          {/* Programs */}
+          <section className="rounded-xl border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="font-semibold">Programs</div>
+              <button
+                className="rounded-lg border px-3 py-2 text-sm hover:bg-muted"
+                type="button"
+                onClick={() => setEditingProgram("new")}
+                disabled={editingProgram !== null}
+              >
+                + Program
+              </button>
+            </div>
+
+            {editingProgram === "new" ? (
+              <WorkoutProgramEditor
+                program={null}
+                templates={templates}
+                onSaved={() => {
+                  setEditingProgram(null);
+                  void load();
+                }}
+                onCancel={() => setEditingProgram(null)}
+              />
+            ) : null}
+
+            {programs.length === 0 && editingProgram !== "new" ? (
+              <div className="text-sm opacity-70">No programs yet.</div>
+            ) : null}
+
+            {programs.map((p) => {
+              if (editingProgram === p.id) {
+                return (
+                  <WorkoutProgramEditor
+                    key={p.id}
+                    program={p}
+                    templates={templates}
+                    onSaved={() => {
+                      setEditingProgram(null);
+                      void load();
+                    }}
+                    onCancel={() => setEditingProgram(null)}
+                  />
+                );
+              }
+
+              const dayIndex = programDayIndex(p, today);
+
+              return (
+                <div key={p.id} className="rounded-xl border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-semibold">
+                        {p.name}
+                        {p.is_active ? <span className="text-xs opacity-70"> · active</span> : null}
+                      </div>
+                      <div className="text-xs opacity-70">
+                        {p.days.length}-day cycle ·{" "}
+                        {dayIndex === null
+                          ? `starts ${p.start_date}`
+                          : `today is day ${dayIndex + 1}: ${templateName(p.days[dayIndex])}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                        type="button"
+                        onClick={() => run(() => setActiveProgram(p.is_active ? null : p.id))}
+                      >
+                        {p.is_active ? "Deactivate" : "Activate"}
+                      </button>
+                      <button
+                        className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                        type="button"
+                        onClick={() => setEditingProgram(p.id)}
+                        disabled={editingProgram !== null}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                        type="button"
+                        onClick={() => run(() => deleteWorkoutProgram(p.id))}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1">
+                    {p.days.map((d, i) => (
+                      <span
+                        key={i}
+                        className={`rounded border px-2 py-0.5 text-xs ${i === dayIndex ? "font-semibold" : "opacity-70"}`}
+                      >
+                        {i + 1}: {templateName(d)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import HistoryShell from "@/components/history/HistoryShell";
+import { todayLocalISO } from "@/lib/localDay";
 
 type WordEntry = {
   id: string;
@@ -29,7 +30,7 @@ export default function WordHistoryPage() {
   const [rows, setRows] = useState<WordEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
 
-  const todayUtc = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const today = useMemo(() => todayLocalISO(), []);
 
   async function load() {
     setLoading(true);
@@ -98,7 +99,7 @@ export default function WordHistoryPage() {
       ) : (
         <div className="space-y-3">
           {rows.map((r) => {
-            const isToday = r.entry_date === todayUtc;
+            const isToday = r.entry_date === today;
             return (
               <div key={r.id} className="border rounded-2xl p-5 space-y-2">
                 <div className="flex items-center justify-between gap-3">
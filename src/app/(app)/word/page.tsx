@@ -1,10 +1,14 @@
 // src/app/(app)/word/page.tsx
 "use client";
 
-import { useMemo, useState } from "react";
+import { useState } from "react";
 import Link from "next/link";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
+import DayPicker from "@/components/day/DayPicker";
+import { useSelectedDay } from "@/lib/useSelectedDay";
+import { applyPillarTransition } from "@/lib/pillarState";
+import { recomputePillar } from "@/lib/recomputePillar";
 
 type WordEntryRow = {
   id?: string;
@@ -16,10 +20,6 @@ type WordEntryRow = {
   updated_at?: string | null;
 };
 
-function todayISODateUTC() {
-  return new Date().toISOString().slice(0, 10);
-}
-
 async function getUserId(): Promise<string> {
   const { data, error } = await supabase.auth.getUser();
   if (error) throw error;
@@ -28,58 +28,7 @@ async function getUserId(): Promise<string> {
   return uid;
 }
 
-async function ensureDailyEntry(uid: string, todayUtc: string): Promise<string> {
-  // ✅ Atomic get-or-create
-  const upserted = await supabase
-    .schema("disciplined")
-    .from("daily_entries")
-    .upsert({ user_id: uid, entry_date: todayUtc }, { onConflict: "user_id,entry_date" })
-    .select("id")
-    .single<{ id: string }>();
-
-  if (upserted.error) throw upserted.error;
-  return upserted.data.id;
-}
-
-async function markWordPillar(uid: string, todayUtc: string, completed: boolean) {
-  const entryId = await ensureDailyEntry(uid, todayUtc);
-
-  // seed row without overwrite
-  const seed = await supabase
-    .schema("disciplined")
-    .from("daily_pillars")
-    .upsert(
-      [
-        {
-          entry_id: entryId,
-          pillar: "word",
-          completed: false,
-          completed_at: null,
-          source: null,
-        },
-      ],
-      { onConflict: "entry_id,pillar", ignoreDuplicates: true }
-    );
-
-  if (seed.error) throw seed.error;
-
-  const upd = await supabase
-    .schema("disciplined")
-    .from("daily_pillars")
-    .update({
-      completed,
-      completed_at: completed ? new Date().toISOString() : null,
-      source: "auto",
-    })
-    .eq("entry_id", entryId)
-    .eq("pillar", "word");
-
-  if (upd.error) throw upd.error;
-
-  window.dispatchEvent(new Event("dl:pillar-updated"));
-}
-
-async function fetchWordToday(todayUtc: string): Promise<WordEntryRow | null> {
+async function fetchWordDay(date: string): Promise<WordEntryRow | null> {
   const uid = await getUserId();
 
   const { data, error } = await supabase
@@ -87,7 +36,7 @@ async function fetchWordToday(todayUtc: string): Promise<WordEntryRow | null> {
     .from("word_entries")
     .select("id,user_id,entry_date,reference,notes,created_at,updated_at")
     .eq("user_id", uid)
-    .eq("entry_date", todayUtc)
+    .eq("entry_date", date)
     .maybeSingle<WordEntryRow>();
 
   if (error) throw error;
@@ -97,22 +46,32 @@ async function fetchWordToday(todayUtc: string): Promise<WordEntryRow | null> {
 
 export default function WordPage() {
   const queryClient = useQueryClient();
-  const todayUtc = useMemo(() => todayISODateUTC(), []);
+  const { date, today, isToday, editable, setDate } = useSelectedDay();
 
   const [mode, setMode] = useState<"edit" | "view">("edit");
   const [reference, setReference] = useState("");
   const [notes, setNotes] = useState("");
   const [markComplete, setMarkComplete] = useState(true);
   const [msg, setMsg] = useState<string | null>(null);
+  const [formDate, setFormDate] = useState(date);
 
   const wordQuery = useQuery({
-    queryKey: ["word-today", todayUtc],
-    queryFn: () => fetchWordToday(todayUtc),
+    queryKey: ["word-day", date],
+    queryFn: () => fetchWordDay(date),
     staleTime: 30_000,
   });
 
   const saved = wordQuery.data ?? null;
 
+  // switching days starts from a clean form
+  if (formDate !== date) {
+    setFormDate(date);
+    setReference("");
+    setNotes("");
+    setMarkComplete(true);
+    setMsg(null);
+  }
+
   // When data loads, initialize the form + mode
   if (!wordQuery.isLoading) {
     if (saved && mode !== "view") {
@@ -140,7 +99,7 @@ export default function WordPage() {
 
       const entry: WordEntryRow = {
         user_id: uid,
-        entry_date: todayUtc,
+        entry_date: date,
         reference: reference.trim() || null,
         notes: notes.trim() || null,
         updated_at: new Date().toISOString(),
@@ -155,12 +114,14 @@ export default function WordPage() {
 
       if (entryErr) throw entryErr;
 
-      await markWordPillar(uid, todayUtc, markComplete);
+      // entry exists -> auto-complete, unless the user opted out for this day
+      if (markComplete) await recomputePillar("word", date);
+      else await applyPillarTransition("word", "auto_revoke", date);
 
       return data;
     },
     onSuccess: async (data) => {
-      await queryClient.invalidateQueries({ queryKey: ["word-today", todayUtc] });
+      await queryClient.invalidateQueries({ queryKey: ["word-day", date] });
       await queryClient.invalidateQueries({ queryKey: ["today"] });
 
       setMsg("Saved.");
@@ -179,35 +140,36 @@ export default function WordPage() {
         .from("word_entries")
         .delete()
         .eq("user_id", uid)
-        .eq("entry_date", todayUtc);
+        .eq("entry_date", date);
 
       if (delErr) throw delErr;
 
-      await markWordPillar(uid, todayUtc, false);
+      await recomputePillar("word", date);
       return true;
     },
     onSuccess: async () => {
-      await queryClient.invalidateQueries({ queryKey: ["word-today", todayUtc] });
+      await queryClient.invalidateQueries({ queryKey: ["word-day", date] });
       await queryClient.invalidateQueries({ queryKey: ["today"] });
 
       setReference("");
       setNotes("");
       setMarkComplete(true);
       setMode("edit");
-      setMsg("Cleared for today.");
+      setMsg(isToday ? "Cleared for today." : `Cleared ${date}.`);
     },
     onError: (e: any) => setMsg(e?.message ?? "Failed to clear."),
   });
 
   const loading = wordQuery.isLoading;
   const busy = saveMutation.isPending || clearMutation.isPending || wordQuery.isFetching;
+  const locked = !editable;
 
   return (
     <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
       <div className="flex items-start justify-between gap-4">
         <div>
           <h1 className="text-3xl font-semibold">Word</h1>
-          <div className="text-sm opacity-70 mt-1">Today (UTC): {todayUtc}</div>
+          <div className="text-sm opacity-70 mt-1">Today: {today}</div>
         </div>
 
         <div className="flex gap-2">
@@ -228,12 +190,16 @@ export default function WordPage() {
         </div>
       </div>
 
+      <DayPicker date={date} today={today} editable={editable} onChange={setDate} />
+
       <div className="border rounded-2xl p-6 space-y-5">
         {loading ? (
           <div className="text-sm opacity-70">Loading…</div>
         ) : saved && mode === "view" ? (
           <>
-            <div className="text-sm opacity-70">You have a saved Word entry for today.</div>
+            <div className="text-sm opacity-70">
+              You have a saved Word entry for {isToday ? "today" : date}.
+            </div>
 
             <div className="space-y-1">
               <div className="text-sm opacity-70">Reference</div>
@@ -256,7 +222,7 @@ export default function WordPage() {
                   setMarkComplete(true);
                   setMode("edit");
                 }}
-                disabled={busy}
+                disabled={busy || locked}
               >
                 Edit
               </button>
@@ -264,16 +230,16 @@ export default function WordPage() {
               <button
                 className="border rounded-xl px-5 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
                 onClick={() => clearMutation.mutate()}
-                disabled={busy}
+                disabled={busy || locked}
               >
-                {clearMutation.isPending ? "Clearing…" : "Clear today"}
+                {clearMutation.isPending ? "Clearing…" : isToday ? "Clear today" : "Clear day"}
               </button>
             </div>
           </>
         ) : (
           <>
             <div className="text-sm opacity-70">
-              Save your Word entry for today. Saving can also mark Word complete on Today.
+              Save your Word entry for {isToday ? "today" : date}. Saving can also mark Word complete on Today.
             </div>
 
             <div className="space-y-2">
@@ -283,7 +249,7 @@ export default function WordPage() {
                 value={reference}
                 onChange={(e) => setReference(e.target.value)}
                 placeholder="e.g., Matthew 1:1-20"
-                disabled={loading || busy}
+                disabled={loading || busy || locked}
               />
             </div>
 
@@ -294,7 +260,7 @@ export default function WordPage() {
                 value={notes}
                 onChange={(e) => setNotes(e.target.value)}
                 placeholder="Write what stood out, what God is teaching you, and one next step…"
-                disabled={loading || busy}
+                disabled={loading || busy || locked}
               />
             </div>
 
@@ -303,16 +269,16 @@ export default function WordPage() {
                 type="checkbox"
                 checked={markComplete}
                 onChange={(e) => setMarkComplete(e.target.checked)}
-                disabled={loading || busy}
+                disabled={loading || busy || locked}
               />
-              Mark Word as completed today
+              Mark Word as completed {isToday ? "today" : `for ${date}`}
             </label>
 
             <div className="flex flex-wrap gap-3 pt-2">
               <button
                 className="border rounded-xl px-5 py-3 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
                 onClick={() => saveMutation.mutate()}
-                disabled={loading || busy}
+                disabled={loading || busy || locked}
               >
                 {saveMutation.isPending ? "Saving…" : "Save"}
               </button>
@@ -0,0 +1,61 @@
+// src/app/api/foods/duplicates/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import type { FoodDuplicateGroup } from "@/lib/foods";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+function need(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function jsonNoStore(body: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(body, init);
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
+
+/**
+ * GET /api/foods/duplicates
+ * Groups of the user's active foods that share a name + brand (disciplined.food_duplicates).
+ */
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = need("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = need("SUPABASE_SERVICE_ROLE_KEY");
+
+    const authHeader = req.headers.get("authorization");
+    const accessToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!accessToken) {
+      return jsonNoStore({ ok: false, reason: "missing_token" }, { status: 401 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: userData, error: userErr } = await admin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonNoStore({ ok: false, reason: "invalid_token" }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const { data, error } = await admin.schema("disciplined").rpc("food_duplicates", {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      return jsonNoStore({ ok: false, reason: "db_error", message: error.message }, { status: 500 });
+    }
+
+    return jsonNoStore({ ok: true, groups: (data ?? []) as FoodDuplicateGroup[] }, { status: 200 });
+  } catch (e: unknown) {
+    return jsonNoStore(
+      { ok: false, reason: "server_error", message: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
+  }
+}
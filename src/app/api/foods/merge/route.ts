@@ -0,0 +1,85 @@
+// src/app/api/foods/merge/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import type { FoodMergeResult } from "@/lib/foods";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function need(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function jsonNoStore(body: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(body, init);
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
+
+/**
+ * POST /api/foods/merge
+ * body: { keep: uuid, merge: uuid[] }
+ * Re-points meal_items, recipe_items and meal templates from `merge` to `keep`, then deletes
+ * the merged foods (disciplined.merge_foods, one transaction).
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = need("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = need("SUPABASE_SERVICE_ROLE_KEY");
+
+    const authHeader = req.headers.get("authorization");
+    const accessToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!accessToken) {
+      return jsonNoStore({ ok: false, reason: "missing_token" }, { status: 401 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: userData, error: userErr } = await admin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonNoStore({ ok: false, reason: "invalid_token" }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const body = await req.json().catch(() => null);
+    const keep = String(body?.keep ?? "");
+    const merge: unknown[] = Array.isArray(body?.merge) ? body.merge : [];
+
+    if (!UUID_RE.test(keep) || merge.length === 0 || !merge.every((id) => typeof id === "string" && UUID_RE.test(id))) {
+      return jsonNoStore(
+        { ok: false, reason: "bad_input", message: "Pass the food to keep and at least one food to merge into it" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await admin.schema("disciplined").rpc("merge_foods", {
+      p_user_id: userId,
+      p_keep: keep,
+      p_merge: merge,
+    });
+
+    if (error) {
+      if (error.code === "P0002") {
+        return jsonNoStore({ ok: false, reason: "not_found", message: error.message }, { status: 404 });
+      }
+      // 22023 = servings that can't be converted into the kept food's
+      if (error.code === "22023") {
+        return jsonNoStore({ ok: false, reason: "bad_input", message: error.message }, { status: 400 });
+      }
+      return jsonNoStore({ ok: false, reason: "db_error", message: error.message }, { status: 500 });
+    }
+
+    return jsonNoStore({ ok: true, result: data as FoodMergeResult }, { status: 200 });
+  } catch (e: unknown) {
+    return jsonNoStore(
+      { ok: false, reason: "server_error", message: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
+  }
+}
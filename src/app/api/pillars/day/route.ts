@@ -0,0 +1,82 @@
+// src/app/api/pillars/day/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { isISODate, type DayPillarState } from "@/lib/pillarTypes";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+function need(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function jsonNoStore(body: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(body, init);
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
+
+/**
+ * GET /api/pillars/day?date=YYYY-MM-DD
+ * Ensures the day (entry + pillar rows) exists and returns it in one request.
+ */
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = need("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = need("SUPABASE_SERVICE_ROLE_KEY");
+
+    const authHeader = req.headers.get("authorization");
+    const accessToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!accessToken) {
+      return jsonNoStore({ ok: false, reason: "missing_token" }, { status: 401 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: userData, error: userErr } = await admin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonNoStore({ ok: false, reason: "invalid_token" }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const date = new URL(req.url).searchParams.get("date");
+    if (!isISODate(date)) {
+      return jsonNoStore({ ok: false, reason: "bad_input", message: "date must be YYYY-MM-DD" }, { status: 400 });
+    }
+
+    // Don't seed rows for days the user hasn't reached yet (same local day rules as pillar_day_state)
+    const { data: today, error: todayErr } = await admin
+      .schema("disciplined")
+      .rpc("user_local_today", { p_user_id: userId });
+    if (todayErr) {
+      return jsonNoStore({ ok: false, reason: "db_error", message: todayErr.message }, { status: 500 });
+    }
+    if (date > (today as string)) {
+      return jsonNoStore({ ok: false, reason: "bad_input", message: "date is in the future" }, { status: 400 });
+    }
+
+    const { data, error } = await admin.schema("disciplined").rpc("pillar_day_state", {
+      p_user_id: userId,
+      p_entry_date: date,
+    });
+
+    if (error) {
+      // 42501 = day refused by pillar_day_state (same mapping as /api/pillars/toggle)
+      if (error.code === "42501") {
+        return jsonNoStore({ ok: false, reason: "day_locked", message: error.message }, { status: 403 });
+      }
+      return jsonNoStore({ ok: false, reason: "db_error", message: error.message }, { status: 500 });
+    }
+
+    return jsonNoStore({ ok: true, day: data as DayPillarState }, { status: 200 });
+  } catch (e: unknown) {
+    return jsonNoStore(
+      { ok: false, reason: "server_error", message: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+// src/app/api/pillars/insights/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { addDaysISO } from "@/lib/localDay";
+import { isISODate, type PillarInsightsData } from "@/lib/pillarTypes";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// a year heatmap plus a partial first week
+const MAX_RANGE_DAYS = 400;
+
+function need(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function jsonNoStore(body: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(body, init);
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
+
+/**
+ * GET /api/pillars/insights?start=YYYY-MM-DD&end=YYYY-MM-DD
+ * Completed pillars per day for the range, aggregated in one query (disciplined.pillar_insights).
+ */
+export async function GET(req: Request) {
+  try {
+    const supabaseUrl = need("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = need("SUPABASE_SERVICE_ROLE_KEY");
+
+    const authHeader = req.headers.get("authorization");
+    const accessToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!accessToken) {
+      return jsonNoStore({ ok: false, reason: "missing_token" }, { status: 401 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: userData, error: userErr } = await admin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonNoStore({ ok: false, reason: "invalid_token" }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const params = new URL(req.url).searchParams;
+    const start = params.get("start");
+    const end = params.get("end");
+
+    if (!isISODate(start) || !isISODate(end)) {
+      return jsonNoStore(
+        { ok: false, reason: "bad_input", message: "start and end must be YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+    if (start > end || addDaysISO(start, MAX_RANGE_DAYS) < end) {
+      return jsonNoStore(
+        { ok: false, reason: "bad_input", message: `Range must be 1..${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await admin.schema("disciplined").rpc("pillar_insights", {
+      p_user_id: userId,
+      p_start: start,
+      p_end: end,
+    });
+
+    if (error) {
+      return jsonNoStore({ ok: false, reason: "db_error", message: error.message }, { status: 500 });
+    }
+
+    return jsonNoStore({ ok: true, insights: data as PillarInsightsData }, { status: 200 });
+  } catch (e: unknown) {
+    return jsonNoStore(
+      { ok: false, reason: "server_error", message: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+// src/app/api/pillars/toggle/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { isISODate, isPillarKey, isPillarTransition, type DayPillarState } from "@/lib/pillarTypes";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+function need(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function jsonNoStore(body: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(body, init);
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
+
+/**
+ * Applies one pillar transition atomically (disciplined.pillar_day_state) and
+ * returns the full day so the client can render without another round-trip.
+ *
+ * body: { date: "YYYY-MM-DD", pillar: PillarKey, transition: PillarTransition }
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = need("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = need("SUPABASE_SERVICE_ROLE_KEY");
+
+    const authHeader = req.headers.get("authorization");
+    const accessToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!accessToken) {
+      return jsonNoStore({ ok: false, reason: "missing_token" }, { status: 401 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: userData, error: userErr } = await admin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonNoStore({ ok: false, reason: "invalid_token" }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const body = await req.json().catch(() => ({}));
+    const { date, pillar, transition } = body ?? {};
+
+    if (!isISODate(date)) {
+      return jsonNoStore({ ok: false, reason: "bad_input", message: "date must be YYYY-MM-DD" }, { status: 400 });
+    }
+    if (!isPillarKey(pillar)) {
+      return jsonNoStore({ ok: false, reason: "bad_input", message: "Unknown pillar" }, { status: 400 });
+    }
+    if (!isPillarTransition(transition)) {
+      return jsonNoStore({ ok: false, reason: "bad_input", message: "Unknown transition" }, { status: 400 });
+    }
+
+    const { data, error } = await admin.schema("disciplined").rpc("pillar_day_state", {
+      p_user_id: userId,
+      p_entry_date: date,
+      p_pillar: pillar,
+      p_transition: transition,
+    });
+
+    if (error) {
+      // 22023 = unknown pillar/transition raised by pillar_day_state (e.g. not in the user's catalog)
+      if (error.code === "22023") {
+        return jsonNoStore({ ok: false, reason: "bad_input", message: error.message }, { status: 400 });
+      }
+      // 42501 = future day or outside the user's back-fill grace window
+      if (error.code === "42501") {
+        return jsonNoStore({ ok: false, reason: "day_locked", message: error.message }, { status: 403 });
+      }
+      return jsonNoStore({ ok: false, reason: "db_error", message: error.message }, { status: 500 });
+    }
+
+    return jsonNoStore({ ok: true, day: data as DayPillarState }, { status: 200 });
+  } catch (e: unknown) {
+    return jsonNoStore(
+      { ok: false, reason: "server_error", message: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
+  }
+}
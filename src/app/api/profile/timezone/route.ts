@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { isValidTimezone } from "@/lib/localDay";
 
 export const runtime = "nodejs";
 
@@ -29,6 +30,10 @@ export async function POST(request: Request) {
       return NextResponse.json({ ok: false, reason: "missing_timezone" }, { status: 400 });
     }
 
+    if (!isValidTimezone(timezone)) {
+      return NextResponse.json({ ok: false, reason: "bad_timezone" }, { status: 400 });
+    }
+
     const admin = createClient(supabaseUrl, serviceKey, {
       auth: { persistSession: false },
     });
@@ -56,6 +61,22 @@ export async function POST(request: Request) {
       );
     }
 
+    // user_settings.timezone drives push-cron's local day, keep it in lockstep
+    const { error: settingsErr } = await admin
+      .schema("disciplined")
+      .from("user_settings")
+      .upsert(
+        { user_id: userId, timezone, updated_at: new Date().toISOString() },
+        { onConflict: "user_id" }
+      );
+
+    if (settingsErr) {
+      return NextResponse.json(
+        { ok: false, reason: "db_error", message: settingsErr.message },
+        { status: 500 }
+      );
+    }
+
     return NextResponse.json({ ok: true, timezone }, { status: 200 });
   } catch (e: any) {
     return NextResponse.json(
@@ -0,0 +1,91 @@
+// src/app/api/recipes/save/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function need(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function jsonNoStore(body: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(body, init);
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
+
+/**
+ * POST /api/recipes/save
+ * body: { id: uuid | null, recipe: { name, yield_servings, notes }, items: [{ food_id, amount, unit, quantity }] }
+ * Writes the recipe and replaces its items in one transaction (disciplined.save_recipe), which also
+ * recomputes the recipe's per-serving macros from the items.
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = need("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = need("SUPABASE_SERVICE_ROLE_KEY");
+
+    const authHeader = req.headers.get("authorization");
+    const accessToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!accessToken) {
+      return jsonNoStore({ ok: false, reason: "missing_token" }, { status: 401 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: userData, error: userErr } = await admin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return jsonNoStore({ ok: false, reason: "invalid_token" }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const body = await req.json().catch(() => null);
+    const id = body?.id ?? null;
+    const recipe = body?.recipe;
+    const items: unknown[] = Array.isArray(body?.items) ? body.items : [];
+
+    if (
+      (id !== null && !(typeof id === "string" && UUID_RE.test(id))) ||
+      !recipe ||
+      typeof recipe !== "object" ||
+      items.length === 0 ||
+      !items.every((it) => UUID_RE.test(String((it as { food_id?: unknown })?.food_id ?? "")))
+    ) {
+      return jsonNoStore(
+        { ok: false, reason: "bad_input", message: "Pass the recipe and at least one food" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await admin.schema("disciplined").rpc("save_recipe", {
+      p_user_id: userId,
+      p_recipe_id: id,
+      p_recipe: recipe,
+      p_items: items,
+    });
+
+    if (error) {
+      if (error.code === "P0002") {
+        return jsonNoStore({ ok: false, reason: "not_found", message: error.message }, { status: 404 });
+      }
+      if (error.code === "22023" || error.code === "23514") {
+        return jsonNoStore({ ok: false, reason: "bad_input", message: error.message }, { status: 400 });
+      }
+      return jsonNoStore({ ok: false, reason: "db_error", message: error.message }, { status: 500 });
+    }
+
+    return jsonNoStore({ ok: true, id: data as string }, { status: 200 });
+  } catch (e: unknown) {
+    return jsonNoStore(
+      { ok: false, reason: "server_error", message: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+// src/app/api/settings/day/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  isValidBackfillGraceHours,
+  isValidDayStartHour,
+  MAX_BACKFILL_GRACE_HOURS,
+  MAX_DAY_START_HOUR,
+} from "@/lib/localDay";
+
+export const runtime = "nodejs";
+
+function need(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+/**
+ * Day-boundary settings. Any field may be sent on its own.
+ *
+ * body: { day_start_hour?: 0..12, backfill_grace_hours?: 1..720 | null, streak_counts_backfilled?: boolean }
+ */
+export async function POST(req: Request) {
+  try {
+    const supabaseUrl = need("NEXT_PUBLIC_SUPABASE_URL");
+    const serviceKey = need("SUPABASE_SERVICE_ROLE_KEY");
+
+    const authHeader = req.headers.get("authorization");
+    const accessToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+    if (!accessToken) {
+      return NextResponse.json({ ok: false, reason: "missing_token" }, { status: 401 });
+    }
+
+    const admin = createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+    const { data: userData, error: userErr } = await admin.auth.getUser(accessToken);
+    if (userErr || !userData?.user) {
+      return NextResponse.json({ ok: false, reason: "invalid_token" }, { status: 401 });
+    }
+    const userId = userData.user.id;
+
+    const body = await req.json();
+    const patch: { day_start_hour?: number; backfill_grace_hours?: number | null; streak_counts_backfilled?: boolean } =
+      {};
+
+    if (body.day_start_hour !== undefined) {
+      const day_start_hour = Number(body.day_start_hour);
+
+      if (!isValidDayStartHour(day_start_hour)) {
+        return NextResponse.json(
+          { ok: false, reason: "bad_input", message: `Day start hour must be 0..${MAX_DAY_START_HOUR}` },
+          { status: 400 }
+        );
+      }
+      patch.day_start_hour = day_start_hour;
+    }
+
+    if (body.backfill_grace_hours !== undefined) {
+      const backfill_grace_hours = body.backfill_grace_hours === null ? null : Number(body.backfill_grace_hours);
+
+      if (!isValidBackfillGraceHours(backfill_grace_hours)) {
+        return NextResponse.json(
+          {
+            ok: false,
+            reason: "bad_input",
+            message: `Back-fill window must be 1..${MAX_BACKFILL_GRACE_HOURS} hours (or null for no limit)`,
+          },
+          { status: 400 }
+        );
+      }
+      patch.backfill_grace_hours = backfill_grace_hours;
+    }
+
+    if (body.streak_counts_backfilled !== undefined) {
+      if (typeof body.streak_counts_backfilled !== "boolean") {
+        return NextResponse.json(
+          { ok: false, reason: "bad_input", message: "streak_counts_backfilled must be true or false" },
+          { status: 400 }
+        );
+      }
+      patch.streak_counts_backfilled = body.streak_counts_backfilled;
+    }
+
+    if (Object.keys(patch).length === 0) {
+      return NextResponse.json({ ok: false, reason: "bad_input", message: "Nothing to update" }, { status: 400 });
+    }
+
+    const { data, error } = await admin
+      .schema("disciplined")
+      .from("user_settings")
+      .upsert(
+        {
+          user_id: userId,
+          ...patch,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      )
+      .select("timezone,day_start_hour,backfill_grace_hours,streak_counts_backfilled")
+      .single();
+
+    if (error) {
+      return NextResponse.json({ ok: false, reason: "db_error", message: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true, userSettings: data }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { ok: false, reason: "server_error", message: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 // src/app/api/settings/fasting/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { isFastingProtocol, protocolForWindow } from "@/lib/fasting";
 
 export const runtime = "nodejs";
 
@@ -45,6 +46,21 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, reason: "bad_input", message: "Hours must be 1..23" }, { status: 400 });
     }
 
+    // a preset that no longer matches the window is relabeled (or re-planned) in the same write
+    const { data: current, error: currentErr } = await admin
+      .schema("disciplined")
+      .from("fasting_settings")
+      .select("protocol")
+      .eq("user_id", userId)
+      .maybeSingle<{ protocol: string | null }>();
+
+    if (currentErr) {
+      return NextResponse.json({ ok: false, reason: "db_error", message: currentErr.message }, { status: 500 });
+    }
+
+    const protocol = isFastingProtocol(current?.protocol) ? current.protocol : null;
+    const replanned = protocolForWindow(protocol, { eating_start, eating_hours });
+
     // upsert fasting_settings
     const { data, error } = await admin
       .schema("disciplined")
@@ -56,11 +72,12 @@ export async function POST(req: Request) {
           eating_hours,
           notify_window_start,
           notify_window_end,
+          ...(replanned ?? {}),
           updated_at: new Date().toISOString(),
         },
         { onConflict: "user_id" }
       )
-      .select("eating_start,eating_hours,notify_window_start,notify_window_end")
+      .select("eating_start,eating_hours,protocol,schedule,notify_window_start,notify_window_end")
       .single();
 
     if (error) {
@@ -54,7 +54,7 @@ export async function POST(req: Request) {
         },
         { onConflict: "user_id" }
       )
-      .select("timezone,push_enabled,push_fasting_windows,push_daily_reminder,daily_reminder_time_min")
+      .select("timezone,push_enabled,push_fasting_windows,push_daily_reminder,daily_reminder_time_min,day_start_hour")
       .single();
 
     if (error) {
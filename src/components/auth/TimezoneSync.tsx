@@ -1,12 +1,13 @@
 "use client";
 
 import { useEffect } from "react";
-import { syncTimezoneOnce } from "@/lib/syncTimezone";
+import { syncDaySettings, syncTimezoneOnce } from "@/lib/syncTimezone";
 
 export default function TimezoneSync() {
   useEffect(() => {
     // fire and forget
     syncTimezoneOnce();
+    syncDaySettings();
   }, []);
 
   return null;
@@ -0,0 +1,72 @@
+"use client";
+
+import { addDaysISO } from "@/lib/localDay";
+
+/**
+ * Day selector shared by Today and the pillar pages (pairs with useSelectedDay()).
+ */
+export default function DayPicker({
+  date,
+  today,
+  editable,
+  onChange,
+}: {
+  date: string;
+  today: string;
+  editable: boolean;
+  onChange: (date: string) => void;
+}) {
+  const isToday = date === today;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          onClick={() => onChange(addDaysISO(date, -1))}
+          aria-label="Previous day"
+        >
+          ←
+        </button>
+
+        <input
+          type="date"
+          value={date}
+          max={today}
+          onChange={(e) => e.target.value && onChange(e.target.value)}
+          className="border rounded-lg px-3 py-2 text-sm bg-transparent"
+          aria-label="Day"
+        />
+
+        <button
+          type="button"
+          className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          onClick={() => onChange(addDaysISO(date, 1))}
+          disabled={isToday}
+          aria-label="Next day"
+        >
+          →
+        </button>
+
+        {!isToday ? (
+          <button
+            type="button"
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => onChange(today)}
+          >
+            Today
+          </button>
+        ) : null}
+      </div>
+
+      {!isToday ? (
+        <div className="text-xs opacity-70">
+          {editable
+            ? `Back-filling ${date} — completions will be marked as back-filled.`
+            : `${date} is outside your back-fill window (view only).`}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { isValidBarcode } from "@/lib/foodCatalog";
+
+// The Shape Detection API isn't in TypeScript's DOM lib yet
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorLike = { detect(source: CanvasImageSource): Promise<DetectedBarcode[]> };
+type BarcodeDetectorCtor = new (opts?: { formats?: string[] }) => BarcodeDetectorLike;
+
+const FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"];
+const SCAN_EVERY_MS = 250;
+
+function getBarcodeDetector(): BarcodeDetectorCtor | null {
+  if (typeof window === "undefined") return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector ?? null;
+}
+
+/**
+ * Rear-camera UPC/EAN scanner using the browser's BarcodeDetector (Chrome/Android PWAs).
+ * Where it isn't available the caller's manual barcode field still works.
+ */
+export default function BarcodeScanner({
+  onDetected,
+  onClose,
+}: {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const Detector = getBarcodeDetector();
+
+  useEffect(() => {
+    if (!Detector) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    const detector = new Detector({ formats: FORMATS });
+
+    function stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+      stream?.getTracks().forEach((t) => t.stop());
+      stream = null;
+    }
+
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: "environment" } },
+          audio: false,
+        });
+        if (cancelled || !videoRef.current) return stop();
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        let busy = false;
+        timer = setInterval(async () => {
+          const video = videoRef.current;
+          if (busy || !video || video.readyState < 2) return;
+
+          busy = true;
+          try {
+            const codes = await detector.detect(video);
+            const hit = codes.map((c) => c.rawValue).find(isValidBarcode);
+            if (hit && !cancelled) {
+              stop();
+              onDetected(hit);
+            }
+          } catch {
+            // a single bad frame isn't worth surfacing
+          } finally {
+            busy = false;
+          }
+        }, SCAN_EVERY_MS);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Could not open the camera.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      {!Detector ? (
+        <div className="text-sm opacity-70">
+          This browser can’t scan barcodes with the camera. Type the number under the barcode instead.
+        </div>
+      ) : (
+        <video ref={videoRef} className="w-full max-h-64 rounded-xl border bg-black object-cover" muted playsInline />
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <button
+        type="button"
+        className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+        onClick={onClose}
+      >
+        Close scanner
+      </button>
+    </div>
+  );
+}
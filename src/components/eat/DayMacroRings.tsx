@@ -0,0 +1,42 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import MacroRings from "@/components/eat/MacroRings";
+import { fetchDayTargets } from "@/lib/macroTargets";
+import { fetchDayMacroTotals } from "@/lib/meals";
+
+/**
+ * Self-loading rings for a day (Today card). Renders nothing until targets are set.
+ */
+export default function DayMacroRings({ date, href }: { date: string; href?: string }) {
+  const targetsQuery = useQuery({
+    queryKey: ["macro-targets-day", date],
+    queryFn: () => fetchDayTargets(date),
+    staleTime: 60_000,
+  });
+  const totalsQuery = useQuery({
+    queryKey: ["eat-day", date, "macros"], // invalidated with the Eat page's day
+    queryFn: () => fetchDayMacroTotals(date),
+    staleTime: 30_000,
+    enabled: !!targetsQuery.data,
+  });
+
+  const day = targetsQuery.data;
+  const totals = totalsQuery.data;
+  if (!day || !totals) return null;
+
+  return (
+    <div className="border rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-medium">Nutrition{day.trainingDay ? " · training day" : ""}</div>
+        {href ? (
+          <Link href={href} className="text-xs underline">
+            Open Eat
+          </Link>
+        ) : null}
+      </div>
+      <MacroRings totals={totals} targets={day.targets} />
+    </div>
+  );
+}
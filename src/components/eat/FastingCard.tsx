@@ -1,15 +1,20 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { computeFastingStatus, formatDuration, type FastingSettings } from "@/lib/fasting";
-import { getOrCreateFastingSettings, updateFastingSettings } from "@/lib/fastingSettings";
-
-const PRESETS: { label: string; eating_hours: number }[] = [
-  { label: "16 / 8 (default)", eating_hours: 8 },
-  { label: "18 / 6", eating_hours: 6 },
-  { label: "20 / 4", eating_hours: 4 },
-  { label: "14 / 10", eating_hours: 10 },
-];
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  FASTING_PROTOCOLS,
+  computeFastingStatus,
+  dayWindow,
+  formatDuration,
+  plannedFastHours,
+  type FastingDay,
+  type FastingSettings,
+} from "@/lib/fasting";
+import { getOrCreateFastingSettings } from "@/lib/fastingSettings";
+import { endFast, fastMinutes, fastSucceeded, fetchFastingState, startFast } from "@/lib/fastingSessions";
+import FastingPlanEditor from "./FastingPlanEditor";
 
 function formatTimeAMPM(hhmm: string) {
   // expects "HH:MM"
@@ -24,28 +29,30 @@ function formatTimeAMPM(hhmm: string) {
   return d.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
 }
 
+function describeDay(settings: FastingSettings, day: FastingDay) {
+  if (day.kind === "off") return "Non-fasting day";
+  if (day.kind === "fast") return day.max_calories ? `Fast day · up to ${day.max_calories} cal` : "Fast day";
+
+  const [start, end] = dayWindow(settings, day);
+  const hhmm = (min: number) =>
+    `${String(Math.floor(min / 60) % 24).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+  return `Eating ${formatTimeAMPM(hhmm(start))} – ${formatTimeAMPM(hhmm(end))}`;
+}
+
 export default function FastingCard() {
+  const queryClient = useQueryClient();
+
   const [settings, setSettings] = useState<FastingSettings | null>(null);
   const [err, setErr] = useState<string | null>(null);
   const [editing, setEditing] = useState(false);
 
-  // edit fields
-  const [start, setStart] = useState("12:00"); // stored as "HH:MM"
-  const [eatHours, setEatHours] = useState("8");
-
   // tick every minute for countdown
   const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
     (async () => {
       try {
-        const s = await getOrCreateFastingSettings();
-        setSettings(s);
-
-        // Postgres time may come back "HH:MM:SS" → keep HH:MM
-        const normalizedStart = String(s.eating_start).slice(0, 5);
-        setStart(normalizedStart);
-        setEatHours(String(s.eating_hours));
+        setSettings(await getOrCreateFastingSettings());
       } catch (e: any) {
         setErr(e?.message ?? "Failed to load fasting settings.");
       }
@@ -62,25 +69,27 @@ export default function FastingCard() {
     return computeFastingStatus(settings, now);
   }, [settings, now]);
 
-  async function save() {
-    setErr(null);
-    try {
-      const hours = Number(eatHours);
-
-      // start is already from <input type="time"> and should be "HH:MM"
-      await updateFastingSettings({ eating_start: start, eating_hours: hours });
-
-      const updated: FastingSettings = { eating_start: start, eating_hours: hours };
-      setSettings(updated);
-      setEditing(false);
-    } catch (e: any) {
-      setErr(e?.message ?? "Failed to save.");
-    }
-  }
-
-  function applyPreset(eating_hours: number) {
-    setEatHours(String(eating_hours));
-  }
+  // actual fast (refetching also closes a fast that a logged meal broke)
+  const sessionQuery = useQuery({ queryKey: ["fasting-session"], queryFn: fetchFastingState, staleTime: 30_000 });
+  const current = sessionQuery.data?.current ?? null;
+  const last = sessionQuery.data?.last ?? null;
+
+  const sessionMutation = useMutation({
+    mutationFn: async (action: "start" | "end") => {
+      setErr(null);
+      if (action === "end") {
+        if (current) await endFast(current.id);
+        return;
+      }
+      if (!settings) throw new Error("Fasting settings are still loading.");
+      await startFast(plannedFastHours(settings));
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["fasting-session"] });
+      await queryClient.invalidateQueries({ queryKey: ["fasting-history"] });
+    },
+    onError: (e: unknown) => setErr(e instanceof Error ? e.message : "Failed to update fast."),
+  });
 
   if (!settings) {
     return (
@@ -92,7 +101,7 @@ export default function FastingCard() {
     );
   }
 
-  const fastingHours = 24 - settings.eating_hours;
+  const protocolLabel = FASTING_PROTOCOLS.find((p) => p.key === settings.protocol)?.label ?? "Custom";
   const displayStart = formatTimeAMPM(String(settings.eating_start).slice(0, 5));
 
   return (
@@ -101,16 +110,25 @@ export default function FastingCard() {
         <div>
           <div className="font-semibold">Fasting window</div>
           <div className="text-sm opacity-70">
-            Plan: {fastingHours} / {settings.eating_hours} · Start: {displayStart}
+            Plan: {protocolLabel}
+            {settings.schedule ? null : ` · ${24 - settings.eating_hours} / ${settings.eating_hours} · Start: ${displayStart}`}
           </div>
         </div>
 
-        <button
-          className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
-          onClick={() => setEditing((v) => !v)}
-        >
-          {editing ? "Close" : "Edit"}
-        </button>
+        <div className="flex gap-2">
+          <Link
+            href="/eat/fasting"
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            History
+          </Link>
+          <button
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => setEditing((v) => !v)}
+          >
+            {editing ? "Close" : "Edit"}
+          </button>
+        </div>
       </div>
 
       {status && (
@@ -120,74 +138,84 @@ export default function FastingCard() {
             {status.mode === "eating" ? "🍽️ Eating window" : "⏳ Fasting window"}
           </div>
           <div className="text-sm opacity-70">
-            Switches in {formatDuration(status.minutesUntilSwitch)} (at{" "}
-            {status.nextSwitchAt.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })})
+            {status.nextSwitchAt && status.minutesUntilSwitch !== null ? (
+              <>
+                Switches in {formatDuration(status.minutesUntilSwitch)} (at{" "}
+                {status.nextSwitchAt.toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" })})
+              </>
+            ) : (
+              "No switch scheduled this week"
+            )}
           </div>
+          <div className="text-xs opacity-70">Today: {describeDay(settings, status.today)}</div>
         </div>
       )}
 
-      {editing && (
-        <div className="space-y-3">
-          {err && <div className="text-sm text-red-600">{err}</div>}
-
-          <div className="border rounded-xl p-3 space-y-2">
-            <div className="font-medium">Presets</div>
-            <div className="flex flex-wrap gap-2">
-              {PRESETS.map((p) => (
-                <button
-                  key={p.label}
-                  type="button"
-                  className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
-                  onClick={() => applyPreset(p.eating_hours)}
-                >
-                  {p.label}
-                </button>
-              ))}
-            </div>
-            <div className="text-xs opacity-70">
-              Note: 12/8 is not offered because it doesn’t sum to 24 — custom still must.
-            </div>
-          </div>
-
-          <div className="border rounded-xl p-3 space-y-2">
-            <div className="font-medium">Custom</div>
-
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-              <div className="space-y-1">
-                <label className="text-sm">Eating start</label>
-                <input
-                  className="w-full border rounded px-3 py-2 bg-transparent"
-                  type="time"
-                  value={start}
-                  onChange={(e) => setStart(e.target.value)}
-                />
-                <div className="text-xs opacity-70">Shows Apple-style time picker on iOS.</div>
-              </div>
-
-              <div className="space-y-1">
-                <label className="text-sm">Eating hours</label>
-                <input
-                  className="w-full border rounded px-3 py-2 bg-transparent"
-                  value={eatHours}
-                  onChange={(e) => setEatHours(e.target.value)}
-                  inputMode="numeric"
-                />
+      <div className="border rounded-xl p-3 space-y-2">
+        {current ? (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="text-xs opacity-70">Current fast</div>
+                <div className="text-lg font-semibold">
+                  {formatDuration(fastMinutes(current, now))} of {current.planned_hours}h
+                </div>
+                <div className="text-xs opacity-70">
+                  Started {new Date(current.started_at).toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" })}
+                  {" · "}logging a meal ends it automatically
+                </div>
               </div>
+              <button
+                type="button"
+                className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                onClick={() => sessionMutation.mutate("end")}
+                disabled={sessionMutation.isPending}
+              >
+                End fast
+              </button>
             </div>
-
-            <div className="text-xs opacity-70">
-              Fasting hours will be <b>{24 - (Number(eatHours) || settings.eating_hours)}</b>. Total must equal 24.
+            <div className="h-2 rounded-full bg-zinc-200 dark:bg-zinc-800 overflow-hidden">
+              <div
+                className="h-full bg-zinc-900 dark:bg-zinc-100"
+                style={{ width: `${Math.min(100, Math.round((fastMinutes(current, now) / (current.planned_hours * 60)) * 100))}%` }}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm">
+              {last ? (
+                <>
+                  Last fast: {formatDuration(fastMinutes(last))} of {last.planned_hours}h{" "}
+                  {fastSucceeded(last) ? "✓" : <span className="text-red-600">short</span>}
+                  {last.end_reason === "meal" ? <span className="opacity-70"> · broken by a meal</span> : null}
+                </>
+              ) : (
+                <span className="opacity-70">No fasts recorded yet.</span>
+              )}
             </div>
-
             <button
               type="button"
-              className="border rounded-lg px-4 py-2 font-semibold hover:bg-zinc-50 dark:hover:bg-zinc-900"
-              onClick={save}
+              className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() => sessionMutation.mutate("start")}
+              disabled={sessionMutation.isPending || sessionQuery.isLoading}
             >
-              Save fasting window
+              Start fast
             </button>
           </div>
-        </div>
+        )}
+      </div>
+
+      {err && <div className="text-sm text-red-600">{err}</div>}
+
+      {editing && (
+        <FastingPlanEditor
+          settings={settings}
+          onSaved={(next) => {
+            setSettings(next);
+            setEditing(false);
+          }}
+        />
       )}
     </div>
   );
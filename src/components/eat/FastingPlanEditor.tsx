@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import {
+  FASTING_PROTOCOLS,
+  WEEKDAY_LABELS,
+  isFastingProtocol,
+  protocolPlan,
+  type FastingDay,
+  type FastingProtocol,
+  type FastingSchedule,
+  type FastingSettings,
+} from "@/lib/fasting";
+import { updateFastingSettings } from "@/lib/fastingSettings";
+
+const DAY_KINDS: { key: FastingDay["kind"]; label: string }[] = [
+  { key: "window", label: "Eating window" },
+  { key: "fast", label: "Fast day" },
+  { key: "off", label: "Non-fasting day" },
+];
+
+/**
+ * Protocol picker + weekly schedule, shared by FastingCard and Settings.
+ * Picking a preset fills in the week; editing any day turns the plan into "custom".
+ */
+export default function FastingPlanEditor({
+  settings,
+  onSaved,
+}: {
+  settings: FastingSettings;
+  onSaved: (next: FastingSettings) => void;
+}) {
+  const [protocol, setProtocol] = useState<FastingProtocol>(settings.protocol ?? "custom");
+  const [start, setStart] = useState(String(settings.eating_start).slice(0, 5)); // "HH:MM"
+  const [eatHours, setEatHours] = useState(String(settings.eating_hours));
+  const [schedule, setSchedule] = useState<FastingSchedule | null>(settings.schedule ?? null);
+
+  const [err, setErr] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // presets that depend on the default window (extended fasts) follow it when it changes
+  function replan(next: FastingProtocol, nextStart: string, nextHours: string) {
+    if (next === "custom") return;
+    const plan = protocolPlan(next, { eating_start: nextStart, eating_hours: Number(nextHours) || settings.eating_hours });
+    setEatHours(String(plan.eating_hours));
+    setSchedule(plan.schedule);
+  }
+
+  function pickProtocol(next: FastingProtocol) {
+    setProtocol(next);
+    replan(next, start, eatHours);
+  }
+
+  function changeStart(next: string) {
+    setStart(next);
+    replan(protocol, next, eatHours);
+  }
+
+  function changeHours(next: string) {
+    setEatHours(next);
+    // a daily preset is defined by its hours, so a different length is a custom plan
+    if (schedule) replan(protocol, start, next);
+    else setProtocol("custom");
+  }
+
+  function updateDay(weekday: number, day: FastingDay) {
+    const week: FastingSchedule = schedule ?? Array.from({ length: 7 }, () => ({ kind: "window" }));
+    setSchedule(week.map((d, i) => (i === weekday ? day : d)));
+    setProtocol("custom");
+  }
+
+  async function save() {
+    setErr(null);
+    setSaving(true);
+    try {
+      const hours = Number(eatHours);
+      await updateFastingSettings({ eating_start: start, eating_hours: hours, protocol, schedule });
+      onSaved({ eating_start: start, eating_hours: hours, protocol, schedule });
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to save.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const days = schedule ?? Array.from({ length: 7 }, (): FastingDay => ({ kind: "window" }));
+  const description = FASTING_PROTOCOLS.find((p) => p.key === protocol)?.description;
+
+  return (
+    <div className="space-y-3">
+      {err && <div className="text-sm text-red-600">{err}</div>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className="text-sm">Protocol</label>
+          <select
+            className="w-full border rounded px-3 py-2 bg-transparent"
+            value={protocol}
+            onChange={(e) => isFastingProtocol(e.target.value) && pickProtocol(e.target.value)}
+            disabled={saving}
+          >
+            {FASTING_PROTOCOLS.map((p) => (
+              <option key={p.key} value={p.key}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm">Eating start</label>
+          <input
+            className="w-full border rounded px-3 py-2 bg-transparent"
+            type="time"
+            value={start}
+            onChange={(e) => changeStart(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm">Eating hours</label>
+          <input
+            className="w-full border rounded px-3 py-2 bg-transparent"
+            value={eatHours}
+            onChange={(e) => changeHours(e.target.value)}
+            inputMode="numeric"
+            disabled={saving}
+          />
+        </div>
+      </div>
+
+      {description ? <div className="text-xs opacity-70">{description}</div> : null}
+
+      <div className="border rounded-xl p-3 space-y-2">
+        <div className="font-medium">Week</div>
+        <div className="text-xs opacity-70">
+          Window days use the default start and hours unless you override them.
+        </div>
+
+        {days.map((day, weekday) => (
+          <div key={WEEKDAY_LABELS[weekday]} className="flex flex-wrap items-center gap-2">
+            <div className="w-10 text-sm font-medium">{WEEKDAY_LABELS[weekday]}</div>
+
+            <select
+              className="border rounded px-2 py-1 text-sm bg-transparent"
+              value={day.kind}
+              onChange={(e) => {
+                const kind = e.target.value;
+                if (kind === "window" || kind === "off" || kind === "fast") updateDay(weekday, { kind });
+              }}
+              disabled={saving}
+            >
+              {DAY_KINDS.map((k) => (
+                <option key={k.key} value={k.key}>
+                  {k.label}
+                </option>
+              ))}
+            </select>
+
+            {day.kind === "window" ? (
+              <>
+                <input
+                  className="border rounded px-2 py-1 text-sm bg-transparent"
+                  type="time"
+                  value={day.eating_start ?? ""}
+                  onChange={(e) => updateDay(weekday, { ...day, eating_start: e.target.value || undefined })}
+                  aria-label={`${WEEKDAY_LABELS[weekday]} eating start`}
+                  disabled={saving}
+                />
+                <input
+                  className="w-20 border rounded px-2 py-1 text-sm bg-transparent"
+                  value={day.eating_hours ?? ""}
+                  placeholder={eatHours}
+                  onChange={(e) =>
+                    updateDay(weekday, { ...day, eating_hours: e.target.value ? Number(e.target.value) : undefined })
+                  }
+                  inputMode="numeric"
+                  aria-label={`${WEEKDAY_LABELS[weekday]} eating hours`}
+                  disabled={saving}
+                />
+                <span className="text-xs opacity-60">h</span>
+              </>
+            ) : day.kind === "fast" ? (
+              <>
+                <input
+                  className="w-24 border rounded px-2 py-1 text-sm bg-transparent"
+                  value={day.max_calories ?? ""}
+                  placeholder="0"
+                  onChange={(e) =>
+                    updateDay(weekday, { kind: "fast", max_calories: e.target.value ? Number(e.target.value) : undefined })
+                  }
+                  inputMode="numeric"
+                  aria-label={`${WEEKDAY_LABELS[weekday]} calorie allowance`}
+                  disabled={saving}
+                />
+                <span className="text-xs opacity-60">cal allowed</span>
+              </>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        className="border rounded-lg px-4 py-2 font-semibold hover:bg-zinc-50 dark:hover:bg-zinc-900"
+        onClick={save}
+        disabled={saving}
+      >
+        {saving ? "Saving…" : "Save fasting plan"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import BarcodeScanner from "@/components/eat/BarcodeScanner";
+import {
+  addCatalogFoodToFoods,
+  lookupBarcode,
+  searchFoodCatalog,
+  type CatalogFood,
+} from "@/lib/foodCatalog";
+
+function fmt(v: number | null, suffix = "") {
+  return v == null ? "—" : `${Math.round(v * 10) / 10}${suffix}`;
+}
+
+/**
+ * Scan a barcode (or search by name) in the food catalog and copy the product into saved foods.
+ */
+export default function FoodImportCard({ onImported }: { onImported?: (foodId: string) => void }) {
+  const queryClient = useQueryClient();
+
+  const [scanning, setScanning] = useState(false);
+  const [code, setCode] = useState("");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<CatalogFood[]>([]);
+  const [picked, setPicked] = useState<CatalogFood | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      await fn();
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function findBarcode(raw: string) {
+    setCode(raw);
+    setScanning(false);
+    void run(async () => {
+      const hit = await lookupBarcode(raw);
+      setResults([]);
+      setPicked(hit);
+      if (!hit) setMsg(`No product with barcode ${raw} in the food catalog. Add it manually below.`);
+    });
+  }
+
+  function search() {
+    void run(async () => {
+      const rows = await searchFoodCatalog(query);
+      setPicked(null);
+      setResults(rows);
+      if (rows.length === 0) setMsg("No matches in the food catalog.");
+    });
+  }
+
+  function addPicked() {
+    if (!picked) return;
+    void run(async () => {
+      const res = await addCatalogFoodToFoods(picked);
+      await queryClient.invalidateQueries({ queryKey: ["foods"] });
+      onImported?.(res.id);
+      setMsg(res.created ? `${picked.name} added to your foods.` : `${picked.name} is already in your foods.`);
+      setPicked(null);
+      setResults([]);
+      setCode("");
+    });
+  }
+
+  return (
+    <div className="border rounded-xl p-4 space-y-3">
+      <div className="font-semibold">Scan or search foods</div>
+
+      {scanning ? (
+        <BarcodeScanner onDetected={findBarcode} onClose={() => setScanning(false)} />
+      ) : (
+        <button
+          type="button"
+          className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          onClick={() => {
+            setMsg(null);
+            setScanning(true);
+          }}
+          disabled={busy}
+        >
+          📷 Scan barcode
+        </button>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div className="flex gap-2">
+          <input
+            className="flex-1 min-w-0 border rounded px-3 py-2 bg-transparent"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && code.trim()) findBarcode(code.trim());
+            }}
+            placeholder="Barcode number"
+            inputMode="numeric"
+            disabled={busy}
+          />
+          <button
+            type="button"
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => findBarcode(code.trim())}
+            disabled={busy || !code.trim()}
+          >
+            Look up
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            className="flex-1 min-w-0 border rounded px-3 py-2 bg-transparent"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && query.trim().length >= 2) search();
+            }}
+            placeholder="Search by name"
+            disabled={busy}
+          />
+          <button
+            type="button"
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={search}
+            disabled={busy || query.trim().length < 2}
+          >
+            Search
+          </button>
+        </div>
+      </div>
+
+      {results.length > 0 && !picked ? (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {results.map((r) => (
+            <button
+              key={r.id}
+              type="button"
+              className="w-full text-left border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() => setPicked(r)}
+            >
+              <div className="font-medium truncate">{r.name}</div>
+              <div className="text-xs opacity-70">
+                {r.brand ? `${r.brand} · ` : ""}
+                {r.serving_size ?? "serving"} · {fmt(r.calories)} cal
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {picked ? (
+        <div className="border rounded-xl p-3 space-y-2">
+          <div>
+            <div className="font-medium">{picked.name}</div>
+            <div className="text-xs opacity-70">
+              {picked.brand ? `${picked.brand} · ` : ""}
+              {picked.barcode ?? ""}
+            </div>
+          </div>
+
+          <div className="text-sm">
+            Per {picked.serving_size ?? "serving"}: {fmt(picked.calories)} cal · P {fmt(picked.protein_g, "g")} · C{" "}
+            {fmt(picked.carbs_g, "g")} · F {fmt(picked.fat_g, "g")}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="border rounded-lg px-4 py-2 font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={addPicked}
+              disabled={busy}
+            >
+              {busy ? "Saving…" : "Add to my foods"}
+            </button>
+            <button
+              type="button"
+              className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() => setPicked(null)}
+              disabled={busy}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {msg && <div className="text-sm">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import {
+  MACRO_KEYS,
+  MACRO_LABELS,
+  targetStatus,
+  type MacroTotals,
+  type MacroValues,
+} from "@/lib/macroTargets";
+
+const SIZE = 64;
+const STROKE = 6;
+const R = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * R;
+
+function Ring({ value, target, label, unit }: { value: number; target: number; label: string; unit: string }) {
+  const status = targetStatus(value, target);
+  const pct = Math.min(value / target, 1);
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-center">
+      <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} className="-rotate-90">
+        <circle
+          cx={SIZE / 2}
+          cy={SIZE / 2}
+          r={R}
+          fill="none"
+          strokeWidth={STROKE}
+          className="stroke-zinc-200 dark:stroke-zinc-800"
+        />
+        <circle
+          cx={SIZE / 2}
+          cy={SIZE / 2}
+          r={R}
+          fill="none"
+          strokeWidth={STROKE}
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - pct)}
+          className={status === "over" ? "stroke-red-600" : "stroke-zinc-900 dark:stroke-zinc-100"}
+        />
+      </svg>
+      <div className="text-xs font-medium">{label}</div>
+      <div className={`text-xs ${status === "over" ? "text-red-600" : "opacity-70"}`}>
+        {Math.round(value)} / {Math.round(target)}
+        {unit === "cal" ? "" : unit}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Progress rings for the day's totals against whichever targets are set. A ring turns red
+ * once the total is over target (beyond the tolerance).
+ */
+export default function MacroRings({ totals, targets }: { totals: MacroTotals; targets: MacroValues }) {
+  const keys = MACRO_KEYS.filter((k) => targets[k] !== null);
+  if (keys.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-4">
+      {keys.map((k) => (
+        <Ring
+          key={k}
+          value={totals[k]}
+          target={targets[k] ?? 0}
+          label={MACRO_LABELS[k].label}
+          unit={MACRO_LABELS[k].unit}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { MICRO_KEYS, MICRO_LABELS, type MicroKey } from "@/lib/micronutrients";
+
+/**
+ * Collapsible "more nutrients" fields for a food form. Values are strings; parse with parseMicroDraft.
+ */
+export default function MicroInputs({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: Record<MicroKey, string>;
+  onChange: (next: Record<MicroKey, string>) => void;
+  disabled?: boolean;
+}) {
+  const filled = MICRO_KEYS.filter((k) => value[k].trim()).length;
+
+  return (
+    <details className="border rounded-lg p-3" open={filled > 0}>
+      <summary className="text-sm cursor-pointer">
+        More nutrients (optional){filled > 0 ? ` · ${filled} set` : ""}
+      </summary>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 pt-3">
+        {MICRO_KEYS.map((k) => (
+          <div key={k} className="space-y-1">
+            <label className="text-sm">
+              {MICRO_LABELS[k].label} ({MICRO_LABELS[k].unit})
+            </label>
+            <input
+              className="w-full border rounded px-3 py-2 bg-transparent"
+              value={value[k]}
+              onChange={(e) => onChange({ ...value, [k]: e.target.value })}
+              inputMode="decimal"
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
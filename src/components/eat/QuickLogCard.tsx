@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabaseClient";
+import { addDaysISO } from "@/lib/localDay";
+import {
+  MEAL_TYPES,
+  copyMeal,
+  deleteMealTemplate,
+  listMealTemplates,
+  logMealTemplate,
+  type MealTemplate,
+  type MealType,
+} from "@/lib/meals";
+
+async function fetchMealTypesOn(date: string): Promise<MealType[]> {
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) throw userErr;
+
+  const uid = userData.user?.id;
+  if (!uid) return [];
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .select("meal_type")
+    .eq("user_id", uid)
+    .eq("meal_date", date);
+
+  if (res.error) throw res.error;
+
+  const types = new Set(((res.data ?? []) as { meal_type: MealType }[]).map((m) => m.meal_type));
+  return MEAL_TYPES.filter((t) => types.has(t));
+}
+
+function templateCalories(t: MealTemplate) {
+  return Math.round(t.items.reduce((a, it) => a + (it.calories ?? 0) * it.quantity, 0));
+}
+
+/**
+ * One-tap logging on Eat: saved meal templates and "copy yesterday's breakfast" (relative to `date`).
+ */
+export default function QuickLogCard({ date, isToday, editable }: { date: string; isToday: boolean; editable: boolean }) {
+  const queryClient = useQueryClient();
+  const prevDate = addDaysISO(date, -1);
+
+  const templatesQuery = useQuery({ queryKey: ["meal-templates"], queryFn: listMealTemplates, staleTime: 60_000 });
+  const prevQuery = useQuery({
+    queryKey: ["eat-meal-types", prevDate],
+    queryFn: () => fetchMealTypesOn(prevDate),
+    staleTime: 60_000,
+  });
+
+  const templates = templatesQuery.data ?? [];
+  const prevTypes = prevQuery.data ?? [];
+
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(key: string, fn: () => Promise<string>) {
+    setBusyKey(key);
+    setMsg(null);
+    setError(null);
+    try {
+      setMsg(await fn());
+      await queryClient.invalidateQueries({ queryKey: ["eat-day", date] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-meal-types", date] });
+      await queryClient.invalidateQueries({ queryKey: ["eat-history"] });
+      await queryClient.invalidateQueries({ queryKey: ["meal-templates"] });
+      await queryClient.invalidateQueries({ queryKey: ["fasting-session"] }); // a meal ends a running fast
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  if (templates.length === 0 && prevTypes.length === 0) return null;
+
+  const busy = busyKey !== null || !editable;
+
+  return (
+    <div className="border rounded-xl p-4 space-y-3">
+      <div className="font-semibold">Log again</div>
+
+      {prevTypes.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {prevTypes.map((t) => (
+            <button
+              key={t}
+              type="button"
+              className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+              onClick={() =>
+                run(`copy-${t}`, async () => {
+                  const n = await copyMeal({ date: prevDate, mealType: t }, { date });
+                  return n ? `Copied ${n} item(s) into ${t}.` : `Nothing to copy from ${prevDate}.`;
+                })
+              }
+              disabled={busy}
+            >
+              {busyKey === `copy-${t}` ? "Copying…" : isToday ? `Copy yesterday’s ${t}` : `Copy ${t} from ${prevDate}`}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {templates.length > 0 ? (
+        <div className="space-y-2">
+          {templates.map((t) => (
+            <div key={t.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{t.name}</div>
+                <div className="text-xs opacity-70">
+                  <span className="capitalize">{t.meal_type}</span> · {t.items.length} item(s) · {templateCalories(t)}{" "}
+                  cal
+                </div>
+              </div>
+
+              <div className="flex gap-2 shrink-0">
+                <button
+                  type="button"
+                  className="border rounded-lg px-3 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                  onClick={() =>
+                    run(`log-${t.id}`, async () => {
+                      await logMealTemplate(t, date);
+                      return `Logged ${t.name}.`;
+                    })
+                  }
+                  disabled={busy}
+                >
+                  {busyKey === `log-${t.id}` ? "Logging…" : "Log"}
+                </button>
+                <button
+                  type="button"
+                  className="text-sm underline"
+                  onClick={() =>
+                    run(`del-${t.id}`, async () => {
+                      await deleteMealTemplate(t.id);
+                      return `Deleted ${t.name}.`;
+                    })
+                  }
+                  disabled={busyKey !== null}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {!editable ? <div className="text-xs opacity-70">{date} is outside your back-fill window.</div> : null}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {msg && <div className="text-sm">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { saveMealAsTemplate, type MealType } from "@/lib/meals";
+
+/**
+ * "Save as template" for one logged meal: asks for a name inline, then snapshots the meal's items.
+ */
+export default function SaveMealTemplate({
+  mealId,
+  mealType,
+  defaultName,
+}: {
+  mealId: string;
+  mealType: MealType;
+  defaultName: string;
+}) {
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function save() {
+    if (name === null) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      await saveMealAsTemplate(mealId, mealType, name);
+      await queryClient.invalidateQueries({ queryKey: ["meal-templates"] });
+      setName(null);
+      setMsg("Saved as template.");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (name === null) {
+    return (
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          onClick={() => {
+            setMsg(null);
+            setName(defaultName);
+          }}
+        >
+          Save as template
+        </button>
+        {msg && <span className="text-xs opacity-70">{msg}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        className="border rounded px-3 py-2 text-sm bg-transparent"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") void save();
+        }}
+        placeholder="Template name"
+        disabled={busy}
+        autoFocus
+      />
+      <button
+        type="button"
+        className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+        onClick={() => void save()}
+        disabled={busy || !name.trim()}
+      >
+        {busy ? "Saving…" : "Save"}
+      </button>
+      <button type="button" className="text-sm underline" onClick={() => setName(null)} disabled={busy}>
+        Cancel
+      </button>
+      {msg && <span className="text-xs text-red-600">{msg}</span>}
+    </div>
+  );
+}
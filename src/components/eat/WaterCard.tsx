@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  QUICK_ADD_ML,
+  addWater,
+  deleteWaterLog,
+  formatMl,
+  getWaterTarget,
+  listWaterLogs,
+  sumWater,
+} from "@/lib/hydration";
+
+/**
+ * Water for the selected day: quick "+250 ml" buttons, a custom amount, and progress toward
+ * the hydration target when one is set.
+ */
+export default function WaterCard({ date, editable }: { date: string; editable: boolean }) {
+  const queryClient = useQueryClient();
+
+  const [custom, setCustom] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const logsQuery = useQuery({
+    queryKey: ["eat-water", date],
+    queryFn: () => listWaterLogs(date),
+    staleTime: 30_000,
+  });
+  const targetQuery = useQuery({ queryKey: ["water-target"], queryFn: getWaterTarget, staleTime: 5 * 60_000 });
+
+  const logs = logsQuery.data ?? [];
+  const total = sumWater(logs);
+  const target = targetQuery.data ?? null;
+  const pct = target ? Math.min(total / target, 1) : 0;
+
+  async function refresh() {
+    await queryClient.invalidateQueries({ queryKey: ["eat-water", date] });
+  }
+
+  const addMutation = useMutation({
+    mutationFn: async (ml: number) => {
+      setError(null);
+      if (!editable) throw new Error(`${date} is outside your back-fill window.`);
+      await addWater(date, ml);
+    },
+    onSuccess: async () => {
+      setCustom("");
+      await refresh();
+    },
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to log water."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      setError(null);
+      if (!editable) throw new Error(`${date} is outside your back-fill window.`);
+      await deleteWaterLog(id, date);
+    },
+    onSuccess: refresh,
+    onError: (e: unknown) => setError(e instanceof Error ? e.message : "Failed to remove water."),
+  });
+
+  const busy = addMutation.isPending || deleteMutation.isPending;
+  const last = logs[logs.length - 1];
+
+  return (
+    <div className="border rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="font-semibold">Water</div>
+          <div className="text-sm opacity-70">
+            {formatMl(total)}
+            {target ? ` of ${formatMl(target)}` : ""}
+            {logs.length ? ` · ${logs.length} drink(s)` : ""}
+          </div>
+        </div>
+
+        {last ? (
+          <button
+            type="button"
+            className="text-sm underline"
+            onClick={() => deleteMutation.mutate(last.id)}
+            disabled={busy || !editable}
+          >
+            Undo last ({formatMl(Number(last.amount_ml))})
+          </button>
+        ) : null}
+      </div>
+
+      {target ? (
+        <div className="h-2 rounded-full bg-zinc-200 dark:bg-zinc-800 overflow-hidden">
+          <div className="h-full bg-zinc-900 dark:bg-zinc-100" style={{ width: `${Math.round(pct * 100)}%` }} />
+        </div>
+      ) : targetQuery.isSuccess ? (
+        <div className="text-xs opacity-70">
+          Set a daily hydration target in{" "}
+          <Link href="/settings" className="underline">
+            Settings
+          </Link>
+          .
+        </div>
+      ) : null}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {QUICK_ADD_ML.map((ml) => (
+          <button
+            key={ml}
+            type="button"
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            onClick={() => addMutation.mutate(ml)}
+            disabled={busy || !editable}
+          >
+            +{ml} ml
+          </button>
+        ))}
+
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addMutation.mutate(Number(custom));
+          }}
+        >
+          <input
+            className="w-24 border rounded px-3 py-2 bg-transparent text-sm"
+            value={custom}
+            onChange={(e) => setCustom(e.target.value)}
+            inputMode="numeric"
+            placeholder="ml"
+            disabled={busy || !editable}
+          />
+          <button
+            className="border rounded-lg px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            disabled={busy || !editable || !custom.trim()}
+          >
+            Add
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { BUILTIN_PILLARS, pillarHref, type UserPillar } from "@/lib/pillarTypes";
+import { listUserPillars, PILLARS_CHANGED_EVENT } from "@/lib/userPillars";
 
 type Profile = {
   id: string;
@@ -31,6 +33,8 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
   const [sessionUserId, setSessionUserId] = useState<string | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  // active pillars drive the bottom nav (built-ins until the catalog loads)
+  const [pillars, setPillars] = useState<UserPillar[]>(BUILTIN_PILLARS);
 
   // Prevent redirect storms (Safari)
   const redirectingRef = useRef(false);
@@ -241,6 +245,30 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [pathname, loading, sessionUserId, profile?.approved]);
 
+  // Pillar catalog (only once approved — pending users can't read it)
+  useEffect(() => {
+    if (!profile?.approved) return;
+
+    let cancelled = false;
+
+    async function loadPillars() {
+      try {
+        const rows = await listUserPillars();
+        if (!cancelled) setPillars(rows);
+      } catch {
+        // keep the last known nav
+      }
+    }
+
+    void loadPillars();
+    window.addEventListener(PILLARS_CHANGED_EVENT, loadPillars);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(PILLARS_CHANGED_EVENT, loadPillars);
+    };
+  }, [profile?.approved]);
+
   async function handleSignOut() {
     try {
       await supabase.auth.signOut();
@@ -254,14 +282,12 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
   const navItems: NavItem[] = useMemo(
     () => [
       { href: "/today", label: "Today", icon: "🏠" },
-      { href: "/train", label: "Train", icon: "🏋️" },
-      { href: "/eat", label: "Eat", icon: "🍽️" },
-      { href: "/word", label: "Word", icon: "📖" },
-      { href: "/freedom", label: "Freedom", icon: "🛡️" },
+      ...pillars.map((p) => ({ href: pillarHref(p.key), label: p.label, icon: p.emoji })),
+      { href: "/insights", label: "Insights", icon: "📈" },
       { href: "/settings", label: "Settings", icon: "⚙️" },
       { href: "/admin", label: "Admin", icon: "🧰", requiresAdmin: true },
     ],
-    []
+    [pillars]
   );
 
   const allowedNav = useMemo(() => {
@@ -307,10 +333,10 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
 
       <nav className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background/90 backdrop-blur">
         <div className="mx-auto max-w-5xl px-2 py-2">
-          <div className="grid grid-cols-6 gap-1">
+          {/* scrolls sideways once custom pillars push it past six items */}
+          <div className="flex gap-1 overflow-x-auto">
             {allowedNav
               .filter((i) => i.href !== "/admin")
-              .slice(0, 6)
               .map((item) => {
                 const active = isActive(item.href);
                 return (
@@ -318,7 +344,7 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
                     key={item.href}
                     href={item.href}
                     className={[
-                      "rounded-xl border px-2 py-2 text-center",
+                      "flex-1 min-w-[4.5rem] rounded-xl border px-2 py-2 text-center",
                       "flex flex-col items-center justify-center gap-1",
                       active ? "bg-muted font-semibold" : "hover:bg-muted/60",
                     ].join(" ")}
@@ -327,7 +353,7 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
                     <span className="text-lg leading-none" aria-hidden="true">
                       {item.icon}
                     </span>
-                    <span className="text-xs leading-none">{item.label}</span>
+                    <span className="text-xs leading-none truncate max-w-full">{item.label}</span>
                   </Link>
                 );
               })}
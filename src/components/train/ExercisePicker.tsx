@@ -0,0 +1,199 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  EQUIPMENT,
+  MUSCLE_GROUPS,
+  createCustomExercise,
+  equipmentLabel,
+  findExercise,
+  muscleLabel,
+  searchExercises,
+  type Equipment,
+  type Exercise,
+  type MuscleGroup,
+} from "@/lib/exercises";
+
+/**
+ * Autocomplete over the exercise catalog. A name the catalog doesn't know can be saved as a
+ * custom exercise right here, so every logged exercise ends up linked to a catalog entry.
+ */
+export default function ExercisePicker(props: {
+  catalog: Exercise[];
+  onPick: (exercise: Exercise) => Promise<void> | void;
+  onCreated: (exercise: Exercise) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [equipment, setEquipment] = useState<Equipment>("barbell");
+  const [muscle, setMuscle] = useState<MuscleGroup>("chest");
+  const [unilateral, setUnilateral] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const matches = useMemo(() => searchExercises(props.catalog, query), [props.catalog, query]);
+  const exact = useMemo(() => findExercise(props.catalog, query), [props.catalog, query]);
+
+  function reset() {
+    setQuery("");
+    setCreating(false);
+    setUnilateral(false);
+  }
+
+  async function pick(ex: Exercise) {
+    setErr(null);
+    setBusy(true);
+    try {
+      await props.onPick(ex);
+      reset();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create() {
+    setErr(null);
+    setBusy(true);
+    try {
+      const ex = await createCustomExercise({
+        name: query,
+        equipment,
+        primary_muscles: [muscle],
+        is_unilateral: unilateral,
+      });
+      props.onCreated(ex);
+      await props.onPick(ex);
+      reset();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const name = query.trim();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          className="flex-1 rounded-lg border px-3 py-2 text-sm"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setCreating(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && matches[0] && !busy) {
+              e.preventDefault();
+              pick(exact ?? matches[0]);
+            }
+          }}
+          placeholder="Add exercise (e.g., Bench Press, BP, squat)"
+          disabled={busy}
+        />
+        <button
+          className="rounded-lg border px-3 py-2 text-sm hover:bg-muted"
+          type="button"
+          onClick={() => (exact ? pick(exact) : setCreating(true))}
+          disabled={busy || !name}
+        >
+          Add
+        </button>
+      </div>
+
+      {err ? <div className="text-sm text-red-600">{err}</div> : null}
+
+      {name && !creating ? (
+        <div className="rounded-lg border divide-y">
+          {matches.map((ex) => (
+            <button
+              key={ex.id}
+              type="button"
+              className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+              onClick={() => pick(ex)}
+              disabled={busy}
+            >
+              <div className="font-medium">
+                {ex.name}
+                {ex.user_id ? <span className="text-xs opacity-60"> · custom</span> : null}
+              </div>
+              <div className="text-xs opacity-70">
+                {equipmentLabel(ex.equipment)}
+                {ex.primary_muscles.length ? ` · ${ex.primary_muscles.map(muscleLabel).join(", ")}` : ""}
+                {ex.is_unilateral ? " · unilateral" : ""}
+              </div>
+            </button>
+          ))}
+
+          {exact ? null : (
+            <button
+              type="button"
+              className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+              onClick={() => setCreating(true)}
+              disabled={busy}
+            >
+              + Create custom exercise “{name}”
+            </button>
+          )}
+        </div>
+      ) : null}
+
+      {creating && name ? (
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="text-sm font-medium">New exercise: {name}</div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <div className="text-xs opacity-70">Equipment</div>
+              <select
+                className="w-full rounded-lg border px-3 py-2 text-sm bg-transparent"
+                value={equipment}
+                onChange={(e) => setEquipment(e.target.value as Equipment)}
+                disabled={busy}
+              >
+                {EQUIPMENT.map((o) => (
+                  <option key={o.key} value={o.key}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1">
+              <div className="text-xs opacity-70">Main muscle group</div>
+              <select
+                className="w-full rounded-lg border px-3 py-2 text-sm bg-transparent"
+                value={muscle}
+                onChange={(e) => setMuscle(e.target.value as MuscleGroup)}
+                disabled={busy}
+              >
+                {MUSCLE_GROUPS.map((o) => (
+                  <option key={o.key} value={o.key}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={unilateral} onChange={(e) => setUnilateral(e.target.checked)} disabled={busy} />
+            Unilateral (one arm / leg at a time)
+          </label>
+
+          <div className="flex gap-2">
+            <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={create} disabled={busy}>
+              {busy ? "Saving…" : "Create & add"}
+            </button>
+            <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={() => setCreating(false)} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
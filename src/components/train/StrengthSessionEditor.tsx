@@ -1,22 +1,81 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import type { TrainSession } from "@/lib/trainV2";
 import {
   listExercises,
   addExercise,
+  updateExercise,
   deleteExercise,
   listSets,
   addSet,
   updateSet,
   deleteSet,
+  SET_TYPES,
+  SUPERSET_LABELS,
+  type SetPatch,
+  type SetType,
 } from "@/lib/trainV2DetailsData";
-
-type ExRow = { id: string; name: string; notes: string | null; sort_order: number };
-type SetRow = { id: string; reps: number | null; weight_lbs: number | null; notes: string | null; sort_order: number };
+import { equipmentLabel, listExerciseCatalog, muscleLabel, type Exercise } from "@/lib/exercises";
+import { saveSessionAsTemplate } from "@/lib/workoutPrograms";
+import { recomputePillar } from "@/lib/recomputePillar";
+import {
+  PR_LABELS,
+  brzycki1RM,
+  epley1RM,
+  fetchExerciseHistories,
+  historyKey,
+  personalRecords,
+  previousSet,
+  sessionVolume,
+  setDiff,
+  setPRs,
+  suggestNext,
+  topSet,
+  weightIncrement,
+  type ExerciseRef,
+  type ExerciseSession,
+} from "@/lib/strengthStats";
+import ExercisePicker from "./ExercisePicker";
+
+type ExRow = {
+  id: string;
+  exercise_id: string | null;
+  name: string;
+  notes: string | null;
+  sort_order: number;
+  group_label: string | null;
+};
+type SetRow = {
+  id: string;
+  reps: number | null;
+  weight_lbs: number | null;
+  target_reps: number | null; // planned by the workout template
+  target_weight_lbs: number | null;
+  set_type: SetType;
+  rpe: number | null;
+  rir: number | null;
+  tempo: string | null;
+  rest_sec: number | null;
+  notes: string | null;
+  sort_order: number;
+};
+
+const RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+const RIR_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+function fmtLbs(n: number) {
+  return Math.round(n).toLocaleString();
+}
+
+// two exercises sharing a letter are a superset, three or more a circuit
+function groupName(label: string, size: number) {
+  return `${size >= 3 ? "Circuit" : "Superset"} ${label}`;
+}
 
 export default function StrengthSessionEditor(props: {
   session: TrainSession;
+  localDate?: string; // the session's day, so history never includes later days
   onSaveSession: (patch: Partial<Pick<TrainSession, "title" | "notes" | "duration_sec">>) => Promise<void>;
   onSaved: () => void;
 }) {
@@ -31,7 +90,22 @@ export default function StrengthSessionEditor(props: {
 
   const [exercises, setExercises] = useState<ExRow[]>([]);
   const [setsByExercise, setSetsByExercise] = useState<Record<string, SetRow[]>>({});
-  const [newExerciseName, setNewExerciseName] = useState("");
+  const [catalog, setCatalog] = useState<Exercise[]>([]);
+  const [templateName, setTemplateName] = useState("");
+  const [templateMsg, setTemplateMsg] = useState<string | null>(null);
+
+  // earlier sessions per exercise (strengthStats.historyKey)
+  const [histories, setHistories] = useState<Record<string, ExerciseSession[]>>({});
+  const [historyOpen, setHistoryOpen] = useState<string | null>(null);
+
+  // sets are saved as you type — re-evaluate Train once when the editor goes away, not per set
+  const setsChanged = useRef(false);
+  useEffect(() => {
+    const localDate = props.localDate;
+    return () => {
+      if (setsChanged.current && localDate) void recomputePillar("train", localDate);
+    };
+  }, [props.localDate]);
 
   useEffect(() => {
     let cancelled = false;
@@ -39,9 +113,10 @@ export default function StrengthSessionEditor(props: {
       setLoading(true);
       setErr(null);
       try {
-        const ex = await listExercises(s.id);
+        const [ex, cat] = await Promise.all([listExercises(s.id), listExerciseCatalog()]);
         if (cancelled) return;
         setExercises(ex);
+        setCatalog(cat);
 
         const map: Record<string, SetRow[]> = {};
         for (const e of ex) {
@@ -49,6 +124,10 @@ export default function StrengthSessionEditor(props: {
         }
         if (cancelled) return;
         setSetsByExercise(map);
+
+        const hist = await fetchExerciseHistories(ex, { excludeSessionId: s.id, throughDate: props.localDate });
+        if (cancelled) return;
+        setHistories(hist);
       } catch (e: any) {
         if (!cancelled) setErr(e?.message ?? String(e));
       } finally {
@@ -58,12 +137,35 @@ export default function StrengthSessionEditor(props: {
     return () => {
       cancelled = true;
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [s.id]);
 
+  async function loadHistory(ref: ExerciseRef) {
+    const key = historyKey(ref);
+    if (histories[key]) return;
+    try {
+      const hist = await fetchExerciseHistories([ref], { excludeSessionId: s.id, throughDate: props.localDate });
+      setHistories((prev) => ({ ...prev, [key]: hist[key] ?? [] }));
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    }
+  }
+
   const totalSets = useMemo(() => {
     return Object.values(setsByExercise).reduce((acc, arr) => acc + (arr?.length ?? 0), 0);
   }, [setsByExercise]);
 
+  // sessionVolume skips warmups
+  const workingVolume = useMemo(() => {
+    return Object.values(setsByExercise).reduce((acc, arr) => acc + sessionVolume(arr ?? []), 0);
+  }, [setsByExercise]);
+
+  const groupSizes = useMemo(() => {
+    const sizes: Record<string, number> = {};
+    for (const ex of exercises) if (ex.group_label) sizes[ex.group_label] = (sizes[ex.group_label] ?? 0) + 1;
+    return sizes;
+  }, [exercises]);
+
   async function saveTop() {
     setErr(null);
     try {
@@ -80,25 +182,34 @@ export default function StrengthSessionEditor(props: {
     }
   }
 
-  async function onAddExercise() {
+  const catalogById = useMemo(() => new Map(catalog.map((c) => [c.id, c])), [catalog]);
+
+  // ExercisePicker shows its own error
+  async function onAddExercise(picked: Exercise) {
     setErr(null);
-    const name = newExerciseName.trim();
-    if (!name) return;
+    const created = await addExercise(s.id, picked.name, picked.id);
+    setExercises((prev) => [...prev, created]);
+    setSetsByExercise((prev) => ({ ...prev, [created.id]: [] }));
+    await loadHistory(created);
+  }
 
-    try {
-      const created = await addExercise(s.id, name);
-      setExercises((prev) => [...prev, created]);
-      setSetsByExercise((prev) => ({ ...prev, [created.id]: [] }));
-      setNewExerciseName("");
-    } catch (e: any) {
-      setErr(e?.message ?? String(e));
-    }
+  // template target carried over from the sets above, else the progression suggestion
+  function nextSetTarget(ex: ExRow): { reps: number | null; weight_lbs: number | null } | null {
+    const planned = [...(setsByExercise[ex.id] ?? [])]
+      .reverse()
+      .find((st) => st.target_reps !== null || st.target_weight_lbs !== null);
+    if (planned) return { reps: planned.target_reps, weight_lbs: planned.target_weight_lbs };
+
+    const info = ex.exercise_id ? catalogById.get(ex.exercise_id) : undefined;
+    const suggestion = suggestNext((histories[historyKey(ex)] ?? [])[0], { increment: weightIncrement(info) });
+    return suggestion ? { reps: suggestion.reps, weight_lbs: suggestion.weight_lbs } : null;
   }
 
   async function onDeleteExercise(exerciseId: string) {
     setErr(null);
     try {
       await deleteExercise(exerciseId);
+      setsChanged.current = true;
       setExercises((prev) => prev.filter((x) => x.id !== exerciseId));
       setSetsByExercise((prev) => {
         const next = { ...prev };
@@ -110,20 +221,63 @@ export default function StrengthSessionEditor(props: {
     }
   }
 
-  async function onAddSet(exerciseId: string) {
+  async function onAddSet(ex: ExRow) {
     setErr(null);
     try {
-      const created = await addSet(exerciseId);
-      setSetsByExercise((prev) => ({ ...prev, [exerciseId]: [...(prev[exerciseId] ?? []), created] }));
+      const created = await addSet(ex.id, nextSetTarget(ex));
+      setsChanged.current = true;
+      setSetsByExercise((prev) => ({ ...prev, [ex.id]: [...(prev[ex.id] ?? []), created] }));
     } catch (e: any) {
       setErr(e?.message ?? String(e));
     }
   }
 
-  async function onUpdateSet(exerciseId: string, setId: string, patch: Partial<Pick<SetRow, "reps" | "weight_lbs" | "notes">>) {
+  // fills this workout's sets with the previous session's numbers, set by set position (adding sets if it had more)
+  async function onCopyPrevious(ex: ExRow) {
+    const last = (histories[historyKey(ex)] ?? [])[0];
+    if (!last) return;
+    setErr(null);
+
+    try {
+      const current = [...(setsByExercise[ex.id] ?? [])];
+      for (const prev of last.sets) {
+        const i = prev.set_index ?? 0;
+        const values = {
+          reps: prev.reps,
+          weight_lbs: prev.weight_lbs,
+          set_type: prev.set_type ?? "working",
+        };
+        while (current.length <= i) current.push(await addSet(ex.id, null));
+
+        const existing = current[i];
+        if (existing.reps !== null || existing.weight_lbs !== null) continue;
+
+        await updateSet(existing.id, values);
+        setsChanged.current = true;
+        current[i] = { ...existing, ...values };
+      }
+      setSetsByExercise((prev) => ({ ...prev, [ex.id]: current }));
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function onGroupExercise(exerciseId: string, group_label: string | null) {
+    setErr(null);
+    try {
+      await updateExercise(exerciseId, { group_label });
+      setExercises((prev) => prev.map((x) => (x.id === exerciseId ? { ...x, group_label } : x)));
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function onUpdateSet(exerciseId: string, setId: string, patch: SetPatch) {
     setErr(null);
     try {
       await updateSet(setId, patch);
+      // only reps / weight decide whether the set counts as logged
+      if ("reps" in patch || "weight_lbs" in patch) setsChanged.current = true;
       setSetsByExercise((prev) => ({
         ...prev,
         [exerciseId]: (prev[exerciseId] ?? []).map((r) => (r.id === setId ? { ...r, ...patch } : r)),
@@ -137,12 +291,25 @@ export default function StrengthSessionEditor(props: {
     setErr(null);
     try {
       await deleteSet(setId);
+      setsChanged.current = true;
       setSetsByExercise((prev) => ({ ...prev, [exerciseId]: (prev[exerciseId] ?? []).filter((r) => r.id !== setId) }));
     } catch (e: any) {
       setErr(e?.message ?? String(e));
     }
   }
 
+  async function onSaveTemplate() {
+    setErr(null);
+    setTemplateMsg(null);
+    try {
+      await saveSessionAsTemplate(s.id, templateName || title || "Workout");
+      setTemplateName("");
+      setTemplateMsg("Saved as a template.");
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    }
+  }
+
   async function saveAndClose() {
     await saveTop();
     props.onSaved();
@@ -170,98 +337,358 @@ export default function StrengthSessionEditor(props: {
           <textarea className="w-full rounded-lg border px-3 py-2 text-sm" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Optional notes…" />
         </label>
 
-        <div className="text-xs opacity-70">Exercises: {exercises.length} • Sets: {totalSets}</div>
+        <div className="text-xs opacity-70">
+          Exercises: {exercises.length} • Sets: {totalSets}
+          {workingVolume > 0 ? ` • Volume: ${fmtLbs(workingVolume)} lbs (excl. warmups)` : ""}
+        </div>
       </div>
 
       <div className="rounded-xl border p-3 space-y-3">
         <div className="font-semibold">Exercises</div>
 
-        <div className="flex gap-2">
-          <input
-            className="flex-1 rounded-lg border px-3 py-2 text-sm"
-            value={newExerciseName}
-            onChange={(e) => setNewExerciseName(e.target.value)}
-            placeholder="Add exercise (e.g., Bench Press)"
-          />
-          <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={onAddExercise}>
-            Add
-          </button>
-        </div>
+        <ExercisePicker
+          catalog={catalog}
+          onPick={onAddExercise}
+          onCreated={(ex) => setCatalog((prev) => [...prev, ex].sort((a, b) => a.name.localeCompare(b.name)))}
+        />
 
         {exercises.length === 0 ? (
           <div className="text-sm opacity-70">No exercises yet. Add one above.</div>
         ) : (
           <div className="space-y-3">
-            {exercises.map((ex) => (
-              <div key={ex.id} className="rounded-xl border p-3 space-y-2">
-                <div className="flex items-center justify-between gap-2">
-                  <div className="font-semibold">{ex.name}</div>
-                  <button className="rounded-lg border px-2 py-1 text-xs hover:bg-muted" type="button" onClick={() => onDeleteExercise(ex.id)}>
-                    Delete
-                  </button>
-                </div>
-
-                <div className="space-y-2">
-                  {(setsByExercise[ex.id] ?? []).map((st) => (
-                    <div key={st.id} className="rounded-lg border p-2 space-y-2">
-                      <div className="grid grid-cols-2 gap-2">
-                        <label className="space-y-1">
-                          <div className="text-xs opacity-70">Reps</div>
-                          <input
-                            className="w-full rounded-lg border px-3 py-2 text-sm"
-                            inputMode="numeric"
-                            value={st.reps != null ? String(st.reps) : ""}
-                            onChange={(e) => {
-                              const v = e.target.value.trim();
-                              const reps = v === "" ? null : Number(v);
-                              onUpdateSet(ex.id, st.id, { reps: reps == null ? null : Math.max(0, Math.round(reps)) });
-                            }}
-                            placeholder="10"
-                          />
-                        </label>
-
-                        <label className="space-y-1">
-                          <div className="text-xs opacity-70">Weight (lbs)</div>
-                          <input
-                            className="w-full rounded-lg border px-3 py-2 text-sm"
-                            inputMode="decimal"
-                            value={st.weight_lbs != null ? String(st.weight_lbs) : ""}
-                            onChange={(e) => {
-                              const v = e.target.value.trim();
-                              const w = v === "" ? null : Number(v);
-                              onUpdateSet(ex.id, st.id, { weight_lbs: w == null ? null : w });
-                            }}
-                            placeholder="135"
-                          />
-                        </label>
+            {exercises.map((ex) => {
+              const info = ex.exercise_id ? catalogById.get(ex.exercise_id) : undefined;
+              const sets = setsByExercise[ex.id] ?? [];
+              const history = histories[historyKey(ex)] ?? [];
+              const records = personalRecords(history);
+              const last = history[0];
+              const lastTop = last ? topSet(last.sets) : null;
+              const templateReps = sets.find((st) => st.target_reps !== null)?.target_reps ?? null;
+              const suggestion = suggestNext(last, { targetReps: templateReps, increment: weightIncrement(info) });
+              const volumePR = records.bestVolume !== null && sessionVolume(sets) > records.bestVolume;
+
+              return (
+                <div key={ex.id} className="rounded-xl border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-semibold">
+                        {ex.name}
+                        {ex.group_label ? (
+                          <span className="ml-2 rounded border px-1.5 py-0.5 text-xs">
+                            {groupName(ex.group_label, groupSizes[ex.group_label] ?? 1)}
+                          </span>
+                        ) : null}
+                        {volumePR ? <span className="ml-2 rounded border px-1.5 py-0.5 text-xs">Volume PR</span> : null}
                       </div>
-
-                      <label className="space-y-1 block">
-                        <div className="text-xs opacity-70">Notes</div>
-                        <input
-                          className="w-full rounded-lg border px-3 py-2 text-sm"
-                          value={st.notes ?? ""}
-                          onChange={(e) => onUpdateSet(ex.id, st.id, { notes: e.target.value })}
-                          placeholder="Optional (RPE, tempo, etc.)"
-                        />
-                      </label>
-
-                      <button className="rounded-lg border px-2 py-1 text-xs hover:bg-muted" type="button" onClick={() => onDeleteSet(ex.id, st.id)}>
-                        Remove set
+                      {info ? (
+                        <div className="text-xs opacity-70">
+                          {equipmentLabel(info.equipment)} · {info.primary_muscles.map(muscleLabel).join(", ")}
+                          {info.secondary_muscles.length ? ` (+ ${info.secondary_muscles.map(muscleLabel).join(", ")})` : ""}
+                        </div>
+                      ) : (
+                        <div className="text-xs opacity-70">Not in the exercise library</div>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <select
+                        className="rounded-lg border px-2 py-1 text-xs bg-transparent"
+                        value={ex.group_label ?? ""}
+                        onChange={(e) => onGroupExercise(ex.id, e.target.value || null)}
+                        aria-label="Superset / circuit group"
+                      >
+                        <option value="">No group</option>
+                        {SUPERSET_LABELS.map((l) => (
+                          <option key={l} value={l}>
+                            Group {l}
+                          </option>
+                        ))}
+                      </select>
+                      {last ? (
+                        <button
+                          className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                          type="button"
+                          onClick={() => onCopyPrevious(ex)}
+                          disabled={last.sets.every((p) => {
+                            const st = sets[p.set_index ?? 0];
+                            return !!st && (st.reps !== null || st.weight_lbs !== null);
+                          })}
+                        >
+                          Copy previous
+                        </button>
+                      ) : null}
+                      {history.length > 0 ? (
+                        <button
+                          className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                          type="button"
+                          onClick={() => setHistoryOpen((v) => (v === ex.id ? null : ex.id))}
+                        >
+                          {historyOpen === ex.id ? "Hide history" : "History"}
+                        </button>
+                      ) : null}
+                      <button className="rounded-lg border px-2 py-1 text-xs hover:bg-muted" type="button" onClick={() => onDeleteExercise(ex.id)}>
+                        Delete
                       </button>
                     </div>
-                  ))}
+                  </div>
+
+                  {last ? (
+                    <div className="text-xs opacity-70 space-y-0.5">
+                      <div>
+                        Last ({last.local_date}):{" "}
+                        {lastTop ? `${fmtLbs(lastTop.weight)} × ${lastTop.reps}` : `${last.sets.length} sets`}
+                        {records.maxWeight !== null ? ` · Best ${fmtLbs(records.maxWeight)} lbs` : ""}
+                        {records.best1RM !== null ? ` · e1RM ${fmtLbs(records.best1RM)}` : ""}
+                      </div>
+                      {suggestion ? (
+                        <div>
+                          Suggested: {suggestion.weight_lbs !== null ? `${fmtLbs(suggestion.weight_lbs)} × ` : ""}
+                          {suggestion.reps} reps ({suggestion.reason})
+                        </div>
+                      ) : null}
+                    </div>
+                  ) : null}
+
+                  {historyOpen === ex.id ? (
+                    <div className="rounded-lg border divide-y text-xs">
+                      {history.slice(0, 10).map((h) => {
+                        const top = topSet(h.sets);
+                        const brzycki = top ? brzycki1RM(top.weight, top.reps) : null;
+                        return (
+                          <div key={h.session_id} className="px-2 py-1.5 space-y-0.5">
+                            <div className="flex justify-between gap-2">
+                              <span className="font-medium">{h.local_date}</span>
+                              <span className="opacity-70">
+                                {top
+                                  ? `e1RM ${fmtLbs(epley1RM(top.weight, top.reps))}${brzycki !== null ? ` / ${fmtLbs(brzycki)}` : ""}`
+                                  : ""}
+                                {sessionVolume(h.sets) > 0 ? ` · ${fmtLbs(sessionVolume(h.sets))} lbs volume` : ""}
+                              </span>
+                            </div>
+                            <div className="opacity-70">
+                              {h.sets.map((st) => `${st.reps ?? "—"}${st.weight_lbs !== null ? ` × ${st.weight_lbs}` : ""}`).join(", ")}
+                            </div>
+                          </div>
+                        );
+                      })}
+                      <div className="px-2 py-1.5 opacity-60">e1RM: Epley / Brzycki</div>
+                    </div>
+                  ) : null}
+
+                  <div className="space-y-2">
+                    {sets.map((st, i) => {
+                      const prev = previousSet(history, i);
+                      const diff = setDiff(st, prev);
+                      const empty = st.reps === null && st.weight_lbs === null;
+
+                      return (
+                        <div key={st.id} className="rounded-lg border p-2 space-y-2">
+                          {prev ? (
+                            <div className="flex items-center justify-between gap-2 text-xs">
+                              <span className="opacity-70">
+                                Last time: {prev.reps ?? "—"} reps{prev.weight_lbs !== null ? ` @ ${prev.weight_lbs} lbs` : ""}
+                                {prev.set_type === "warmup" ? " (warmup)" : ""}
+                              </span>
+                              {empty ? (
+                                <button
+                                  className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                                  type="button"
+                                  onClick={() => onUpdateSet(ex.id, st.id, { reps: prev.reps, weight_lbs: prev.weight_lbs })}
+                                >
+                                  Copy previous
+                                </button>
+                              ) : diff.length > 0 ? (
+                                <span className="flex gap-1">
+                                  {diff.map((d) => (
+                                    <span key={d} className="rounded border px-1.5 py-0.5 font-semibold">
+                                      {d}
+                                    </span>
+                                  ))}
+                                </span>
+                              ) : st.reps !== null && st.weight_lbs !== null ? (
+                                <span className="opacity-70">same as last time</span>
+                              ) : null}
+                            </div>
+                          ) : null}
+                          {setPRs(st, history).length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {setPRs(st, history).map((k) => (
+                                <span key={k} className="rounded border px-1.5 py-0.5 text-xs font-semibold">
+                                  {PR_LABELS[k]}
+                                </span>
+                              ))}
+                            </div>
+                          ) : null}
+                          {st.target_reps !== null || st.target_weight_lbs !== null ? (
+                            <div className="flex items-center justify-between gap-2 text-xs">
+                              <span className="opacity-70">
+                                Target: {st.target_reps ?? "—"} reps
+                                {st.target_weight_lbs !== null ? ` @ ${st.target_weight_lbs} lbs` : ""}
+                              </span>
+                              {st.reps === null && st.weight_lbs === null ? (
+                                <button
+                                  className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                                  type="button"
+                                  onClick={() => onUpdateSet(ex.id, st.id, { reps: st.target_reps, weight_lbs: st.target_weight_lbs })}
+                                >
+                                  Done as planned
+                                </button>
+                              ) : null}
+                            </div>
+                          ) : null}
+                          <div className="grid grid-cols-2 gap-2">
+                            <label className="space-y-1">
+                              <div className="text-xs opacity-70">Reps</div>
+                              <input
+                                className="w-full rounded-lg border px-3 py-2 text-sm"
+                                inputMode="numeric"
+                                value={st.reps != null ? String(st.reps) : ""}
+                                onChange={(e) => {
+                                  const v = e.target.value.trim();
+                                  const reps = v === "" ? null : Number(v);
+                                  onUpdateSet(ex.id, st.id, { reps: reps == null ? null : Math.max(0, Math.round(reps)) });
+                                }}
+                                placeholder={String(prev?.reps ?? st.target_reps ?? 10)}
+                              />
+                            </label>
+
+                            <label className="space-y-1">
+                              <div className="text-xs opacity-70">Weight (lbs)</div>
+                              <input
+                                className="w-full rounded-lg border px-3 py-2 text-sm"
+                                inputMode="decimal"
+                                value={st.weight_lbs != null ? String(st.weight_lbs) : ""}
+                                onChange={(e) => {
+                                  const v = e.target.value.trim();
+                                  const w = v === "" ? null : Number(v);
+                                  onUpdateSet(ex.id, st.id, { weight_lbs: w == null ? null : w });
+                                }}
+                                placeholder={String(prev?.weight_lbs ?? st.target_weight_lbs ?? 135)}
+                              />
+                            </label>
+                          </div>
+
+                          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                            <label className="space-y-1">
+                              <div className="text-xs opacity-70">Type</div>
+                              <select
+                                className="w-full rounded-lg border px-2 py-2 text-sm bg-transparent"
+                                value={st.set_type}
+                                onChange={(e) => onUpdateSet(ex.id, st.id, { set_type: e.target.value as SetType })}
+                              >
+                                {SET_TYPES.map((t) => (
+                                  <option key={t.key} value={t.key}>
+                                    {t.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+
+                            <label className="space-y-1">
+                              <div className="text-xs opacity-70">RPE</div>
+                              <select
+                                className="w-full rounded-lg border px-2 py-2 text-sm bg-transparent"
+                                value={st.rpe !== null ? String(st.rpe) : ""}
+                                onChange={(e) => onUpdateSet(ex.id, st.id, { rpe: e.target.value ? Number(e.target.value) : null })}
+                              >
+                                <option value="">—</option>
+                                {RPE_OPTIONS.map((v) => (
+                                  <option key={v} value={v}>
+                                    {v}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+
+                            <label className="space-y-1">
+                              <div className="text-xs opacity-70">RIR</div>
+                              <select
+                                className="w-full rounded-lg border px-2 py-2 text-sm bg-transparent"
+                                value={st.rir !== null ? String(st.rir) : ""}
+                                onChange={(e) => onUpdateSet(ex.id, st.id, { rir: e.target.value ? Number(e.target.value) : null })}
+                              >
+                                <option value="">—</option>
+                                {RIR_OPTIONS.map((v) => (
+                                  <option key={v} value={v}>
+                                    {v === 5 ? "5+" : v}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+
+                            <label className="space-y-1">
+                              <div className="text-xs opacity-70">Tempo</div>
+                              <input
+                                className="w-full rounded-lg border px-3 py-2 text-sm"
+                                value={st.tempo ?? ""}
+                                onChange={(e) => onUpdateSet(ex.id, st.id, { tempo: e.target.value.trim().slice(0, 12) || null })}
+                                placeholder="3010"
+                              />
+                            </label>
+
+                            <label className="space-y-1">
+                              <div className="text-xs opacity-70">Rest (sec)</div>
+                              <input
+                                className="w-full rounded-lg border px-3 py-2 text-sm"
+                                inputMode="numeric"
+                                value={st.rest_sec !== null ? String(st.rest_sec) : ""}
+                                onChange={(e) => {
+                                  const v = e.target.value.trim();
+                                  const sec = v === "" ? null : Number(v);
+                                  onUpdateSet(ex.id, st.id, {
+                                    rest_sec: sec === null || !Number.isFinite(sec) ? null : Math.min(3600, Math.max(0, Math.round(sec))),
+                                  });
+                                }}
+                                placeholder="90"
+                              />
+                            </label>
+                          </div>
+
+                          <label className="space-y-1 block">
+                            <div className="text-xs opacity-70">Notes</div>
+                            <input
+                              className="w-full rounded-lg border px-3 py-2 text-sm"
+                              value={st.notes ?? ""}
+                              onChange={(e) => onUpdateSet(ex.id, st.id, { notes: e.target.value })}
+                              placeholder="Optional"
+                            />
+                          </label>
+
+                          <button className="rounded-lg border px-2 py-1 text-xs hover:bg-muted" type="button" onClick={() => onDeleteSet(ex.id, st.id)}>
+                            Remove set
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={() => onAddSet(ex)}>
+                    + Add set
+                  </button>
                 </div>
-
-                <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={() => onAddSet(ex.id)}>
-                  + Add set
-                </button>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
 
+      {exercises.length > 0 ? (
+        <div className="rounded-xl border p-3 space-y-2">
+          <div className="font-semibold">Save as template</div>
+          <div className="flex gap-2">
+            <input
+              className="flex-1 rounded-lg border px-3 py-2 text-sm"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder={title || "Template name"}
+            />
+            <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={onSaveTemplate}>
+              Save
+            </button>
+          </div>
+          {templateMsg ? <div className="text-xs opacity-70">{templateMsg}</div> : null}
+        </div>
+      ) : null}
+
       <div className="flex gap-2">
         <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={saveAndClose}>
           Save & close
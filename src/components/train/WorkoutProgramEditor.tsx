@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { todayLocalISO } from "@/lib/localDay";
+import {
+  MAX_PROGRAM_DAYS,
+  PROGRAM_LENGTHS,
+  saveWorkoutProgram,
+  type WorkoutProgram,
+  type WorkoutTemplate,
+} from "@/lib/workoutPrograms";
+
+function dayLabel(index: number, length: number): string {
+  // weekly-shaped cycles read better as "Week 2 · Day 3"
+  if (length > 7 && length % 7 === 0) return `Week ${Math.floor(index / 7) + 1} · Day ${(index % 7) + 1}`;
+  return `Day ${index + 1}`;
+}
+
+/**
+ * Create / edit a program: a cycle of days, each a template or rest, repeating from a start date.
+ */
+export default function WorkoutProgramEditor(props: {
+  program: WorkoutProgram | null; // null = new
+  templates: WorkoutTemplate[];
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(props.program?.name ?? "");
+  const [startDate, setStartDate] = useState(props.program?.start_date ?? todayLocalISO());
+  const [days, setDays] = useState<(string | null)[]>(() => props.program?.days ?? Array.from({ length: 7 }, () => null));
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  function resize(length: number) {
+    if (!Number.isFinite(length) || length < 1 || length > MAX_PROGRAM_DAYS) return;
+    // growing repeats the existing cycle, so a 7-day split becomes 4 identical weeks to tweak
+    setDays((prev) => Array.from({ length }, (_, i) => (i < prev.length ? prev[i] : (prev[i % prev.length] ?? null))));
+  }
+
+  async function save() {
+    setErr(null);
+    setSaving(true);
+    try {
+      await saveWorkoutProgram({ id: props.program?.id, name, days, start_date: startDate });
+      props.onSaved();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border p-3 space-y-3">
+      {err ? <div className="text-sm text-red-600">{err}</div> : null}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <div className="text-xs opacity-70">Name</div>
+          <input
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Push / pull / legs"
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-xs opacity-70">Cycle length (days)</div>
+          <input
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            type="number"
+            min={1}
+            max={MAX_PROGRAM_DAYS}
+            value={days.length}
+            onChange={(e) => resize(Number(e.target.value))}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-xs opacity-70">Day 1 is</div>
+          <input
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {PROGRAM_LENGTHS.map((p) => (
+          <button
+            key={p.days}
+            className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+            type="button"
+            onClick={() => resize(p.days)}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {props.templates.length === 0 ? (
+        <div className="text-sm opacity-70">Create a workout template first, then schedule it here.</div>
+      ) : null}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {days.map((templateId, i) => (
+          <label key={i} className="flex items-center gap-2">
+            <span className="w-28 text-xs opacity-70">{dayLabel(i, days.length)}</span>
+            <select
+              className="flex-1 rounded-lg border px-2 py-1 text-sm bg-transparent"
+              value={templateId ?? ""}
+              onChange={(e) => setDays((prev) => prev.map((d, j) => (j === i ? e.target.value || null : d)))}
+            >
+              <option value="">Rest</option>
+              {props.templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={save} disabled={saving}>
+          {saving ? "Saving…" : "Save program"}
+        </button>
+        <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={props.onCancel} disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import type { Exercise } from "@/lib/exercises";
+import { saveWorkoutTemplate, type TemplateExercise, type WorkoutTemplate } from "@/lib/workoutPrograms";
+import ExercisePicker from "./ExercisePicker";
+
+type Draft = { exercise_id: string | null; name: string; sets: string; reps: string; weight_lbs: string };
+
+function toDraft(e: TemplateExercise): Draft {
+  return {
+    exercise_id: e.exercise_id,
+    name: e.name,
+    sets: String(e.sets),
+    reps: e.reps !== null ? String(e.reps) : "",
+    weight_lbs: e.weight_lbs !== null ? String(e.weight_lbs) : "",
+  };
+}
+
+function fromDraft(d: Draft): TemplateExercise {
+  return {
+    exercise_id: d.exercise_id,
+    name: d.name,
+    sets: Number(d.sets) || 0,
+    reps: d.reps.trim() === "" ? null : Number(d.reps),
+    weight_lbs: d.weight_lbs.trim() === "" ? null : Number(d.weight_lbs),
+  };
+}
+
+/**
+ * Create / edit a workout template: ordered exercises with target sets × reps × weight.
+ */
+export default function WorkoutTemplateEditor(props: {
+  template: WorkoutTemplate | null; // null = new
+  catalog: Exercise[];
+  onCatalogAdd: (exercise: Exercise) => void;
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(props.template?.name ?? "");
+  const [notes, setNotes] = useState(props.template?.notes ?? "");
+  const [rows, setRows] = useState<Draft[]>(() => (props.template?.exercises ?? []).map(toDraft));
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  function patchRow(index: number, patch: Partial<Draft>) {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  function moveRow(index: number, delta: number) {
+    setRows((prev) => {
+      const to = index + delta;
+      if (to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[to]] = [next[to], next[index]];
+      return next;
+    });
+  }
+
+  async function save() {
+    setErr(null);
+    setSaving(true);
+    try {
+      await saveWorkoutTemplate({ id: props.template?.id, name, notes, exercises: rows.map(fromDraft) });
+      props.onSaved();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border p-3 space-y-3">
+      {err ? <div className="text-sm text-red-600">{err}</div> : null}
+
+      <label className="space-y-1 block">
+        <div className="text-xs opacity-70">Name</div>
+        <input
+          className="w-full rounded-lg border px-3 py-2 text-sm"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Push day"
+        />
+      </label>
+
+      <label className="space-y-1 block">
+        <div className="text-xs opacity-70">Notes</div>
+        <input
+          className="w-full rounded-lg border px-3 py-2 text-sm"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Optional"
+        />
+      </label>
+
+      <div className="space-y-2">
+        {rows.length === 0 ? <div className="text-sm opacity-70">No exercises yet. Add one below.</div> : null}
+
+        {rows.map((r, i) => (
+          <div key={`${r.exercise_id ?? r.name}-${i}`} className="rounded-lg border p-2 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm font-medium">
+                {i + 1}. {r.name}
+              </div>
+              <div className="flex gap-1">
+                <button className="rounded-lg border px-2 py-1 text-xs hover:bg-muted" type="button" onClick={() => moveRow(i, -1)} disabled={i === 0}>
+                  ↑
+                </button>
+                <button
+                  className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                  type="button"
+                  onClick={() => moveRow(i, 1)}
+                  disabled={i === rows.length - 1}
+                >
+                  ↓
+                </button>
+                <button
+                  className="rounded-lg border px-2 py-1 text-xs hover:bg-muted"
+                  type="button"
+                  onClick={() => setRows((prev) => prev.filter((_, j) => j !== i))}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <label className="space-y-1">
+                <div className="text-xs opacity-70">Sets</div>
+                <input
+                  className="w-full rounded-lg border px-3 py-2 text-sm"
+                  inputMode="numeric"
+                  value={r.sets}
+                  onChange={(e) => patchRow(i, { sets: e.target.value })}
+                />
+              </label>
+              <label className="space-y-1">
+                <div className="text-xs opacity-70">Reps</div>
+                <input
+                  className="w-full rounded-lg border px-3 py-2 text-sm"
+                  inputMode="numeric"
+                  value={r.reps}
+                  onChange={(e) => patchRow(i, { reps: e.target.value })}
+                  placeholder="—"
+                />
+              </label>
+              <label className="space-y-1">
+                <div className="text-xs opacity-70">Weight (lbs)</div>
+                <input
+                  className="w-full rounded-lg border px-3 py-2 text-sm"
+                  inputMode="decimal"
+                  value={r.weight_lbs}
+                  onChange={(e) => patchRow(i, { weight_lbs: e.target.value })}
+                  placeholder="—"
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <ExercisePicker
+        catalog={props.catalog}
+        onPick={(ex) =>
+          setRows((prev) => [...prev, { exercise_id: ex.id, name: ex.name, sets: "3", reps: "", weight_lbs: "" }])
+        }
+        onCreated={props.onCatalogAdd}
+      />
+
+      <div className="flex gap-2">
+        <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={save} disabled={saving}>
+          {saving ? "Saving…" : "Save template"}
+        </button>
+        <button className="rounded-lg border px-3 py-2 text-sm hover:bg-muted" type="button" onClick={props.onCancel} disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,6 @@
 // src/lib/ensureUserSettings.ts
 import { supabase } from "@/lib/supabaseClient";
-
-function guessTz() {
-  try {
-    return Intl.DateTimeFormat().resolvedOptions().timeZone || "America/Chicago";
-  } catch {
-    return "America/Chicago";
-  }
-}
+import { getUserTimezone } from "@/lib/localDay";
 
 export async function ensureUserSettings() {
   try {
@@ -16,7 +9,7 @@ export async function ensureUserSettings() {
     const uid = sessionData.session?.user?.id;
     if (!uid) return;
 
-    const tz = guessTz();
+    const tz = getUserTimezone();
 
     const { error } = await supabase
       .schema("disciplined")
@@ -0,0 +1,182 @@
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Exercise catalog (disciplined.exercises): built-in lifts (user_id null) plus the user's
+ * custom exercises. train_exercises.exercise_id points here so the same lift logged as
+ * "Bench", "bench press" or "BP" is tracked as one exercise.
+ */
+
+export type Equipment = "barbell" | "dumbbell" | "machine" | "cable" | "bodyweight" | "kettlebell" | "band" | "other";
+
+export type MuscleGroup =
+  | "chest"
+  | "back"
+  | "shoulders"
+  | "biceps"
+  | "triceps"
+  | "forearms"
+  | "core"
+  | "glutes"
+  | "quads"
+  | "hamstrings"
+  | "calves"
+  | "full_body";
+
+export type Exercise = {
+  id: string;
+  user_id: string | null; // null = built-in
+  name: string;
+  aliases: string[];
+  equipment: Equipment;
+  primary_muscles: MuscleGroup[];
+  secondary_muscles: MuscleGroup[];
+  is_unilateral: boolean;
+};
+
+export const EQUIPMENT: { key: Equipment; label: string }[] = [
+  { key: "barbell", label: "Barbell" },
+  { key: "dumbbell", label: "Dumbbell" },
+  { key: "machine", label: "Machine" },
+  { key: "cable", label: "Cable" },
+  { key: "bodyweight", label: "Bodyweight" },
+  { key: "kettlebell", label: "Kettlebell" },
+  { key: "band", label: "Band" },
+  { key: "other", label: "Other" },
+];
+
+export const MUSCLE_GROUPS: { key: MuscleGroup; label: string }[] = [
+  { key: "chest", label: "Chest" },
+  { key: "back", label: "Back" },
+  { key: "shoulders", label: "Shoulders" },
+  { key: "biceps", label: "Biceps" },
+  { key: "triceps", label: "Triceps" },
+  { key: "forearms", label: "Forearms" },
+  { key: "core", label: "Core" },
+  { key: "glutes", label: "Glutes" },
+  { key: "quads", label: "Quads" },
+  { key: "hamstrings", label: "Hamstrings" },
+  { key: "calves", label: "Calves" },
+  { key: "full_body", label: "Full body" },
+];
+
+const EXERCISE_COLUMNS = "id,user_id,name,aliases,equipment,primary_muscles,secondary_muscles,is_unilateral";
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+/**
+ * Lowercase, no punctuation, single spaces: "Push-Up" and "push up" compare equal.
+ */
+export function normalizeExerciseName(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function muscleLabel(key: MuscleGroup): string {
+  return MUSCLE_GROUPS.find((m) => m.key === key)?.label ?? key;
+}
+
+export function equipmentLabel(key: Equipment): string {
+  return EQUIPMENT.find((e) => e.key === key)?.label ?? key;
+}
+
+/**
+ * The exercise whose name or an alias is exactly `name` (normalized), if any.
+ */
+export function findExercise(catalog: Exercise[], name: string): Exercise | null {
+  const q = normalizeExerciseName(name);
+  if (!q) return null;
+
+  return (
+    catalog.find((e) => normalizeExerciseName(e.name) === q) ??
+    catalog.find((e) => e.aliases.some((a) => normalizeExerciseName(a) === q)) ??
+    null
+  );
+}
+
+/**
+ * Autocomplete: exact name/alias first, then prefix matches, then anywhere in the name,
+ * aliases or muscle groups. Custom exercises win ties over built-ins.
+ */
+export function searchExercises(catalog: Exercise[], query: string, limit = 8): Exercise[] {
+  const q = normalizeExerciseName(query);
+  if (!q) return [];
+
+  const scored: { ex: Exercise; score: number }[] = [];
+  for (const ex of catalog) {
+    const names = [ex.name, ...ex.aliases].map(normalizeExerciseName);
+    const muscles = [...ex.primary_muscles, ...ex.secondary_muscles].map((m) => normalizeExerciseName(muscleLabel(m)));
+
+    let score = 0;
+    if (names.some((n) => n === q)) score = 4;
+    else if (names.some((n) => n.startsWith(q) || n.split(" ").some((w) => w.startsWith(q)))) score = 3;
+    else if (names.some((n) => n.includes(q))) score = 2;
+    else if (muscles.some((m) => m.startsWith(q))) score = 1;
+
+    if (score > 0) scored.push({ ex, score: score + (ex.user_id ? 0.5 : 0) });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.ex.name.localeCompare(b.ex.name))
+    .slice(0, limit)
+    .map((s) => s.ex);
+}
+
+/**
+ * Built-ins and the user's custom exercises, by name.
+ */
+export async function listExerciseCatalog(): Promise<Exercise[]> {
+  await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("exercises")
+    .select(EXERCISE_COLUMNS)
+    .order("name", { ascending: true });
+
+  if (res.error) throw res.error;
+  return (res.data ?? []) as Exercise[];
+}
+
+export async function createCustomExercise(input: {
+  name: string;
+  equipment: Equipment;
+  primary_muscles: MuscleGroup[];
+  secondary_muscles?: MuscleGroup[];
+  is_unilateral?: boolean;
+  aliases?: string[];
+}): Promise<Exercise> {
+  const uid = await requireUid();
+
+  const name = input.name.trim().replace(/\s+/g, " ");
+  if (!name) throw new Error("Exercise name is required.");
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("exercises")
+    .insert({
+      user_id: uid,
+      name,
+      aliases: (input.aliases ?? []).map((a) => a.trim().toLowerCase()).filter(Boolean),
+      equipment: input.equipment,
+      primary_muscles: input.primary_muscles,
+      secondary_muscles: input.secondary_muscles ?? [],
+      is_unilateral: input.is_unilateral ?? false,
+    })
+    .select(EXERCISE_COLUMNS)
+    .single<Exercise>();
+
+  if (res.error) {
+    if (res.error.code === "23505") throw new Error(`You already have an exercise called "${name}".`);
+    throw res.error;
+  }
+  return res.data;
+}
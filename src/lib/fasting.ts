@@ -1,70 +1,285 @@
+/**
+ * Fasting plan helpers (pure; shared by the client, the settings API route and pillar criteria).
+ *
+ * eating_start / eating_hours are the default daily window. A protocol may add a weekly
+ * schedule (index 0 = Sunday) where each day uses that window, its own window, no window at
+ * all (a fast day), or is a non-fasting day. No schedule = the default window every day.
+ */
+
+export type FastingDay =
+  | { kind: "window"; eating_start?: string; eating_hours?: number } // default window unless overridden
+  | { kind: "off" } // non-fasting day: eat any time
+  | { kind: "fast"; max_calories?: number }; // no eating window (5:2 days allow a small budget)
+
+export type FastingSchedule = FastingDay[];
+
+export type FastingProtocol =
+  | "16:8"
+  | "18:6"
+  | "20:4"
+  | "14:10"
+  | "omad"
+  | "5:2"
+  | "alternate_day"
+  | "extended_36"
+  | "extended_72"
+  | "custom";
+
 export type FastingSettings = {
   eating_start: string; // "HH:MM:SS" from Postgres time (or "HH:MM")
   eating_hours: number; // 1..23
+  protocol?: FastingProtocol | null;
+  schedule?: FastingSchedule | null;
 };
 
 export type FastingStatus = {
   mode: "eating" | "fasting";
-  nextSwitchAt: Date;
-  minutesUntilSwitch: number;
-  eatingStartToday: Date;
-  eatingEndToday: Date;
+  nextSwitchAt: Date | null; // null when the schedule never switches (e.g. every day is a fast day)
+  minutesUntilSwitch: number | null;
+  today: FastingDay;
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const FASTING_PROTOCOLS: { key: FastingProtocol; label: string; description: string }[] = [
+  { key: "16:8", label: "16:8", description: "8-hour eating window every day" },
+  { key: "18:6", label: "18:6", description: "6-hour eating window every day" },
+  { key: "20:4", label: "20:4", description: "4-hour eating window every day" },
+  { key: "14:10", label: "14:10", description: "10-hour eating window every day" },
+  { key: "omad", label: "OMAD", description: "One meal a day: a 1-hour window" },
+  { key: "5:2", label: "5:2", description: "Normal eating 5 days, ~500 cal on Monday and Thursday" },
+  { key: "alternate_day", label: "Alternate day", description: "Fast Mon / Wed / Fri, eat normally the other days" },
+  { key: "extended_36", label: "36h fast", description: "Daily window, plus a 36-hour fast from Sunday's window" },
+  { key: "extended_72", label: "72h fast", description: "Daily window, plus a 72-hour fast from Sunday's window" },
+  { key: "custom", label: "Custom", description: "Set each weekday yourself" },
+];
+
+const WINDOW_HOURS: Partial<Record<FastingProtocol, number>> = {
+  "16:8": 8,
+  "18:6": 6,
+  "20:4": 4,
+  "14:10": 10,
+  omad: 1,
 };
 
-function parseTimeToTodayLocal(timeStr: string, base: Date = new Date()): Date {
+const FIVE_TWO_CALORIES = 500;
+
+export function isFastingProtocol(v: unknown): v is FastingProtocol {
+  return FASTING_PROTOCOLS.some((p) => p.key === v);
+}
+
+function timeToMinutes(timeStr: string): number {
   // accepts "HH:MM" or "HH:MM:SS"
-  const [hh, mm, ss] = timeStr.split(":").map((x) => Number(x));
-  const d = new Date(base);
-  d.setHours(hh || 0, mm || 0, ss || 0, 0);
-  return d;
+  const [hh, mm] = String(timeStr).split(":").map((x) => Number(x));
+  return ((((hh || 0) * 60 + (mm || 0)) % 1440) + 1440) % 1440;
 }
 
-export function computeFastingStatus(settings: FastingSettings, now: Date = new Date()): FastingStatus {
-  const eatingStartToday = parseTimeToTodayLocal(settings.eating_start, now);
+function minutesToTime(min: number): string {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+/**
+ * What a preset means for the week, given the default window. Daily-window presets have no
+ * schedule (eating_hours alone describes them). Extended fasts start when Sunday's window closes
+ * and end by opening a window exactly 36 / 72 hours later.
+ */
+export function protocolPlan(
+  protocol: FastingProtocol,
+  base: { eating_start: string; eating_hours: number }
+): { eating_hours: number; schedule: FastingSchedule | null } {
+  const hours = WINDOW_HOURS[protocol];
+  if (hours) return { eating_hours: hours, schedule: null };
+
+  const week = (f: (weekday: number) => FastingDay) => Array.from({ length: 7 }, (_, i) => f(i));
+
+  switch (protocol) {
+    case "5:2":
+      return {
+        eating_hours: base.eating_hours,
+        schedule: week((d) => (d === 1 || d === 4 ? { kind: "fast", max_calories: FIVE_TWO_CALORIES } : { kind: "off" })),
+      };
+    case "alternate_day":
+      return {
+        eating_hours: base.eating_hours,
+        schedule: week((d) => (d === 1 || d === 3 || d === 5 ? { kind: "fast" } : { kind: "off" })),
+      };
+    case "extended_36":
+    case "extended_72": {
+      const fastMin = (protocol === "extended_36" ? 36 : 72) * 60;
+      const end = timeToMinutes(base.eating_start) + base.eating_hours * 60 + fastMin; // from Sunday 00:00
+      const resumeDay = Math.floor(end / 1440);
+
+      return {
+        eating_hours: base.eating_hours,
+        schedule: week((d) => {
+          if (d >= 1 && d < resumeDay) return { kind: "fast" };
+          if (d === resumeDay) return { kind: "window", eating_start: minutesToTime(end % 1440) };
+          return { kind: "window" };
+        }),
+      };
+    }
+    default:
+      return { eating_hours: base.eating_hours, schedule: null };
+  }
+}
+
+/**
+ * What to store after the default window changes, or null to keep the protocol as is.
+ * A daily-window preset follows the new length (the matching preset, else "custom"); an extended
+ * fast is re-planned around the new window. 5:2, alternate day and custom don't depend on it.
+ */
+export function protocolForWindow(
+  protocol: FastingProtocol | null,
+  base: { eating_start: string; eating_hours: number }
+): { protocol: FastingProtocol; schedule?: FastingSchedule | null } | null {
+  if (!protocol) return null;
+
+  const hours = WINDOW_HOURS[protocol];
+  if (hours) {
+    if (hours === base.eating_hours) return null;
+    const match = FASTING_PROTOCOLS.find((p) => WINDOW_HOURS[p.key] === base.eating_hours);
+    return { protocol: match?.key ?? "custom" };
+  }
+
+  if (protocol === "extended_36" || protocol === "extended_72") {
+    return { protocol, schedule: protocolPlan(protocol, base).schedule };
+  }
+  return null;
+}
 
-  const eatingEndToday = new Date(eatingStartToday);
-  eatingEndToday.setHours(eatingEndToday.getHours() + settings.eating_hours);
+/**
+ * Drops anything that isn't a valid day (jsonb is untyped). Returns null unless all 7 days are valid.
+ */
+export function normalizeSchedule(raw: unknown): FastingSchedule | null {
+  if (!Array.isArray(raw) || raw.length !== 7) return null;
 
-  // handle window that crosses midnight
-  let inEatingWindow = false;
+  const out: FastingSchedule = [];
+  for (const r of raw) {
+    const kind = (r as { kind?: unknown })?.kind;
 
-  if (eatingEndToday >= eatingStartToday) {
-    // normal same-day window OR past midnight window represented by Date overflow (JS handles it)
-    inEatingWindow = now >= eatingStartToday && now < eatingEndToday;
+    if (kind === "off") out.push({ kind });
+    else if (kind === "fast") {
+      const cal = Number((r as { max_calories?: unknown }).max_calories);
+      out.push(Number.isFinite(cal) && cal > 0 ? { kind, max_calories: cal } : { kind });
+    } else if (kind === "window") {
+      const day: FastingDay = { kind };
+      const start = String((r as { eating_start?: unknown }).eating_start ?? "");
+      const hours = Number((r as { eating_hours?: unknown }).eating_hours);
+      if (/^\d{1,2}:\d{2}(:\d{2})?$/.test(start)) day.eating_start = start.slice(0, 5);
+      if (Number.isFinite(hours) && hours >= 1 && hours <= 23) day.eating_hours = hours;
+      out.push(day);
+    } else return null;
   }
 
-  // Determine next switch
-  let nextSwitchAt: Date;
-
-  if (inEatingWindow) {
-    nextSwitchAt = eatingEndToday;
-  } else {
-    // If we're before today's start, next switch is today's start.
-    // If we're after today's end, next switch is tomorrow's start.
-    if (now < eatingStartToday) {
-      nextSwitchAt = eatingStartToday;
-    } else {
-      const tomorrowStart = new Date(eatingStartToday);
-      tomorrowStart.setDate(tomorrowStart.getDate() + 1);
-      nextSwitchAt = tomorrowStart;
+  return out;
+}
+
+export function dayRule(settings: FastingSettings, weekday: number): FastingDay {
+  return settings.schedule?.[weekday] ?? { kind: "window" };
+}
+
+/**
+ * The eating window of a "window" day as [startMin, endMin) from that day's midnight
+ * (endMin may pass 1440 when the window runs past midnight).
+ */
+export function dayWindow(settings: FastingSettings, day: Extract<FastingDay, { kind: "window" }>): [number, number] {
+  const start = timeToMinutes(day.eating_start ?? settings.eating_start);
+  return [start, start + (day.eating_hours ?? settings.eating_hours) * 60];
+}
+
+/**
+ * Whether eating is on plan at a local minute of a local weekday (a window from the
+ * previous day may still be open after midnight).
+ */
+export function eatingAllowedAt(settings: FastingSettings, weekday: number, minute: number): boolean {
+  const today = dayRule(settings, weekday);
+  if (today.kind === "off") return true;
+
+  if (today.kind === "window") {
+    const [start, end] = dayWindow(settings, today);
+    if (minute >= start && minute < end) return true;
+  }
+
+  const yesterday = dayRule(settings, (weekday + 6) % 7);
+  if (yesterday.kind === "window") {
+    const [, end] = dayWindow(settings, yesterday);
+    if (end > 1440 && minute < end - 1440) return true;
+  }
+
+  return false;
+}
+
+function localMidnight(base: Date, dayOffset: number): Date {
+  const d = new Date(base);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() + dayOffset);
+  return d;
+}
+
+/**
+ * Eating intervals (device-local time) from yesterday through the next week, merged where
+ * they touch (consecutive non-fasting days become one interval).
+ */
+function eatingIntervals(settings: FastingSettings, now: Date): [Date, Date][] {
+  const raw: [Date, Date][] = [];
+
+  for (let offset = -1; offset <= 8; offset++) {
+    const midnight = localMidnight(now, offset);
+    const rule = dayRule(settings, midnight.getDay());
+
+    if (rule.kind === "off") {
+      raw.push([midnight, localMidnight(now, offset + 1)]);
+    } else if (rule.kind === "window") {
+      const [start, end] = dayWindow(settings, rule);
+      const from = new Date(midnight);
+      from.setMinutes(start);
+      const to = new Date(midnight);
+      to.setMinutes(end);
+      raw.push([from, to]);
     }
   }
 
-  const minutesUntilSwitch = Math.max(0, Math.round((nextSwitchAt.getTime() - now.getTime()) / 60000));
+  raw.sort((a, b) => a[0].getTime() - b[0].getTime());
+
+  const merged: [Date, Date][] = [];
+  for (const [from, to] of raw) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1]) {
+      if (to > last[1]) last[1] = to;
+    } else merged.push([from, to]);
+  }
+  return merged;
+}
+
+export function computeFastingStatus(settings: FastingSettings, now: Date = new Date()): FastingStatus {
+  const intervals = eatingIntervals(settings, now);
+  const current = intervals.find(([from, to]) => now >= from && now < to);
+  const nextSwitchAt = current ? current[1] : (intervals.find(([from]) => from > now)?.[0] ?? null);
 
   return {
-    mode: inEatingWindow ? "eating" : "fasting",
+    mode: current ? "eating" : "fasting",
     nextSwitchAt,
-    minutesUntilSwitch,
-    eatingStartToday,
-    eatingEndToday,
+    minutesUntilSwitch: nextSwitchAt ? Math.max(0, Math.round((nextSwitchAt.getTime() - now.getTime()) / 60000)) : null,
+    today: dayRule(settings, now.getDay()),
   };
 }
 
+/**
+ * How long a fast started now should last: until the next eating interval opens (skipping the
+ * one we're in, when starting early). Rounded to the half hour; falls back to 24 - eating_hours.
+ */
+export function plannedFastHours(settings: FastingSettings, now: Date = new Date()): number {
+  const next = eatingIntervals(settings, now).find(([from]) => from > now);
+  if (!next) return 24 - settings.eating_hours;
+
+  const hours = Math.round(((next[0].getTime() - now.getTime()) / 3_600_000) * 2) / 2;
+  return Math.max(1, hours);
+}
+
 export function formatDuration(minutes: number) {
   const h = Math.floor(minutes / 60);
   const m = minutes % 60;
   if (h <= 0) return `${m}m`;
   if (m === 0) return `${h}h`;
   return `${h}h ${m}m`;
-}
\ No newline at end of file
+}
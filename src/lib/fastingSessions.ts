@@ -0,0 +1,200 @@
+import { supabase } from "@/lib/supabaseClient";
+import { getDayStartHour, getUserTimezone, localDateISO } from "@/lib/localDay";
+
+/**
+ * Real fasts (disciplined.fasting_sessions), started and ended from FastingCard.
+ *
+ * A running fast is closed automatically at the first meal item logged after it started
+ * (end_reason 'meal'). Only meals dated on or after the fast's local start day count, so
+ * back-filling an older day doesn't break today's fast.
+ */
+
+/**
+ * One row of disciplined.fasting_sessions.
+ */
+export type FastingSession = {
+  id: string;
+  started_at: string;
+  ended_at: string | null; // null while the fast is running
+  planned_hours: number;
+  end_reason: "manual" | "meal" | null;
+};
+
+/**
+ * Minutes fasted so far (running) or in total (finished).
+ */
+export function fastMinutes(session: Pick<FastingSession, "started_at" | "ended_at">, now: Date = new Date()): number {
+  const end = session.ended_at ? new Date(session.ended_at) : now;
+  return Math.max(0, Math.floor((end.getTime() - new Date(session.started_at).getTime()) / 60000));
+}
+
+// a finished fast that lasted at least as long as planned
+export function fastSucceeded(session: FastingSession): boolean {
+  return !!session.ended_at && fastMinutes(session) >= session.planned_hours * 60;
+}
+
+// runs of successful finished fasts; `current` counts back from the most recent one
+export function fastingStreaks(sessions: FastingSession[]): { current: number; best: number } {
+  const finished = sessions
+    .filter((s) => s.ended_at)
+    .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime());
+
+  let run = 0;
+  let best = 0;
+  for (const s of finished) {
+    run = fastSucceeded(s) ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+
+  return { current: run, best };
+}
+
+const SESSION_COLUMNS = "id,started_at,ended_at,planned_hours,end_reason";
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+/**
+ * When the fast was broken by a logged meal item, or null if nothing was eaten since it started.
+ */
+async function firstMealAfter(uid: string, startedAt: string): Promise<string | null> {
+  const startDate = localDateISO(getUserTimezone(), new Date(startedAt), getDayStartHour());
+
+  const mealsRes = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .select("id")
+    .eq("user_id", uid)
+    .gte("meal_date", startDate);
+
+  if (mealsRes.error) throw mealsRes.error;
+
+  const mealIds = (mealsRes.data ?? []).map((m) => m.id as string);
+  if (mealIds.length === 0) return null;
+
+  const itemsRes = await supabase
+    .schema("disciplined")
+    .from("meal_items")
+    .select("created_at")
+    .in("meal_id", mealIds)
+    .gt("created_at", startedAt)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (itemsRes.error) throw itemsRes.error;
+  return (itemsRes.data?.[0]?.created_at as string | undefined) ?? null;
+}
+
+/**
+ * The running fast (after closing it if a meal broke it) and the most recent finished one.
+ */
+export async function fetchFastingState(): Promise<{ current: FastingSession | null; last: FastingSession | null }> {
+  const uid = await requireUid();
+
+  const openRes = await supabase
+    .schema("disciplined")
+    .from("fasting_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("user_id", uid)
+    .is("ended_at", null)
+    .maybeSingle<FastingSession>();
+
+  if (openRes.error) throw openRes.error;
+
+  let current = openRes.data;
+  if (current) {
+    const brokeAt = await firstMealAfter(uid, current.started_at);
+    if (brokeAt) {
+      await closeFast(current.id, brokeAt, "meal");
+      current = null;
+    }
+  }
+
+  const lastRes = await supabase
+    .schema("disciplined")
+    .from("fasting_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("user_id", uid)
+    .not("ended_at", "is", null)
+    .order("started_at", { ascending: false })
+    .limit(1);
+
+  if (lastRes.error) throw lastRes.error;
+
+  return { current, last: ((lastRes.data ?? []) as FastingSession[])[0] ?? null };
+}
+
+export async function listFastingSessions(limit = 200): Promise<FastingSession[]> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("fasting_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("user_id", uid)
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  if (res.error) throw res.error;
+  return (res.data ?? []) as FastingSession[];
+}
+
+export async function startFast(plannedHours: number, at: Date = new Date()): Promise<void> {
+  if (!(plannedHours > 0)) throw new Error("Planned fast must be longer than 0 hours.");
+
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("fasting_sessions")
+    .insert({ user_id: uid, started_at: at.toISOString(), planned_hours: plannedHours });
+
+  if (res.error) {
+    if (res.error.code === "23505") throw new Error("A fast is already running.");
+    throw res.error;
+  }
+}
+
+async function closeFast(id: string, endedAt: string, reason: "manual" | "meal"): Promise<void> {
+  const res = await supabase
+    .schema("disciplined")
+    .from("fasting_sessions")
+    .update({ ended_at: endedAt, end_reason: reason })
+    .eq("id", id)
+    .is("ended_at", null);
+
+  if (res.error) throw res.error;
+}
+
+export async function endFast(id: string, at: Date = new Date()): Promise<void> {
+  await closeFast(id, at.toISOString(), "manual");
+}
+
+/**
+ * Corrects the recorded times (e.g. started the fast before opening the app).
+ */
+export async function updateFastTimes(id: string, startedAt: Date, endedAt: Date | null): Promise<void> {
+  if (Number.isNaN(startedAt.getTime())) throw new Error("Start time is not valid.");
+  if (endedAt && Number.isNaN(endedAt.getTime())) throw new Error("End time is not valid.");
+  if (endedAt && endedAt <= startedAt) throw new Error("The fast has to end after it started.");
+  if (startedAt > new Date()) throw new Error("The fast can't start in the future.");
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("fasting_sessions")
+    .update({ started_at: startedAt.toISOString(), ...(endedAt ? { ended_at: endedAt.toISOString() } : {}) })
+    .eq("id", id);
+
+  if (res.error) throw res.error;
+}
+
+export async function deleteFast(id: string): Promise<void> {
+  const res = await supabase.schema("disciplined").from("fasting_sessions").delete().eq("id", id);
+  if (res.error) throw res.error;
+}
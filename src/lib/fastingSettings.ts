@@ -1,5 +1,27 @@
 import { supabase } from "@/lib/supabaseClient";
-import type { FastingSettings } from "@/lib/fasting";
+import {
+  isFastingProtocol,
+  normalizeSchedule,
+  type FastingProtocol,
+  type FastingSchedule,
+  type FastingSettings,
+} from "@/lib/fasting";
+
+type FastingSettingsRow = {
+  eating_start: string;
+  eating_hours: number;
+  protocol: string | null;
+  schedule: unknown;
+};
+
+function fromRow(row: FastingSettingsRow): FastingSettings {
+  return {
+    eating_start: row.eating_start,
+    eating_hours: row.eating_hours,
+    protocol: isFastingProtocol(row.protocol) ? row.protocol : null,
+    schedule: normalizeSchedule(row.schedule),
+  };
+}
 
 export async function getOrCreateFastingSettings(): Promise<FastingSettings> {
   const { data: userData } = await supabase.auth.getUser();
@@ -10,28 +32,33 @@ export async function getOrCreateFastingSettings(): Promise<FastingSettings> {
   const existing = await supabase
     .schema("disciplined")
     .from("fasting_settings")
-    .select("eating_start,eating_hours")
+    .select("eating_start,eating_hours,protocol,schedule")
     .eq("user_id", uid)
-    .maybeSingle<{ eating_start: string; eating_hours: number }>();
+    .maybeSingle<FastingSettingsRow>();
 
   if (existing.error) throw existing.error;
 
-  if (existing.data) return existing.data;
+  if (existing.data) return fromRow(existing.data);
 
   // Create default (16/8 -> eat 8 hours, start at 12:00)
   const created = await supabase
     .schema("disciplined")
     .from("fasting_settings")
-    .insert({ user_id: uid, eating_start: "12:00", eating_hours: 8 })
-    .select("eating_start,eating_hours")
-    .single<{ eating_start: string; eating_hours: number }>();
+    .insert({ user_id: uid, eating_start: "12:00", eating_hours: 8, protocol: "16:8" })
+    .select("eating_start,eating_hours,protocol,schedule")
+    .single<FastingSettingsRow>();
 
   if (created.error) throw created.error;
 
-  return created.data;
+  return fromRow(created.data);
 }
 
-export async function updateFastingSettings(input: { eating_start: string; eating_hours: number }) {
+export async function updateFastingSettings(input: {
+  eating_start: string;
+  eating_hours: number;
+  protocol?: FastingProtocol | null;
+  schedule?: FastingSchedule | null;
+}) {
   const { data: userData } = await supabase.auth.getUser();
   const uid = userData.user?.id;
   if (!uid) throw new Error("Not logged in.");
@@ -54,11 +81,20 @@ export async function updateFastingSettings(input: { eating_start: string; eatin
     throw new Error('Start time must be in "HH:MM" format.');
   }
 
+  // a schedule has to describe all 7 days; null goes back to the same window every day
+  const schedule = input.schedule ? normalizeSchedule(input.schedule) : null;
+  if (input.schedule && !schedule) throw new Error("The weekly schedule needs a valid rule for every day.");
+
   const upd = await supabase
     .schema("disciplined")
     .from("fasting_settings")
-    .update({ eating_start: start, eating_hours })
+    .update({
+      eating_start: start,
+      eating_hours,
+      ...(input.protocol !== undefined ? { protocol: input.protocol } : {}),
+      ...(input.schedule !== undefined ? { schedule } : {}),
+    })
     .eq("user_id", uid);
 
   if (upd.error) throw upd.error;
-}
\ No newline at end of file
+}
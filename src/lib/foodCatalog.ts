@@ -0,0 +1,141 @@
+// src/lib/foodCatalog.ts
+import { supabase } from "@/lib/supabaseClient";
+import { formatServing, servingDefFor } from "@/lib/servings";
+
+/**
+ * Lookups in disciplined.food_catalog (imported by scripts/import-food-catalog.mjs) and
+ * copying a product into the user's own foods.
+ *
+ * Scanners report the same product as UPC-A (12 digits) or EAN-13 (13, leading 0), so a
+ * barcode lookup tries every equivalent form.
+ */
+
+export type CatalogFood = {
+  id: string;
+  barcode: string | null;
+  name: string;
+  brand: string | null;
+  serving_size: string | null;
+  serving_grams: number | null;
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+};
+
+const CATALOG_COLUMNS = "id,barcode,name,brand,serving_size,serving_grams,calories,protein_g,carbs_g,fat_g";
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+/**
+ * GTIN check digit (EAN-8, UPC-A, EAN-13, GTIN-14).
+ */
+export function isValidBarcode(code: string): boolean {
+  if (!/^[0-9]{8,14}$/.test(code)) return false;
+
+  const digits = code.split("").map(Number);
+  const check = digits.pop() ?? 0;
+  const sum = digits.reverse().reduce((a, d, i) => a + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+/**
+ * Every stored form a scanned code may have: as scanned, without leading zeros, and padded to 12/13 digits.
+ */
+export function barcodeVariants(raw: string): string[] {
+  const code = raw.replace(/\D/g, "");
+  if (!code) return [];
+
+  const bare = code.replace(/^0+/, "");
+  const variants = new Set([code]);
+  for (const len of [8, 12, 13, 14]) {
+    if (bare.length <= len) variants.add(bare.padStart(len, "0"));
+  }
+
+  return [...variants];
+}
+
+export async function lookupBarcode(raw: string): Promise<CatalogFood | null> {
+  const variants = barcodeVariants(raw);
+  if (variants.length === 0) return null;
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("food_catalog")
+    .select(CATALOG_COLUMNS)
+    .in("barcode", variants)
+    .limit(1);
+
+  if (res.error) throw res.error;
+  return ((res.data ?? []) as CatalogFood[])[0] ?? null;
+}
+
+export async function searchFoodCatalog(query: string, limit = 20): Promise<CatalogFood[]> {
+  const q = query.trim();
+  if (q.length < 2) return [];
+
+  // the trigram index on name makes ilike fast enough for a few million rows
+  const res = await supabase
+    .schema("disciplined")
+    .from("food_catalog")
+    .select(CATALOG_COLUMNS)
+    .ilike("name", `%${q.replace(/[%_]/g, "")}%`)
+    .order("name", { ascending: true })
+    .limit(limit);
+
+  if (res.error) throw res.error;
+  return (res.data ?? []) as CatalogFood[];
+}
+
+/**
+ * Copies a catalog product into the user's foods (serving size and macros pre-filled).
+ * Returns the existing food instead when this product was already added.
+ */
+export async function addCatalogFoodToFoods(item: CatalogFood): Promise<{ id: string; created: boolean }> {
+  const uid = await requireUid();
+
+  const existing = await supabase
+    .schema("disciplined")
+    .from("foods")
+    .select("id")
+    .eq("user_id", uid)
+    .eq("catalog_id", item.id)
+    .limit(1);
+
+  if (existing.error) throw existing.error;
+  if (existing.data?.[0]) return { id: existing.data[0].id as string, created: false };
+
+  // "1 cup (240 g)" -> 1 cup weighing 240 g; unparseable text -> 1 serving of serving_grams
+  const serving = servingDefFor({ serving_size: item.serving_size, serving_grams: item.serving_grams });
+
+  const ins = await supabase
+    .schema("disciplined")
+    .from("foods")
+    .insert({
+      user_id: uid,
+      name: item.name,
+      brand: item.brand,
+      serving_size: item.serving_size ?? formatServing(serving),
+      serving_amount: serving.amount,
+      serving_unit: serving.unit,
+      serving_grams: serving.grams,
+      calories: item.calories,
+      protein_g: item.protein_g,
+      carbs_g: item.carbs_g,
+      fat_g: item.fat_g,
+      barcode: item.barcode,
+      catalog_id: item.id,
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (ins.error) throw ins.error;
+  return { id: ins.data.id, created: true };
+}
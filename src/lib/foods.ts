@@ -0,0 +1,207 @@
+// src/lib/foods.ts
+import { supabase } from "@/lib/supabaseClient";
+import { MICRO_COLUMNS, type MicroValues } from "@/lib/micronutrients";
+import type { AltServing } from "@/lib/servings";
+
+/**
+ * The user's saved foods (disciplined.foods). Macros and the optional micronutrients
+ * (src/lib/micronutrients.ts) are per one base serving (src/lib/servings.ts).
+ * Shared by the Eat page, recipes and the food library under the ["foods"] query key.
+ *
+ * Archived foods stay in the table so logged meals keep their link, but drop out of pickers.
+ */
+
+export type Food = {
+  id: string;
+  name: string;
+  brand: string | null;
+  serving_size: string | null;
+  serving_amount: number | null;
+  serving_unit: string | null;
+  serving_grams: number | null;
+  alt_servings: AltServing[] | null;
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+  is_favorite: boolean;
+  archived_at: string | null;
+  last_used_at: string | null;
+} & MicroValues;
+
+export type FoodUpdate = Pick<
+  Food,
+  | "name"
+  | "brand"
+  | "serving_size"
+  | "serving_amount"
+  | "serving_unit"
+  | "serving_grams"
+  | "alt_servings"
+  | "calories"
+  | "protein_g"
+  | "carbs_g"
+  | "fat_g"
+> &
+  MicroValues;
+
+export type FoodSearchResult = { foods: Food[]; total: number };
+
+export type FoodDuplicateGroup = {
+  name: string;
+  brand: string | null;
+  foods: {
+    id: string;
+    name: string;
+    brand: string | null;
+    serving_size: string | null;
+    calories: number | null;
+    is_favorite: boolean;
+    last_used_at: string | null;
+    uses: number;
+  }[];
+};
+
+export type FoodMergeResult = { merged: number; meal_items: number; recipe_items: number };
+
+export const FOOD_COLUMNS = `id,name,brand,serving_size,serving_amount,serving_unit,serving_grams,alt_servings,calories,protein_g,carbs_g,fat_g,${MICRO_COLUMNS},is_favorite,archived_at,last_used_at`;
+
+export const FOOD_PAGE_SIZE = 25;
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+async function requireToken(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not logged in.");
+  return token;
+}
+
+/**
+ * Active foods for pickers: favorites first, then by name.
+ */
+export async function fetchFoods(): Promise<Food[]> {
+  const uid = await requireUid();
+
+  const { data, error } = await supabase
+    .schema("disciplined")
+    .from("foods")
+    .select(FOOD_COLUMNS)
+    .eq("user_id", uid)
+    .is("archived_at", null)
+    .order("is_favorite", { ascending: false })
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as Food[];
+}
+
+/**
+ * One page of the library, matched on name or brand. Favorites first, then most recently
+ * used, then by name; `page` is 0-based.
+ */
+export async function searchFoods(opts: {
+  query: string;
+  page: number;
+  pageSize?: number;
+  includeArchived?: boolean;
+}): Promise<FoodSearchResult> {
+  const uid = await requireUid();
+  const pageSize = opts.pageSize ?? FOOD_PAGE_SIZE;
+  const from = opts.page * pageSize;
+
+  let q = supabase
+    .schema("disciplined")
+    .from("foods")
+    .select(FOOD_COLUMNS, { count: "exact" })
+    .eq("user_id", uid);
+
+  if (!opts.includeArchived) q = q.is("archived_at", null);
+
+  // strip characters that have meaning inside a PostgREST or() filter
+  const term = opts.query.trim().replace(/[,()*%\\]/g, " ").trim();
+  if (term) q = q.or(`name.ilike.*${term}*,brand.ilike.*${term}*`);
+
+  const res = await q
+    .order("is_favorite", { ascending: false })
+    .order("last_used_at", { ascending: false, nullsFirst: false })
+    .order("name", { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (res.error) throw res.error;
+  return { foods: (res.data ?? []) as Food[], total: res.count ?? 0 };
+}
+
+export async function updateFood(foodId: string, patch: FoodUpdate): Promise<void> {
+  const name = patch.name.trim();
+  if (!name) throw new Error("Food needs a name.");
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("foods")
+    .update({ ...patch, name, brand: patch.brand?.trim() || null })
+    .eq("id", foodId);
+
+  if (res.error) throw res.error;
+}
+
+export async function setFoodFavorite(foodId: string, favorite: boolean): Promise<void> {
+  const res = await supabase.schema("disciplined").from("foods").update({ is_favorite: favorite }).eq("id", foodId);
+  if (res.error) throw res.error;
+}
+
+export async function setFoodArchived(foodId: string, archived: boolean): Promise<void> {
+  const res = await supabase
+    .schema("disciplined")
+    .from("foods")
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq("id", foodId);
+
+  if (res.error) throw res.error;
+}
+
+export async function fetchFoodDuplicates(): Promise<FoodDuplicateGroup[]> {
+  const token = await requireToken();
+
+  const res = await fetch("/api/foods/duplicates", {
+    method: "GET",
+    cache: "no-store",
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.message ?? json?.reason ?? `Duplicates request failed (${res.status})`);
+  }
+
+  return json.groups as FoodDuplicateGroup[];
+}
+
+/**
+ * Folds `merge` into `keep`: logged meal items, recipe items and templates are re-pointed
+ * at `keep` and the other foods are deleted.
+ */
+export async function mergeFoods(keep: string, merge: string[]): Promise<FoodMergeResult> {
+  const token = await requireToken();
+
+  const res = await fetch("/api/foods/merge", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ keep, merge }),
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.message ?? json?.reason ?? `Merge request failed (${res.status})`);
+  }
+
+  return json.result as FoodMergeResult;
+}
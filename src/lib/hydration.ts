@@ -0,0 +1,99 @@
+// src/lib/hydration.ts
+import { supabase } from "@/lib/supabaseClient";
+import { recomputePillar } from "@/lib/recomputePillar";
+
+/**
+ * Water intake (disciplined.water_logs) and the optional daily target (macro_targets.water_ml).
+ *
+ * Each drink is its own row so a mistaken tap can be undone. Writes recompute Eat for the day,
+ * since the pillar can require the hydration target (pillarCriteria.ts "water_target").
+ */
+
+export type WaterLog = { id: string; amount_ml: number; created_at: string };
+
+export const QUICK_ADD_ML = [250, 500];
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+export function sumWater(logs: Pick<WaterLog, "amount_ml">[]): number {
+  return logs.reduce((a, l) => a + Number(l.amount_ml), 0);
+}
+
+export function formatMl(ml: number): string {
+  return ml >= 1000 ? `${Math.round(ml / 100) / 10} L` : `${Math.round(ml)} ml`;
+}
+
+export async function listWaterLogs(date: string): Promise<WaterLog[]> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("water_logs")
+    .select("id,amount_ml,created_at")
+    .eq("user_id", uid)
+    .eq("log_date", date)
+    .order("created_at", { ascending: true });
+
+  if (res.error) throw res.error;
+  return (res.data ?? []) as WaterLog[];
+}
+
+export async function addWater(date: string, amountMl: number): Promise<void> {
+  if (!Number.isFinite(amountMl) || amountMl <= 0) throw new Error("Amount must be more than 0 ml.");
+
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("water_logs")
+    .insert({ user_id: uid, log_date: date, amount_ml: amountMl });
+
+  if (res.error) throw res.error;
+  await recomputePillar("eat", date);
+}
+
+export async function deleteWaterLog(id: string, date: string): Promise<void> {
+  const res = await supabase.schema("disciplined").from("water_logs").delete().eq("id", id);
+  if (res.error) throw res.error;
+  await recomputePillar("eat", date);
+}
+
+/**
+ * Daily target in ml, or null when not set.
+ */
+export async function getWaterTarget(): Promise<number | null> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("macro_targets")
+    .select("water_ml")
+    .eq("user_id", uid)
+    .maybeSingle<{ water_ml: number | null }>();
+
+  if (res.error) throw res.error;
+
+  const ml = Number(res.data?.water_ml);
+  return Number.isFinite(ml) && ml > 0 ? ml : null;
+}
+
+export async function saveWaterTarget(ml: number | null): Promise<void> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("macro_targets")
+    .upsert(
+      { user_id: uid, water_ml: ml && ml > 0 ? ml : null, updated_at: new Date().toISOString() },
+      { onConflict: "user_id" }
+    );
+
+  if (res.error) throw res.error;
+}
@@ -0,0 +1,65 @@
+// src/lib/insights.test.ts
+import { describe, expect, it, vi } from "vitest";
+import type { PillarInsightsData } from "@/lib/pillarTypes";
+
+// insights.ts only needs the browser client for fetchInsights
+vi.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+const { dayStatus, indexInsights, overallRate, pillarCorrelations, weekdayBreakdown, weeklyTrend } = await import(
+  "@/lib/insights"
+);
+
+const CREATED = "2026-09-16";
+
+function september(): PillarInsightsData {
+  const days: PillarInsightsData["days"] = [];
+  for (let d = 1; d <= 30; d++) {
+    const date = `2026-09-${String(d).padStart(2, "0")}`;
+    const completed = ["train"];
+    if (d % 2 === 0) completed.push("word");
+    // done every day since it was created except the 20th, plus a back-filled day before it existed
+    if ((date >= CREATED && d !== 20) || d === 10) completed.push("sleep");
+    days.push({ date, completed });
+  }
+
+  return {
+    start: "2026-09-01",
+    end: "2026-09-30",
+    today: "2026-10-19",
+    first_day: "2026-08-01",
+    catalog: [
+      { key: "train", label: "Train", emoji: "🏋️", rest_weekdays: [], tracked_from: null },
+      { key: "word", label: "Word", emoji: "📖", rest_weekdays: [], tracked_from: null },
+      { key: "sleep", label: "Sleep", emoji: "😴", rest_weekdays: [], tracked_from: CREATED },
+    ],
+    days,
+  };
+}
+
+describe("insights for a custom pillar created partway through the range", () => {
+  const ix = indexInsights(september());
+
+  it("treats days before the pillar existed as untracked", () => {
+    expect(dayStatus(ix, "sleep", "2026-09-10")).toBe("untracked");
+    expect(dayStatus(ix, "sleep", "2026-09-15")).toBe("untracked");
+    expect(dayStatus(ix, "sleep", CREATED)).toBe("done");
+    expect(dayStatus(ix, "sleep", "2026-09-20")).toBe("missed");
+  });
+
+  it("rates the pillar only over the days it existed", () => {
+    expect(overallRate(ix, "sleep")).toEqual({ done: 14, total: 15, pct: 93 });
+    expect(weekdayBreakdown(ix, "sleep").reduce((acc, w) => acc + w.total, 0)).toBe(15);
+    expect(weeklyTrend(ix, "sleep")[0].weekStart).toBe("2026-09-13");
+  });
+
+  it("leaves the pillar out of the combined key before it existed", () => {
+    expect(dayStatus(ix, "*", "2026-09-14")).toBe("done");
+    expect(dayStatus(ix, "*", "2026-09-16")).toBe("done");
+    expect(dayStatus(ix, "*", "2026-09-20")).toBe("missed");
+  });
+
+  it("correlates only the days both pillars were tracked", () => {
+    const pair = pillarCorrelations(ix).find((c) => [c.a, c.b].includes("sleep") && [c.a, c.b].includes("word"));
+    expect(pair?.days).toBe(15);
+  });
+});
@@ -0,0 +1,246 @@
+// src/lib/insights.ts
+import { supabase } from "@/lib/supabaseClient";
+import { addDaysISO, weekdayISO } from "@/lib/localDay";
+import { COMBINED_STREAK_KEY, type PillarInsightsData, type PillarKey } from "@/lib/pillarTypes";
+
+/**
+ * Analytics behind /insights, all computed from ONE disciplined.pillar_insights() payload:
+ * year heatmap, weekly completion %, weekday breakdown and pillar-to-pillar correlations.
+ *
+ * A day counts from the user's first entry on, and a custom pillar only from the day it was
+ * created. Today is "open" until it's done, and an unfinished planned rest day is neither a
+ * hit nor a miss.
+ * COMBINED_STREAK_KEY ("*") = every active pillar done on the same day.
+ */
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// untracked = outside the range, before the first entry or the pillar's creation, or in the future
+export type DayStatus = "done" | "missed" | "rest" | "open" | "untracked";
+
+export type Rate = { done: number; total: number; pct: number | null };
+
+export type HeatmapCell = { date: string; status: DayStatus };
+
+export type WeeklyPoint = Rate & { weekStart: string };
+
+export type WeekdayRate = Rate & { weekday: number };
+
+export type PillarCorrelation = {
+  a: PillarKey;
+  b: PillarKey;
+  days: number; // days both pillars were counted
+  bGivenA: number; // % of A-days where B was also done
+  bGivenNotA: number; // % of other days where B was done
+  phi: number; // -1..1
+};
+
+export type InsightsIndex = {
+  data: PillarInsightsData;
+  completedByDate: Map<string, Set<PillarKey>>;
+  restByKey: Map<PillarKey, Set<number>>;
+  firstTracked: string | null;
+};
+
+// fewer samples than this make a weekday or correlation claim noise
+const MIN_WEEKDAY_SAMPLES = 4;
+const MIN_CORRELATION_DAYS = 14;
+
+export async function fetchInsights(start: string, end: string): Promise<PillarInsightsData> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not logged in.");
+
+  const res = await fetch(
+    `/api/pillars/insights?start=${encodeURIComponent(start)}&end=${encodeURIComponent(end)}`,
+    {
+      method: "GET",
+      cache: "no-store",
+      headers: { Authorization: `Bearer ${token}` },
+    }
+  );
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.message ?? json?.reason ?? `Insights request failed (${res.status})`);
+  }
+
+  return json.insights as PillarInsightsData;
+}
+
+export function indexInsights(data: PillarInsightsData): InsightsIndex {
+  const completedByDate = new Map<string, Set<PillarKey>>();
+  for (const d of data.days) completedByDate.set(d.date, new Set(d.completed));
+
+  const restByKey = new Map<PillarKey, Set<number>>();
+  for (const p of data.catalog) restByKey.set(p.key, new Set(p.rest_weekdays ?? []));
+
+  const firstTracked = data.first_day ? (data.first_day > data.start ? data.first_day : data.start) : null;
+
+  return { data, completedByDate, restByKey, firstTracked };
+}
+
+// pillars that existed on `date` (a key missing from the catalog is taken as always tracked)
+function keysFor(ix: InsightsIndex, key: PillarKey, date: string): PillarKey[] {
+  const tracked = (trackedFrom: string | null | undefined) => !trackedFrom || trackedFrom <= date;
+  if (key !== COMBINED_STREAK_KEY) {
+    return tracked(ix.data.catalog.find((p) => p.key === key)?.tracked_from) ? [key] : [];
+  }
+  return ix.data.catalog.filter((p) => tracked(p.tracked_from)).map((p) => p.key);
+}
+
+export function dayStatus(ix: InsightsIndex, key: PillarKey, date: string): DayStatus {
+  const { data } = ix;
+  if (!ix.firstTracked || date < ix.firstTracked || date > data.end || date > data.today) return "untracked";
+
+  const keys = keysFor(ix, key, date);
+  if (keys.length === 0) return "untracked";
+
+  const done = ix.completedByDate.get(date);
+  const open = keys.filter((k) => !done?.has(k));
+  if (open.length === 0) return "done";
+  if (date === data.today) return "open";
+
+  const weekday = weekdayISO(date);
+  return open.every((k) => ix.restByKey.get(k)?.has(weekday)) ? "rest" : "missed";
+}
+
+function rate(statuses: DayStatus[]): Rate {
+  const done = statuses.filter((s) => s === "done").length;
+  const total = done + statuses.filter((s) => s === "missed").length;
+  return { done, total, pct: total > 0 ? Math.round((done / total) * 100) : null };
+}
+
+function datesBetween(start: string, end: string): string[] {
+  const out: string[] = [];
+  for (let d = start; d <= end; d = addDaysISO(d, 1)) out.push(d);
+  return out;
+}
+
+/**
+ * Sunday-first weeks covering the whole range (GitHub-style columns).
+ */
+export function heatmapWeeks(ix: InsightsIndex, key: PillarKey): HeatmapCell[][] {
+  const { start, end } = ix.data;
+  const first = addDaysISO(start, -weekdayISO(start));
+
+  const weeks: HeatmapCell[][] = [];
+  for (let weekStart = first; weekStart <= end; weekStart = addDaysISO(weekStart, 7)) {
+    weeks.push(
+      datesBetween(weekStart, addDaysISO(weekStart, 6)).map((date) => ({
+        date,
+        status: date < start ? "untracked" : dayStatus(ix, key, date),
+      }))
+    );
+  }
+
+  return weeks;
+}
+
+export function overallRate(ix: InsightsIndex, key: PillarKey): Rate {
+  return rate(datesBetween(ix.data.start, ix.data.end).map((d) => dayStatus(ix, key, d)));
+}
+
+/**
+ * Completion % per Sunday-first week; weeks with nothing counted are left out.
+ */
+export function weeklyTrend(ix: InsightsIndex, key: PillarKey): WeeklyPoint[] {
+  return heatmapWeeks(ix, key)
+    .map((week) => ({ weekStart: week[0].date, ...rate(week.map((c) => c.status)) }))
+    .filter((w) => w.total > 0);
+}
+
+export function weekdayBreakdown(ix: InsightsIndex, key: PillarKey): WeekdayRate[] {
+  const byWeekday: DayStatus[][] = Array.from({ length: 7 }, () => []);
+  for (const d of datesBetween(ix.data.start, ix.data.end)) {
+    byWeekday[weekdayISO(d)].push(dayStatus(ix, key, d));
+  }
+
+  return byWeekday.map((statuses, weekday) => ({ weekday, ...rate(statuses) }));
+}
+
+/**
+ * The weekday with the lowest completion rate, when it is clearly below the overall rate.
+ */
+export function weakestWeekday(ix: InsightsIndex, key: PillarKey): WeekdayRate | null {
+  const overall = overallRate(ix, key).pct;
+  if (overall === null) return null;
+
+  const candidates = weekdayBreakdown(ix, key).filter((w) => w.total >= MIN_WEEKDAY_SAMPLES && w.pct !== null);
+  if (candidates.length === 0) return null;
+
+  const worst = candidates.reduce((a, b) => ((b.pct ?? 100) < (a.pct ?? 100) ? b : a));
+  return (worst.pct ?? 100) < overall ? worst : null;
+}
+
+/**
+ * How completing one pillar relates to completing another, strongest first.
+ * One direction per pair (whichever shows the bigger difference).
+ */
+export function pillarCorrelations(ix: InsightsIndex, limit = 5): PillarCorrelation[] {
+  const keys = ix.data.catalog.map((p) => p.key);
+  const dates = datesBetween(ix.data.start, ix.data.end);
+  const statusByKey = new Map(keys.map((k) => [k, dates.map((d) => dayStatus(ix, k, d))]));
+
+  const out: PillarCorrelation[] = [];
+
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      const sa = statusByKey.get(keys[i]) ?? [];
+      const sb = statusByKey.get(keys[j]) ?? [];
+
+      // n[a][b] with 1 = done, 0 = missed; rest/open/untracked days are skipped
+      const n = [
+        [0, 0],
+        [0, 0],
+      ];
+      for (let d = 0; d < dates.length; d++) {
+        const a = sa[d] === "done" ? 1 : sa[d] === "missed" ? 0 : -1;
+        const b = sb[d] === "done" ? 1 : sb[d] === "missed" ? 0 : -1;
+        if (a >= 0 && b >= 0) n[a][b] += 1;
+      }
+
+      const days = n[0][0] + n[0][1] + n[1][0] + n[1][1];
+      if (days < MIN_CORRELATION_DAYS) continue;
+
+      const phi = phiCoefficient(n);
+      const ab = conditional(n, keys[i], keys[j], false);
+      const ba = conditional(n, keys[j], keys[i], true);
+      const best = [ab, ba]
+        .filter((c): c is Omit<PillarCorrelation, "days" | "phi"> => c !== null)
+        .sort((x, y) => Math.abs(y.bGivenA - y.bGivenNotA) - Math.abs(x.bGivenA - x.bGivenNotA))[0];
+
+      if (best) out.push({ ...best, days, phi });
+    }
+  }
+
+  return out.sort((x, y) => Math.abs(y.phi) - Math.abs(x.phi)).slice(0, limit);
+}
+
+function phiCoefficient(n: number[][]): number {
+  const rows = [n[0][0] + n[0][1], n[1][0] + n[1][1]];
+  const cols = [n[0][0] + n[1][0], n[0][1] + n[1][1]];
+  const denom = Math.sqrt(rows[0] * rows[1] * cols[0] * cols[1]);
+  return denom === 0 ? 0 : (n[1][1] * n[0][0] - n[1][0] * n[0][1]) / denom;
+}
+
+// P(b | a) vs P(b | not a); `swap` reads the table as n[b][a]
+function conditional(
+  n: number[][],
+  a: PillarKey,
+  b: PillarKey,
+  swap: boolean
+): Omit<PillarCorrelation, "days" | "phi"> | null {
+  const cell = (x: number, y: number) => (swap ? n[y][x] : n[x][y]);
+
+  const aDays = cell(1, 0) + cell(1, 1);
+  const notADays = cell(0, 0) + cell(0, 1);
+  if (aDays < 3 || notADays < 3) return null;
+
+  return {
+    a,
+    b,
+    bGivenA: Math.round((cell(1, 1) / aDays) * 100),
+    bGivenNotA: Math.round((cell(0, 1) / notADays) * 100),
+  };
+}
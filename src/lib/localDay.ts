@@ -0,0 +1,208 @@
+// src/lib/localDay.ts
+
+/**
+ * Single source of truth for "what day is it" for the user.
+ *
+ * Every pillar row is keyed by a plain YYYY-MM-DD (daily_entries.entry_date,
+ * meals.meal_date, word_entries.entry_date, freedom_entries.entry_date,
+ * train_days.local_date). That date is the user's LOCAL calendar date in the
+ * timezone we synced to the server (see syncTimezone.ts), never the UTC date.
+ *
+ * A day does not have to start at midnight: user_settings.day_start_hour lets
+ * night-shift users roll over at e.g. 4:00 AM, so a pillar completed at 1 AM
+ * still counts toward the previous day.
+ *
+ * Past days can be back-filled until user_settings.backfill_grace_hours after
+ * they ended (no limit when unset). pillar_day_state enforces the same window.
+ */
+
+export const DEFAULT_TIMEZONE = "America/Chicago";
+
+// written by syncTimezoneOnce() after the server accepted the timezone
+export const LS_SYNCED_TZ_KEY = "dl:lastTimezoneSynced";
+
+// written by syncDaySettings() / Settings, mirrors user_settings.day_start_hour
+export const LS_DAY_START_KEY = "dl:dayStartHour";
+
+export const MAX_DAY_START_HOUR = 12;
+
+// written by syncDaySettings() / Settings, mirrors user_settings.backfill_grace_hours ("" = no limit)
+export const LS_BACKFILL_GRACE_KEY = "dl:backfillGraceHours";
+
+export const MAX_BACKFILL_GRACE_HOURS = 720;
+
+export function isValidDayStartHour(h: number): boolean {
+  return Number.isInteger(h) && h >= 0 && h <= MAX_DAY_START_HOUR;
+}
+
+export function isValidBackfillGraceHours(h: number | null): boolean {
+  return h === null || (Number.isInteger(h) && h >= 1 && h <= MAX_BACKFILL_GRACE_HOURS);
+}
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getBrowserTimezone(): string | null {
+  try {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return typeof tz === "string" && tz.length > 0 ? tz : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Timezone used for day boundaries on the client.
+ * Prefers the timezone the server knows about (so push-cron and the UI agree),
+ * then the browser timezone, then the app default.
+ */
+export function getUserTimezone(): string {
+  if (typeof window !== "undefined") {
+    try {
+      const synced = localStorage.getItem(LS_SYNCED_TZ_KEY);
+      if (synced && isValidTimezone(synced)) return synced;
+    } catch {
+      // localStorage can throw in private mode — fall through
+    }
+  }
+
+  return getBrowserTimezone() ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Hour (0..12) at which the user's day rolls over on the client.
+ */
+export function getDayStartHour(): number {
+  if (typeof window === "undefined") return 0;
+
+  try {
+    const h = Number(localStorage.getItem(LS_DAY_START_KEY) ?? "0");
+    return isValidDayStartHour(h) ? h : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function setCachedDayStartHour(h: number): void {
+  if (typeof window === "undefined" || !isValidDayStartHour(h)) return;
+
+  try {
+    localStorage.setItem(LS_DAY_START_KEY, String(h));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Back-fill grace window in hours on the client (null = no limit).
+ */
+export function getBackfillGraceHours(): number | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = localStorage.getItem(LS_BACKFILL_GRACE_KEY);
+    if (!raw) return null;
+    const h = Number(raw);
+    return isValidBackfillGraceHours(h) ? h : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setCachedBackfillGraceHours(h: number | null): void {
+  if (typeof window === "undefined" || !isValidBackfillGraceHours(h)) return;
+
+  try {
+    localStorage.setItem(LS_BACKFILL_GRACE_KEY, h === null ? "" : String(h));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Local date (YYYY-MM-DD) an instant belongs to in the given timezone.
+ * Before dayStartHour the instant still belongs to the previous calendar day.
+ */
+export function localDateISO(timeZone: string, at: Date = new Date(), dayStartHour = 0): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  const date = `${get("year")}-${get("month")}-${get("day")}`;
+
+  return Number(get("hour")) < dayStartHour ? addDaysISO(date, -1) : date;
+}
+
+/**
+ * Minutes since local midnight (0..1439) of an instant in the given timezone.
+ */
+export function localMinuteOfDay(timeZone: string, at: Date = new Date()): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? "0");
+  return get("hour") * 60 + get("minute");
+}
+
+/**
+ * Today's local date for the signed-in user (client-side), honoring their day start hour.
+ */
+export function todayLocalISO(at: Date = new Date()): string {
+  return localDateISO(getUserTimezone(), at, getDayStartHour());
+}
+
+/**
+ * Oldest day the user can still change, or null when there is no grace window.
+ * A day stays open until grace hours after it ended, i.e. it is editable when it
+ * is on or after the local day that (now - grace) falls in.
+ */
+export function earliestEditableDateISO(at: Date = new Date()): string | null {
+  const grace = getBackfillGraceHours();
+  if (grace === null) return null;
+
+  return localDateISO(getUserTimezone(), new Date(at.getTime() - grace * 3_600_000), getDayStartHour());
+}
+
+/**
+ * Whether a pillar day can still be changed (never in the future).
+ */
+export function isEditableDate(iso: string, at: Date = new Date()): boolean {
+  if (iso > todayLocalISO(at)) return false;
+
+  const earliest = earliestEditableDateISO(at);
+  return earliest === null || iso >= earliest;
+}
+
+/**
+ * Calendar arithmetic on YYYY-MM-DD strings (timezone-free).
+ */
+export function addDaysISO(iso: string, deltaDays: number): string {
+  const [y, m, d] = iso.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  dt.setUTCDate(dt.getUTCDate() + deltaDays);
+  return dt.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week of a YYYY-MM-DD date, 0 = Sunday (same as Postgres extract(dow)).
+ */
+export function weekdayISO(iso: string): number {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
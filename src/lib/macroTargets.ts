@@ -0,0 +1,157 @@
+// src/lib/macroTargets.ts
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Daily calorie / macro targets (disciplined.macro_targets) and how a day's totals compare.
+ *
+ * A training day (any train_sessions row for the local day) uses the training targets, each
+ * falling back to the everyday value. A target within ±TARGET_TOLERANCE counts as on target.
+ */
+
+export const MACRO_KEYS = ["calories", "protein", "carbs", "fat"] as const;
+
+export type MacroKey = (typeof MACRO_KEYS)[number];
+
+export type MacroTotals = Record<MacroKey, number>;
+
+export type MacroValues = Record<MacroKey, number | null>;
+
+export type MacroTargets = { everyday: MacroValues; training: MacroValues };
+
+export type TargetStatus = "under" | "on" | "over";
+
+export const TARGET_TOLERANCE = 0.1;
+
+export const MACRO_LABELS: Record<MacroKey, { label: string; unit: string }> = {
+  calories: { label: "Calories", unit: "cal" },
+  protein: { label: "Protein", unit: "g" },
+  carbs: { label: "Carbs", unit: "g" },
+  fat: { label: "Fat", unit: "g" },
+};
+
+const EMPTY_VALUES: MacroValues = { calories: null, protein: null, carbs: null, fat: null };
+
+const COLUMNS: Record<MacroKey, string> = { calories: "calories", protein: "protein_g", carbs: "carbs_g", fat: "fat_g" };
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+function positiveOrNull(v: unknown): number | null {
+  const n = v === null || v === undefined || v === "" ? NaN : Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function hasAnyTarget(values: MacroValues): boolean {
+  return MACRO_KEYS.some((k) => values[k] !== null);
+}
+
+/**
+ * Targets for one day. Training values fall back per macro to the everyday ones.
+ */
+export function targetsForDay(targets: MacroTargets, trainingDay: boolean): MacroValues {
+  if (!trainingDay) return targets.everyday;
+  return Object.fromEntries(
+    MACRO_KEYS.map((k) => [k, targets.training[k] ?? targets.everyday[k]])
+  ) as MacroValues;
+}
+
+export function targetStatus(total: number, target: number): TargetStatus {
+  if (total > target * (1 + TARGET_TOLERANCE)) return "over";
+  if (total < target * (1 - TARGET_TOLERANCE)) return "under";
+  return "on";
+}
+
+/**
+ * Saved targets, or null when the user never set any.
+ */
+export async function getMacroTargets(): Promise<MacroTargets | null> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("macro_targets")
+    .select(
+      "calories,protein_g,carbs_g,fat_g,training_calories,training_protein_g,training_carbs_g,training_fat_g"
+    )
+    .eq("user_id", uid)
+    .maybeSingle<Record<string, number | null>>();
+
+  if (res.error) throw res.error;
+  if (!res.data) return null;
+
+  const row = res.data;
+  const pick = (prefix: string) =>
+    Object.fromEntries(MACRO_KEYS.map((k) => [k, positiveOrNull(row[`${prefix}${COLUMNS[k]}`])])) as MacroValues;
+
+  const targets = { everyday: pick(""), training: pick("training_") };
+  return hasAnyTarget(targets.everyday) || hasAnyTarget(targets.training) ? targets : null;
+}
+
+export async function saveMacroTargets(targets: MacroTargets): Promise<void> {
+  const uid = await requireUid();
+
+  const row: Record<string, string | number | null> = { user_id: uid, updated_at: new Date().toISOString() };
+  for (const k of MACRO_KEYS) {
+    row[COLUMNS[k]] = positiveOrNull(targets.everyday[k]);
+    row[`training_${COLUMNS[k]}`] = positiveOrNull(targets.training[k]);
+  }
+
+  const res = await supabase.schema("disciplined").from("macro_targets").upsert(row, { onConflict: "user_id" });
+  if (res.error) throw res.error;
+}
+
+export function emptyMacroTargets(): MacroTargets {
+  return { everyday: { ...EMPTY_VALUES }, training: { ...EMPTY_VALUES } };
+}
+
+/**
+ * Local days in [start, end] that have at least one train_sessions row.
+ */
+export async function fetchTrainingDates(start: string, end: string): Promise<Set<string>> {
+  const uid = await requireUid();
+
+  const daysRes = await supabase
+    .schema("disciplined")
+    .from("train_days")
+    .select("id,local_date")
+    .eq("user_id", uid)
+    .gte("local_date", start)
+    .lte("local_date", end);
+
+  if (daysRes.error) throw daysRes.error;
+
+  const days = (daysRes.data ?? []) as { id: string; local_date: string }[];
+  if (days.length === 0) return new Set();
+
+  const sessRes = await supabase
+    .schema("disciplined")
+    .from("train_sessions")
+    .select("day_id")
+    .eq("user_id", uid)
+    .in(
+      "day_id",
+      days.map((d) => d.id)
+    );
+
+  if (sessRes.error) throw sessRes.error;
+
+  const withSessions = new Set(((sessRes.data ?? []) as { day_id: string }[]).map((s) => s.day_id));
+  return new Set(days.filter((d) => withSessions.has(d.id)).map((d) => d.local_date));
+}
+
+/**
+ * Targets that apply on `date` (null when none are set).
+ */
+export async function fetchDayTargets(date: string): Promise<{ targets: MacroValues; trainingDay: boolean } | null> {
+  const targets = await getMacroTargets();
+  if (!targets) return null;
+
+  const trainingDay = (await fetchTrainingDates(date, date)).has(date);
+  return { targets: targetsForDay(targets, trainingDay), trainingDay };
+}
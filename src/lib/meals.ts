@@ -0,0 +1,326 @@
+// src/lib/meals.ts
+import { supabase } from "@/lib/supabaseClient";
+import { recomputePillar } from "@/lib/recomputePillar";
+import type { MacroTotals } from "@/lib/macroTargets";
+import { MICRO_COLUMNS, pickMicros, type MicroValues } from "@/lib/micronutrients";
+
+/**
+ * Logging meals (disciplined.meals + meal_items) and saved meal templates (meal_templates).
+ *
+ * A day has at most one meal per meal type; logging into an existing meal appends items.
+ * Every write recomputes the Eat pillar for the day it touched.
+ */
+
+export type MealType = "breakfast" | "lunch" | "dinner" | "snack";
+
+export const MEAL_TYPES: MealType[] = ["breakfast", "lunch", "dinner", "snack"];
+
+export type MealItemInput = {
+  food_id: string | null;
+  recipe_id: string | null;
+  name: string;
+  quantity: number; // macro multiplier
+  amount: number | null; // as entered, in `unit`
+  unit: string | null;
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+} & MicroValues;
+
+export type MealTemplate = {
+  id: string;
+  name: string;
+  meal_type: MealType;
+  items: MealItemInput[];
+  last_used_at: string | null;
+  created_at: string;
+};
+
+const ITEM_COLUMNS = `food_id,recipe_id,name,quantity,amount,unit,calories,protein_g,carbs_g,fat_g,${MICRO_COLUMNS}`;
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+function toItemInput(raw: Partial<MealItemInput>): MealItemInput {
+  return {
+    food_id: raw.food_id ?? null,
+    recipe_id: raw.recipe_id ?? null,
+    name: String(raw.name ?? ""),
+    quantity: Number(raw.quantity ?? 1),
+    amount: raw.amount ?? null,
+    unit: raw.unit ?? null,
+    calories: raw.calories ?? null,
+    protein_g: raw.protein_g ?? null,
+    carbs_g: raw.carbs_g ?? null,
+    fat_g: raw.fat_g ?? null,
+    ...pickMicros(raw),
+  };
+}
+
+/**
+ * Appends items to the day's meal of that type (creating the meal), then recomputes Eat.
+ * Returns the meal id.
+ */
+export async function logMealItems(date: string, mealType: MealType, items: MealItemInput[]): Promise<string> {
+  if (items.length === 0) throw new Error("Add at least one item before saving the meal.");
+
+  const uid = await requireUid();
+
+  const mealUp = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .upsert({ user_id: uid, meal_date: date, meal_type: mealType }, { onConflict: "user_id,meal_date,meal_type" })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (mealUp.error) throw mealUp.error;
+
+  const mealId = mealUp.data.id;
+
+  const ins = await supabase
+    .schema("disciplined")
+    .from("meal_items")
+    .insert(items.map((it) => ({ ...toItemInput(it), meal_id: mealId })));
+
+  if (ins.error) throw ins.error;
+
+  // recompute Eat completion (respects manual override)
+  await recomputePillar("eat", date);
+
+  return mealId;
+}
+
+export async function getMealItems(mealId: string): Promise<MealItemInput[]> {
+  const res = await supabase
+    .schema("disciplined")
+    .from("meal_items")
+    .select(ITEM_COLUMNS)
+    .eq("meal_id", mealId)
+    .order("created_at", { ascending: true });
+
+  if (res.error) throw res.error;
+  return ((res.data ?? []) as Partial<MealItemInput>[]).map(toItemInput);
+}
+
+/**
+ * Copies every item of one day's meal into another day (e.g. yesterday's breakfast -> today).
+ * Returns how many items were copied (0 when there was nothing to copy).
+ */
+export async function copyMeal(
+  from: { date: string; mealType: MealType },
+  to: { date: string; mealType?: MealType }
+): Promise<number> {
+  const uid = await requireUid();
+
+  const meal = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .select("id")
+    .eq("user_id", uid)
+    .eq("meal_date", from.date)
+    .eq("meal_type", from.mealType)
+    .maybeSingle<{ id: string }>();
+
+  if (meal.error) throw meal.error;
+  if (!meal.data) return 0;
+
+  const items = await getMealItems(meal.data.id);
+  if (items.length === 0) return 0;
+
+  await logMealItems(to.date, to.mealType ?? from.mealType, items);
+  return items.length;
+}
+
+// ---- editing logged items ----
+
+async function deleteMealIfEmpty(mealId: string): Promise<void> {
+  const check = await supabase.schema("disciplined").from("meal_items").select("id").eq("meal_id", mealId).limit(1);
+  if (check.error) throw check.error;
+
+  if ((check.data?.length ?? 0) === 0) {
+    const del = await supabase.schema("disciplined").from("meals").delete().eq("id", mealId);
+    if (del.error) throw del.error;
+  }
+}
+
+/**
+ * Changes how much of an item was eaten. `amount` is in the item's own unit; the macro multiplier
+ * scales with it, so no food lookup is needed.
+ */
+export async function updateMealItemAmount(
+  item: { id: string; quantity: number; amount: number | null },
+  amount: number,
+  date: string
+): Promise<{ quantity: number; amount: number }> {
+  if (!Number.isFinite(amount) || amount <= 0) throw new Error("Quantity must be a number greater than 0.");
+
+  const previous = item.amount ?? item.quantity;
+  const quantity = previous > 0 ? (item.quantity * amount) / previous : amount;
+
+  const upd = await supabase.schema("disciplined").from("meal_items").update({ quantity, amount }).eq("id", item.id);
+  if (upd.error) throw upd.error;
+
+  await recomputePillar("eat", date);
+  return { quantity, amount };
+}
+
+/**
+ * Moves an item into the day's meal of another type (creating it); the old meal goes when empty.
+ */
+export async function moveMealItem(
+  item: { id: string; meal_id: string },
+  date: string,
+  toType: MealType
+): Promise<string> {
+  const uid = await requireUid();
+
+  const mealUp = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .upsert({ user_id: uid, meal_date: date, meal_type: toType }, { onConflict: "user_id,meal_date,meal_type" })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (mealUp.error) throw mealUp.error;
+
+  const upd = await supabase
+    .schema("disciplined")
+    .from("meal_items")
+    .update({ meal_id: mealUp.data.id })
+    .eq("id", item.id);
+
+  if (upd.error) throw upd.error;
+
+  await deleteMealIfEmpty(item.meal_id);
+  return mealUp.data.id;
+}
+
+/**
+ * Deletes one item (and its meal once empty). Removing the day's last item auto-revokes Eat.
+ */
+export async function deleteMealItem(item: { id: string; meal_id: string }, date: string): Promise<void> {
+  const del = await supabase.schema("disciplined").from("meal_items").delete().eq("id", item.id);
+  if (del.error) throw del.error;
+
+  await deleteMealIfEmpty(item.meal_id);
+  await recomputePillar("eat", date);
+}
+
+export async function deleteMeal(mealId: string, date: string): Promise<void> {
+  const items = await supabase.schema("disciplined").from("meal_items").delete().eq("meal_id", mealId);
+  if (items.error) throw items.error;
+
+  const del = await supabase.schema("disciplined").from("meals").delete().eq("id", mealId);
+  if (del.error) throw del.error;
+
+  await recomputePillar("eat", date);
+}
+
+// ---- templates ----
+
+export async function listMealTemplates(): Promise<MealTemplate[]> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("meal_templates")
+    .select("id,name,meal_type,items,last_used_at,created_at")
+    .eq("user_id", uid)
+    .order("last_used_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
+
+  if (res.error) throw res.error;
+
+  return ((res.data ?? []) as MealTemplate[]).map((t) => ({
+    ...t,
+    items: Array.isArray(t.items) ? t.items.map(toItemInput) : [],
+  }));
+}
+
+/**
+ * Saves a logged meal's current items as a template.
+ */
+export async function saveMealAsTemplate(mealId: string, mealType: MealType, name: string): Promise<void> {
+  const uid = await requireUid();
+
+  const label = name.trim();
+  if (!label) throw new Error("Template needs a name.");
+
+  const items = await getMealItems(mealId);
+  if (items.length === 0) throw new Error("That meal has no items to save.");
+
+  const ins = await supabase.schema("disciplined").from("meal_templates").insert({
+    user_id: uid,
+    name: label.slice(0, 80),
+    meal_type: mealType,
+    items,
+  });
+
+  if (ins.error) throw ins.error;
+}
+
+/**
+ * Logs a template on `date` (into its own meal type unless one is given).
+ */
+export async function logMealTemplate(template: MealTemplate, date: string, mealType?: MealType): Promise<void> {
+  await logMealItems(date, mealType ?? template.meal_type, template.items);
+
+  const upd = await supabase
+    .schema("disciplined")
+    .from("meal_templates")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", template.id);
+
+  if (upd.error) throw upd.error;
+}
+
+export async function deleteMealTemplate(templateId: string): Promise<void> {
+  const res = await supabase.schema("disciplined").from("meal_templates").delete().eq("id", templateId);
+  if (res.error) throw res.error;
+}
+
+// ---- totals ----
+
+export function sumMealItems(
+  items: Pick<MealItemInput, "quantity" | "calories" | "protein_g" | "carbs_g" | "fat_g">[]
+): MacroTotals {
+  const total = (key: "calories" | "protein_g" | "carbs_g" | "fat_g") =>
+    items.reduce((a, it) => a + (it[key] ?? 0) * (it.quantity ?? 0), 0);
+
+  return { calories: total("calories"), protein: total("protein_g"), carbs: total("carbs_g"), fat: total("fat_g") };
+}
+
+/**
+ * Calories and macros eaten on one local day.
+ */
+export async function fetchDayMacroTotals(date: string): Promise<MacroTotals> {
+  const uid = await requireUid();
+
+  const mealsRes = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .select("id")
+    .eq("user_id", uid)
+    .eq("meal_date", date);
+
+  if (mealsRes.error) throw mealsRes.error;
+
+  const mealIds = (mealsRes.data ?? []).map((m) => m.id as string);
+  if (mealIds.length === 0) return sumMealItems([]);
+
+  const itemsRes = await supabase
+    .schema("disciplined")
+    .from("meal_items")
+    .select("quantity,calories,protein_g,carbs_g,fat_g")
+    .in("meal_id", mealIds);
+
+  if (itemsRes.error) throw itemsRes.error;
+  return sumMealItems((itemsRes.data ?? []) as MealItemInput[]);
+}
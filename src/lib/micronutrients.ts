@@ -0,0 +1,90 @@
+// src/lib/micronutrients.ts
+
+/**
+ * Optional micronutrients tracked next to the macros. Keys are the column names on foods,
+ * meal_items and recipes; values are per one base serving and null when unknown.
+ */
+
+export const MICRO_KEYS = ["fiber_g", "sugar_g", "sodium_mg", "vitamin_a_mcg", "vitamin_c_mg", "vitamin_d_mcg"] as const;
+
+export type MicroKey = (typeof MICRO_KEYS)[number];
+
+export type MicroValues = Record<MicroKey, number | null>;
+
+export const MICRO_LABELS: Record<MicroKey, { label: string; unit: string }> = {
+  fiber_g: { label: "Fiber", unit: "g" },
+  sugar_g: { label: "Sugar", unit: "g" },
+  sodium_mg: { label: "Sodium", unit: "mg" },
+  vitamin_a_mcg: { label: "Vitamin A", unit: "mcg" },
+  vitamin_c_mg: { label: "Vitamin C", unit: "mg" },
+  vitamin_d_mcg: { label: "Vitamin D", unit: "mcg" },
+};
+
+// spelled out so supabase-js can type the select string
+export const MICRO_COLUMNS = "fiber_g,sugar_g,sodium_mg,vitamin_a_mcg,vitamin_c_mg,vitamin_d_mcg";
+
+export function emptyMicros(): MicroValues {
+  return Object.fromEntries(MICRO_KEYS.map((k) => [k, null])) as MicroValues;
+}
+
+/**
+ * Copies just the micronutrient fields (missing ones become null).
+ */
+export function pickMicros(row: Partial<Record<MicroKey, number | null>>): MicroValues {
+  return Object.fromEntries(MICRO_KEYS.map((k) => [k, row[k] ?? null])) as MicroValues;
+}
+
+/**
+ * Σ value × quantity per nutrient. A nutrient no item has stays null, so "not tracked"
+ * doesn't show up as 0.
+ */
+export function sumMicros(items: (Partial<MicroValues> & { quantity: number | null })[]): MicroValues {
+  const out = emptyMicros();
+  for (const it of items) {
+    for (const k of MICRO_KEYS) {
+      const v = it[k];
+      if (v === null || v === undefined) continue;
+      out[k] = (out[k] ?? 0) + Number(v) * Number(it.quantity ?? 0);
+    }
+  }
+  return out;
+}
+
+export function hasAnyMicro(values: MicroValues): boolean {
+  return MICRO_KEYS.some((k) => values[k] !== null);
+}
+
+function fmtValue(v: number): string {
+  return v >= 100 ? Math.round(v).toLocaleString() : String(Math.round(v * 10) / 10);
+}
+
+/**
+ * "Fiber 12g · Sodium 1,200mg" for the nutrients that have a value.
+ */
+export function formatMicros(values: MicroValues): string {
+  return MICRO_KEYS.filter((k) => values[k] !== null)
+    .map((k) => `${MICRO_LABELS[k].label} ${fmtValue(values[k] ?? 0)}${MICRO_LABELS[k].unit}`)
+    .join(" · ");
+}
+
+/**
+ * Form strings -> values; empty means unknown. Throws on anything that isn't a number ≥ 0.
+ */
+export function parseMicroDraft(draft: Record<MicroKey, string>): MicroValues {
+  const out = emptyMicros();
+  for (const k of MICRO_KEYS) {
+    const raw = draft[k].trim();
+    if (!raw) continue;
+
+    const v = Number(raw);
+    if (!Number.isFinite(v) || v < 0) throw new Error(`${MICRO_LABELS[k].label} must be a number of 0 or more.`);
+    out[k] = v;
+  }
+  return out;
+}
+
+export function microDraft(values?: Partial<MicroValues> | null): Record<MicroKey, string> {
+  return Object.fromEntries(
+    MICRO_KEYS.map((k) => [k, values?.[k] === null || values?.[k] === undefined ? "" : String(values[k])])
+  ) as Record<MicroKey, string>;
+}
@@ -0,0 +1,457 @@
+// src/lib/pillarCriteria.ts
+import { supabase } from "@/lib/supabaseClient";
+import { dayRule, eatingAllowedAt, normalizeSchedule, type FastingSettings } from "@/lib/fasting";
+import {
+  getDayStartHour,
+  getUserTimezone,
+  localDateISO,
+  localMinuteOfDay,
+  todayLocalISO,
+  weekdayISO,
+} from "@/lib/localDay";
+import { isBuiltinPillarKey, type BuiltinPillarKey, type PillarKey } from "@/lib/pillarTypes";
+
+/**
+ * User-defined "what counts as complete" per pillar (disciplined.pillar_criteria).
+ *
+ * A pillar with no criteria row keeps the default rule in recomputePillar.ts
+ * (any logged data completes it). A pillar with criteria is auto-completed only
+ * when they pass: every rule for mode='all', at least one for mode='any'.
+ *
+ * Criteria are only evaluated for auto transitions — manual marks still win.
+ * Custom pillars have no criteria: their checklist is the definition.
+ */
+
+export type CriteriaMode = "all" | "any";
+
+export type PillarCriterion =
+  | { kind: "min_duration_min"; value: number } // train: total session minutes
+  | { kind: "min_steps"; value: number } // train: total walk steps
+  | { kind: "within_eating_window" } // eat: every item logged inside the fasting_settings schedule
+  | { kind: "max_calories"; value: number } // eat: calorie ceiling from meal_items
+  | { kind: "water_target" } // eat: water_logs total reaches macro_targets.water_ml
+  | { kind: "min_note_words"; value: number }; // word / freedom: notes length
+
+export type CriterionKind = PillarCriterion["kind"];
+
+export type PillarCriteria = {
+  pillar: BuiltinPillarKey;
+  mode: CriteriaMode;
+  rules: PillarCriterion[];
+};
+
+export type CriterionResult = {
+  criterion: PillarCriterion;
+  met: boolean;
+  label: string; // what the rule asks for
+  detail: string; // what the day actually has
+};
+
+export type CriteriaEvaluation = {
+  pillar: BuiltinPillarKey;
+  mode: CriteriaMode;
+  results: CriterionResult[];
+  metCount: number;
+  total: number;
+  satisfied: boolean;
+};
+
+/**
+ * Which rules make sense for which pillar (drives Settings and validation).
+ */
+export const CRITERIA_BY_PILLAR: Record<BuiltinPillarKey, CriterionKind[]> = {
+  train: ["min_duration_min", "min_steps"],
+  eat: ["within_eating_window", "max_calories", "water_target"],
+  word: ["min_note_words"],
+  freedom: ["min_note_words"],
+};
+
+export const CRITERION_DEFAULTS: Record<CriterionKind, number | null> = {
+  min_duration_min: 30,
+  min_steps: 8000,
+  within_eating_window: null,
+  max_calories: 2000,
+  water_target: null,
+  min_note_words: 50,
+};
+
+export function criterionHasValue(kind: CriterionKind): boolean {
+  return CRITERION_DEFAULTS[kind] !== null;
+}
+
+export function describeCriterion(c: PillarCriterion): string {
+  switch (c.kind) {
+    case "min_duration_min":
+      return `At least ${fmt(c.value)} min of training`;
+    case "min_steps":
+      return `At least ${fmt(c.value)} steps`;
+    case "within_eating_window":
+      return "Only eat inside the eating window";
+    case "max_calories":
+      return `At most ${fmt(c.value)} calories`;
+    case "water_target":
+      return "Drink your hydration target";
+    case "min_note_words":
+      return `Notes of at least ${fmt(c.value)} words`;
+  }
+}
+
+/**
+ * Drops anything that isn't a valid rule for the pillar (jsonb is untyped).
+ */
+export function normalizeCriteria(pillar: BuiltinPillarKey, raw: unknown): PillarCriterion[] {
+  if (!Array.isArray(raw)) return [];
+
+  const allowed = CRITERIA_BY_PILLAR[pillar];
+  const out: PillarCriterion[] = [];
+
+  for (const r of raw) {
+    const kind = (r as { kind?: unknown })?.kind as CriterionKind;
+    if (!allowed.includes(kind)) continue;
+    if (out.some((o) => o.kind === kind)) continue;
+
+    if (!criterionHasValue(kind)) {
+      out.push({ kind } as PillarCriterion);
+      continue;
+    }
+
+    const value = Number((r as { value?: unknown }).value);
+    if (!Number.isFinite(value) || value <= 0) continue;
+
+    out.push({ kind, value } as PillarCriterion);
+  }
+
+  return out;
+}
+
+/* ----------------------------------------
+ * Storage
+ * ---------------------------------------- */
+
+type PillarCriteriaRow = { pillar: string; mode: string; rules: unknown };
+
+function fromRow(row: PillarCriteriaRow): PillarCriteria | null {
+  if (!isBuiltinPillarKey(row.pillar)) return null;
+
+  const pillar = row.pillar;
+  const rules = normalizeCriteria(pillar, row.rules);
+  if (rules.length === 0) return null;
+
+  return { pillar, mode: row.mode === "any" ? "any" : "all", rules };
+}
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+/**
+ * All configured pillars for the signed-in user (pillars without rules are omitted).
+ */
+export async function listPillarCriteria(): Promise<PillarCriteria[]> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("pillar_criteria")
+    .select("pillar,mode,rules")
+    .eq("user_id", uid);
+
+  if (res.error) throw res.error;
+
+  return ((res.data ?? []) as PillarCriteriaRow[]).map(fromRow).filter((c): c is PillarCriteria => c !== null);
+}
+
+export async function getPillarCriteria(uid: string, pillar: PillarKey): Promise<PillarCriteria | null> {
+  if (!isBuiltinPillarKey(pillar)) return null;
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("pillar_criteria")
+    .select("pillar,mode,rules")
+    .eq("user_id", uid)
+    .eq("pillar", pillar)
+    .maybeSingle<PillarCriteriaRow>();
+
+  if (res.error) throw res.error;
+
+  return res.data ? fromRow(res.data) : null;
+}
+
+/**
+ * Saves the rules for one pillar. An empty list removes the row, which restores the default rule.
+ */
+export async function savePillarCriteria(pillar: BuiltinPillarKey, mode: CriteriaMode, rules: PillarCriterion[]) {
+  const uid = await requireUid();
+  const clean = normalizeCriteria(pillar, rules);
+
+  if (clean.length === 0) {
+    const del = await supabase
+      .schema("disciplined")
+      .from("pillar_criteria")
+      .delete()
+      .eq("user_id", uid)
+      .eq("pillar", pillar);
+
+    if (del.error) throw del.error;
+    return;
+  }
+
+  const up = await supabase
+    .schema("disciplined")
+    .from("pillar_criteria")
+    .upsert(
+      { user_id: uid, pillar, mode, rules: clean, updated_at: new Date().toISOString() },
+      { onConflict: "user_id,pillar" }
+    );
+
+  if (up.error) throw up.error;
+}
+
+/* ----------------------------------------
+ * Evaluation
+ * ---------------------------------------- */
+
+/**
+ * Evaluates one pillar's criteria for a day.
+ * Facts are loaded once per pillar, then every rule is checked against them.
+ */
+export async function evaluatePillarCriteria(
+  uid: string,
+  date: string,
+  criteria: PillarCriteria
+): Promise<CriteriaEvaluation> {
+  const check = await CHECKERS[criteria.pillar](uid, date);
+  const results = criteria.rules.map(check);
+  const metCount = results.filter((r) => r.met).length;
+  const total = results.length;
+
+  return {
+    pillar: criteria.pillar,
+    mode: criteria.mode,
+    results,
+    metCount,
+    total,
+    satisfied: total > 0 && (criteria.mode === "all" ? metCount === total : metCount > 0),
+  };
+}
+
+/**
+ * Evaluations for every configured pillar on a day (used by the Today card).
+ */
+export async function evaluateDayCriteria(
+  date: string = todayLocalISO()
+): Promise<Partial<Record<PillarKey, CriteriaEvaluation>>> {
+  const uid = await requireUid();
+  const all = await listPillarCriteria();
+
+  const out: Partial<Record<PillarKey, CriteriaEvaluation>> = {};
+  for (const c of all) {
+    out[c.pillar] = await evaluatePillarCriteria(uid, date, c);
+  }
+  return out;
+}
+
+type Checker = (c: PillarCriterion) => CriterionResult;
+
+const CHECKERS: Record<BuiltinPillarKey, (uid: string, date: string) => Promise<Checker>> = {
+  train: trainChecker,
+  eat: eatChecker,
+  word: (uid, date) => notesChecker("word_entries", uid, date),
+  freedom: (uid, date) => notesChecker("freedom_entries", uid, date),
+};
+
+function result(c: PillarCriterion, met: boolean, detail: string): CriterionResult {
+  return { criterion: c, met, label: describeCriterion(c), detail };
+}
+
+function unsupported(c: PillarCriterion): CriterionResult {
+  return result(c, false, "Not supported for this pillar");
+}
+
+/**
+ * train: sums duration_sec across the day's sessions and steps across their walk details
+ */
+async function trainChecker(uid: string, date: string): Promise<Checker> {
+  let totalSec = 0;
+  let totalSteps = 0;
+
+  const dayRes = await supabase
+    .schema("disciplined")
+    .from("train_days")
+    .select("id")
+    .eq("user_id", uid)
+    .eq("local_date", date)
+    .maybeSingle<{ id: string }>();
+
+  if (dayRes.error) throw dayRes.error;
+
+  if (dayRes.data) {
+    const sessRes = await supabase
+      .schema("disciplined")
+      .from("train_sessions")
+      .select("id,duration_sec")
+      .eq("user_id", uid)
+      .eq("day_id", dayRes.data.id);
+
+    if (sessRes.error) throw sessRes.error;
+
+    const sessions = (sessRes.data ?? []) as { id: string; duration_sec: number | null }[];
+    totalSec = sessions.reduce((a, s) => a + (s.duration_sec ?? 0), 0);
+
+    if (sessions.length > 0) {
+      const walkRes = await supabase
+        .schema("disciplined")
+        .from("train_walk_details")
+        .select("steps")
+        .eq("user_id", uid)
+        .in("session_id", sessions.map((s) => s.id));
+
+      if (walkRes.error) throw walkRes.error;
+
+      totalSteps = ((walkRes.data ?? []) as { steps: number | null }[]).reduce((a, w) => a + (w.steps ?? 0), 0);
+    }
+  }
+
+  const minutes = Math.floor(totalSec / 60);
+
+  return (c) => {
+    if (c.kind === "min_duration_min") return result(c, minutes >= c.value, `${fmt(minutes)} min`);
+    if (c.kind === "min_steps") return result(c, totalSteps >= c.value, `${fmt(totalSteps)} steps`);
+    return unsupported(c);
+  };
+}
+
+/**
+ * eat: calories = Σ calories × quantity; the window check uses when each item was logged.
+ * Nothing logged never satisfies a food rule (0 calories is not "under the ceiling");
+ * the water rule only looks at water_logs.
+ */
+async function eatChecker(uid: string, date: string): Promise<Checker> {
+  const mealsRes = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .select("id")
+    .eq("user_id", uid)
+    .eq("meal_date", date);
+
+  if (mealsRes.error) throw mealsRes.error;
+
+  const mealIds = (mealsRes.data ?? []).map((m) => m.id as string);
+
+  let items: { calories: number | null; quantity: number | null; created_at: string }[] = [];
+  if (mealIds.length > 0) {
+    const itemsRes = await supabase
+      .schema("disciplined")
+      .from("meal_items")
+      .select("calories,quantity,created_at")
+      .in("meal_id", mealIds);
+
+    if (itemsRes.error) throw itemsRes.error;
+    items = (itemsRes.data ?? []) as typeof items;
+  }
+
+  const fastRes = await supabase
+    .schema("disciplined")
+    .from("fasting_settings")
+    .select("eating_start,eating_hours,schedule")
+    .eq("user_id", uid)
+    .maybeSingle<{ eating_start: string; eating_hours: number; schedule: unknown }>();
+
+  if (fastRes.error) throw fastRes.error;
+
+  const waterRes = await supabase
+    .schema("disciplined")
+    .from("water_logs")
+    .select("amount_ml")
+    .eq("user_id", uid)
+    .eq("log_date", date);
+
+  if (waterRes.error) throw waterRes.error;
+
+  const targetRes = await supabase
+    .schema("disciplined")
+    .from("macro_targets")
+    .select("water_ml")
+    .eq("user_id", uid)
+    .maybeSingle<{ water_ml: number | null }>();
+
+  if (targetRes.error) throw targetRes.error;
+
+  const waterMl = ((waterRes.data ?? []) as { amount_ml: number }[]).reduce((a, w) => a + Number(w.amount_ml), 0);
+  const waterTarget = targetRes.data?.water_ml ? Number(targetRes.data.water_ml) : null;
+
+  const calories = Math.round(items.reduce((a, it) => a + (it.calories ?? 0) * (it.quantity ?? 0), 0));
+
+  // back-filled items were logged on a later day, so their timestamp says nothing about when they were eaten
+  const tz = getUserTimezone();
+  const dayStart = getDayStartHour();
+  const window: FastingSettings | null = fastRes.data
+    ? { ...fastRes.data, schedule: normalizeSchedule(fastRes.data.schedule) }
+    : null;
+
+  // a fast day with a calorie allowance (5:2) is on plan while the day stays under it
+  const rule = window ? dayRule(window, weekdayISO(date)) : null;
+  const allowance = rule?.kind === "fast" ? (rule.max_calories ?? null) : null;
+
+  const outside =
+    window && !(allowance !== null && calories <= allowance)
+      ? items.filter((it) => {
+          const at = new Date(it.created_at);
+          if (localDateISO(tz, at, dayStart) !== date) return false;
+          return !eatingAllowedAt(window, weekdayISO(localDateISO(tz, at)), localMinuteOfDay(tz, at));
+        }).length
+      : 0;
+
+  return (c) => {
+    if (c.kind === "water_target") {
+      if (!waterTarget) return result(c, false, "No hydration target set");
+      return result(c, waterMl >= waterTarget, `${fmt(Math.round(waterMl))} / ${fmt(waterTarget)} ml`);
+    }
+
+    if (items.length === 0) return result(c, false, "Nothing logged");
+
+    if (c.kind === "max_calories") return result(c, calories <= c.value, `${fmt(calories)} calories`);
+
+    if (c.kind === "within_eating_window") {
+      if (!window) return result(c, false, "No eating window set");
+      return result(c, outside === 0, outside === 0 ? "All items in window" : `${outside} item(s) outside window`);
+    }
+
+    return unsupported(c);
+  };
+}
+
+/**
+ * word / freedom: counts whitespace-separated words in the day's notes
+ */
+async function notesChecker(table: "word_entries" | "freedom_entries", uid: string, date: string): Promise<Checker> {
+  const res = await supabase
+    .schema("disciplined")
+    .from(table)
+    .select("notes")
+    .eq("user_id", uid)
+    .eq("entry_date", date)
+    .maybeSingle<{ notes: string | null }>();
+
+  if (res.error) throw res.error;
+
+  const words = countWords(res.data?.notes ?? "");
+
+  return (c) => {
+    if (c.kind === "min_note_words") return result(c, words >= c.value, `${fmt(words)} words`);
+    return unsupported(c);
+  };
+}
+
+function countWords(s: string): number {
+  return s.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function fmt(n: number): string {
+  return n.toLocaleString();
+}
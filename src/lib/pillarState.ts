@@ -0,0 +1,108 @@
+// src/lib/pillarState.ts
+import { supabase } from "@/lib/supabaseClient";
+import { todayLocalISO } from "@/lib/localDay";
+import type {
+  DailyPillarRow,
+  DayPillarState,
+  PillarKey,
+  PillarSource,
+  PillarTransition,
+} from "@/lib/pillarTypes";
+
+export * from "@/lib/pillarTypes";
+
+/**
+ * The ONLY place the browser changes daily_pillars.
+ *
+ * Every pillar change is one of four explicit transitions:
+ * - manual_complete   user tapped "Mark"          -> completed, source='manual'
+ * - manual_uncomplete user tapped "Undo"          -> not completed, source='manual'
+ * - auto_complete     logging data satisfied rule -> completed, source='auto'
+ * - auto_revoke       logged data went away       -> not completed, source=null
+ *
+ * Manual always wins: auto transitions never touch a row whose source is 'manual'.
+ *
+ * The rules themselves live in Postgres (disciplined.pillar_day_state) and run
+ * atomically behind /api/pillars/day and /api/pillars/toggle — one request per
+ * change, no cross-tab races.
+ */
+
+export const PILLAR_UPDATED_EVENT = "dl:pillar-updated";
+
+/**
+ * detail payload of the "dl:pillar-updated" window event.
+ */
+export type PillarUpdatedDetail = {
+  pillar: PillarKey;
+  date: string;
+  transition: PillarTransition;
+  completed: boolean;
+  source: PillarSource | null;
+};
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not logged in.");
+
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function readDay(res: Response): Promise<DayPillarState> {
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.message ?? json?.reason ?? `Pillar request failed (${res.status})`);
+  }
+
+  return json.day as DayPillarState;
+}
+
+/**
+ * Ensures the entry and all pillar rows exist for a day (never overwrites), then returns them.
+ */
+export async function loadDayPillars(date: string = todayLocalISO()): Promise<DayPillarState> {
+  const res = await fetch(`/api/pillars/day?date=${encodeURIComponent(date)}`, {
+    method: "GET",
+    cache: "no-store",
+    headers: await authHeaders(),
+  });
+
+  return readDay(res);
+}
+
+/**
+ * Applies a transition to one pillar for one day and returns the full day.
+ * Fires "dl:pillar-updated" only when the row actually changed.
+ */
+export async function applyPillarTransition(
+  pillar: PillarKey,
+  transition: PillarTransition,
+  date: string = todayLocalISO()
+): Promise<DayPillarState & { row: DailyPillarRow }> {
+  const res = await fetch("/api/pillars/toggle", {
+    method: "POST",
+    cache: "no-store",
+    headers: await authHeaders(),
+    body: JSON.stringify({ date, pillar, transition }),
+  });
+
+  const day = await readDay(res);
+
+  const row = day.pillars.find((p) => p.pillar === pillar);
+  if (!row) throw new Error(`Missing ${pillar} pillar row.`);
+
+  if (day.changed) {
+    emitPillarUpdated({ pillar, date, transition, completed: row.completed, source: row.source });
+  }
+
+  return { ...day, row };
+}
+
+export function emitPillarUpdated(detail: PillarUpdatedDetail) {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new CustomEvent<PillarUpdatedDetail>(PILLAR_UPDATED_EVENT, { detail }));
+}
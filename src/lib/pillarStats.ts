@@ -1,20 +1,15 @@
 // src/lib/pillarStats.ts
 import { supabase } from "@/lib/supabaseClient";
+import { addDaysISO } from "@/lib/localDay";
+import type { PillarKey, PillarStreaksState } from "@/lib/pillarState";
 
-export type PillarKey = "train" | "eat" | "word" | "freedom";
+export type { PillarKey, PillarStreak } from "@/lib/pillarState";
+export { COMBINED_STREAK_KEY } from "@/lib/pillarState";
 
 function isoUTC(d: Date) {
   return d.toISOString().slice(0, 10);
 }
 
-function addDaysUTC(iso: string, deltaDays: number) {
-  // iso = YYYY-MM-DD, interpret as UTC midnight
-  const [y, m, dd] = iso.split("-").map(Number);
-  const d = new Date(Date.UTC(y, m - 1, dd));
-  d.setUTCDate(d.getUTCDate() + deltaDays);
-  return isoUTC(d);
-}
-
 async function getUserId(): Promise<string> {
   const { data, error } = await supabase.auth.getUser();
   if (error) throw error;
@@ -23,15 +18,18 @@ async function getUserId(): Promise<string> {
   return uid;
 }
 
+export type DailyCompletion = { date: string; completed: boolean; backfilled: boolean };
+
 /**
  * Returns an array for a date range (inclusive), with completion status per day.
  * Missing daily_entries are treated as not completed.
+ * `backfilled` marks completions made after the day was over.
  */
 export async function fetchPillarDailyCompletion(
   pillar: PillarKey,
   startISO: string,
   endISO: string
-): Promise<{ date: string; completed: boolean }[]> {
+): Promise<DailyCompletion[]> {
   const uid = await getUserId();
 
   // 1) fetch daily_entries for range
@@ -55,53 +53,62 @@ export async function fetchPillarDailyCompletion(
 
   // 2) fetch pillar rows for those entries
   const completedByDate = new Map<string, boolean>();
+  const backfilledByDate = new Map<string, boolean>();
 
   if (entryIds.length > 0) {
     const pillarsRes = await supabase
       .schema("disciplined")
       .from("daily_pillars")
-      .select("entry_id,completed")
+      .select("entry_id,completed,backfilled")
       .in("entry_id", entryIds)
       .eq("pillar", pillar);
 
     if (pillarsRes.error) throw pillarsRes.error;
 
-    for (const row of (pillarsRes.data ?? []) as { entry_id: string; completed: boolean }[]) {
+    for (const row of (pillarsRes.data ?? []) as { entry_id: string; completed: boolean; backfilled: boolean }[]) {
       const d = dateByEntryId.get(row.entry_id);
-      if (d) completedByDate.set(d, !!row.completed);
+      if (!d) continue;
+      completedByDate.set(d, !!row.completed);
+      backfilledByDate.set(d, !!row.backfilled);
     }
   }
 
   // 3) build full range array (including missing days)
-  const out: { date: string; completed: boolean }[] = [];
+  const out: DailyCompletion[] = [];
   let cur = startISO;
   while (cur <= endISO) {
-    out.push({ date: cur, completed: completedByDate.get(cur) ?? false });
-    cur = addDaysUTC(cur, 1);
+    out.push({
+      date: cur,
+      completed: completedByDate.get(cur) ?? false,
+      backfilled: backfilledByDate.get(cur) ?? false,
+    });
+    cur = addDaysISO(cur, 1);
   }
 
   return out;
 }
 
 /**
- * Computes current streak up through today (UTC) from a completion list.
- * Expects list includes today.
+ * Server-side streaks (rest days, freezes, longest streak) for every active pillar,
+ * plus the combined streak under COMBINED_STREAK_KEY. Cached in Postgres, so this is cheap.
  */
-export function computeStreakFromList(list: { date: string; completed: boolean }[], todayISO: string) {
-  // Build map date->completed
-  const map = new Map<string, boolean>();
-  for (const row of list) map.set(row.date, row.completed);
-
-  let streak = 0;
-  let cur = todayISO;
-
-  while (true) {
-    if (!map.get(cur)) break;
-    streak += 1;
-    cur = addDaysUTC(cur, -1);
+export async function fetchPillarStreaks(): Promise<PillarStreaksState> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not logged in.");
+
+  const res = await fetch("/api/pillars/streaks", {
+    method: "GET",
+    cache: "no-store",
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.message ?? json?.reason ?? `Streak request failed (${res.status})`);
   }
 
-  return streak;
+  return { today: json.today, streaks: json.streaks ?? [] };
 }
 
 /**
@@ -122,7 +129,7 @@ export async function hasAnyPillarHistory(pillar: PillarKey): Promise<boolean> {
 }
 
 /**
- * Returns a map YYYY-MM-DD -> completed for the given month (UTC).
+ * Returns a map YYYY-MM-DD -> completed for the given calendar month.
  */
 export async function fetchMonthCompletionMap(
   pillar: PillarKey,
@@ -139,8 +146,4 @@ export async function fetchMonthCompletionMap(
   const map = new Map<string, boolean>();
   for (const r of list) map.set(r.date, r.completed);
   return map;
-}
-
-export function todayISODateUTC() {
-  return new Date().toISOString().slice(0, 10);
 }
\ No newline at end of file
@@ -0,0 +1,155 @@
+// src/lib/pillarTypes.ts
+
+/**
+ * Pillar types shared by the browser (pillarState.ts) and API routes.
+ * Keep this file free of Supabase clients so server code can import it.
+ */
+
+/**
+ * Pillars with a dedicated page and auto rules. Every user has these in their
+ * catalog (disciplined.user_pillars) — they can be archived, not deleted.
+ */
+export type BuiltinPillarKey = "train" | "eat" | "word" | "freedom";
+
+export const BUILTIN_PILLAR_KEYS: BuiltinPillarKey[] = ["train", "eat", "word", "freedom"];
+
+/**
+ * Any key in the user's pillar catalog: a built-in, or a custom slug like "sleep".
+ */
+export type PillarKey = string;
+
+export const PILLAR_KEY_RE = /^[a-z][a-z0-9_]{0,31}$/;
+
+export type PillarChecklistItem = {
+  id: string;
+  label: string;
+};
+
+/**
+ * One row of disciplined.user_pillars.
+ */
+export type UserPillar = {
+  key: PillarKey;
+  label: string;
+  emoji: string;
+  sort_order: number;
+  is_builtin: boolean;
+  archived_at: string | null;
+  checklist: PillarChecklistItem[]; // custom pillars only
+  rest_weekdays: number[]; // planned days off for streaks, 0 = Sunday … 6 = Saturday
+};
+
+export const BUILTIN_PILLARS: UserPillar[] = [
+  { key: "train", label: "Train", emoji: "🏋️", sort_order: 10, is_builtin: true, archived_at: null, checklist: [], rest_weekdays: [] },
+  { key: "eat", label: "Eat", emoji: "🍽️", sort_order: 20, is_builtin: true, archived_at: null, checklist: [], rest_weekdays: [] },
+  { key: "word", label: "Word", emoji: "📖", sort_order: 30, is_builtin: true, archived_at: null, checklist: [], rest_weekdays: [] },
+  { key: "freedom", label: "Freedom", emoji: "🛡️", sort_order: 40, is_builtin: true, archived_at: null, checklist: [], rest_weekdays: [] },
+];
+
+export type PillarSource = "manual" | "auto";
+
+export type PillarTransition = "manual_complete" | "manual_uncomplete" | "auto_complete" | "auto_revoke";
+
+export const PILLAR_TRANSITIONS: PillarTransition[] = [
+  "manual_complete",
+  "manual_uncomplete",
+  "auto_complete",
+  "auto_revoke",
+];
+
+export type DailyPillarRow = {
+  entry_id: string;
+  pillar: PillarKey;
+  completed: boolean;
+  completed_at: string | null;
+  source: PillarSource | null;
+  backfilled: boolean; // completed after the day was over
+  notes?: string | null;
+};
+
+export type DailyEntryRow = {
+  id: string;
+  user_id: string;
+  entry_date: string; // YYYY-MM-DD (local day)
+};
+
+/**
+ * Full state of one day, as returned by disciplined.pillar_day_state().
+ * catalog = the user's active pillars in display order.
+ * today / earliest_editable = the server's view of which days can still change
+ * (earliest_editable is null when the user has no back-fill grace window).
+ */
+export type DayPillarState = {
+  changed: boolean;
+  today: string;
+  earliest_editable: string | null;
+  entry: DailyEntryRow;
+  pillars: DailyPillarRow[];
+  catalog: Omit<UserPillar, "rest_weekdays">[];
+};
+
+/**
+ * pillar_streaks key for "every active pillar done on the same day".
+ * Not a valid catalog key, so it can't collide with a custom pillar.
+ */
+export const COMBINED_STREAK_KEY = "*";
+
+/**
+ * One cached row of disciplined.pillar_streaks (see 20261020120000_pillar_streaks.sql).
+ */
+export type PillarStreak = {
+  pillar: PillarKey; // or COMBINED_STREAK_KEY
+  current_streak: number;
+  longest_streak: number;
+  streak_start: string | null;
+  freezes_available: number;
+  freezes_used: number; // spent inside the current streak
+};
+
+/**
+ * As returned by disciplined.pillar_streaks().
+ */
+export type PillarStreaksState = {
+  today: string;
+  streaks: PillarStreak[];
+};
+
+/**
+ * As returned by disciplined.pillar_insights(): completed pillar keys per day of a range.
+ * Days without any completion are left out; first_day is the user's first daily entry.
+ * tracked_from = a custom pillar's creation day (null for built-ins).
+ */
+export type PillarInsightsData = {
+  start: string;
+  end: string;
+  today: string;
+  first_day: string | null;
+  catalog: (Pick<UserPillar, "key" | "label" | "emoji" | "rest_weekdays"> & { tracked_from: string | null })[];
+  days: { date: string; completed: PillarKey[] }[];
+};
+
+/**
+ * Shape check only — whether the key is in the user's catalog is checked in Postgres.
+ */
+export function isPillarKey(v: unknown): v is PillarKey {
+  return typeof v === "string" && PILLAR_KEY_RE.test(v);
+}
+
+export function isBuiltinPillarKey(v: unknown): v is BuiltinPillarKey {
+  return typeof v === "string" && (BUILTIN_PILLAR_KEYS as string[]).includes(v);
+}
+
+/**
+ * Built-ins keep their dedicated pages; custom pillars share the checklist page.
+ */
+export function pillarHref(key: PillarKey): string {
+  return isBuiltinPillarKey(key) ? `/${key}` : `/pillars/${key}`;
+}
+
+export function isPillarTransition(v: unknown): v is PillarTransition {
+  return typeof v === "string" && (PILLAR_TRANSITIONS as string[]).includes(v);
+}
+
+export function isISODate(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+}
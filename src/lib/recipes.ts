@@ -0,0 +1,229 @@
+// src/lib/recipes.ts
+import { supabase } from "@/lib/supabaseClient";
+import { recomputePillar } from "@/lib/recomputePillar";
+import type { Food } from "@/lib/foods";
+import { MICRO_COLUMNS, MICRO_KEYS, emptyMicros, pickMicros, type MicroValues } from "@/lib/micronutrients";
+
+/**
+ * Recipes (disciplined.recipes + recipe_items): foods with quantities that yield N servings.
+ *
+ * Per-serving macros are stored on the recipe and recomputed here on every save, so logging a
+ * recipe is a plain meal_items insert (quantity = servings eaten, recipe_id = the link).
+ * Logged items keep the macros they were logged with; applyRecipeToLogs rewrites them on request.
+ */
+
+export type Recipe = {
+  id: string;
+  name: string;
+  yield_servings: number;
+  notes: string | null;
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+  archived_at: string | null;
+  updated_at: string;
+} & MicroValues;
+
+export type RecipeItem = {
+  id: string;
+  food_id: string;
+  amount: number;
+  unit: string;
+  quantity: number; // base servings of the food
+  position: number;
+};
+
+export type RecipeItemInput = Omit<RecipeItem, "id" | "position">;
+
+export type RecipeMacros = Pick<Recipe, "calories" | "protein_g" | "carbs_g" | "fat_g">;
+
+const RECIPE_COLUMNS = `id,name,yield_servings,notes,calories,protein_g,carbs_g,fat_g,${MICRO_COLUMNS},archived_at,updated_at`;
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+async function requireToken(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not logged in.");
+  return token;
+}
+
+function round1(v: number) {
+  return Math.round(v * 10) / 10;
+}
+
+/**
+ * Per-serving macros: Σ(food macros × quantity) / yield. Items whose food is gone count as 0.
+ */
+export function recipeMacrosPerServing(
+  items: Pick<RecipeItem, "food_id" | "quantity">[],
+  foods: Pick<Food, "id" | "calories" | "protein_g" | "carbs_g" | "fat_g">[],
+  yieldServings: number
+): RecipeMacros {
+  const byId = new Map(foods.map((f) => [f.id, f]));
+  const total = (key: keyof RecipeMacros) =>
+    items.reduce((a, it) => a + (byId.get(it.food_id)?.[key] ?? 0) * it.quantity, 0);
+
+  const per = yieldServings > 0 ? yieldServings : 1;
+  return {
+    calories: round1(total("calories") / per),
+    protein_g: round1(total("protein_g") / per),
+    carbs_g: round1(total("carbs_g") / per),
+    fat_g: round1(total("fat_g") / per),
+  };
+}
+
+/**
+ * Per-serving micronutrients. A nutrient none of the foods has stays null; otherwise foods
+ * without it count as 0.
+ */
+export function recipeMicrosPerServing(
+  items: Pick<RecipeItem, "food_id" | "quantity">[],
+  foods: (Pick<Food, "id"> & MicroValues)[],
+  yieldServings: number
+): MicroValues {
+  const byId = new Map(foods.map((f) => [f.id, f]));
+  const per = yieldServings > 0 ? yieldServings : 1;
+
+  const out = emptyMicros();
+  for (const k of MICRO_KEYS) {
+    const known = items.filter((it) => (byId.get(it.food_id)?.[k] ?? null) !== null);
+    if (known.length === 0) continue;
+    out[k] = round1(known.reduce((a, it) => a + (byId.get(it.food_id)?.[k] ?? 0) * it.quantity, 0) / per);
+  }
+  return out;
+}
+
+export async function listRecipes(opts: { includeArchived?: boolean } = {}): Promise<Recipe[]> {
+  const uid = await requireUid();
+
+  let q = supabase
+    .schema("disciplined")
+    .from("recipes")
+    .select(RECIPE_COLUMNS)
+    .eq("user_id", uid)
+    .order("name", { ascending: true });
+
+  if (!opts.includeArchived) q = q.is("archived_at", null);
+
+  const res = await q;
+  if (res.error) throw res.error;
+  return (res.data ?? []) as Recipe[];
+}
+
+export async function getRecipeItems(recipeId: string): Promise<RecipeItem[]> {
+  const res = await supabase
+    .schema("disciplined")
+    .from("recipe_items")
+    .select("id,food_id,amount,unit,quantity,position")
+    .eq("recipe_id", recipeId)
+    .order("position", { ascending: true });
+
+  if (res.error) throw res.error;
+  return (res.data ?? []) as RecipeItem[];
+}
+
+/**
+ * Creates or updates a recipe and replaces its items. Returns the recipe id.
+ */
+export async function saveRecipe(
+  input: { id?: string; name: string; yield_servings: number; notes: string | null; items: RecipeItemInput[] }
+): Promise<string> {
+  const token = await requireToken();
+
+  const name = input.name.trim();
+  if (!name) throw new Error("Recipe needs a name.");
+  if (!(input.yield_servings > 0)) throw new Error("Yield must be at least a fraction of a serving.");
+  if (input.items.length === 0) throw new Error("Add at least one food.");
+
+  const recipe = {
+    name,
+    yield_servings: input.yield_servings,
+    notes: input.notes?.trim() || null,
+  };
+
+  // recipe row and items are replaced together; the server recomputes the cached macros from the items
+  const res = await fetch("/api/recipes/save", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({
+      id: input.id ?? null,
+      recipe,
+      items: input.items.map((it) => ({ food_id: it.food_id, amount: it.amount, unit: it.unit, quantity: it.quantity })),
+    }),
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) {
+    throw new Error(json?.message ?? json?.reason ?? `Recipe save failed (${res.status})`);
+  }
+
+  return json.id as string;
+}
+
+export async function setRecipeArchived(recipeId: string, archived: boolean): Promise<void> {
+  const res = await supabase
+    .schema("disciplined")
+    .from("recipes")
+    .update({ archived_at: archived ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+    .eq("id", recipeId);
+
+  if (res.error) throw res.error;
+}
+
+/**
+ * Rewrites the name and per-serving macros / micronutrients of items logged from this recipe on or after
+ * `fromDate` (servings eaten stay as logged), then recomputes Eat for those days.
+ * Returns how many items changed.
+ */
+export async function applyRecipeToLogs(recipe: Recipe, fromDate: string): Promise<number> {
+  const uid = await requireUid();
+
+  const mealsRes = await supabase
+    .schema("disciplined")
+    .from("meals")
+    .select("id,meal_date")
+    .eq("user_id", uid)
+    .gte("meal_date", fromDate);
+
+  if (mealsRes.error) throw mealsRes.error;
+
+  const meals = (mealsRes.data ?? []) as { id: string; meal_date: string }[];
+  if (meals.length === 0) return 0;
+
+  const upd = await supabase
+    .schema("disciplined")
+    .from("meal_items")
+    .update({
+      name: recipe.name,
+      calories: recipe.calories,
+      protein_g: recipe.protein_g,
+      carbs_g: recipe.carbs_g,
+      fat_g: recipe.fat_g,
+      ...pickMicros(recipe),
+    })
+    .eq("recipe_id", recipe.id)
+    .in(
+      "meal_id",
+      meals.map((m) => m.id)
+    )
+    .select("meal_id");
+
+  if (upd.error) throw upd.error;
+
+  const changed = (upd.data ?? []) as { meal_id: string }[];
+  const dateByMeal = new Map(meals.map((m) => [m.id, m.meal_date]));
+  const dates = new Set(changed.map((it) => dateByMeal.get(it.meal_id)).filter((d): d is string => !!d));
+
+  for (const d of dates) await recomputePillar("eat", d);
+  return changed.length;
+}
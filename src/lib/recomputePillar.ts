@@ -1,158 +1,191 @@
 // src/lib/recomputePillar.ts
 import { supabase } from "@/lib/supabaseClient";
+import { todayLocalISO } from "@/lib/localDay";
+import {
+  applyPillarTransition,
+  isBuiltinPillarKey,
+  type BuiltinPillarKey,
+  type PillarKey,
+} from "@/lib/pillarState";
+import { evaluatePillarCriteria, getPillarCriteria } from "@/lib/pillarCriteria";
 
-export type PillarKey = "train" | "eat" | "word" | "freedom";
-
-function todayISODateUTC() {
-  return new Date().toISOString().slice(0, 10);
-}
+export type { PillarKey } from "@/lib/pillarState";
 
 /**
- * Recomputes whether a pillar should be auto-completed for today.
+ * Recomputes whether a pillar should be auto-completed for a day (default: today).
  *
  * Rules:
- * - If the pillar row is currently source='manual', do NOT overwrite it.
- * - Otherwise, set completed based on pillar-specific data.
+ * - Manual rows are never touched (enforced by applyPillarTransition).
+ * - If the user configured criteria for the pillar (pillarCriteria.ts), they decide.
+ * - Otherwise, auto-complete when the day has pillar data, auto-revoke when it doesn't
+ *   (so deleting the underlying data un-completes an auto-completed pillar).
  *
- * Currently implemented:
- * - eat: completed if there is at least one meal_item linked to a meal for today
+ * Default pillar data:
+ * - train:   a train_sessions row with a duration, or at least one logged set
+ * - eat:     at least one meal_item linked to a meal for the day
+ * - word:    a word_entries row for the day
+ * - freedom: a freedom_entries row for the day
+ * - custom:  every item on the pillar's checklist is checked (no checklist = manual only)
+ *
+ * Returns true when the pillar row changed.
  */
-export async function recomputePillar(pillar: PillarKey): Promise<boolean> {
-  if (pillar !== "eat") {
-    // future: add train/word/freedom recompute rules if desired
+export async function recomputePillar(pillar: PillarKey, date: string = todayLocalISO()): Promise<boolean> {
+  try {
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr) throw userErr;
+
+    const uid = userData.user?.id;
+    if (!uid) return false;
+
+    const criteria = await getPillarCriteria(uid, pillar);
+    const shouldComplete = criteria
+      ? (await evaluatePillarCriteria(uid, date, criteria)).satisfied
+      : isBuiltinPillarKey(pillar)
+        ? await RULES[pillar](uid, date)
+        : await hasCompletedChecklist(uid, pillar, date);
+
+    const res = await applyPillarTransition(pillar, shouldComplete ? "auto_complete" : "auto_revoke", date);
+    return res.changed;
+  } catch (e) {
+    console.error("recomputePillar failed", e, { pillar, date });
     return false;
   }
+}
 
-  const { data: userData, error: userErr } = await supabase.auth.getUser();
-  if (userErr) {
-    console.error("recomputePillar: getUser error", userErr);
-    return false;
-  }
+const RULES: Record<BuiltinPillarKey, (uid: string, date: string) => Promise<boolean>> = {
+  train: hasTrainData,
+  eat: hasEatData,
+  word: (uid, date) => hasEntryRow("word_entries", uid, date),
+  freedom: (uid, date) => hasEntryRow("freedom_entries", uid, date),
+};
 
-  const uid = userData.user?.id;
-  if (!uid) return false;
+/**
+ * train: a session with duration, or a set with reps/weight, on the day's train_days row
+ */
+async function hasTrainData(uid: string, date: string): Promise<boolean> {
+  const dayRes = await supabase
+    .schema("disciplined")
+    .from("train_days")
+    .select("id")
+    .eq("user_id", uid)
+    .eq("local_date", date)
+    .maybeSingle<{ id: string }>();
 
-  const entryDate = todayISODateUTC();
+  if (dayRes.error) throw dayRes.error;
+  if (!dayRes.data) return false;
 
-  // 1) Ensure daily_entries exists (atomic upsert to avoid duplicate races)
-  const entryUp = await supabase
+  const sessRes = await supabase
     .schema("disciplined")
-    .from("daily_entries")
-    .upsert({ user_id: uid, entry_date: entryDate }, { onConflict: "user_id,entry_date" })
-    .select("id")
-    .single<{ id: string }>();
+    .from("train_sessions")
+    .select("id,duration_sec")
+    .eq("user_id", uid)
+    .eq("day_id", dayRes.data.id);
 
-  if (entryUp.error) {
-    console.error("recomputePillar: daily_entries upsert error", entryUp.error);
-    return false;
-  }
+  if (sessRes.error) throw sessRes.error;
 
-  const entryId = entryUp.data.id;
+  const sessions = (sessRes.data ?? []) as { id: string; duration_sec: number | null }[];
+  if (sessions.some((s) => (s.duration_sec ?? 0) > 0)) return true;
+  if (sessions.length === 0) return false;
 
-  // 2) Ensure daily_pillars row exists WITHOUT overwriting existing row
-  const seed = await supabase
+  const exRes = await supabase
     .schema("disciplined")
-    .from("daily_pillars")
-    .upsert(
-      [
-        {
-          entry_id: entryId,
-          pillar,
-          completed: false,
-          completed_at: null,
-          source: null,
-        },
-      ],
-      { onConflict: "entry_id,pillar", ignoreDuplicates: true }
-    );
-
-  if (seed.error) {
-    console.error("recomputePillar: daily_pillars seed error", seed.error);
-    return false;
-  }
+    .from("train_exercises")
+    .select("id")
+    .eq("user_id", uid)
+    .in("session_id", sessions.map((s) => s.id));
 
-  // 3) If user manually set it, do not override
-  const cur = await supabase
+  if (exRes.error) throw exRes.error;
+
+  const exerciseIds = (exRes.data ?? []).map((e) => e.id as string);
+  if (exerciseIds.length === 0) return false;
+
+  const setsRes = await supabase
     .schema("disciplined")
-    .from("daily_pillars")
-    .select("completed,source")
-    .eq("entry_id", entryId)
-    .eq("pillar", pillar)
-    .single<{ completed: boolean; source: "manual" | "auto" | null }>();
+    .from("train_sets")
+    .select("id")
+    .eq("user_id", uid)
+    .in("exercise_id", exerciseIds)
+    .or("reps.not.is.null,weight_lbs.not.is.null")
+    .limit(1);
 
-  if (cur.error) {
-    console.error("recomputePillar: daily_pillars select error", cur.error);
-    return false;
-  }
+  if (setsRes.error) throw setsRes.error;
 
-  if (cur.data.source === "manual") {
-    return false; // respect manual override
-  }
+  return (setsRes.data?.length ?? 0) > 0;
+}
 
-  // 4) Compute desired completed state for EAT:
-  //    true if at least one meal_item exists for any meal today
+/**
+ * eat: true if at least one meal_item exists for any meal on the day
+ */
+async function hasEatData(uid: string, date: string): Promise<boolean> {
   const mealsRes = await supabase
     .schema("disciplined")
     .from("meals")
     .select("id")
     .eq("user_id", uid)
-    .eq("meal_date", entryDate);
+    .eq("meal_date", date);
 
-  if (mealsRes.error) {
-    console.error("recomputePillar: meals select error", mealsRes.error);
-    return false;
-  }
+  if (mealsRes.error) throw mealsRes.error;
 
   const mealIds = (mealsRes.data ?? []).map((m) => m.id as string);
+  if (mealIds.length === 0) return false;
 
-  let shouldComplete = false;
+  const itemsRes = await supabase
+    .schema("disciplined")
+    .from("meal_items")
+    .select("id")
+    .in("meal_id", mealIds)
+    .limit(1);
 
-  if (mealIds.length > 0) {
-    const itemsRes = await supabase
-      .schema("disciplined")
-      .from("meal_items")
-      .select("id")
-      .in("meal_id", mealIds)
-      .limit(1);
+  if (itemsRes.error) throw itemsRes.error;
 
-    if (itemsRes.error) {
-      console.error("recomputePillar: meal_items select error", itemsRes.error);
-      return false;
-    }
+  return (itemsRes.data?.length ?? 0) > 0;
+}
 
-    shouldComplete = (itemsRes.data?.length ?? 0) > 0;
-  } else {
-    shouldComplete = false;
-  }
+/**
+ * word / freedom: one row per user per entry_date
+ */
+async function hasEntryRow(table: "word_entries" | "freedom_entries", uid: string, date: string): Promise<boolean> {
+  const res = await supabase
+    .schema("disciplined")
+    .from(table)
+    .select("id")
+    .eq("user_id", uid)
+    .eq("entry_date", date)
+    .limit(1);
 
-  // 5) If no change needed, stop
-  if (cur.data.completed === shouldComplete) {
-    return false;
-  }
+  if (res.error) throw res.error;
 
-  // 6) Apply auto state
-  const upd = await supabase
+  return (res.data?.length ?? 0) > 0;
+}
+
+/**
+ * custom: the day's custom_pillar_entries row checks every current checklist item
+ */
+async function hasCompletedChecklist(uid: string, pillar: PillarKey, date: string): Promise<boolean> {
+  const pillarRes = await supabase
     .schema("disciplined")
-    .from("daily_pillars")
-    .update({
-      completed: shouldComplete,
-      completed_at: shouldComplete ? new Date().toISOString() : null,
-      source: shouldComplete ? "auto" : null, // if not complete, clear auto source
-    })
-    .eq("entry_id", entryId)
-    .eq("pillar", pillar)
-    .select("completed")
-    .single<{ completed: boolean }>();
+    .from("user_pillars")
+    .select("checklist")
+    .eq("user_id", uid)
+    .eq("key", pillar)
+    .maybeSingle<{ checklist: { id: string }[] | null }>();
 
-  if (upd.error) {
-    console.error("recomputePillar: daily_pillars update error", upd.error);
-    return false;
-  }
+  if (pillarRes.error) throw pillarRes.error;
 
-  // 7) Notify Today page to refresh
-  if (typeof window !== "undefined") {
-    window.dispatchEvent(new CustomEvent("dl:pillar-updated", { detail: { pillar } }));
-  }
+  const items = Array.isArray(pillarRes.data?.checklist) ? pillarRes.data.checklist : [];
+  if (items.length === 0) return false;
 
-  return true;
-}
\ No newline at end of file
+  const entryRes = await supabase
+    .schema("disciplined")
+    .from("custom_pillar_entries")
+    .select("checked")
+    .eq("user_id", uid)
+    .eq("pillar", pillar)
+    .eq("entry_date", date)
+    .maybeSingle<{ checked: string[] | null }>();
+
+  if (entryRes.error) throw entryRes.error;
+
+  const checked = new Set(entryRes.data?.checked ?? []);
+  return items.every((i) => checked.has(i.id));
+}
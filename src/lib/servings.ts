@@ -0,0 +1,225 @@
+// src/lib/servings.ts
+
+/**
+ * Structured servings for foods and the unit math behind meal item quantities.
+ *
+ * A food's macros are for ONE base serving (foods.serving_amount + serving_unit, e.g. 100 g or
+ * 1 piece), optionally with its weight (serving_grams) and alternate servings ("1 cup = 240 g").
+ * meal_items.quantity stays "number of base servings" — the macro multiplier every total uses —
+ * while meal_items.amount + unit keep what the user typed (e.g. 150 g).
+ *
+ * Mass units convert freely; volume units convert among themselves, and to mass once some
+ * serving gives a weight for a volume (its density). Count units (piece, slice, …) only convert
+ * through a serving that defines them.
+ */
+
+export type UnitKind = "mass" | "volume" | "count";
+
+export type AltServing = { amount: number; unit: string; grams: number };
+
+export type ServingDef = {
+  amount: number;
+  unit: string;
+  grams: number | null; // weight of one base serving, when known
+  alternates: AltServing[];
+};
+
+// grams per unit
+export const MASS_UNITS: Record<string, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+
+// millilitres per unit
+export const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  fl_oz: 29.5735,
+  cup: 236.588,
+};
+
+// units offered when defining a food
+export const COMMON_UNITS = ["g", "oz", "ml", "cup", "tbsp", "tsp", "piece", "slice", "serving"];
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g",
+  grams: "g",
+  gr: "g",
+  kilogram: "kg",
+  kilograms: "kg",
+  ounce: "oz",
+  ounces: "oz",
+  pound: "lb",
+  pounds: "lb",
+  lbs: "lb",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  tbs: "tbsp",
+  "fl oz": "fl_oz",
+  floz: "fl_oz",
+  "fluid ounce": "fl_oz",
+  "fluid ounces": "fl_oz",
+  cups: "cup",
+  c: "cup",
+  pieces: "piece",
+  pc: "piece",
+  pcs: "piece",
+  each: "piece",
+  ea: "piece",
+  slices: "slice",
+  servings: "serving",
+};
+
+export function normalizeUnit(raw: string): string {
+  const u = raw.trim().toLowerCase().replace(/\.$/, "").replace(/\s+/g, " ");
+  return UNIT_ALIASES[u] ?? u;
+}
+
+export function unitKind(unit: string): UnitKind {
+  if (unit in MASS_UNITS) return "mass";
+  if (unit in VOLUME_UNITS) return "volume";
+  return "count";
+}
+
+function parseAmount(s: string): number | null {
+  const frac = s.match(/^(\d+)\/(\d+)$/);
+  const n = frac ? Number(frac[1]) / Number(frac[2]) : Number(s);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Best-effort parse of free-text serving sizes from before servings were structured:
+ * "100g", "1 cup", "2 tbsp (30 g)", "1/2 cup".
+ */
+export function parseServingText(text: string | null | undefined): Omit<ServingDef, "alternates"> | null {
+  const m = (text ?? "").trim().match(/^(\d+(?:\.\d+)?|\d+\/\d+)\s*([a-zA-Z][a-zA-Z .]*?)?\s*(?:\((\d+(?:\.\d+)?)\s*g\))?$/);
+  if (!m) return null;
+
+  const amount = parseAmount(m[1]);
+  if (amount === null) return null;
+
+  const unit = m[2] ? normalizeUnit(m[2]) : "serving";
+  const grams = m[3] ? Number(m[3]) : unitKind(unit) === "mass" ? amount * MASS_UNITS[unit] : null;
+
+  return { amount, unit, grams };
+}
+
+export function normalizeAltServings(raw: unknown): AltServing[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((a) => ({ amount: Number(a?.amount), unit: normalizeUnit(String(a?.unit ?? "")), grams: Number(a?.grams) }))
+    .filter((a) => a.unit && Number.isFinite(a.amount) && a.amount > 0 && Number.isFinite(a.grams) && a.grams > 0);
+}
+
+/**
+ * Serving definition of a food row: the structured columns, else the parsed serving_size text,
+ * else "1 serving".
+ */
+export function servingDefFor(food: {
+  serving_size?: string | null;
+  serving_amount?: number | null;
+  serving_unit?: string | null;
+  serving_grams?: number | null;
+  alt_servings?: unknown;
+}): ServingDef {
+  const alternates = normalizeAltServings(food.alt_servings);
+
+  if (food.serving_amount && food.serving_amount > 0 && food.serving_unit) {
+    const unit = normalizeUnit(food.serving_unit);
+    const grams =
+      food.serving_grams ?? (unitKind(unit) === "mass" ? food.serving_amount * MASS_UNITS[unit] : null);
+    return { amount: Number(food.serving_amount), unit, grams: grams === null ? null : Number(grams), alternates };
+  }
+
+  const parsed = parseServingText(food.serving_size);
+  if (parsed) return { ...parsed, grams: parsed.grams ?? food.serving_grams ?? null, alternates };
+
+  return { amount: 1, unit: "serving", grams: food.serving_grams ?? null, alternates };
+}
+
+function trimNumber(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+export function formatAmount(amount: number, unit: string): string {
+  return `${trimNumber(amount)} ${unit.replace("_", " ")}`;
+}
+
+export function formatServing(def: Omit<ServingDef, "alternates">): string {
+  const base = formatAmount(def.amount, def.unit);
+  return def.grams !== null && unitKind(def.unit) !== "mass" ? `${base} (${trimNumber(def.grams)} g)` : base;
+}
+
+// grams per ml, from any serving that weighs a volume
+function density(def: ServingDef): number | null {
+  const alt = def.alternates.find((a) => unitKind(a.unit) === "volume");
+  if (alt) return alt.grams / (alt.amount * VOLUME_UNITS[alt.unit]);
+
+  if (unitKind(def.unit) === "volume" && def.grams !== null) return def.grams / (def.amount * VOLUME_UNITS[def.unit]);
+  return null;
+}
+
+function gramsOf(def: ServingDef, amount: number, unit: string): number | null {
+  const kind = unitKind(unit);
+  if (kind === "mass") return amount * MASS_UNITS[unit];
+
+  const alt = def.alternates.find((a) => a.unit === unit);
+  if (alt) return (amount / alt.amount) * alt.grams;
+
+  if (unit === def.unit && def.grams !== null) return (amount / def.amount) * def.grams;
+
+  if (kind === "volume") {
+    const d = density(def);
+    if (d !== null) return amount * VOLUME_UNITS[unit] * d;
+  }
+
+  return null;
+}
+
+/**
+ * How many base servings `amount unit` is (the meal item quantity), or null when the unit
+ * can't be converted for this food.
+ */
+export function servingsMultiplier(def: ServingDef, amount: number, unit: string): number | null {
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+
+  unit = normalizeUnit(unit);
+  if (unit === "serving") return amount;
+  if (unit === def.unit) return amount / def.amount;
+
+  const kind = unitKind(unit);
+  if (kind !== "count" && kind === unitKind(def.unit)) {
+    const table = kind === "mass" ? MASS_UNITS : VOLUME_UNITS;
+    return (amount * table[unit]) / (def.amount * table[def.unit]);
+  }
+
+  const grams = gramsOf(def, amount, unit);
+  const baseGrams = def.grams ?? gramsOf(def, def.amount, def.unit);
+  if (grams === null || baseGrams === null || baseGrams <= 0) return null;
+
+  return grams / baseGrams;
+}
+
+/**
+ * Units a quantity can be entered in for this food, base unit first.
+ */
+export function entryUnits(def: ServingDef): string[] {
+  const candidates = [
+    def.unit,
+    "serving",
+    ...def.alternates.map((a) => a.unit),
+    ...Object.keys(MASS_UNITS),
+    ...Object.keys(VOLUME_UNITS),
+  ];
+
+  return [...new Set(candidates)].filter((u) => servingsMultiplier(def, 1, u) !== null);
+}
@@ -0,0 +1,36 @@
+// src/lib/strengthStats.test.ts
+import { describe, expect, it, vi } from "vitest";
+import type { ExerciseSession } from "@/lib/strengthStats";
+
+// strengthStats.ts only needs the browser client for fetchExerciseHistories
+vi.mock("@/lib/supabaseClient", () => ({ supabase: {} }));
+
+const { previousSet, setDiff } = await import("@/lib/strengthStats");
+
+describe("previousSet", () => {
+  // last session's second set was left blank, so only positions 0 and 2 were kept
+  const history: ExerciseSession[] = [
+    {
+      session_id: "s1",
+      local_date: "2026-10-12",
+      sets: [
+        { reps: 10, weight_lbs: 135, set_type: "working", set_index: 0 },
+        { reps: 8, weight_lbs: 155, set_type: "working", set_index: 2 },
+      ],
+    },
+  ];
+
+  it("matches the set at the same position, not the same array slot", () => {
+    expect(previousSet(history, 0)?.weight_lbs).toBe(135);
+    expect(previousSet(history, 1)).toBeNull();
+    expect(previousSet(history, 2)?.weight_lbs).toBe(155);
+  });
+
+  it("compares against the matched set", () => {
+    expect(setDiff({ reps: 9, weight_lbs: 160 }, previousSet(history, 2))).toEqual(["+5 lb", "+1 rep"]);
+  });
+
+  it("has no ghost without an earlier session", () => {
+    expect(previousSet([], 0)).toBeNull();
+  });
+});
@@ -0,0 +1,314 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { Exercise } from "@/lib/exercises";
+import type { SetType } from "@/lib/trainV2DetailsData";
+
+/**
+ * Per-exercise history, estimated 1RM, personal records and next-session suggestions,
+ * computed from logged train_sets (reps / weight_lbs; planned targets are ignored). Warmup sets
+ * are kept for ghost values but left out of every statistic.
+ *
+ * An exercise is identified by its catalog id (train_exercises.exercise_id), or by its name
+ * (case-insensitive) for rows logged before the catalog existed.
+ */
+
+// set_index = position among the exercise's sets in that session, blank sets included (history only)
+export type LoggedSet = { reps: number | null; weight_lbs: number | null; set_type?: SetType; set_index?: number };
+
+export type ExerciseSession = {
+  session_id: string;
+  local_date: string; // YYYY-MM-DD
+  sets: LoggedSet[];
+};
+
+export type ExerciseRef = { exercise_id: string | null; name: string };
+
+export type PersonalRecords = {
+  maxWeight: number | null;
+  best1RM: number | null;
+  bestVolume: number | null; // one session, sum of weight × reps
+};
+
+export type PRKind = "weight" | "reps" | "e1rm";
+
+export const PR_LABELS: Record<PRKind, string> = {
+  weight: "Weight PR",
+  reps: "Rep PR",
+  e1rm: "1RM PR",
+};
+
+export type Suggestion = { weight_lbs: number | null; reps: number; reason: string };
+
+// double progression: add reps up to the ceiling, then add weight and drop back to the floor
+const REP_FLOOR = 8;
+const REP_CEILING = 12;
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+export function historyKey(ref: ExerciseRef): string {
+  return ref.exercise_id ?? `name:${ref.name.trim().toLowerCase()}`;
+}
+
+/**
+ * Epley: w × (1 + r / 30). A single rep is the 1RM itself.
+ */
+export function epley1RM(weight: number, reps: number): number {
+  if (reps <= 0) return 0;
+  if (reps === 1) return weight;
+  return weight * (1 + reps / 30);
+}
+
+/**
+ * Brzycki: w × 36 / (37 − r). Only meaningful up to ~10 reps; null past 36.
+ */
+export function brzycki1RM(weight: number, reps: number): number | null {
+  if (reps <= 0 || reps >= 37) return null;
+  return (weight * 36) / (37 - reps);
+}
+
+// non-warmup sets with both reps and a positive weight (bodyweight sets have no 1RM)
+function weighted(sets: LoggedSet[]): { reps: number; weight: number }[] {
+  return sets
+    .filter((s) => s.set_type !== "warmup" && (s.reps ?? 0) > 0 && (s.weight_lbs ?? 0) > 0)
+    .map((s) => ({ reps: Number(s.reps), weight: Number(s.weight_lbs) }));
+}
+
+export function sessionVolume(sets: LoggedSet[]): number {
+  return weighted(sets).reduce((a, s) => a + s.weight * s.reps, 0);
+}
+
+export function best1RMOf(sets: LoggedSet[]): number | null {
+  const values = weighted(sets).map((s) => epley1RM(s.weight, s.reps));
+  return values.length ? Math.max(...values) : null;
+}
+
+/**
+ * Heaviest set, then most reps at that weight.
+ */
+export function topSet(sets: LoggedSet[]): { reps: number; weight: number } | null {
+  const w = weighted(sets);
+  if (w.length === 0) return null;
+  return w.reduce((best, s) => (s.weight > best.weight || (s.weight === best.weight && s.reps > best.reps) ? s : best));
+}
+
+export function personalRecords(history: ExerciseSession[]): PersonalRecords {
+  let maxWeight: number | null = null;
+  let best1RM: number | null = null;
+  let bestVolume: number | null = null;
+
+  for (const h of history) {
+    for (const s of weighted(h.sets)) {
+      maxWeight = Math.max(maxWeight ?? 0, s.weight);
+      best1RM = Math.max(best1RM ?? 0, epley1RM(s.weight, s.reps));
+    }
+    const volume = sessionVolume(h.sets);
+    if (volume > 0) bestVolume = Math.max(bestVolume ?? 0, volume);
+  }
+
+  return { maxWeight, best1RM, bestVolume };
+}
+
+/**
+ * Records a set beats, compared with earlier sessions only. Nothing on the first session
+ * (every set would be a "record"). reps = more reps than ever at this weight or heavier.
+ */
+export function setPRs(set: LoggedSet, history: ExerciseSession[]): PRKind[] {
+  const [s] = weighted([set]);
+  if (!s || history.length === 0) return [];
+
+  const prior = history.flatMap((h) => weighted(h.sets));
+  if (prior.length === 0) return [];
+
+  const records = personalRecords(history);
+  const out: PRKind[] = [];
+
+  if (s.weight > (records.maxWeight ?? 0)) out.push("weight");
+
+  const repsAtWeight = Math.max(0, ...prior.filter((p) => p.weight >= s.weight).map((p) => p.reps));
+  if (s.weight <= (records.maxWeight ?? 0) && s.reps > repsAtWeight) out.push("reps");
+
+  if (epley1RM(s.weight, s.reps) > (records.best1RM ?? 0) + 0.5) out.push("e1rm");
+
+  return out;
+}
+
+/**
+ * The same set (by position) in the most recent earlier session: the "ghost" shown while logging.
+ */
+export function previousSet(history: ExerciseSession[], index: number): LoggedSet | null {
+  return history[0]?.sets.find((s) => s.set_index === index) ?? null;
+}
+
+/**
+ * Change against the previous set, e.g. ["+5 lb", "-1 rep"]; empty when nothing comparable changed.
+ */
+export function setDiff(current: LoggedSet, previous: LoggedSet | null): string[] {
+  if (!previous) return [];
+  const out: string[] = [];
+
+  if (current.weight_lbs !== null && previous.weight_lbs !== null) {
+    const d = Math.round((Number(current.weight_lbs) - Number(previous.weight_lbs)) * 10) / 10;
+    if (d !== 0) out.push(`${d > 0 ? "+" : ""}${d} lb`);
+  }
+
+  if (current.reps !== null && previous.reps !== null) {
+    const d = Number(current.reps) - Number(previous.reps);
+    if (d !== 0) out.push(`${d > 0 ? "+" : ""}${d} rep${Math.abs(d) === 1 ? "" : "s"}`);
+  }
+
+  return out;
+}
+
+/**
+ * Plate jump for the next suggestion: bigger for barbell lower-body lifts.
+ */
+export function weightIncrement(exercise: Pick<Exercise, "equipment" | "primary_muscles"> | null | undefined): number {
+  if (!exercise) return 5;
+  const lower = exercise.primary_muscles.some((m) => m === "quads" || m === "glutes" || m === "hamstrings");
+  return exercise.equipment === "barbell" && lower ? 10 : 5;
+}
+
+/**
+ * Next session's working set from the last one. With a target rep count: every set at the
+ * top weight hit it → add weight, otherwise repeat. Without one: double progression between
+ * REP_FLOOR and REP_CEILING. Bodyweight work just adds a rep.
+ */
+export function suggestNext(
+  last: ExerciseSession | null | undefined,
+  opts: { targetReps?: number | null; increment: number }
+): Suggestion | null {
+  if (!last) return null;
+
+  const top = topSet(last.sets);
+  if (!top) {
+    const reps = Math.max(0, ...last.sets.filter((s) => s.set_type !== "warmup").map((s) => s.reps ?? 0));
+    return reps > 0 ? { weight_lbs: null, reps: reps + 1, reason: `${reps} reps last time` } : null;
+  }
+
+  const atTop = weighted(last.sets).filter((s) => s.weight === top.weight);
+  const minReps = Math.min(...atTop.map((s) => s.reps));
+  const target = opts.targetReps ?? null;
+
+  if (target !== null && target > 0) {
+    if (minReps >= target) {
+      return { weight_lbs: top.weight + opts.increment, reps: target, reason: `hit ${target} reps on every set` };
+    }
+    return { weight_lbs: top.weight, reps: target, reason: `repeat until every set hits ${target}` };
+  }
+
+  if (minReps >= REP_CEILING) {
+    return { weight_lbs: top.weight + opts.increment, reps: REP_FLOOR, reason: `${REP_CEILING}+ reps on every set` };
+  }
+  return { weight_lbs: top.weight, reps: minReps + 1, reason: `${minReps} reps last time` };
+}
+
+/**
+ * Earlier sessions of each exercise (newest first), by historyKey. `excludeSessionId` is left out
+ * so the current workout isn't its own history, and days after `throughDate` so editing an old
+ * day doesn't compare against the future. Only the latest `limit` days per exercise are read.
+ */
+export async function fetchExerciseHistories(
+  refs: ExerciseRef[],
+  opts: { excludeSessionId?: string; throughDate?: string; limit?: number } = {}
+): Promise<Record<string, ExerciseSession[]>> {
+  const uid = await requireUid();
+  const out: Record<string, ExerciseSession[]> = {};
+  if (refs.length === 0) return out;
+
+  const limit = opts.limit ?? 50;
+  const unique = [...new Map(refs.map((r) => [historyKey(r), r])).values()];
+
+  type DayRow = {
+    local_date: string;
+    train_sessions: { id: string; train_exercises: { id: string }[] }[];
+  };
+  type ExRow = { id: string; session_id: string; local_date: string; key: string };
+
+  // newest days first, limited in the database; !inner drops days without the exercise
+  const perRef = await Promise.all(
+    unique.map(async (ref): Promise<ExRow[]> => {
+      let q = supabase
+        .schema("disciplined")
+        .from("train_days")
+        .select("local_date,train_sessions!inner(id,train_exercises!inner(id))")
+        .eq("user_id", uid);
+
+      q = ref.exercise_id
+        ? q.eq("train_sessions.train_exercises.exercise_id", ref.exercise_id)
+        : q
+            .is("train_sessions.train_exercises.exercise_id", null)
+            .ilike("train_sessions.train_exercises.name", ref.name.trim().replace(/[\\%_]/g, "\\$&"));
+      if (opts.excludeSessionId) q = q.neq("train_sessions.id", opts.excludeSessionId);
+      if (opts.throughDate) q = q.lte("local_date", opts.throughDate);
+
+      const res = await q.order("local_date", { ascending: false }).limit(limit);
+      if (res.error) throw res.error;
+
+      const key = historyKey(ref);
+      return ((res.data ?? []) as DayRow[]).flatMap((d) =>
+        d.train_sessions.flatMap((sess) =>
+          sess.train_exercises.map((ex) => ({ id: ex.id, session_id: sess.id, local_date: d.local_date, key }))
+        )
+      );
+    })
+  );
+
+  const rows = perRef.flat();
+  if (rows.length === 0) return out;
+
+  const setRes = await supabase
+    .schema("disciplined")
+    .from("train_sets")
+    .select("exercise_id,reps,weight_lbs,set_type")
+    .eq("user_id", uid)
+    .in("exercise_id", rows.map((r) => r.id))
+    .order("sort_order", { ascending: true });
+  if (setRes.error) throw setRes.error;
+
+  // blank sets are dropped but still count toward the positions of the sets after them
+  const setsByRow = new Map<string, LoggedSet[]>();
+  const sizeByRow = new Map<string, number>();
+  for (const s of (setRes.data ?? []) as ({ exercise_id: string } & LoggedSet)[]) {
+    const set_index = sizeByRow.get(s.exercise_id) ?? 0;
+    sizeByRow.set(s.exercise_id, set_index + 1);
+    if (s.reps === null && s.weight_lbs === null) continue;
+    setsByRow.set(s.exercise_id, [
+      ...(setsByRow.get(s.exercise_id) ?? []),
+      { reps: s.reps, weight_lbs: s.weight_lbs, set_type: s.set_type, set_index },
+    ]);
+  }
+
+  // one entry per key + session (an exercise logged twice in a workout is merged, positions continuing)
+  const bySession = new Map<string, ExerciseSession & { key: string; size: number }>();
+  for (const r of rows) {
+    const sets = setsByRow.get(r.id);
+    if (!sets) continue;
+
+    const id = `${r.key}|${r.session_id}`;
+    const entry = bySession.get(id) ?? {
+      key: r.key,
+      session_id: r.session_id,
+      local_date: r.local_date,
+      sets: [],
+      size: 0,
+    };
+    entry.sets.push(...sets.map((s) => ({ ...s, set_index: entry.size + (s.set_index ?? 0) })));
+    entry.size += sizeByRow.get(r.id) ?? 0;
+    bySession.set(id, entry);
+  }
+
+  for (const e of bySession.values()) {
+    (out[e.key] ??= []).push({ session_id: e.session_id, local_date: e.local_date, sets: e.sets });
+  }
+  for (const key of Object.keys(out)) {
+    out[key] = out[key].sort((a, b) => b.local_date.localeCompare(a.local_date)).slice(0, limit);
+  }
+
+  return out;
+}
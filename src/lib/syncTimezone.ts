@@ -1,16 +1,8 @@
 import { supabase } from "@/lib/supabaseClient";
+import { getBrowserTimezone, LS_SYNCED_TZ_KEY, setCachedBackfillGraceHours, setCachedDayStartHour } from "@/lib/localDay";
 
 const LS_KEY = "dl:lastTimezoneSyncAt";
-const LS_TZ_KEY = "dl:lastTimezoneSynced";
-
-function getBrowserTimezone(): string | null {
-  try {
-    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
-    return typeof tz === "string" && tz.length > 0 ? tz : null;
-  } catch {
-    return null;
-  }
-}
+const LS_TZ_KEY = LS_SYNCED_TZ_KEY;
 
 // throttle so we don’t hit DB every navigation
 function shouldSync(tz: string): boolean {
@@ -59,4 +51,31 @@ export async function syncTimezoneOnce(): Promise<void> {
   localStorage.setItem(LS_TZ_KEY, tz);
 
   console.log("[timezone-sync] updated:", tz);
-}
\ No newline at end of file
+}
+
+/**
+ * Pull user_settings.day_start_hour and backfill_grace_hours into localStorage so
+ * todayLocalISO() / isEditableDate() can stay synchronous. Cheap read; safe on every app start.
+ */
+export async function syncDaySettings(): Promise<void> {
+  if (typeof window === "undefined") return;
+
+  const { data } = await supabase.auth.getSession();
+  const uid = data.session?.user?.id;
+  if (!uid) return;
+
+  const { data: row, error } = await supabase
+    .schema("disciplined")
+    .from("user_settings")
+    .select("day_start_hour,backfill_grace_hours")
+    .eq("user_id", uid)
+    .maybeSingle<{ day_start_hour: number | null; backfill_grace_hours: number | null }>();
+
+  if (error) {
+    console.warn("[day-start-sync] failed", error.message);
+    return;
+  }
+
+  setCachedDayStartHour(row?.day_start_hour ?? 0);
+  setCachedBackfillGraceHours(row?.backfill_grace_hours ?? null);
+}
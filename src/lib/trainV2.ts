@@ -17,6 +17,7 @@ export type TrainSession = {
   title: string | null;
   notes: string | null;
   duration_sec: number | null;
+  template_id?: string | null; // workout template it was started from
   created_at: string;
   updated_at: string;
 };
@@ -1,5 +1,6 @@
 // src/lib/trainV2Data.ts
 import { supabase } from "@/lib/supabaseClient";
+import { recomputePillar } from "@/lib/recomputePillar";
 import type { BodyMetrics, TrainDay, TrainSession, TrainSessionType } from "./trainV2";
 
 async function requireUserId(): Promise<string> {
@@ -40,8 +41,37 @@ export async function getOrCreateTrainDay(localDate: string): Promise<TrainDay>
   return created.data;
 }
 
+/**
+ * Local date of the train_days row a session belongs to (for pillar recompute).
+ */
+export async function sessionLocalDate(uid: string, sessionId: string): Promise<string | null> {
+  const sess = await supabase
+    .schema("disciplined")
+    .from("train_sessions")
+    .select("day_id")
+    .eq("id", sessionId)
+    .eq("user_id", uid)
+    .maybeSingle<{ day_id: string }>();
+
+  if (sess.error) throw sess.error;
+  if (!sess.data) return null;
+
+  const day = await supabase
+    .schema("disciplined")
+    .from("train_days")
+    .select("local_date")
+    .eq("id", sess.data.day_id)
+    .eq("user_id", uid)
+    .maybeSingle<{ local_date: string }>();
+
+  if (day.error) throw day.error;
+  return day.data?.local_date ?? null;
+}
+
 /**
  * SESSIONS
+ * update/delete recompute the Train pillar for the session's day
+ * (auto-complete on duration, auto-revoke when the last session goes away).
  */
 export async function listSessions(dayId: string): Promise<TrainSession[]> {
   const uid = await requireUserId();
@@ -58,7 +88,11 @@ export async function listSessions(dayId: string): Promise<TrainSession[]> {
   return (res.data ?? []) as TrainSession[];
 }
 
-export async function createSession(dayId: string, sessionType: TrainSessionType): Promise<TrainSession> {
+export async function createSession(
+  dayId: string,
+  sessionType: TrainSessionType,
+  init: { title?: string | null; template_id?: string | null } = {}
+): Promise<TrainSession> {
   const uid = await requireUserId();
 
   // IMPORTANT: include user_id so RLS WITH CHECK passes
@@ -70,6 +104,7 @@ export async function createSession(dayId: string, sessionType: TrainSessionType
       day_id: dayId,
       session_type: sessionType,
       started_at: new Date().toISOString(),
+      ...init,
     })
     .select("*")
     .single<TrainSession>();
@@ -92,11 +127,17 @@ export async function updateSession(
     .eq("user_id", uid);
 
   if (res.error) throw res.error;
+
+  const localDate = await sessionLocalDate(uid, sessionId);
+  if (localDate) await recomputePillar("train", localDate);
 }
 
 export async function deleteSession(sessionId: string): Promise<void> {
   const uid = await requireUserId();
 
+  // resolve the day before the row is gone
+  const localDate = await sessionLocalDate(uid, sessionId);
+
   const res = await supabase
     .schema("disciplined")
     .from("train_sessions")
@@ -105,6 +146,8 @@ export async function deleteSession(sessionId: string): Promise<void> {
     .eq("user_id", uid);
 
   if (res.error) throw res.error;
+
+  if (localDate) await recomputePillar("train", localDate);
 }
 
 /**
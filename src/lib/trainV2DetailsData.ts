@@ -1,4 +1,6 @@
 import { supabase } from "@/lib/supabaseClient";
+import { recomputePillar } from "@/lib/recomputePillar";
+import { sessionLocalDate } from "@/lib/trainV2Data";
 
 async function requireUserId(): Promise<string> {
   const { data } = await supabase.auth.getUser();
@@ -56,6 +58,10 @@ export async function updateWalkDetails(sessionId: string, patch: { steps?: numb
     .eq("user_id", uid);
 
   if (upd.error) throw upd.error;
+
+  // steps can satisfy a Train criterion
+  const localDate = await sessionLocalDate(uid, sessionId);
+  if (localDate) await recomputePillar("train", localDate);
 }
 
 /** ---------------------------
@@ -66,13 +72,26 @@ export type TrainExerciseRow = {
   id: string;
   user_id: string;
   session_id: string;
+  exercise_id: string | null; // disciplined.exercises; null for names logged before the catalog
   name: string;
   sort_order: number;
+  group_label: string | null; // same letter = superset / circuit
   notes: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type SetType = "warmup" | "working" | "drop" | "failure";
+
+export const SET_TYPES: { key: SetType; label: string }[] = [
+  { key: "warmup", label: "Warmup" },
+  { key: "working", label: "Working" },
+  { key: "drop", label: "Drop set" },
+  { key: "failure", label: "To failure" },
+];
+
+export const SUPERSET_LABELS = ["A", "B", "C", "D", "E", "F"];
+
 export type TrainSetRow = {
   id: string;
   user_id: string;
@@ -80,11 +99,22 @@ export type TrainSetRow = {
   sort_order: number;
   reps: number | null;
   weight_lbs: number | null;
+  target_reps: number | null; // from the workout template, see workoutPrograms.ts
+  target_weight_lbs: number | null;
+  set_type: SetType;
+  rpe: number | null; // 1..10 in half steps
+  rir: number | null; // reps in reserve
+  tempo: string | null; // e.g. "3010"
+  rest_sec: number | null;
   notes: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type SetPatch = Partial<
+  Pick<TrainSetRow, "reps" | "weight_lbs" | "notes" | "set_type" | "rpe" | "rir" | "tempo" | "rest_sec">
+>;
+
 export async function listExercises(sessionId: string): Promise<TrainExerciseRow[]> {
   const uid = await requireUserId();
   const res = await supabase
@@ -99,7 +129,14 @@ export async function listExercises(sessionId: string): Promise<TrainExerciseRow
   return res.data ?? [];
 }
 
-export async function addExercise(sessionId: string, name: string): Promise<TrainExerciseRow> {
+/**
+ * name is kept as a snapshot of what was picked; exerciseId links it to the catalog.
+ */
+export async function addExercise(
+  sessionId: string,
+  name: string,
+  exerciseId: string | null = null
+): Promise<TrainExerciseRow> {
   const uid = await requireUserId();
 
   const current = await listExercises(sessionId);
@@ -108,7 +145,7 @@ export async function addExercise(sessionId: string, name: string): Promise<Trai
   const created = await supabase
     .schema("disciplined")
     .from("train_exercises")
-    .insert({ user_id: uid, session_id: sessionId, name, sort_order })
+    .insert({ user_id: uid, session_id: sessionId, exercise_id: exerciseId, name, sort_order })
     .select("*")
     .single<TrainExerciseRow>();
 
@@ -116,6 +153,18 @@ export async function addExercise(sessionId: string, name: string): Promise<Trai
   return created.data;
 }
 
+export async function updateExercise(exerciseId: string, patch: Partial<Pick<TrainExerciseRow, "group_label" | "notes">>) {
+  const uid = await requireUserId();
+  const res = await supabase
+    .schema("disciplined")
+    .from("train_exercises")
+    .update({ ...patch })
+    .eq("id", exerciseId)
+    .eq("user_id", uid);
+
+  if (res.error) throw res.error;
+}
+
 export async function deleteExercise(exerciseId: string) {
   const uid = await requireUserId();
   const res = await supabase
@@ -142,7 +191,13 @@ export async function listSets(exerciseId: string): Promise<TrainSetRow[]> {
   return res.data ?? [];
 }
 
-export async function addSet(exerciseId: string): Promise<TrainSetRow> {
+/**
+ * target = what to aim for (template target or progression suggestion); reps / weight_lbs stay empty until logged.
+ */
+export async function addSet(
+  exerciseId: string,
+  target: { reps: number | null; weight_lbs: number | null } | null = null
+): Promise<TrainSetRow> {
   const uid = await requireUserId();
 
   const current = await listSets(exerciseId);
@@ -151,7 +206,16 @@ export async function addSet(exerciseId: string): Promise<TrainSetRow> {
   const created = await supabase
     .schema("disciplined")
     .from("train_sets")
-    .insert({ user_id: uid, exercise_id: exerciseId, sort_order, reps: null, weight_lbs: null, notes: null })
+    .insert({
+      user_id: uid,
+      exercise_id: exerciseId,
+      sort_order,
+      reps: null,
+      weight_lbs: null,
+      target_reps: target?.reps ?? null,
+      target_weight_lbs: target?.weight_lbs ?? null,
+      notes: null,
+    })
     .select("*")
     .single<TrainSetRow>();
 
@@ -159,7 +223,7 @@ export async function addSet(exerciseId: string): Promise<TrainSetRow> {
   return created.data;
 }
 
-export async function updateSet(setId: string, patch: Partial<Pick<TrainSetRow, "reps" | "weight_lbs" | "notes">>) {
+export async function updateSet(setId: string, patch: SetPatch) {
   const uid = await requireUserId();
   const res = await supabase
     .schema("disciplined")
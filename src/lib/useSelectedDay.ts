@@ -0,0 +1,67 @@
+// src/lib/useSelectedDay.ts
+"use client";
+
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { earliestEditableDateISO, isEditableDate, todayLocalISO } from "@/lib/localDay";
+import { isISODate } from "@/lib/pillarTypes";
+
+// replaceState fires no event, so setDate notifies subscribers itself
+const urlDateListeners = new Set<() => void>();
+
+function subscribeUrlDate(onChange: () => void) {
+  urlDateListeners.add(onChange);
+  window.addEventListener("popstate", onChange);
+  return () => {
+    urlDateListeners.delete(onChange);
+    window.removeEventListener("popstate", onChange);
+  };
+}
+
+function readUrlDate(): string | null {
+  return new URLSearchParams(window.location.search).get("date");
+}
+
+/**
+ * The day a pillar page is showing: today by default, or ?date=YYYY-MM-DD for back-fill.
+ *
+ * The date lives in the URL so moving between Today and a pillar page keeps the
+ * same day selected. Any past day can be viewed; `editable` says whether it can
+ * still be changed (future days never, older days only inside the grace window).
+ * The server has no URL to read, so the first client render shows today too and
+ * switches to ?date= right after hydration.
+ */
+export function useSelectedDay() {
+  const today = useMemo(() => todayLocalISO(), []);
+  const fromUrl = useSyncExternalStore(subscribeUrlDate, readUrlDate, () => null);
+  const date = isISODate(fromUrl) && fromUrl <= today ? fromUrl : today;
+
+  const setDate = useCallback(
+    (next: string) => {
+      if (!isISODate(next)) return;
+      const clamped = next > today ? today : next;
+
+      const url = new URL(window.location.href);
+      if (clamped === today) url.searchParams.delete("date");
+      else url.searchParams.set("date", clamped);
+      window.history.replaceState(window.history.state, "", url);
+      urlDateListeners.forEach((l) => l());
+    },
+    [today]
+  );
+
+  return {
+    date,
+    today,
+    isToday: date === today,
+    editable: isEditableDate(date),
+    earliest: earliestEditableDateISO(),
+    setDate,
+  };
+}
+
+/**
+ * Appends ?date= to a link when a past day is selected.
+ */
+export function withDate(href: string, date: string, today: string): string {
+  return date === today ? href : `${href}?date=${date}`;
+}
@@ -0,0 +1,329 @@
+// src/lib/userPillars.ts
+import { supabase } from "@/lib/supabaseClient";
+import { todayLocalISO } from "@/lib/localDay";
+import { recomputePillar } from "@/lib/recomputePillar";
+import {
+  BUILTIN_PILLARS,
+  PILLAR_KEY_RE,
+  type PillarChecklistItem,
+  type PillarKey,
+  type UserPillar,
+} from "@/lib/pillarTypes";
+
+/**
+ * The signed-in user's pillar catalog (disciplined.user_pillars).
+ *
+ * Built-ins are seeded on first read (same defaults as disciplined.ensure_user_pillars).
+ * Pillars are archived, never deleted, so history keeps its label and emoji.
+ * Every change fires "dl:pillars-changed" so the nav and Today card can reload.
+ */
+
+export const PILLARS_CHANGED_EVENT = "dl:pillars-changed";
+
+export type CustomPillarEntry = {
+  id: string;
+  user_id: string;
+  pillar: PillarKey;
+  entry_date: string; // YYYY-MM-DD (local day)
+  checked: string[]; // checklist item ids
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const PILLAR_COLUMNS = "key,label,emoji,sort_order,is_builtin,archived_at,checklist,rest_weekdays";
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+function normalizeChecklist(raw: unknown): PillarChecklistItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((i) => typeof i?.id === "string" && typeof i?.label === "string")
+    .map((i) => ({ id: i.id as string, label: i.label as string }));
+}
+
+function normalizeWeekdays(raw: unknown): number[] {
+  if (!Array.isArray(raw)) return [];
+  return [...new Set(raw.map(Number).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b);
+}
+
+function fromRow(row: UserPillar): UserPillar {
+  return { ...row, checklist: normalizeChecklist(row.checklist), rest_weekdays: normalizeWeekdays(row.rest_weekdays) };
+}
+
+export function emitPillarsChanged() {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(PILLARS_CHANGED_EVENT));
+}
+
+/**
+ * Catalog in display order. Archived pillars are left out unless asked for.
+ */
+export async function listUserPillars(opts: { includeArchived?: boolean } = {}): Promise<UserPillar[]> {
+  const uid = await requireUid();
+
+  const load = async () => {
+    const res = await supabase
+      .schema("disciplined")
+      .from("user_pillars")
+      .select(PILLAR_COLUMNS)
+      .eq("user_id", uid)
+      .order("sort_order", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (res.error) throw res.error;
+    return ((res.data ?? []) as UserPillar[]).map(fromRow);
+  };
+
+  let rows = await load();
+
+  if (rows.length === 0) {
+    const seeded = await supabase
+      .schema("disciplined")
+      .from("user_pillars")
+      .upsert(
+        BUILTIN_PILLARS.map(({ key, label, emoji, sort_order }) => ({
+          user_id: uid,
+          key,
+          label,
+          emoji,
+          sort_order,
+          is_builtin: true,
+        })),
+        { onConflict: "user_id,key", ignoreDuplicates: true }
+      );
+
+    if (seeded.error) throw seeded.error;
+    rows = await load();
+  }
+
+  return opts.includeArchived ? rows : rows.filter((p) => !p.archived_at);
+}
+
+export async function getUserPillar(key: PillarKey): Promise<UserPillar | null> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("user_pillars")
+    .select(PILLAR_COLUMNS)
+    .eq("user_id", uid)
+    .eq("key", key)
+    .maybeSingle<UserPillar>();
+
+  if (res.error) throw res.error;
+  return res.data ? fromRow(res.data) : null;
+}
+
+/**
+ * "Family Time" -> "family_time" (suffixed when taken).
+ */
+function slugifyKey(label: string, taken: Set<string>): string {
+  let base = label
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/^[^a-z]+/, "")
+    .slice(0, 28);
+
+  if (!base) base = "pillar";
+
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}_${n}`;
+
+  if (!PILLAR_KEY_RE.test(key)) throw new Error("Could not derive a key for that name.");
+  return key;
+}
+
+export async function createCustomPillar(input: { label: string; emoji?: string }): Promise<UserPillar> {
+  const uid = await requireUid();
+
+  const label = input.label.trim();
+  if (!label) throw new Error("Name is required.");
+  if (label.length > 40) throw new Error("Name must be 40 characters or fewer.");
+
+  const all = await listUserPillars({ includeArchived: true });
+  const key = slugifyKey(label, new Set(all.map((p) => p.key)));
+  const sort_order = all.reduce((m, p) => Math.max(m, p.sort_order), 0) + 10;
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("user_pillars")
+    .insert({
+      user_id: uid,
+      key,
+      label,
+      emoji: input.emoji?.trim() || "⭐",
+      sort_order,
+      is_builtin: false,
+    })
+    .select(PILLAR_COLUMNS)
+    .single<UserPillar>();
+
+  if (res.error) throw res.error;
+
+  emitPillarsChanged();
+  return fromRow(res.data);
+}
+
+export async function updateUserPillar(
+  key: PillarKey,
+  patch: Partial<Pick<UserPillar, "label" | "emoji" | "checklist" | "rest_weekdays">>
+): Promise<void> {
+  const uid = await requireUid();
+
+  if (patch.label !== undefined) {
+    patch = { ...patch, label: patch.label.trim() };
+    if (!patch.label) throw new Error("Name is required.");
+  }
+
+  if (patch.rest_weekdays !== undefined) {
+    const rest_weekdays = normalizeWeekdays(patch.rest_weekdays);
+    if (rest_weekdays.length === 7) throw new Error("At least one day a week has to count.");
+    patch = { ...patch, rest_weekdays };
+  }
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("user_pillars")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("user_id", uid)
+    .eq("key", key);
+
+  if (res.error) throw res.error;
+
+  emitPillarsChanged();
+
+  // a changed checklist can complete or revoke today
+  if (patch.checklist) await recomputePillar(key);
+}
+
+export async function setPillarArchived(key: PillarKey, archived: boolean): Promise<void> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("user_pillars")
+    .update({ archived_at: archived ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+    .eq("user_id", uid)
+    .eq("key", key);
+
+  if (res.error) throw res.error;
+
+  emitPillarsChanged();
+}
+
+/**
+ * Swaps a pillar with its active neighbour (direction -1 = up, 1 = down).
+ */
+export async function moveUserPillar(key: PillarKey, direction: -1 | 1): Promise<void> {
+  const uid = await requireUid();
+
+  const active = await listUserPillars();
+  const i = active.findIndex((p) => p.key === key);
+  const j = i + direction;
+  if (i < 0 || j < 0 || j >= active.length) return;
+
+  // re-space the list so equal sort_orders can't make the swap a no-op
+  const reordered = [...active];
+  [reordered[i], reordered[j]] = [reordered[j], reordered[i]];
+
+  for (let n = 0; n < reordered.length; n++) {
+    const sort_order = (n + 1) * 10;
+    if (reordered[n].sort_order === sort_order) continue;
+
+    const res = await supabase
+      .schema("disciplined")
+      .from("user_pillars")
+      .update({ sort_order })
+      .eq("user_id", uid)
+      .eq("key", reordered[n].key);
+
+    if (res.error) throw res.error;
+  }
+
+  emitPillarsChanged();
+}
+
+/* ----------------------------------------
+ * Custom pillar check-ins
+ * ---------------------------------------- */
+
+export async function getCustomPillarEntry(
+  pillar: PillarKey,
+  date: string = todayLocalISO()
+): Promise<CustomPillarEntry | null> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("custom_pillar_entries")
+    .select("*")
+    .eq("user_id", uid)
+    .eq("pillar", pillar)
+    .eq("entry_date", date)
+    .maybeSingle<CustomPillarEntry>();
+
+  if (res.error) throw res.error;
+  return res.data ? { ...res.data, checked: Array.isArray(res.data.checked) ? res.data.checked : [] } : null;
+}
+
+/**
+ * Saves the day's checklist, then lets the recompute path complete/revoke the pillar.
+ */
+export async function saveCustomPillarEntry(
+  pillar: PillarKey,
+  date: string,
+  input: { checked: string[]; notes: string | null }
+): Promise<CustomPillarEntry> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("custom_pillar_entries")
+    .upsert(
+      {
+        user_id: uid,
+        pillar,
+        entry_date: date,
+        checked: input.checked,
+        notes: input.notes?.trim() ? input.notes.trim() : null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,pillar,entry_date" }
+    )
+    .select("*")
+    .single<CustomPillarEntry>();
+
+  if (res.error) throw res.error;
+
+  await recomputePillar(pillar, date);
+  return res.data;
+}
+
+/**
+ * Recent check-ins for one custom pillar (latest first).
+ */
+export async function listCustomPillarEntries(pillar: PillarKey, limit = 60): Promise<CustomPillarEntry[]> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("custom_pillar_entries")
+    .select("*")
+    .eq("user_id", uid)
+    .eq("pillar", pillar)
+    .order("entry_date", { ascending: false })
+    .limit(limit);
+
+  if (res.error) throw res.error;
+  return (res.data ?? []) as CustomPillarEntry[];
+}
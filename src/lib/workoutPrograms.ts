@@ -0,0 +1,392 @@
+import { supabase } from "@/lib/supabaseClient";
+import { createSession } from "@/lib/trainV2Data";
+import type { TrainSession } from "@/lib/trainV2";
+
+/**
+ * Workout templates (disciplined.workout_templates) and programs (disciplined.workout_programs).
+ *
+ * A program is a cycle of days repeating from start_date, each a template or a rest day.
+ * Starting a template creates a strength session whose sets carry the template's targets
+ * (target_reps / target_weight_lbs) and stay empty until actually lifted.
+ */
+
+export type TemplateExercise = {
+  exercise_id: string | null; // disciplined.exercises
+  name: string;
+  sets: number;
+  reps: number | null;
+  weight_lbs: number | null;
+};
+
+export type WorkoutTemplate = {
+  id: string;
+  name: string;
+  exercises: TemplateExercise[];
+  notes: string | null;
+  last_used_at: string | null;
+  created_at: string;
+};
+
+export type WorkoutProgram = {
+  id: string;
+  name: string;
+  days: (string | null)[]; // template id per day of the cycle, null = rest
+  start_date: string; // YYYY-MM-DD, day 1 of the cycle
+  is_active: boolean;
+  created_at: string;
+};
+
+export const MAX_PROGRAM_DAYS = 84;
+
+// common cycle shapes offered when creating a program
+export const PROGRAM_LENGTHS: { days: number; label: string }[] = [
+  { days: 7, label: "Weekly split (7 days)" },
+  { days: 3, label: "3-day rotation (e.g. push / pull / legs)" },
+  { days: 14, label: "2-week cycle" },
+  { days: 28, label: "4-week block (e.g. 5/3/1)" },
+];
+
+const TEMPLATE_COLUMNS = "id,name,exercises,notes,last_used_at,created_at";
+const PROGRAM_COLUMNS = "id,name,days,start_date,is_active,created_at";
+
+async function requireUid(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) throw error;
+
+  const uid = data.user?.id;
+  if (!uid) throw new Error("Not logged in.");
+  return uid;
+}
+
+function numOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/**
+ * jsonb is untyped: keeps only exercises with a name and at least one set.
+ */
+export function normalizeTemplateExercises(raw: unknown): TemplateExercise[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((r): TemplateExercise => ({
+      exercise_id: typeof r?.exercise_id === "string" ? r.exercise_id : null,
+      name: String(r?.name ?? "").trim(),
+      sets: Math.min(20, Math.max(0, Math.round(Number(r?.sets) || 0))),
+      reps: numOrNull(r?.reps),
+      weight_lbs: numOrNull(r?.weight_lbs),
+    }))
+    .filter((e) => e.name && e.sets > 0);
+}
+
+export function formatTarget(e: Pick<TemplateExercise, "sets" | "reps" | "weight_lbs">): string {
+  const reps = e.reps !== null ? ` × ${e.reps}` : "";
+  const weight = e.weight_lbs !== null ? ` @ ${e.weight_lbs} lbs` : "";
+  return `${e.sets}${reps || " sets"}${weight}`;
+}
+
+// ---- templates ----
+
+export async function listWorkoutTemplates(): Promise<WorkoutTemplate[]> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("workout_templates")
+    .select(TEMPLATE_COLUMNS)
+    .eq("user_id", uid)
+    .order("last_used_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
+
+  if (res.error) throw res.error;
+
+  return ((res.data ?? []) as WorkoutTemplate[]).map((t) => ({
+    ...t,
+    exercises: normalizeTemplateExercises(t.exercises),
+  }));
+}
+
+/**
+ * Creates a template, or replaces one when `id` is given.
+ */
+export async function saveWorkoutTemplate(input: {
+  id?: string;
+  name: string;
+  exercises: TemplateExercise[];
+  notes?: string | null;
+}): Promise<void> {
+  const uid = await requireUid();
+
+  const name = input.name.trim();
+  if (!name) throw new Error("Template needs a name.");
+
+  const exercises = normalizeTemplateExercises(input.exercises);
+  if (exercises.length === 0) throw new Error("Add at least one exercise with one or more sets.");
+
+  const row = {
+    name: name.slice(0, 80),
+    exercises,
+    notes: input.notes?.trim() ? input.notes.trim() : null,
+    updated_at: new Date().toISOString(),
+  };
+
+  const res = input.id
+    ? await supabase.schema("disciplined").from("workout_templates").update(row).eq("id", input.id).eq("user_id", uid)
+    : await supabase.schema("disciplined").from("workout_templates").insert({ user_id: uid, ...row });
+
+  if (res.error) throw res.error;
+}
+
+/**
+ * Saves a logged strength session as a template: one entry per exercise, as many non-warmup
+ * sets as were logged, targets taken from the first one with values.
+ */
+export async function saveSessionAsTemplate(sessionId: string, name: string): Promise<void> {
+  const uid = await requireUid();
+
+  const exRes = await supabase
+    .schema("disciplined")
+    .from("train_exercises")
+    .select("id,exercise_id,name")
+    .eq("user_id", uid)
+    .eq("session_id", sessionId)
+    .order("sort_order", { ascending: true });
+
+  if (exRes.error) throw exRes.error;
+
+  const rows = (exRes.data ?? []) as { id: string; exercise_id: string | null; name: string }[];
+  if (rows.length === 0) throw new Error("That workout has no exercises to save.");
+
+  const setsRes = await supabase
+    .schema("disciplined")
+    .from("train_sets")
+    .select("exercise_id,reps,weight_lbs,target_reps,target_weight_lbs,set_type")
+    .eq("user_id", uid)
+    .in("exercise_id", rows.map((r) => r.id))
+    .order("sort_order", { ascending: true });
+
+  if (setsRes.error) throw setsRes.error;
+
+  const sets = (setsRes.data ?? []) as {
+    exercise_id: string;
+    reps: number | null;
+    weight_lbs: number | null;
+    target_reps: number | null;
+    target_weight_lbs: number | null;
+    set_type: string;
+  }[];
+
+  const exercises = rows.map((r): TemplateExercise => {
+    const own = sets.filter((s) => s.exercise_id === r.id && s.set_type !== "warmup");
+    const first = own.find((s) => s.reps !== null || s.weight_lbs !== null) ?? own[0];
+    return {
+      exercise_id: r.exercise_id,
+      name: r.name,
+      sets: Math.max(1, own.length),
+      reps: first ? (first.reps ?? first.target_reps) : null,
+      weight_lbs: first ? (first.weight_lbs ?? first.target_weight_lbs) : null,
+    };
+  });
+
+  await saveWorkoutTemplate({ name, exercises });
+}
+
+export async function deleteWorkoutTemplate(templateId: string): Promise<void> {
+  const res = await supabase.schema("disciplined").from("workout_templates").delete().eq("id", templateId);
+  if (res.error) throw res.error;
+}
+
+/**
+ * New strength session on the day, pre-filled with the template's exercises and target sets.
+ */
+export async function startWorkoutFromTemplate(dayId: string, template: WorkoutTemplate): Promise<TrainSession> {
+  const uid = await requireUid();
+
+  const session = await createSession(dayId, "strength", { title: template.name, template_id: template.id });
+
+  if (template.exercises.length > 0) {
+    const exRes = await supabase
+      .schema("disciplined")
+      .from("train_exercises")
+      .insert(
+        template.exercises.map((e, i) => ({
+          user_id: uid,
+          session_id: session.id,
+          exercise_id: e.exercise_id,
+          name: e.name,
+          sort_order: i,
+        }))
+      )
+      .select("id,sort_order");
+
+    if (exRes.error) throw exRes.error;
+
+    const created = (exRes.data ?? []) as { id: string; sort_order: number }[];
+    const sets = created.flatMap((row) => {
+      const e = template.exercises[row.sort_order];
+      return Array.from({ length: e?.sets ?? 0 }, (_, i) => ({
+        user_id: uid,
+        exercise_id: row.id,
+        sort_order: i,
+        reps: null,
+        weight_lbs: null,
+        target_reps: e.reps,
+        target_weight_lbs: e.weight_lbs,
+        notes: null,
+      }));
+    });
+
+    if (sets.length > 0) {
+      const setRes = await supabase.schema("disciplined").from("train_sets").insert(sets);
+      if (setRes.error) throw setRes.error;
+    }
+  }
+
+  const upd = await supabase
+    .schema("disciplined")
+    .from("workout_templates")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", template.id);
+
+  if (upd.error) throw upd.error;
+
+  return session;
+}
+
+// ---- programs ----
+
+function toProgram(row: WorkoutProgram): WorkoutProgram {
+  const days = Array.isArray(row.days) ? row.days : [];
+  return { ...row, days: days.map((d) => (typeof d === "string" ? d : null)) };
+}
+
+export async function listWorkoutPrograms(): Promise<WorkoutProgram[]> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("workout_programs")
+    .select(PROGRAM_COLUMNS)
+    .eq("user_id", uid)
+    .order("is_active", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (res.error) throw res.error;
+  return ((res.data ?? []) as WorkoutProgram[]).map(toProgram);
+}
+
+export async function saveWorkoutProgram(input: {
+  id?: string;
+  name: string;
+  days: (string | null)[];
+  start_date: string;
+}): Promise<void> {
+  const uid = await requireUid();
+
+  const name = input.name.trim();
+  if (!name) throw new Error("Program needs a name.");
+  if (input.days.length < 1 || input.days.length > MAX_PROGRAM_DAYS) {
+    throw new Error(`A program cycle is 1 to ${MAX_PROGRAM_DAYS} days.`);
+  }
+  if (!input.days.some(Boolean)) throw new Error("Schedule a workout on at least one day.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.start_date)) throw new Error("Pick a start date.");
+
+  const row = {
+    name: name.slice(0, 80),
+    days: input.days,
+    start_date: input.start_date,
+    updated_at: new Date().toISOString(),
+  };
+
+  const res = input.id
+    ? await supabase.schema("disciplined").from("workout_programs").update(row).eq("id", input.id).eq("user_id", uid)
+    : await supabase.schema("disciplined").from("workout_programs").insert({ user_id: uid, ...row });
+
+  if (res.error) throw res.error;
+}
+
+/**
+ * Makes one program drive "today's workout" (null = none).
+ */
+export async function setActiveProgram(programId: string | null): Promise<void> {
+  const uid = await requireUid();
+
+  const off = await supabase
+    .schema("disciplined")
+    .from("workout_programs")
+    .update({ is_active: false })
+    .eq("user_id", uid)
+    .eq("is_active", true);
+
+  if (off.error) throw off.error;
+  if (!programId) return;
+
+  const on = await supabase
+    .schema("disciplined")
+    .from("workout_programs")
+    .update({ is_active: true })
+    .eq("id", programId)
+    .eq("user_id", uid);
+
+  if (on.error) throw on.error;
+}
+
+export async function deleteWorkoutProgram(programId: string): Promise<void> {
+  const res = await supabase.schema("disciplined").from("workout_programs").delete().eq("id", programId);
+  if (res.error) throw res.error;
+}
+
+/**
+ * 0-based day of the cycle on `date`, or null before the program starts.
+ */
+export function programDayIndex(program: Pick<WorkoutProgram, "days" | "start_date">, date: string): number | null {
+  if (date < program.start_date || program.days.length === 0) return null;
+
+  const [y1, m1, d1] = program.start_date.split("-").map(Number);
+  const [y2, m2, d2] = date.split("-").map(Number);
+  const elapsed = Math.round((Date.UTC(y2, m2 - 1, d2) - Date.UTC(y1, m1 - 1, d1)) / 86_400_000);
+
+  return elapsed % program.days.length;
+}
+
+/**
+ * What the active program has planned on `date`: the template, or null on a rest day
+ * (a deleted template counts as rest). Null overall when no program is active or started.
+ */
+export async function getScheduledWorkout(
+  date: string
+): Promise<{ program: WorkoutProgram; dayIndex: number; template: WorkoutTemplate | null } | null> {
+  const uid = await requireUid();
+
+  const res = await supabase
+    .schema("disciplined")
+    .from("workout_programs")
+    .select(PROGRAM_COLUMNS)
+    .eq("user_id", uid)
+    .eq("is_active", true)
+    .maybeSingle<WorkoutProgram>();
+
+  if (res.error) throw res.error;
+  if (!res.data) return null;
+
+  const program = toProgram(res.data);
+  const dayIndex = programDayIndex(program, date);
+  if (dayIndex === null) return null;
+
+  const templateId = program.days[dayIndex];
+  if (!templateId) return { program, dayIndex, template: null };
+
+  const tRes = await supabase
+    .schema("disciplined")
+    .from("workout_templates")
+    .select(TEMPLATE_COLUMNS)
+    .eq("id", templateId)
+    .maybeSingle<WorkoutTemplate>();
+
+  if (tRes.error) throw tRes.error;
+
+  const template = tRes.data ? { ...tRes.data, exercises: normalizeTemplateExercises(tRes.data.exercises) } : null;
+  return { program, dayIndex, template };
+}
@@ -0,0 +1,12 @@
+-- Day rollover hour for night-shift users (see src/lib/localDay.ts).
+-- 0 = midnight (previous behavior). Capped at noon so a "day" is never mostly tomorrow.
+
+alter table disciplined.user_settings
+  add column if not exists day_start_hour smallint not null default 0;
+
+alter table disciplined.user_settings
+  drop constraint if exists user_settings_day_start_hour_check;
+
+alter table disciplined.user_settings
+  add constraint user_settings_day_start_hour_check
+  check (day_start_hour between 0 and 12);
@@ -0,0 +1,119 @@
+-- Atomic "ensure the day + apply a pillar transition + return the whole day" in one round-trip.
+-- Called by /api/pillars/day and /api/pillars/toggle (service role only).
+--
+-- Transition rules (manual always wins):
+--   manual_complete   -> completed, source='manual'
+--   manual_uncomplete -> not completed, source='manual'
+--   auto_complete     -> completed, source='auto'   (skipped when source='manual')
+--   auto_revoke       -> not completed, source=null (skipped when source='manual')
+
+create or replace function disciplined.pillar_day_state(
+  p_user_id uuid,
+  p_entry_date date,
+  p_pillar text default null,
+  p_transition text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  v_entry_id uuid;
+  v_cur disciplined.daily_pillars%rowtype;
+  v_completed boolean;
+  v_source text;
+  v_changed boolean := false;
+begin
+  if p_transition is not null then
+    if p_transition not in ('manual_complete', 'manual_uncomplete', 'auto_complete', 'auto_revoke') then
+      raise exception 'unknown transition: %', p_transition using errcode = '22023';
+    end if;
+    if p_pillar is null or p_pillar not in ('train', 'eat', 'word', 'freedom') then
+      raise exception 'unknown pillar: %', p_pillar using errcode = '22023';
+    end if;
+  end if;
+
+  -- 1) get-or-create the day
+  insert into disciplined.daily_entries (user_id, entry_date)
+  values (p_user_id, p_entry_date)
+  on conflict (user_id, entry_date) do nothing;
+
+  select id into v_entry_id
+  from disciplined.daily_entries
+  where user_id = p_user_id and entry_date = p_entry_date;
+
+  -- 2) seed pillar rows without overwriting
+  insert into disciplined.daily_pillars (entry_id, pillar, completed, completed_at, source)
+  select v_entry_id, k, false, null, null
+  from unnest(array['train', 'eat', 'word', 'freedom']) as k
+  on conflict (entry_id, pillar) do nothing;
+
+  -- 3) apply the transition under a row lock (serializes concurrent tabs)
+  if p_transition is not null then
+    select * into v_cur
+    from disciplined.daily_pillars
+    where entry_id = v_entry_id and pillar = p_pillar
+    for update;
+
+    v_completed := v_cur.completed;
+    v_source := v_cur.source;
+
+    if p_transition = 'manual_complete' then
+      v_completed := true;
+      v_source := 'manual';
+    elsif p_transition = 'manual_uncomplete' then
+      v_completed := false;
+      v_source := 'manual';
+    elsif v_cur.source is distinct from 'manual' then
+      if p_transition = 'auto_complete' and not v_cur.completed then
+        v_completed := true;
+        v_source := 'auto';
+      elsif p_transition = 'auto_revoke' then
+        v_completed := false;
+        v_source := null;
+      end if;
+    end if;
+
+    if v_completed is distinct from v_cur.completed or v_source is distinct from v_cur.source then
+      update disciplined.daily_pillars
+      set completed = v_completed,
+          completed_at = case when v_completed then coalesce(v_cur.completed_at, now()) else null end,
+          source = v_source
+      where entry_id = v_entry_id and pillar = p_pillar;
+
+      v_changed := true;
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'changed', v_changed,
+    'entry', (
+      select jsonb_build_object('id', e.id, 'user_id', e.user_id, 'entry_date', e.entry_date)
+      from disciplined.daily_entries e
+      where e.id = v_entry_id
+    ),
+    'pillars', (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'entry_id', p.entry_id,
+            'pillar', p.pillar,
+            'completed', p.completed,
+            'completed_at', p.completed_at,
+            'source', p.source,
+            'notes', p.notes
+          )
+          order by p.pillar
+        ),
+        '[]'::jsonb
+      )
+      from disciplined.daily_pillars p
+      where p.entry_id = v_entry_id
+    )
+  );
+end;
+$$;
+
+revoke all on function disciplined.pillar_day_state(uuid, date, text, text) from public, anon, authenticated;
+grant execute on function disciplined.pillar_day_state(uuid, date, text, text) to service_role;
@@ -0,0 +1,28 @@
+-- User-defined completion criteria per pillar (see src/lib/pillarCriteria.ts).
+-- No row for a pillar = default auto rule (any logged data completes it).
+--
+-- rules is a jsonb array of { kind, value? }:
+--   train:          min_duration_min, min_steps
+--   eat:            within_eating_window, max_calories
+--   word / freedom: min_note_words
+-- mode: 'all' = every rule must pass, 'any' = one is enough.
+
+create table if not exists disciplined.pillar_criteria (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  pillar text not null check (pillar in ('train', 'eat', 'word', 'freedom')),
+  mode text not null default 'all' check (mode in ('all', 'any')),
+  rules jsonb not null default '[]'::jsonb check (jsonb_typeof(rules) = 'array'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, pillar)
+);
+
+alter table disciplined.pillar_criteria enable row level security;
+
+drop policy if exists pillar_criteria_own on disciplined.pillar_criteria;
+create policy pillar_criteria_own on disciplined.pillar_criteria
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.pillar_criteria to authenticated;
@@ -0,0 +1,236 @@
+-- Data-driven pillars: a per-user catalog instead of the hard-coded four.
+--
+-- user_pillars            one row per pillar the user tracks (built-ins are seeded, never deleted —
+--                         archive them instead so history keeps its labels)
+-- custom_pillar_entries   per-day checklist state for custom pillars (they have no dedicated editor)
+--
+-- daily_pillars.pillar is now any catalog key; pillar_day_state seeds rows for ACTIVE pillars only.
+
+create table if not exists disciplined.user_pillars (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  key text not null check (key ~ '^[a-z][a-z0-9_]{0,31}$'),
+  label text not null check (length(btrim(label)) between 1 and 40),
+  emoji text not null default '⭐',
+  sort_order integer not null default 0,
+  is_builtin boolean not null default false,
+  archived_at timestamptz,
+  -- custom pillars only: [{ "id": "...", "label": "..." }]
+  checklist jsonb not null default '[]'::jsonb check (jsonb_typeof(checklist) = 'array'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, key)
+);
+
+create index if not exists user_pillars_user_order_idx
+  on disciplined.user_pillars (user_id, sort_order);
+
+alter table disciplined.user_pillars enable row level security;
+
+drop policy if exists user_pillars_own on disciplined.user_pillars;
+create policy user_pillars_own on disciplined.user_pillars
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.user_pillars to authenticated;
+
+create table if not exists disciplined.custom_pillar_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  pillar text not null,
+  entry_date date not null,
+  checked jsonb not null default '[]'::jsonb check (jsonb_typeof(checked) = 'array'), -- checklist item ids
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, pillar, entry_date),
+  foreign key (user_id, pillar) references disciplined.user_pillars (user_id, key) on delete cascade
+);
+
+alter table disciplined.custom_pillar_entries enable row level security;
+
+drop policy if exists custom_pillar_entries_own on disciplined.custom_pillar_entries;
+create policy custom_pillar_entries_own on disciplined.custom_pillar_entries
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.custom_pillar_entries to authenticated;
+
+-- daily_pillars.pillar used to be limited to the four built-ins
+do $$
+declare
+  c record;
+begin
+  for c in
+    select conname
+    from pg_constraint
+    where conrelid = 'disciplined.daily_pillars'::regclass
+      and contype = 'c'
+      and pg_get_constraintdef(oid) ilike '%pillar%'
+  loop
+    execute format('alter table disciplined.daily_pillars drop constraint %I', c.conname);
+  end loop;
+end;
+$$;
+
+-- Built-ins for a user (idempotent; keeps any label/emoji/order/archive the user changed)
+create or replace function disciplined.ensure_user_pillars(p_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = disciplined, public
+as $$
+  insert into disciplined.user_pillars (user_id, key, label, emoji, sort_order, is_builtin)
+  values
+    (p_user_id, 'train', 'Train', '🏋️', 10, true),
+    (p_user_id, 'eat', 'Eat', '🍽️', 20, true),
+    (p_user_id, 'word', 'Word', '📖', 30, true),
+    (p_user_id, 'freedom', 'Freedom', '🛡️', 40, true)
+  on conflict (user_id, key) do nothing;
+$$;
+
+revoke all on function disciplined.ensure_user_pillars(uuid) from public, anon, authenticated;
+grant execute on function disciplined.ensure_user_pillars(uuid) to service_role;
+
+-- existing users get their built-ins now (new users get them on first pillar_day_state call)
+select disciplined.ensure_user_pillars(id) from auth.users;
+
+-- Same contract as 20261019100000_pillar_day_state.sql, but pillars come from the catalog,
+-- and the active catalog is returned so the Today card needs no second request.
+create or replace function disciplined.pillar_day_state(
+  p_user_id uuid,
+  p_entry_date date,
+  p_pillar text default null,
+  p_transition text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  v_entry_id uuid;
+  v_cur disciplined.daily_pillars%rowtype;
+  v_completed boolean;
+  v_source text;
+  v_changed boolean := false;
+begin
+  perform disciplined.ensure_user_pillars(p_user_id);
+
+  if p_transition is not null then
+    if p_transition not in ('manual_complete', 'manual_uncomplete', 'auto_complete', 'auto_revoke') then
+      raise exception 'unknown transition: %', p_transition using errcode = '22023';
+    end if;
+    -- archived pillars stay valid so past days can still be corrected
+    if p_pillar is null or not exists (
+      select 1 from disciplined.user_pillars where user_id = p_user_id and key = p_pillar
+    ) then
+      raise exception 'unknown pillar: %', p_pillar using errcode = '22023';
+    end if;
+  end if;
+
+  -- 1) get-or-create the day
+  insert into disciplined.daily_entries (user_id, entry_date)
+  values (p_user_id, p_entry_date)
+  on conflict (user_id, entry_date) do nothing;
+
+  select id into v_entry_id
+  from disciplined.daily_entries
+  where user_id = p_user_id and entry_date = p_entry_date;
+
+  -- 2) seed rows for active pillars without overwriting (+ the one being changed)
+  insert into disciplined.daily_pillars (entry_id, pillar, completed, completed_at, source)
+  select v_entry_id, up.key, false, null, null
+  from disciplined.user_pillars up
+  where up.user_id = p_user_id
+    and (up.archived_at is null or up.key = p_pillar)
+  on conflict (entry_id, pillar) do nothing;
+
+  -- 3) apply the transition under a row lock (serializes concurrent tabs)
+  if p_transition is not null then
+    select * into v_cur
+    from disciplined.daily_pillars
+    where entry_id = v_entry_id and pillar = p_pillar
+    for update;
+
+    v_completed := v_cur.completed;
+    v_source := v_cur.source;
+
+    if p_transition = 'manual_complete' then
+      v_completed := true;
+      v_source := 'manual';
+    elsif p_transition = 'manual_uncomplete' then
+      v_completed := false;
+      v_source := 'manual';
+    elsif v_cur.source is distinct from 'manual' then
+      if p_transition = 'auto_complete' and not v_cur.completed then
+        v_completed := true;
+        v_source := 'auto';
+      elsif p_transition = 'auto_revoke' then
+        v_completed := false;
+        v_source := null;
+      end if;
+    end if;
+
+    if v_completed is distinct from v_cur.completed or v_source is distinct from v_cur.source then
+      update disciplined.daily_pillars
+      set completed = v_completed,
+          completed_at = case when v_completed then coalesce(v_cur.completed_at, now()) else null end,
+          source = v_source
+      where entry_id = v_entry_id and pillar = p_pillar;
+
+      v_changed := true;
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'changed', v_changed,
+    'entry', (
+      select jsonb_build_object('id', e.id, 'user_id', e.user_id, 'entry_date', e.entry_date)
+      from disciplined.daily_entries e
+      where e.id = v_entry_id
+    ),
+    'pillars', (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'entry_id', p.entry_id,
+            'pillar', p.pillar,
+            'completed', p.completed,
+            'completed_at', p.completed_at,
+            'source', p.source,
+            'notes', p.notes
+          )
+          order by p.pillar
+        ),
+        '[]'::jsonb
+      )
+      from disciplined.daily_pillars p
+      where p.entry_id = v_entry_id
+    ),
+    'catalog', (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'key', up.key,
+            'label', up.label,
+            'emoji', up.emoji,
+            'sort_order', up.sort_order,
+            'is_builtin', up.is_builtin,
+            'archived_at', up.archived_at,
+            'checklist', up.checklist
+          )
+          order by up.sort_order, up.created_at
+        ),
+        '[]'::jsonb
+      )
+      from disciplined.user_pillars up
+      where up.user_id = p_user_id and up.archived_at is null
+    )
+  );
+end;
+$$;
+
+revoke all on function disciplined.pillar_day_state(uuid, date, text, text) from public, anon, authenticated;
+grant execute on function disciplined.pillar_day_state(uuid, date, text, text) to service_role;
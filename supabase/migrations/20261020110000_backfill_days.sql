@@ -0,0 +1,197 @@
+-- Back-filling past days.
+--
+-- user_settings.backfill_grace_hours   how long after a day ends it can still be changed
+--                                      (null = no limit; 48 = "yesterday is still open until tomorrow")
+-- daily_pillars.backfilled             completed after the day was already over, so streaks can
+--                                      choose to treat it differently
+--
+-- pillar_day_state now refuses transitions on future days and on days outside the grace window.
+
+alter table disciplined.user_settings
+  add column if not exists backfill_grace_hours smallint;
+
+alter table disciplined.user_settings
+  drop constraint if exists user_settings_backfill_grace_hours_check;
+
+alter table disciplined.user_settings
+  add constraint user_settings_backfill_grace_hours_check
+  check (backfill_grace_hours is null or backfill_grace_hours between 1 and 720);
+
+alter table disciplined.daily_pillars
+  add column if not exists backfilled boolean not null default false;
+
+create or replace function disciplined.pillar_day_state(
+  p_user_id uuid,
+  p_entry_date date,
+  p_pillar text default null,
+  p_transition text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  v_entry_id uuid;
+  v_cur disciplined.daily_pillars%rowtype;
+  v_completed boolean;
+  v_source text;
+  v_backfilled boolean;
+  v_changed boolean := false;
+  v_tz text;
+  v_day_start int;
+  v_grace int;
+  v_today date;
+  v_earliest date;
+begin
+  perform disciplined.ensure_user_pillars(p_user_id);
+
+  -- the user's local day (same rules as src/lib/localDay.ts)
+  select coalesce(us.timezone, 'America/Chicago'), coalesce(us.day_start_hour, 0), us.backfill_grace_hours
+  into v_tz, v_day_start, v_grace
+  from disciplined.user_settings us
+  where us.user_id = p_user_id;
+
+  v_tz := coalesce(v_tz, 'America/Chicago');
+  v_day_start := coalesce(v_day_start, 0);
+
+  v_today := ((now() at time zone v_tz) - make_interval(hours => v_day_start))::date;
+
+  -- a day stays open until grace hours after it ended
+  if v_grace is not null then
+    v_earliest := (((now() - make_interval(hours => v_grace)) at time zone v_tz) - make_interval(hours => v_day_start))::date;
+  end if;
+
+  if p_transition is not null then
+    if p_transition not in ('manual_complete', 'manual_uncomplete', 'auto_complete', 'auto_revoke') then
+      raise exception 'unknown transition: %', p_transition using errcode = '22023';
+    end if;
+    -- archived pillars stay valid so past days can still be corrected
+    if p_pillar is null or not exists (
+      select 1 from disciplined.user_pillars where user_id = p_user_id and key = p_pillar
+    ) then
+      raise exception 'unknown pillar: %', p_pillar using errcode = '22023';
+    end if;
+    if p_entry_date > v_today then
+      raise exception 'cannot change a future day (%)', p_entry_date using errcode = '42501';
+    end if;
+    if v_earliest is not null and p_entry_date < v_earliest then
+      raise exception '% is outside your back-fill window', p_entry_date using errcode = '42501';
+    end if;
+  end if;
+
+  -- 1) get-or-create the day
+  insert into disciplined.daily_entries (user_id, entry_date)
+  values (p_user_id, p_entry_date)
+  on conflict (user_id, entry_date) do nothing;
+
+  select id into v_entry_id
+  from disciplined.daily_entries
+  where user_id = p_user_id and entry_date = p_entry_date;
+
+  -- 2) seed rows for active pillars without overwriting (+ the one being changed)
+  insert into disciplined.daily_pillars (entry_id, pillar, completed, completed_at, source)
+  select v_entry_id, up.key, false, null, null
+  from disciplined.user_pillars up
+  where up.user_id = p_user_id
+    and (up.archived_at is null or up.key = p_pillar)
+  on conflict (entry_id, pillar) do nothing;
+
+  -- 3) apply the transition under a row lock (serializes concurrent tabs)
+  if p_transition is not null then
+    select * into v_cur
+    from disciplined.daily_pillars
+    where entry_id = v_entry_id and pillar = p_pillar
+    for update;
+
+    v_completed := v_cur.completed;
+    v_source := v_cur.source;
+
+    if p_transition = 'manual_complete' then
+      v_completed := true;
+      v_source := 'manual';
+    elsif p_transition = 'manual_uncomplete' then
+      v_completed := false;
+      v_source := 'manual';
+    elsif v_cur.source is distinct from 'manual' then
+      if p_transition = 'auto_complete' and not v_cur.completed then
+        v_completed := true;
+        v_source := 'auto';
+      elsif p_transition = 'auto_revoke' then
+        v_completed := false;
+        v_source := null;
+      end if;
+    end if;
+
+    -- flag completions that happen after the day is over; keep the flag of an existing completion
+    v_backfilled := case
+      when not v_completed then false
+      when v_cur.completed then v_cur.backfilled
+      else p_entry_date < v_today
+    end;
+
+    if v_completed is distinct from v_cur.completed or v_source is distinct from v_cur.source then
+      update disciplined.daily_pillars
+      set completed = v_completed,
+          completed_at = case when v_completed then coalesce(v_cur.completed_at, now()) else null end,
+          source = v_source,
+          backfilled = v_backfilled
+      where entry_id = v_entry_id and pillar = p_pillar;
+
+      v_changed := true;
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'changed', v_changed,
+    'today', v_today,
+    'earliest_editable', v_earliest,
+    'entry', (
+      select jsonb_build_object('id', e.id, 'user_id', e.user_id, 'entry_date', e.entry_date)
+      from disciplined.daily_entries e
+      where e.id = v_entry_id
+    ),
+    'pillars', (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'entry_id', p.entry_id,
+            'pillar', p.pillar,
+            'completed', p.completed,
+            'completed_at', p.completed_at,
+            'source', p.source,
+            'backfilled', p.backfilled,
+            'notes', p.notes
+          )
+          order by p.pillar
+        ),
+        '[]'::jsonb
+      )
+      from disciplined.daily_pillars p
+      where p.entry_id = v_entry_id
+    ),
+    'catalog', (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'key', up.key,
+            'label', up.label,
+            'emoji', up.emoji,
+            'sort_order', up.sort_order,
+            'is_builtin', up.is_builtin,
+            'archived_at', up.archived_at,
+            'checklist', up.checklist
+          )
+          order by up.sort_order, up.created_at
+        ),
+        '[]'::jsonb
+      )
+      from disciplined.user_pillars up
+      where up.user_id = p_user_id and up.archived_at is null
+    )
+  );
+end;
+$$;
+
+revoke all on function disciplined.pillar_day_state(uuid, date, text, text) from public, anon, authenticated;
+grant execute on function disciplined.pillar_day_state(uuid, date, text, text) to service_role;
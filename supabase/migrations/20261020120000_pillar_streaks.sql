@@ -0,0 +1,375 @@
+-- Streak engine: planned rest days, earned freezes, longest streak and a combined streak,
+-- computed in Postgres and cached so history pages don't pull months of rows.
+--
+-- user_pillars.rest_weekdays               planned days off (0 = Sunday … 6 = Saturday); an
+--                                          unfinished rest day neither extends nor breaks a streak
+-- user_settings.streak_counts_backfilled   whether back-filled completions count toward streaks
+-- pillar_streaks                           the cache: one row per pillar, plus '*' = every active pillar
+--
+-- The combined streak counts a custom pillar only from the local day it was created, so adding one
+-- doesn't turn every earlier day into a miss. Built-ins count from the start.
+--
+-- Freezes: every 7 counted days earn one freeze (at most 2 held). A missed day spends a freeze
+-- instead of breaking the streak. Today never breaks a streak — it is still in progress.
+--
+-- Triggers mark cached rows stale when their inputs change; pillar_streaks() recomputes stale rows
+-- (and rows computed on an earlier day) on read.
+
+alter table disciplined.user_pillars
+  add column if not exists rest_weekdays smallint[] not null default '{}';
+
+alter table disciplined.user_pillars
+  drop constraint if exists user_pillars_rest_weekdays_check;
+
+alter table disciplined.user_pillars
+  add constraint user_pillars_rest_weekdays_check
+  check (rest_weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]);
+
+alter table disciplined.user_settings
+  add column if not exists streak_counts_backfilled boolean not null default true;
+
+create table if not exists disciplined.pillar_streaks (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  pillar text not null, -- catalog key, or '*' for all active pillars together
+  current_streak integer not null default 0,
+  longest_streak integer not null default 0,
+  streak_start date,
+  freezes_available smallint not null default 0,
+  freezes_used integer not null default 0, -- spent inside the current streak
+  computed_for date, -- the user's local day when this row was computed
+  stale boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, pillar)
+);
+
+alter table disciplined.pillar_streaks enable row level security;
+
+drop policy if exists pillar_streaks_select_own on disciplined.pillar_streaks;
+create policy pillar_streaks_select_own on disciplined.pillar_streaks
+  for select
+  using (auth.uid() = user_id);
+
+grant select on disciplined.pillar_streaks to authenticated;
+
+-- The user's current local day (same rules as src/lib/localDay.ts and pillar_day_state)
+create or replace function disciplined.user_local_today(p_user_id uuid)
+returns date
+language sql
+stable
+security definer
+set search_path = disciplined, public
+as $$
+  select ((now() at time zone coalesce(us.timezone, 'America/Chicago'))
+          - make_interval(hours => coalesce(us.day_start_hour, 0)))::date
+  from (select 1) one
+  left join disciplined.user_settings us on us.user_id = p_user_id;
+$$;
+
+revoke all on function disciplined.user_local_today(uuid) from public, anon, authenticated;
+grant execute on function disciplined.user_local_today(uuid) to service_role;
+
+-- First local day a pillar is expected to be done: null for built-ins, creation day for custom ones.
+create or replace function disciplined.pillar_tracked_from(p_user_id uuid, p_key text)
+returns date
+language sql
+stable
+security definer
+set search_path = disciplined, public
+as $$
+  select case
+    when up.is_builtin then null
+    else ((up.created_at at time zone coalesce(us.timezone, 'America/Chicago'))
+          - make_interval(hours => coalesce(us.day_start_hour, 0)))::date
+  end
+  from disciplined.user_pillars up
+  left join disciplined.user_settings us on us.user_id = up.user_id
+  where up.user_id = p_user_id and up.key = p_key;
+$$;
+
+revoke all on function disciplined.pillar_tracked_from(uuid, text) from public, anon, authenticated;
+grant execute on function disciplined.pillar_tracked_from(uuid, text) to service_role;
+
+-- Walks every day from the first completion up to p_today and stores the result.
+create or replace function disciplined.compute_pillar_streak(p_user_id uuid, p_pillar text, p_today date)
+returns void
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  c_earn_every constant int := 7;
+  c_max_freezes constant int := 2;
+  v_counts_backfilled boolean;
+  v_scope int;
+  v_first date;
+  r record;
+  v_run int := 0;
+  v_longest int := 0;
+  v_start date;
+  v_freezes int := 0;
+  v_used int := 0;
+  v_toward_freeze int := 0;
+begin
+  select us.streak_counts_backfilled into v_counts_backfilled
+  from disciplined.user_settings us
+  where us.user_id = p_user_id;
+
+  v_counts_backfilled := coalesce(v_counts_backfilled, true);
+
+  -- whether any pillar is in scope at all (the combined streak checks per day which are tracked)
+  select count(*) into v_scope
+  from disciplined.user_pillars up
+  where up.user_id = p_user_id
+    and (up.key = p_pillar or (p_pillar = '*' and up.archived_at is null));
+
+  select min(e.entry_date) into v_first
+  from disciplined.daily_entries e
+  join disciplined.daily_pillars dp on dp.entry_id = e.id and dp.completed
+  where e.user_id = p_user_id
+    and e.entry_date <= p_today
+    and (p_pillar = '*' or dp.pillar = p_pillar);
+
+  if v_scope > 0 and v_first is not null then
+    for r in
+      select
+        g.day::date as day,
+        count(*) as scope,
+        count(*) filter (
+          where dp.completed and (v_counts_backfilled or not dp.backfilled)
+        ) as done,
+        count(*) filter (
+          where not coalesce(dp.completed and (v_counts_backfilled or not dp.backfilled), false)
+            and extract(dow from g.day)::smallint = any (up.rest_weekdays)
+        ) as resting
+      from generate_series(v_first, p_today, interval '1 day') g(day)
+      cross join (
+        select u.key, u.rest_weekdays, disciplined.pillar_tracked_from(p_user_id, u.key) as tracked_from
+        from disciplined.user_pillars u
+        where u.user_id = p_user_id
+          and (u.key = p_pillar or (p_pillar = '*' and u.archived_at is null))
+      ) up
+      left join disciplined.daily_entries e
+        on e.user_id = p_user_id and e.entry_date = g.day::date
+      left join disciplined.daily_pillars dp
+        on dp.entry_id = e.id and dp.pillar = up.key
+      where p_pillar <> '*' or up.tracked_from is null or up.tracked_from <= g.day::date
+      group by g.day
+      order by g.day
+    loop
+      if r.done = r.scope then
+        if v_run = 0 then
+          v_start := r.day;
+          v_used := 0;
+        end if;
+        v_run := v_run + 1;
+
+        v_toward_freeze := v_toward_freeze + 1;
+        if v_toward_freeze >= c_earn_every then
+          v_freezes := least(v_freezes + 1, c_max_freezes);
+          v_toward_freeze := 0;
+        end if;
+      elsif r.done + r.resting = r.scope or r.day = p_today then
+        null; -- planned rest, or today is still open
+      elsif v_run > 0 and v_freezes > 0 then
+        v_freezes := v_freezes - 1;
+        v_used := v_used + 1;
+      else
+        v_run := 0;
+        v_start := null;
+        v_used := 0;
+        v_toward_freeze := 0;
+      end if;
+
+      v_longest := greatest(v_longest, v_run);
+    end loop;
+  end if;
+
+  insert into disciplined.pillar_streaks (
+    user_id, pillar, current_streak, longest_streak, streak_start,
+    freezes_available, freezes_used, computed_for, stale, updated_at
+  )
+  values (
+    p_user_id, p_pillar, v_run, v_longest, v_start,
+    v_freezes, v_used, p_today, false, now()
+  )
+  on conflict (user_id, pillar) do update
+  set current_streak = excluded.current_streak,
+      longest_streak = excluded.longest_streak,
+      streak_start = excluded.streak_start,
+      freezes_available = excluded.freezes_available,
+      freezes_used = excluded.freezes_used,
+      computed_for = excluded.computed_for,
+      stale = false,
+      updated_at = now();
+end;
+$$;
+
+revoke all on function disciplined.compute_pillar_streak(uuid, text, date) from public, anon, authenticated;
+grant execute on function disciplined.compute_pillar_streak(uuid, text, date) to service_role;
+
+-- Streaks for every active pillar plus '*', recomputing only what is stale.
+create or replace function disciplined.pillar_streaks(p_user_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  v_today date;
+  v_key text;
+begin
+  perform disciplined.ensure_user_pillars(p_user_id);
+
+  v_today := disciplined.user_local_today(p_user_id);
+
+  for v_key in
+    select up.key
+    from disciplined.user_pillars up
+    where up.user_id = p_user_id and up.archived_at is null
+    union all
+    select '*'
+  loop
+    if not exists (
+      select 1
+      from disciplined.pillar_streaks s
+      where s.user_id = p_user_id
+        and s.pillar = v_key
+        and not s.stale
+        and s.computed_for = v_today
+    ) then
+      perform disciplined.compute_pillar_streak(p_user_id, v_key, v_today);
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'today', v_today,
+    'streaks', (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'pillar', s.pillar,
+            'current_streak', s.current_streak,
+            'longest_streak', s.longest_streak,
+            'streak_start', s.streak_start,
+            'freezes_available', s.freezes_available,
+            'freezes_used', s.freezes_used
+          )
+          order by s.pillar
+        ),
+        '[]'::jsonb
+      )
+      from disciplined.pillar_streaks s
+      where s.user_id = p_user_id
+        and (
+          s.pillar = '*'
+          or exists (
+            select 1
+            from disciplined.user_pillars up
+            where up.user_id = p_user_id and up.key = s.pillar and up.archived_at is null
+          )
+        )
+    )
+  );
+end;
+$$;
+
+revoke all on function disciplined.pillar_streaks(uuid) from public, anon, authenticated;
+grant execute on function disciplined.pillar_streaks(uuid) to service_role;
+
+-- ---- cache invalidation ----
+
+create or replace function disciplined.pillar_streaks_mark_stale(p_user_id uuid, p_pillar text default null)
+returns void
+language sql
+security definer
+set search_path = disciplined, public
+as $$
+  update disciplined.pillar_streaks
+  set stale = true
+  where user_id = p_user_id
+    and (p_pillar is null or pillar in (p_pillar, '*'))
+    and not stale;
+$$;
+
+revoke all on function disciplined.pillar_streaks_mark_stale(uuid, text) from public, anon, authenticated;
+
+create or replace function disciplined.daily_pillars_streak_stale()
+returns trigger
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  v_row disciplined.daily_pillars%rowtype;
+begin
+  v_row := case when tg_op = 'DELETE' then old else new end;
+
+  perform disciplined.pillar_streaks_mark_stale(e.user_id, v_row.pillar)
+  from disciplined.daily_entries e
+  where e.id = v_row.entry_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists daily_pillars_streak_stale_ins on disciplined.daily_pillars;
+create trigger daily_pillars_streak_stale_ins
+  after insert on disciplined.daily_pillars
+  for each row
+  when (new.completed)
+  execute function disciplined.daily_pillars_streak_stale();
+
+drop trigger if exists daily_pillars_streak_stale_upd on disciplined.daily_pillars;
+create trigger daily_pillars_streak_stale_upd
+  after update on disciplined.daily_pillars
+  for each row
+  when (old.completed is distinct from new.completed or old.backfilled is distinct from new.backfilled)
+  execute function disciplined.daily_pillars_streak_stale();
+
+drop trigger if exists daily_pillars_streak_stale_del on disciplined.daily_pillars;
+create trigger daily_pillars_streak_stale_del
+  after delete on disciplined.daily_pillars
+  for each row
+  when (old.completed)
+  execute function disciplined.daily_pillars_streak_stale();
+
+create or replace function disciplined.user_pillars_streak_stale()
+returns trigger
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform disciplined.pillar_streaks_mark_stale(old.user_id, old.key);
+  else
+    perform disciplined.pillar_streaks_mark_stale(new.user_id, new.key);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists user_pillars_streak_stale on disciplined.user_pillars;
+create trigger user_pillars_streak_stale
+  after insert or delete or update of rest_weekdays, archived_at on disciplined.user_pillars
+  for each row
+  execute function disciplined.user_pillars_streak_stale();
+
+create or replace function disciplined.user_settings_streak_stale()
+returns trigger
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+begin
+  perform disciplined.pillar_streaks_mark_stale(new.user_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists user_settings_streak_stale on disciplined.user_settings;
+create trigger user_settings_streak_stale
+  after update of streak_counts_backfilled, timezone, day_start_hour on disciplined.user_settings
+  for each row
+  execute function disciplined.user_settings_streak_stale();
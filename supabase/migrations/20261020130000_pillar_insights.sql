@@ -0,0 +1,60 @@
+-- /insights in one request: which pillars were completed on each day of a range.
+--
+-- Only days with at least one completion are listed (a missing day = nothing completed).
+-- first_day is the user's first daily entry, so days before they started aren't counted as misses.
+-- catalog[].tracked_from is a custom pillar's creation day (null for built-ins): the combined view
+-- doesn't expect it on earlier days.
+-- The analysis itself (heatmap, weekly trend, weekday breakdown, correlations) runs in src/lib/insights.ts.
+
+create or replace function disciplined.pillar_insights(p_user_id uuid, p_start date, p_end date)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = disciplined, public
+as $$
+  select jsonb_build_object(
+    'start', p_start,
+    'end', p_end,
+    'today', disciplined.user_local_today(p_user_id),
+    'first_day', (
+      select min(e.entry_date)
+      from disciplined.daily_entries e
+      where e.user_id = p_user_id
+    ),
+    'catalog', (
+      select coalesce(
+        jsonb_agg(
+          jsonb_build_object(
+            'key', up.key,
+            'label', up.label,
+            'emoji', up.emoji,
+            'rest_weekdays', up.rest_weekdays,
+            'tracked_from', disciplined.pillar_tracked_from(p_user_id, up.key)
+          )
+          order by up.sort_order, up.created_at
+        ),
+        '[]'::jsonb
+      )
+      from disciplined.user_pillars up
+      where up.user_id = p_user_id and up.archived_at is null
+    ),
+    'days', (
+      select coalesce(
+        jsonb_agg(jsonb_build_object('date', d.entry_date, 'completed', d.keys) order by d.entry_date),
+        '[]'::jsonb
+      )
+      from (
+        select e.entry_date, array_agg(dp.pillar order by dp.pillar) as keys
+        from disciplined.daily_entries e
+        join disciplined.daily_pillars dp on dp.entry_id = e.id and dp.completed
+        where e.user_id = p_user_id
+          and e.entry_date between p_start and p_end
+        group by e.entry_date
+      ) d
+    )
+  );
+$$;
+
+revoke all on function disciplined.pillar_insights(uuid, date, date) from public, anon, authenticated;
+grant execute on function disciplined.pillar_insights(uuid, date, date) to service_role;
@@ -0,0 +1,52 @@
+-- Shared nutrition database for barcode scans and food search.
+--
+-- food_catalog   read-only for users; filled by scripts/import-food-catalog.mjs from a local
+--                Open Food Facts dump. Macros are per serving (per 100 g when the product
+--                has no serving size).
+-- foods          a scanned/searched product is COPIED into the user's foods, so editing it
+--                never touches the catalog; barcode + catalog_id remember where it came from.
+
+create extension if not exists pg_trgm;
+
+create table if not exists disciplined.food_catalog (
+  id uuid primary key default gen_random_uuid(),
+  source text not null check (source in ('off')),
+  source_id text not null,
+  barcode text check (barcode ~ '^[0-9]{8,14}$'),
+  name text not null,
+  brand text,
+  serving_size text, -- as printed, e.g. "1 bar (40 g)"
+  serving_grams numeric, -- null when unknown
+  calories numeric,
+  protein_g numeric,
+  carbs_g numeric,
+  fat_g numeric,
+  imported_at timestamptz not null default now(),
+  unique (source, source_id)
+);
+
+create index if not exists food_catalog_barcode_idx
+  on disciplined.food_catalog (barcode);
+
+create index if not exists food_catalog_name_trgm_idx
+  on disciplined.food_catalog using gin (name gin_trgm_ops);
+
+alter table disciplined.food_catalog enable row level security;
+
+drop policy if exists food_catalog_read on disciplined.food_catalog;
+create policy food_catalog_read on disciplined.food_catalog
+  for select
+  to authenticated
+  using (true);
+
+grant select on disciplined.food_catalog to authenticated;
+
+alter table disciplined.foods
+  add column if not exists barcode text;
+
+alter table disciplined.foods
+  add column if not exists catalog_id uuid references disciplined.food_catalog (id) on delete set null;
+
+create index if not exists foods_user_barcode_idx
+  on disciplined.foods (user_id, barcode)
+  where barcode is not null;
@@ -0,0 +1,44 @@
+-- Structured servings so meal item macros scale by unit (see src/lib/servings.ts).
+--
+-- foods          macros stay per ONE base serving = serving_amount serving_unit (e.g. 100 g,
+--                1 piece); serving_grams is that serving's weight when known, alt_servings
+--                lists other ways to measure it: [{ "amount": 1, "unit": "cup", "grams": 240 }].
+--                serving_size (free text) is still written for display and older clients.
+-- meal_items     quantity keeps meaning "number of base servings" (the macro multiplier);
+--                amount + unit record what was actually entered, e.g. 150 g.
+
+alter table disciplined.foods
+  add column if not exists serving_amount numeric check (serving_amount is null or serving_amount > 0);
+
+alter table disciplined.foods
+  add column if not exists serving_unit text;
+
+alter table disciplined.foods
+  add column if not exists serving_grams numeric check (serving_grams is null or serving_grams > 0);
+
+alter table disciplined.foods
+  add column if not exists alt_servings jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(alt_servings) = 'array');
+
+alter table disciplined.meal_items
+  add column if not exists amount numeric check (amount is null or amount > 0);
+
+-- existing free-text sizes like "100 g" / "250ml" become structured; anything else is parsed
+-- client-side until the food is edited
+update disciplined.foods f
+set serving_amount = m.parts[1]::numeric,
+    serving_unit = lower(m.parts[2]),
+    serving_grams = case when lower(m.parts[2]) = 'g' then m.parts[1]::numeric end
+from (
+  select id, regexp_match(trim(serving_size), '^([0-9]+(?:\.[0-9]+)?)\s*(g|ml)$', 'i') as parts
+  from disciplined.foods
+  where serving_amount is null and serving_size is not null
+) m
+where f.id = m.id
+  and m.parts is not null
+  and m.parts[1]::numeric > 0;
+
+-- logged items already store "servings" in quantity; their entered amount is the same number
+update disciplined.meal_items
+set amount = quantity
+where amount is null and quantity > 0;
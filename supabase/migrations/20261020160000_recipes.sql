@@ -0,0 +1,68 @@
+-- Recipes: a named list of the user's foods that yields N servings (batch cooking).
+--
+-- recipes        calories/protein_g/carbs_g/fat_g are PER SERVING, recomputed by the client
+--                (src/lib/recipes.ts) whenever the recipe is saved.
+-- recipe_items   amount + unit as entered; quantity = base servings of the food (src/lib/servings.ts).
+-- meal_items     recipe_id links a logged "1.5 servings of Chili" back to its recipe. Logged macros
+--                are a snapshot; editing a recipe only rewrites logs from a chosen date when asked.
+
+create table if not exists disciplined.recipes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(btrim(name)) between 1 and 80),
+  yield_servings numeric not null default 1 check (yield_servings > 0),
+  notes text,
+  calories numeric,
+  protein_g numeric,
+  carbs_g numeric,
+  fat_g numeric,
+  archived_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists recipes_user_name_idx
+  on disciplined.recipes (user_id, name);
+
+alter table disciplined.recipes enable row level security;
+
+drop policy if exists recipes_own on disciplined.recipes;
+create policy recipes_own on disciplined.recipes
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.recipes to authenticated;
+
+create table if not exists disciplined.recipe_items (
+  id uuid primary key default gen_random_uuid(),
+  recipe_id uuid not null references disciplined.recipes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- restrict: deleting a food must not silently change a recipe's macros
+  food_id uuid not null references disciplined.foods (id) on delete restrict,
+  amount numeric not null check (amount > 0),
+  unit text not null,
+  quantity numeric not null check (quantity > 0),
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists recipe_items_recipe_idx
+  on disciplined.recipe_items (recipe_id, position);
+
+alter table disciplined.recipe_items enable row level security;
+
+drop policy if exists recipe_items_own on disciplined.recipe_items;
+create policy recipe_items_own on disciplined.recipe_items
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.recipe_items to authenticated;
+
+alter table disciplined.meal_items
+  add column if not exists recipe_id uuid references disciplined.recipes (id) on delete set null;
+
+create index if not exists meal_items_recipe_idx
+  on disciplined.meal_items (recipe_id)
+  where recipe_id is not null;
@@ -0,0 +1,29 @@
+-- Saved meal templates for one-tap "log again" (see src/lib/meals.ts).
+--
+-- items is a snapshot of meal_items at save time:
+--   [{ "food_id", "recipe_id", "name", "quantity", "amount", "unit", "calories", "protein_g", "carbs_g", "fat_g" }]
+-- so re-logging never depends on the food/recipe still existing or being unchanged.
+
+create table if not exists disciplined.meal_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(btrim(name)) between 1 and 80),
+  meal_type text not null check (meal_type in ('breakfast', 'lunch', 'dinner', 'snack')),
+  items jsonb not null default '[]'::jsonb check (jsonb_typeof(items) = 'array'),
+  last_used_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists meal_templates_user_used_idx
+  on disciplined.meal_templates (user_id, last_used_at desc nulls last);
+
+alter table disciplined.meal_templates enable row level security;
+
+drop policy if exists meal_templates_own on disciplined.meal_templates;
+create policy meal_templates_own on disciplined.meal_templates
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.meal_templates to authenticated;
@@ -0,0 +1,27 @@
+-- Daily calorie / macro targets (see src/lib/macroTargets.ts).
+--
+-- The plain columns apply to every day. training_* override them on days with a train_sessions
+-- row; a null training_* value falls back to the plain one. A null target isn't tracked.
+
+create table if not exists disciplined.macro_targets (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  calories numeric check (calories is null or calories > 0),
+  protein_g numeric check (protein_g is null or protein_g > 0),
+  carbs_g numeric check (carbs_g is null or carbs_g > 0),
+  fat_g numeric check (fat_g is null or fat_g > 0),
+  training_calories numeric check (training_calories is null or training_calories > 0),
+  training_protein_g numeric check (training_protein_g is null or training_protein_g > 0),
+  training_carbs_g numeric check (training_carbs_g is null or training_carbs_g > 0),
+  training_fat_g numeric check (training_fat_g is null or training_fat_g > 0),
+  updated_at timestamptz not null default now()
+);
+
+alter table disciplined.macro_targets enable row level security;
+
+drop policy if exists macro_targets_own on disciplined.macro_targets;
+create policy macro_targets_own on disciplined.macro_targets
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.macro_targets to authenticated;
@@ -0,0 +1,216 @@
+-- Food library (/eat/foods): favorites, archiving, recently-used ordering and duplicate merging.
+--
+-- foods.is_favorite     pinned to the top of the library and the Eat picker
+-- foods.archived_at     hidden from pickers; history keeps pointing at it
+-- foods.last_used_at    bumped whenever a meal_items row references the food
+--
+-- food_duplicates(uid)           groups of active foods with the same name + brand (case/space-insensitive)
+-- merge_foods(uid, keep, others) re-points meal_items, recipe_items and meal_templates from `others`
+--                                to `keep`, then deletes `others`. Called from /api/foods/merge.
+--                                Recipe and template quantities (base servings) are rescaled to the
+--                                kept food's serving; foods whose servings can't be compared aren't merged.
+
+alter table disciplined.foods
+  add column if not exists is_favorite boolean not null default false;
+
+alter table disciplined.foods
+  add column if not exists archived_at timestamptz;
+
+alter table disciplined.foods
+  add column if not exists last_used_at timestamptz;
+
+create index if not exists foods_user_name_idx
+  on disciplined.foods (user_id, lower(name));
+
+create index if not exists foods_name_trgm_idx
+  on disciplined.foods using gin (name gin_trgm_ops);
+
+update disciplined.foods f
+set last_used_at = u.used_at
+from (
+  select food_id, max(created_at) as used_at
+  from disciplined.meal_items
+  where food_id is not null
+  group by food_id
+) u
+where f.id = u.food_id
+  and f.last_used_at is null;
+
+create or replace function disciplined.touch_food_last_used()
+returns trigger
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+begin
+  if new.food_id is not null then
+    update disciplined.foods set last_used_at = now() where id = new.food_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists meal_items_touch_food on disciplined.meal_items;
+create trigger meal_items_touch_food
+  after insert on disciplined.meal_items
+  for each row execute function disciplined.touch_food_last_used();
+
+create or replace function disciplined.food_duplicates(p_user_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = disciplined, public
+as $$
+  select coalesce(jsonb_agg(g.grp order by g.name_key), '[]'::jsonb)
+  from (
+    select
+      lower(btrim(name)) as name_key,
+      jsonb_build_object(
+        'name', min(name),
+        'brand', min(brand),
+        'foods', jsonb_agg(
+          jsonb_build_object(
+            'id', f.id,
+            'name', f.name,
+            'brand', f.brand,
+            'serving_size', f.serving_size,
+            'calories', f.calories,
+            'is_favorite', f.is_favorite,
+            'last_used_at', f.last_used_at,
+            'uses', (select count(*) from disciplined.meal_items mi where mi.food_id = f.id)
+          )
+          order by f.is_favorite desc, f.last_used_at desc nulls last, f.created_at
+        )
+      ) as grp
+    from disciplined.foods f
+    where f.user_id = p_user_id
+      and f.archived_at is null
+    group by lower(btrim(name)), lower(btrim(coalesce(brand, '')))
+    having count(*) > 1
+  ) g;
+$$;
+
+revoke all on function disciplined.food_duplicates(uuid) from public, anon, authenticated;
+grant execute on function disciplined.food_duplicates(uuid) to service_role;
+
+-- Base servings of p_to in one base serving of p_from: by weight when both are known, by amount when
+-- both use the same unit, 1 for matching free-text sizes; null when they can't be compared.
+create or replace function disciplined.food_serving_ratio(p_from uuid, p_to uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = disciplined, public
+as $$
+  select case
+    when f.serving_grams is not null and t.serving_grams is not null then f.serving_grams / t.serving_grams
+    when f.serving_amount is not null and t.serving_amount is not null
+      and lower(btrim(f.serving_unit)) = lower(btrim(t.serving_unit)) then f.serving_amount / t.serving_amount
+    when f.serving_amount is null and t.serving_amount is null
+      and lower(btrim(coalesce(f.serving_size, ''))) = lower(btrim(coalesce(t.serving_size, ''))) then 1
+  end
+  from disciplined.foods f, disciplined.foods t
+  where f.id = p_from and t.id = p_to;
+$$;
+
+revoke all on function disciplined.food_serving_ratio(uuid, uuid) from public, anon, authenticated;
+grant execute on function disciplined.food_serving_ratio(uuid, uuid) to service_role;
+
+create or replace function disciplined.merge_foods(p_user_id uuid, p_keep uuid, p_merge uuid[])
+returns jsonb
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  v_merge uuid[];
+  v_ratios jsonb;
+  v_items int;
+  v_recipe_items int;
+begin
+  if not exists (select 1 from disciplined.foods where id = p_keep and user_id = p_user_id) then
+    raise exception 'food % not found', p_keep using errcode = 'P0002';
+  end if;
+
+  -- only the caller's foods, never the one being kept
+  select coalesce(array_agg(id), '{}') into v_merge
+  from disciplined.foods
+  where user_id = p_user_id
+    and id = any(p_merge)
+    and id <> p_keep;
+
+  if cardinality(v_merge) = 0 then
+    return jsonb_build_object('merged', 0, 'meal_items', 0, 'recipe_items', 0);
+  end if;
+
+  -- { merged food id: ratio }; quantities are in base servings, so they must follow the kept food's serving
+  select jsonb_object_agg(m.id, disciplined.food_serving_ratio(m.id, p_keep)) into v_ratios
+  from unnest(v_merge) as m(id);
+
+  if exists (select 1 from jsonb_each(v_ratios) r where jsonb_typeof(r.value) = 'null') then
+    raise exception 'these foods measure a serving differently; give them a serving weight to merge them'
+      using errcode = '22023';
+  end if;
+
+  -- logged items keep their snapshot macros, so only the food link changes
+  update disciplined.meal_items set food_id = p_keep where food_id = any(v_merge);
+  get diagnostics v_items = row_count;
+
+  update disciplined.recipe_items ri
+  set food_id = p_keep,
+      quantity = ri.quantity * (v_ratios ->> ri.food_id::text)::numeric
+  where ri.food_id = any(v_merge);
+  get diagnostics v_recipe_items = row_count;
+
+  -- template items are meal_items snapshots (per-serving nutrients x quantity): rescale both so the
+  -- template still logs the same totals
+  update disciplined.meal_templates t
+  set items = (
+        select jsonb_agg(
+          case when (it ->> 'food_id')::uuid = any(v_merge)
+            then it
+              || jsonb_build_object(
+                   'food_id', p_keep,
+                   'quantity', coalesce((it ->> 'quantity')::numeric, 1) * (v_ratios ->> (it ->> 'food_id'))::numeric
+                 )
+              || coalesce((
+                   select jsonb_object_agg(k, (it ->> k)::numeric / (v_ratios ->> (it ->> 'food_id'))::numeric)
+                   from unnest(array[
+                     'calories', 'protein_g', 'carbs_g', 'fat_g',
+                     'fiber_g', 'sugar_g', 'sodium_mg', 'vitamin_a_mcg', 'vitamin_c_mg', 'vitamin_d_mcg'
+                   ]) as k
+                   where jsonb_typeof(it -> k) = 'number'
+                 ), '{}'::jsonb)
+            else it
+          end
+          order by ord
+        )
+        from jsonb_array_elements(t.items) with ordinality as e(it, ord)
+      ),
+      updated_at = now()
+  where t.user_id = p_user_id
+    and exists (
+      select 1 from jsonb_array_elements(t.items) it
+      where (it ->> 'food_id')::uuid = any(v_merge)
+    );
+
+  update disciplined.foods k
+  set is_favorite = k.is_favorite or exists (
+        select 1 from disciplined.foods m where m.id = any(v_merge) and m.is_favorite
+      ),
+      last_used_at = greatest(k.last_used_at, (select max(m.last_used_at) from disciplined.foods m where m.id = any(v_merge)))
+  where k.id = p_keep;
+
+  delete from disciplined.foods where id = any(v_merge);
+
+  return jsonb_build_object(
+    'merged', cardinality(v_merge),
+    'meal_items', v_items,
+    'recipe_items', v_recipe_items
+  );
+end;
+$$;
+
+revoke all on function disciplined.merge_foods(uuid, uuid, uuid[]) from public, anon, authenticated;
+grant execute on function disciplined.merge_foods(uuid, uuid, uuid[]) to service_role;
@@ -0,0 +1,48 @@
+-- Micronutrients on foods / logged items / recipes, and a water-intake log (see src/lib/micronutrients.ts
+-- and src/lib/hydration.ts).
+--
+-- Micronutrient columns are optional and per one base serving, like the macros:
+--   fiber_g, sugar_g, sodium_mg, vitamin_a_mcg, vitamin_c_mg, vitamin_d_mcg
+-- meal_items copy them at log time; recipes store them per recipe serving.
+--
+-- water_logs: one row per drink (amount_ml) on a local day. macro_targets.water_ml is the optional
+-- daily hydration target; the Eat pillar's "water_target" criterion checks against it.
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['foods', 'meal_items', 'recipes'] loop
+    execute format('alter table disciplined.%I add column if not exists fiber_g numeric', t);
+    execute format('alter table disciplined.%I add column if not exists sugar_g numeric', t);
+    execute format('alter table disciplined.%I add column if not exists sodium_mg numeric', t);
+    execute format('alter table disciplined.%I add column if not exists vitamin_a_mcg numeric', t);
+    execute format('alter table disciplined.%I add column if not exists vitamin_c_mg numeric', t);
+    execute format('alter table disciplined.%I add column if not exists vitamin_d_mcg numeric', t);
+  end loop;
+end;
+$$;
+
+create table if not exists disciplined.water_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  log_date date not null,
+  amount_ml numeric not null check (amount_ml > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists water_logs_user_date_idx
+  on disciplined.water_logs (user_id, log_date);
+
+alter table disciplined.water_logs enable row level security;
+
+drop policy if exists water_logs_own on disciplined.water_logs;
+create policy water_logs_own on disciplined.water_logs
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.water_logs to authenticated;
+
+alter table disciplined.macro_targets
+  add column if not exists water_ml numeric check (water_ml is null or water_ml > 0);
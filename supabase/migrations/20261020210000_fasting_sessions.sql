@@ -0,0 +1,36 @@
+-- Actual fasts (see src/lib/fastingSessions.ts). fasting_settings stays the plan; a session is what
+-- really happened.
+--
+-- started_at / ended_at   real start and stop (ended_at null = fast in progress, at most one per user)
+-- planned_hours           the plan when the fast started (24 - eating_hours), so later plan changes
+--                         don't rewrite history
+-- end_reason              'manual' = ended from the card, 'meal' = closed at the first logged meal item
+
+create table if not exists disciplined.fasting_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  started_at timestamptz not null,
+  ended_at timestamptz,
+  planned_hours numeric not null check (planned_hours > 0 and planned_hours < 168),
+  end_reason text check (end_reason in ('manual', 'meal')),
+  created_at timestamptz not null default now(),
+  check (ended_at is null or ended_at > started_at),
+  check ((ended_at is null) = (end_reason is null))
+);
+
+create index if not exists fasting_sessions_user_started_idx
+  on disciplined.fasting_sessions (user_id, started_at desc);
+
+create unique index if not exists fasting_sessions_one_open_idx
+  on disciplined.fasting_sessions (user_id)
+  where ended_at is null;
+
+alter table disciplined.fasting_sessions enable row level security;
+
+drop policy if exists fasting_sessions_own on disciplined.fasting_sessions;
+create policy fasting_sessions_own on disciplined.fasting_sessions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.fasting_sessions to authenticated;
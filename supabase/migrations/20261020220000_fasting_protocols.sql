@@ -0,0 +1,40 @@
+-- Named fasting protocols and weekly schedules (see src/lib/fasting.ts).
+--
+-- eating_start / eating_hours stay the default daily window. schedule is null (that window every
+-- day) or a jsonb array of 7 days, index 0 = Sunday, each one of:
+--   { "kind": "window", "eating_start"?: "HH:MM", "eating_hours"?: n }   default window unless overridden
+--   { "kind": "off" }                                                    non-fasting day
+--   { "kind": "fast", "max_calories"?: n }                               no eating window
+-- protocol records which preset produced it ('custom' once edited by hand).
+
+alter table disciplined.fasting_settings
+  add column if not exists protocol text not null default '16:8';
+
+alter table disciplined.fasting_settings
+  add column if not exists schedule jsonb;
+
+alter table disciplined.fasting_settings
+  drop constraint if exists fasting_settings_protocol_check;
+alter table disciplined.fasting_settings
+  add constraint fasting_settings_protocol_check check (
+    protocol in ('16:8', '18:6', '20:4', '14:10', 'omad', '5:2', 'alternate_day', 'extended_36', 'extended_72', 'custom')
+  );
+
+alter table disciplined.fasting_settings
+  drop constraint if exists fasting_settings_schedule_check;
+alter table disciplined.fasting_settings
+  add constraint fasting_settings_schedule_check check (
+    schedule is null or (jsonb_typeof(schedule) = 'array' and jsonb_array_length(schedule) = 7)
+  );
+
+-- existing single windows map onto the matching preset
+update disciplined.fasting_settings
+set protocol = case eating_hours
+    when 8 then '16:8'
+    when 6 then '18:6'
+    when 4 then '20:4'
+    when 10 then '14:10'
+    when 1 then 'omad'
+    else 'custom'
+  end
+where schedule is null;
@@ -0,0 +1,111 @@
+-- Exercise catalog (see src/lib/exercises.ts), so "Bench", "bench press" and "BP" are one exercise.
+--
+-- exercises          user_id null = built-in (seeded below, read-only); otherwise a user's custom exercise
+--   aliases          other names the picker matches ("BP", "flat bench")
+--   primary_muscles / secondary_muscles   muscle group keys, see MUSCLE_GROUPS in src/lib/exercises.ts
+--   is_unilateral    one arm / leg at a time (sets are logged per side)
+-- train_exercises.exercise_id   the catalog entry a logged exercise is; name stays as a snapshot
+
+create table if not exists disciplined.exercises (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  aliases text[] not null default '{}',
+  equipment text not null default 'other'
+    check (equipment in ('barbell', 'dumbbell', 'machine', 'cable', 'bodyweight', 'kettlebell', 'band', 'other')),
+  primary_muscles text[] not null default '{}',
+  secondary_muscles text[] not null default '{}',
+  is_unilateral boolean not null default false,
+  created_at timestamptz not null default now(),
+  check (
+    primary_muscles <@ array['chest', 'back', 'shoulders', 'biceps', 'triceps', 'forearms', 'core', 'glutes',
+      'quads', 'hamstrings', 'calves', 'full_body']
+    and secondary_muscles <@ array['chest', 'back', 'shoulders', 'biceps', 'triceps', 'forearms', 'core', 'glutes',
+      'quads', 'hamstrings', 'calves', 'full_body']
+  )
+);
+
+create unique index if not exists exercises_builtin_name_idx
+  on disciplined.exercises (lower(name))
+  where user_id is null;
+
+create unique index if not exists exercises_user_name_idx
+  on disciplined.exercises (user_id, lower(name))
+  where user_id is not null;
+
+alter table disciplined.exercises enable row level security;
+
+drop policy if exists exercises_read on disciplined.exercises;
+create policy exercises_read on disciplined.exercises
+  for select
+  to authenticated
+  using (user_id is null or auth.uid() = user_id);
+
+drop policy if exists exercises_own on disciplined.exercises;
+create policy exercises_own on disciplined.exercises
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.exercises to authenticated;
+
+insert into disciplined.exercises (name, aliases, equipment, primary_muscles, secondary_muscles, is_unilateral)
+values
+  ('Bench Press', '{"bench","bp","flat bench","barbell bench press"}', 'barbell', '{chest}', '{triceps,shoulders}', false),
+  ('Incline Bench Press', '{"incline bench","incline bp"}', 'barbell', '{chest}', '{shoulders,triceps}', false),
+  ('Dumbbell Bench Press', '{"db bench","dumbbell press"}', 'dumbbell', '{chest}', '{triceps,shoulders}', false),
+  ('Incline Dumbbell Press', '{"incline db press","incline dumbbell bench"}', 'dumbbell', '{chest}', '{shoulders,triceps}', false),
+  ('Dumbbell Fly', '{"db fly","chest fly"}', 'dumbbell', '{chest}', '{shoulders}', false),
+  ('Cable Crossover', '{"cable fly","crossover"}', 'cable', '{chest}', '{shoulders}', false),
+  ('Push-Up', '{"pushup","push up","press-up"}', 'bodyweight', '{chest}', '{triceps,shoulders,core}', false),
+  ('Dip', '{"dips","parallel bar dip"}', 'bodyweight', '{triceps,chest}', '{shoulders}', false),
+  ('Overhead Press', '{"ohp","military press","shoulder press","press"}', 'barbell', '{shoulders}', '{triceps,core}', false),
+  ('Dumbbell Shoulder Press', '{"db shoulder press","seated dumbbell press"}', 'dumbbell', '{shoulders}', '{triceps}', false),
+  ('Lateral Raise', '{"side raise","lateral raises","db lateral raise"}', 'dumbbell', '{shoulders}', '{}', false),
+  ('Face Pull', '{"face pulls"}', 'cable', '{shoulders}', '{back}', false),
+  ('Deadlift', '{"dl","conventional deadlift"}', 'barbell', '{back,hamstrings,glutes}', '{forearms,core}', false),
+  ('Romanian Deadlift', '{"rdl","stiff leg deadlift"}', 'barbell', '{hamstrings,glutes}', '{back}', false),
+  ('Barbell Row', '{"bent over row","bb row","pendlay row"}', 'barbell', '{back}', '{biceps,forearms}', false),
+  ('Dumbbell Row', '{"db row","one arm row","single arm row"}', 'dumbbell', '{back}', '{biceps}', true),
+  ('Pull-Up', '{"pullup","pull up","chin-up","chinup"}', 'bodyweight', '{back}', '{biceps,forearms}', false),
+  ('Lat Pulldown', '{"pulldown","lat pull down"}', 'cable', '{back}', '{biceps}', false),
+  ('Seated Cable Row', '{"cable row","seated row"}', 'cable', '{back}', '{biceps}', false),
+  ('Back Squat', '{"squat","squats","bs","barbell squat"}', 'barbell', '{quads,glutes}', '{hamstrings,core}', false),
+  ('Front Squat', '{"fs"}', 'barbell', '{quads}', '{glutes,core}', false),
+  ('Goblet Squat', '{"goblet"}', 'dumbbell', '{quads,glutes}', '{core}', false),
+  ('Leg Press', '{"sled press"}', 'machine', '{quads,glutes}', '{hamstrings}', false),
+  ('Bulgarian Split Squat', '{"bss","split squat","rear foot elevated split squat"}', 'dumbbell', '{quads,glutes}', '{hamstrings}', true),
+  ('Walking Lunge', '{"lunge","lunges"}', 'dumbbell', '{quads,glutes}', '{hamstrings}', true),
+  ('Hip Thrust', '{"hip thrusts","barbell hip thrust"}', 'barbell', '{glutes}', '{hamstrings}', false),
+  ('Leg Extension', '{"leg extensions","quad extension"}', 'machine', '{quads}', '{}', false),
+  ('Leg Curl', '{"hamstring curl","lying leg curl","seated leg curl"}', 'machine', '{hamstrings}', '{}', false),
+  ('Standing Calf Raise', '{"calf raise","calf raises"}', 'machine', '{calves}', '{}', false),
+  ('Barbell Curl', '{"bb curl","curl","biceps curl"}', 'barbell', '{biceps}', '{forearms}', false),
+  ('Dumbbell Curl', '{"db curl","alternating curl"}', 'dumbbell', '{biceps}', '{forearms}', true),
+  ('Hammer Curl', '{"hammer curls"}', 'dumbbell', '{biceps,forearms}', '{}', false),
+  ('Triceps Pushdown', '{"pushdown","tricep pushdown","rope pushdown"}', 'cable', '{triceps}', '{}', false),
+  ('Skull Crusher', '{"skullcrusher","lying triceps extension"}', 'barbell', '{triceps}', '{}', false),
+  ('Overhead Triceps Extension', '{"overhead extension","french press"}', 'dumbbell', '{triceps}', '{}', false),
+  ('Plank', '{"planks"}', 'bodyweight', '{core}', '{shoulders}', false),
+  ('Hanging Leg Raise', '{"leg raise","hanging knee raise"}', 'bodyweight', '{core}', '{forearms}', false),
+  ('Cable Crunch', '{"kneeling cable crunch"}', 'cable', '{core}', '{}', false),
+  ('Kettlebell Swing', '{"kb swing","swings"}', 'kettlebell', '{glutes,hamstrings}', '{back,core}', false),
+  ('Farmer''s Carry', '{"farmers walk","farmer walk","farmers carry"}', 'dumbbell', '{forearms,full_body}', '{core}', false)
+on conflict do nothing;
+
+alter table disciplined.train_exercises
+  add column if not exists exercise_id uuid references disciplined.exercises (id) on delete set null;
+
+create index if not exists train_exercises_user_exercise_idx
+  on disciplined.train_exercises (user_id, exercise_id);
+
+-- link what was already logged by name or alias (case / spacing insensitive)
+update disciplined.train_exercises te
+set exercise_id = e.id
+from disciplined.exercises e
+where te.exercise_id is null
+  and e.user_id is null
+  and (
+    lower(regexp_replace(trim(te.name), '\s+', ' ', 'g')) = lower(e.name)
+    or lower(regexp_replace(trim(te.name), '\s+', ' ', 'g')) = any (e.aliases)
+  );
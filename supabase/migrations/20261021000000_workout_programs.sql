@@ -0,0 +1,71 @@
+-- Workout templates and programs (see src/lib/workoutPrograms.ts).
+--
+-- workout_templates.exercises   ordered targets:
+--   [{ "exercise_id", "name", "sets", "reps", "weight_lbs" }]   (reps / weight_lbs may be null)
+-- workout_programs.days          one entry per day of the cycle, a template id or null (rest day),
+--                                repeating from start_date: 7 entries = a weekly split, 28 = a
+--                                4-week block (e.g. 5/3/1), 3 = a push/pull/legs rotation
+-- train_sessions.template_id     the template a session was started from
+-- train_sets.target_*            what the template asked for; reps / weight_lbs stay what was
+--                                actually lifted, so an untouched planned set doesn't count as training
+
+create table if not exists disciplined.workout_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(btrim(name)) between 1 and 80),
+  exercises jsonb not null default '[]'::jsonb check (jsonb_typeof(exercises) = 'array'),
+  notes text,
+  last_used_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists workout_templates_user_used_idx
+  on disciplined.workout_templates (user_id, last_used_at desc nulls last);
+
+alter table disciplined.workout_templates enable row level security;
+
+drop policy if exists workout_templates_own on disciplined.workout_templates;
+create policy workout_templates_own on disciplined.workout_templates
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.workout_templates to authenticated;
+
+create table if not exists disciplined.workout_programs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(btrim(name)) between 1 and 80),
+  days jsonb not null check (
+    jsonb_typeof(days) = 'array' and jsonb_array_length(days) between 1 and 84
+  ),
+  start_date date not null,
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- at most one program drives "today's workout"
+create unique index if not exists workout_programs_one_active_idx
+  on disciplined.workout_programs (user_id)
+  where is_active;
+
+alter table disciplined.workout_programs enable row level security;
+
+drop policy if exists workout_programs_own on disciplined.workout_programs;
+create policy workout_programs_own on disciplined.workout_programs
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+grant select, insert, update, delete on disciplined.workout_programs to authenticated;
+
+alter table disciplined.train_sessions
+  add column if not exists template_id uuid references disciplined.workout_templates (id) on delete set null;
+
+alter table disciplined.train_sets
+  add column if not exists target_reps integer check (target_reps is null or target_reps >= 0);
+
+alter table disciplined.train_sets
+  add column if not exists target_weight_lbs numeric check (target_weight_lbs is null or target_weight_lbs >= 0);
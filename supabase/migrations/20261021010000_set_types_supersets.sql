@@ -0,0 +1,29 @@
+-- Richer strength logging (see src/lib/trainV2DetailsData.ts and src/lib/strengthStats.ts).
+--
+-- train_sets.set_type        warmup | working | drop | failure; warmups are left out of volume,
+--                            1RM, PRs and suggestions
+-- train_sets.rpe / rir       effort: rate of perceived exertion (1-10, half steps) or reps in reserve
+-- train_sets.tempo           free text as written, e.g. "3010" or "31X0"
+-- train_sets.rest_sec        rest taken after the set
+-- train_exercises.group_label   exercises of a session sharing a letter are done back to back:
+--                               two = a superset, three or more = a circuit
+
+alter table disciplined.train_sets
+  add column if not exists set_type text not null default 'working'
+    check (set_type in ('warmup', 'working', 'drop', 'failure'));
+
+alter table disciplined.train_sets
+  add column if not exists rpe numeric
+    check (rpe is null or (rpe between 1 and 10 and rpe * 2 = floor(rpe * 2)));
+
+alter table disciplined.train_sets
+  add column if not exists rir integer check (rir is null or rir between 0 and 10);
+
+alter table disciplined.train_sets
+  add column if not exists tempo text check (tempo is null or length(tempo) <= 12);
+
+alter table disciplined.train_sets
+  add column if not exists rest_sec integer check (rest_sec is null or rest_sec between 0 and 3600);
+
+alter table disciplined.train_exercises
+  add column if not exists group_label text check (group_label is null or group_label ~ '^[A-Z]$');
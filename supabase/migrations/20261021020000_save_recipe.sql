@@ -0,0 +1,106 @@
+-- Saving a recipe in one transaction (called by /api/recipes/save, see src/lib/recipes.ts).
+--
+-- The recipe row and its recipe_items are written together, and the cached per-serving macros /
+-- micronutrients are recomputed here from the items and their foods (same rules as
+-- recipeMacrosPerServing / recipeMicrosPerServing), so they can't drift from the items.
+--
+-- p_recipe   { name, yield_servings, notes }
+-- p_items    [{ food_id, amount, unit, quantity }] in display order
+-- p_recipe_id null = create, otherwise the recipe to replace. Returns the recipe id.
+
+create or replace function disciplined.save_recipe(
+  p_user_id uuid,
+  p_recipe_id uuid,
+  p_recipe jsonb,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = disciplined, public
+as $$
+declare
+  v_id uuid;
+  v_row disciplined.recipes%rowtype;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'a recipe needs at least one food' using errcode = '22023';
+  end if;
+
+  -- only the caller's foods
+  if exists (
+    select 1
+    from jsonb_array_elements(p_items) it
+    where not exists (
+      select 1 from disciplined.foods f
+      where f.id = (it ->> 'food_id')::uuid and f.user_id = p_user_id
+    )
+  ) then
+    raise exception 'food not found' using errcode = 'P0002';
+  end if;
+
+  v_row := jsonb_populate_record(null::disciplined.recipes, p_recipe);
+
+  if p_recipe_id is null then
+    insert into disciplined.recipes (user_id, name, yield_servings, notes)
+    values (p_user_id, v_row.name, v_row.yield_servings, v_row.notes)
+    returning id into v_id;
+  else
+    update disciplined.recipes
+    set name = v_row.name,
+        yield_servings = v_row.yield_servings,
+        notes = v_row.notes,
+        updated_at = now()
+    where id = p_recipe_id and user_id = p_user_id
+    returning id into v_id;
+
+    if v_id is null then
+      raise exception 'recipe % not found', p_recipe_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  delete from disciplined.recipe_items where recipe_id = v_id;
+
+  insert into disciplined.recipe_items (recipe_id, user_id, food_id, amount, unit, quantity, position)
+  select v_id, p_user_id, it.food_id, it.amount, it.unit, it.quantity, (it.ord - 1)::int
+  from rows from (
+    jsonb_to_recordset(p_items) as (food_id uuid, amount numeric, unit text, quantity numeric)
+  ) with ordinality as it (food_id, amount, unit, quantity, ord);
+
+  -- quantity is in base servings of the food; a missing macro counts as 0, a micronutrient
+  -- none of the foods has stays null
+  update disciplined.recipes r
+  set calories = round(t.calories / r.yield_servings, 1),
+      protein_g = round(t.protein_g / r.yield_servings, 1),
+      carbs_g = round(t.carbs_g / r.yield_servings, 1),
+      fat_g = round(t.fat_g / r.yield_servings, 1),
+      fiber_g = round(t.fiber_g / r.yield_servings, 1),
+      sugar_g = round(t.sugar_g / r.yield_servings, 1),
+      sodium_mg = round(t.sodium_mg / r.yield_servings, 1),
+      vitamin_a_mcg = round(t.vitamin_a_mcg / r.yield_servings, 1),
+      vitamin_c_mg = round(t.vitamin_c_mg / r.yield_servings, 1),
+      vitamin_d_mcg = round(t.vitamin_d_mcg / r.yield_servings, 1)
+  from (
+    select
+      sum(coalesce(f.calories, 0) * ri.quantity) as calories,
+      sum(coalesce(f.protein_g, 0) * ri.quantity) as protein_g,
+      sum(coalesce(f.carbs_g, 0) * ri.quantity) as carbs_g,
+      sum(coalesce(f.fat_g, 0) * ri.quantity) as fat_g,
+      sum(f.fiber_g * ri.quantity) as fiber_g,
+      sum(f.sugar_g * ri.quantity) as sugar_g,
+      sum(f.sodium_mg * ri.quantity) as sodium_mg,
+      sum(f.vitamin_a_mcg * ri.quantity) as vitamin_a_mcg,
+      sum(f.vitamin_c_mg * ri.quantity) as vitamin_c_mg,
+      sum(f.vitamin_d_mcg * ri.quantity) as vitamin_d_mcg
+    from disciplined.recipe_items ri
+    join disciplined.foods f on f.id = ri.food_id
+    where ri.recipe_id = v_id
+  ) t
+  where r.id = v_id;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function disciplined.save_recipe(uuid, uuid, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function disciplined.save_recipe(uuid, uuid, jsonb, jsonb) to service_role;
@@ -0,0 +1,321 @@
+// supabase/tests/foods.test.ts
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+/**
+ * Food library and recipe functions (merge_foods, save_recipe), run against the real migrations in an
+ * in-memory Postgres (PGlite). Only the Supabase pieces those migrations rely on are stood in:
+ * roles, auth.users / auth.uid(), and the base foods / meals / meal_items tables.
+ */
+
+const MIGRATIONS = [
+  "20261020140000_food_catalog.sql",
+  "20261020150000_food_servings.sql",
+  "20261020160000_recipes.sql",
+  "20261020170000_meal_templates.sql",
+  "20261020180000_macro_targets.sql",
+  "20261020190000_food_library.sql",
+  "20261020200000_micronutrients_hydration.sql",
+  "20261021020000_save_recipe.sql",
+];
+
+const SUPABASE_STAND_IN = `
+  create role anon;
+  create role authenticated;
+  create role service_role;
+
+  create schema auth;
+  create table auth.users (id uuid primary key);
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+
+  create schema disciplined;
+
+  create table disciplined.foods (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    name text not null,
+    brand text,
+    serving_size text,
+    calories numeric,
+    protein_g numeric,
+    carbs_g numeric,
+    fat_g numeric,
+    created_at timestamptz not null default now()
+  );
+
+  create table disciplined.meals (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    meal_date date not null,
+    meal_type text not null
+  );
+
+  create table disciplined.meal_items (
+    id uuid primary key default gen_random_uuid(),
+    meal_id uuid not null references disciplined.meals (id) on delete cascade,
+    food_id uuid references disciplined.foods (id) on delete set null,
+    name text not null,
+    quantity numeric not null default 1,
+    calories numeric,
+    protein_g numeric,
+    carbs_g numeric,
+    fat_g numeric,
+    created_at timestamptz not null default now()
+  );
+`;
+
+type Food = {
+  name: string;
+  calories?: number | null;
+  protein_g?: number | null;
+  carbs_g?: number | null;
+  fat_g?: number | null;
+  fiber_g?: number | null;
+  sodium_mg?: number | null;
+  serving_size?: string | null;
+  serving_amount?: number | null;
+  serving_unit?: string | null;
+  serving_grams?: number | null;
+};
+
+type Item = { food_id: string; amount: number; unit: string; quantity: number };
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = new PGlite({ extensions: { pg_trgm } });
+  await db.exec(SUPABASE_STAND_IN);
+  for (const file of MIGRATIONS) {
+    await db.exec(readFileSync(join(__dirname, "..", "migrations", file), "utf8"));
+  }
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+async function newUser(): Promise<string> {
+  const id = randomUUID();
+  await db.query("insert into auth.users (id) values ($1)", [id]);
+  return id;
+}
+
+async function newFood(userId: string, food: Food): Promise<string> {
+  const res = await db.query<{ id: string }>(
+    `insert into disciplined.foods (
+       user_id, name, calories, protein_g, carbs_g, fat_g, fiber_g, sodium_mg,
+       serving_size, serving_amount, serving_unit, serving_grams
+     )
+     values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     returning id`,
+    [
+      userId,
+      food.name,
+      food.calories ?? null,
+      food.protein_g ?? null,
+      food.carbs_g ?? null,
+      food.fat_g ?? null,
+      food.fiber_g ?? null,
+      food.sodium_mg ?? null,
+      food.serving_size ?? null,
+      food.serving_amount ?? null,
+      food.serving_unit ?? null,
+      food.serving_grams ?? null,
+    ]
+  );
+  return res.rows[0].id;
+}
+
+async function saveRecipe(
+  userId: string,
+  recipeId: string | null,
+  recipe: Record<string, unknown>,
+  items: Item[]
+): Promise<string> {
+  const res = await db.query<{ id: string }>("select disciplined.save_recipe($1, $2, $3, $4) as id", [
+    userId,
+    recipeId,
+    JSON.stringify(recipe),
+    JSON.stringify(items),
+  ]);
+  return res.rows[0].id;
+}
+
+async function recipeRow(recipeId: string) {
+  const res = await db.query<Record<string, number | string | null>>(
+    `select name, yield_servings::float8, calories::float8, protein_g::float8, carbs_g::float8, fat_g::float8,
+            fiber_g::float8, sugar_g::float8, sodium_mg::float8
+     from disciplined.recipes where id = $1`,
+    [recipeId]
+  );
+  return res.rows[0];
+}
+
+async function errorCode(run: () => Promise<unknown>): Promise<string | undefined> {
+  try {
+    await run();
+  } catch (e: unknown) {
+    return (e as { code?: string }).code;
+  }
+  throw new Error("Expected the call to fail.");
+}
+
+describe("save_recipe", () => {
+  it("computes per-serving macros from the items, ignoring totals sent by the client", async () => {
+    const user = await newUser();
+    const rice = await newFood(user, { name: "Rice", calories: 200, protein_g: 4, carbs_g: 45, fat_g: null });
+    const beans = await newFood(user, { name: "Beans", calories: 110, protein_g: 7, carbs_g: 20, fat_g: 0.5 });
+
+    const id = await saveRecipe(user, null, { name: "Rice & beans", yield_servings: 4, notes: null, calories: 9999 }, [
+      { food_id: rice, amount: 3, unit: "cup", quantity: 3 },
+      { food_id: beans, amount: 2, unit: "can", quantity: 3.5 },
+    ]);
+
+    expect(await recipeRow(id)).toMatchObject({
+      name: "Rice & beans",
+      calories: 246.3, // (3 * 200 + 3.5 * 110) / 4
+      protein_g: 9.1,
+      carbs_g: 51.3,
+      fat_g: 0.4, // rice has no fat listed, so it counts as 0
+    });
+  });
+
+  it("keeps a micronutrient none of the foods has empty and counts foods without it as 0", async () => {
+    const user = await newUser();
+    const oats = await newFood(user, { name: "Oats", calories: 150, fiber_g: 4, sodium_mg: null });
+    const milk = await newFood(user, { name: "Milk", calories: 120, fiber_g: null, sodium_mg: 100 });
+
+    const id = await saveRecipe(user, null, { name: "Porridge", yield_servings: 2, notes: null }, [
+      { food_id: oats, amount: 1, unit: "serving", quantity: 1 },
+      { food_id: milk, amount: 1, unit: "cup", quantity: 1 },
+    ]);
+
+    expect(await recipeRow(id)).toMatchObject({ fiber_g: 2, sodium_mg: 50, sugar_g: null });
+  });
+
+  it("replaces the items and recomputes the macros on update", async () => {
+    const user = await newUser();
+    const egg = await newFood(user, { name: "Egg", calories: 70, protein_g: 6 });
+
+    const id = await saveRecipe(user, null, { name: "Eggs", yield_servings: 1, notes: null }, [
+      { food_id: egg, amount: 2, unit: "piece", quantity: 2 },
+    ]);
+    await saveRecipe(user, id, { name: "Eggs", yield_servings: 1, notes: null, calories: 140 }, [
+      { food_id: egg, amount: 3, unit: "piece", quantity: 3 },
+    ]);
+
+    expect(await recipeRow(id)).toMatchObject({ calories: 210, protein_g: 18 });
+    const items = await db.query("select 1 from disciplined.recipe_items where recipe_id = $1", [id]);
+    expect(items.rows).toHaveLength(1);
+  });
+
+  it("refuses another user's food", async () => {
+    const user = await newUser();
+    const other = await newUser();
+    const theirs = await newFood(other, { name: "Theirs", calories: 100 });
+
+    expect(
+      await errorCode(() =>
+        saveRecipe(user, null, { name: "Stolen", yield_servings: 1, notes: null }, [
+          { food_id: theirs, amount: 1, unit: "serving", quantity: 1 },
+        ])
+      )
+    ).toBe("P0002");
+  });
+});
+
+describe("merge_foods", () => {
+  async function mergeFoods(userId: string, keep: string, merge: string[]) {
+    await db.query("select disciplined.merge_foods($1, $2, $3)", [userId, keep, merge]);
+  }
+
+  async function recipeQuantities(recipeId: string) {
+    const res = await db.query<{ food_id: string; quantity: number }>(
+      "select food_id, quantity::float8 from disciplined.recipe_items where recipe_id = $1 order by position",
+      [recipeId]
+    );
+    return res.rows;
+  }
+
+  async function newTemplate(userId: string, items: Record<string, unknown>[]): Promise<string> {
+    const res = await db.query<{ id: string }>(
+      "insert into disciplined.meal_templates (user_id, name, meal_type, items) values ($1, 'Breakfast', 'breakfast', $2) returning id",
+      [userId, JSON.stringify(items)]
+    );
+    return res.rows[0].id;
+  }
+
+  async function templateItems(templateId: string) {
+    const res = await db.query<{ items: Record<string, unknown>[] }>(
+      "select items from disciplined.meal_templates where id = $1",
+      [templateId]
+    );
+    return res.rows[0].items;
+  }
+
+  it("rescales recipe and template quantities when the serving weights differ", async () => {
+    const user = await newUser();
+    const keep = await newFood(user, {
+      name: "Oats",
+      calories: 380,
+      serving_amount: 100,
+      serving_unit: "g",
+      serving_grams: 100,
+    });
+    const dupe = await newFood(user, {
+      name: "oats",
+      calories: 150,
+      serving_amount: 1,
+      serving_unit: "scoop",
+      serving_grams: 40,
+    });
+
+    // 2 scoops = 80 g
+    const recipe = await saveRecipe(user, null, { name: "Overnight oats", yield_servings: 1, notes: null }, [
+      { food_id: dupe, amount: 2, unit: "scoop", quantity: 2 },
+    ]);
+    const template = await newTemplate(user, [
+      { food_id: dupe, recipe_id: null, name: "oats", quantity: 2, amount: 2, unit: "scoop", calories: 150, fat_g: null },
+    ]);
+
+    await mergeFoods(user, keep, [dupe]);
+
+    expect(await recipeQuantities(recipe)).toEqual([{ food_id: keep, quantity: 0.8 }]);
+
+    const [item] = await templateItems(template);
+    expect(item).toMatchObject({ food_id: keep, quantity: 0.8, calories: 375, fat_g: null, amount: 2, unit: "scoop" });
+  });
+
+  it("rescales by amount when both foods use the same unit without a weight", async () => {
+    const user = await newUser();
+    const keep = await newFood(user, { name: "Milk", serving_amount: 500, serving_unit: "ml" });
+    const dupe = await newFood(user, { name: "Milk", serving_amount: 250, serving_unit: "ML" });
+
+    const recipe = await saveRecipe(user, null, { name: "Latte", yield_servings: 1, notes: null }, [
+      { food_id: dupe, amount: 250, unit: "ml", quantity: 1 },
+    ]);
+
+    await mergeFoods(user, keep, [dupe]);
+
+    expect(await recipeQuantities(recipe)).toEqual([{ food_id: keep, quantity: 0.5 }]);
+  });
+
+  it("refuses to merge foods whose servings can't be compared", async () => {
+    const user = await newUser();
+    const keep = await newFood(user, { name: "Banana", serving_amount: 100, serving_unit: "g", serving_grams: 100 });
+    const dupe = await newFood(user, { name: "Banana", serving_amount: 1, serving_unit: "piece" });
+
+    const recipe = await saveRecipe(user, null, { name: "Smoothie", yield_servings: 1, notes: null }, [
+      { food_id: dupe, amount: 1, unit: "piece", quantity: 1 },
+    ]);
+
+    expect(await errorCode(() => mergeFoods(user, keep, [dupe]))).toBe("22023");
+    expect(await recipeQuantities(recipe)).toEqual([{ food_id: dupe, quantity: 1 }]);
+  });
+});
@@ -0,0 +1,278 @@
+// supabase/tests/pillar_day_state.test.ts
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { DayPillarState, PillarKey, PillarTransition } from "@/lib/pillarTypes";
+
+/**
+ * Transition rules of disciplined.pillar_day_state, run against the real migrations in an
+ * in-memory Postgres (PGlite). Only the Supabase pieces those migrations rely on are stood in:
+ * roles, auth.users / auth.uid(), and the base daily_entries / daily_pillars / user_settings tables.
+ */
+
+const MIGRATIONS = [
+  "20261019090000_user_settings_day_start_hour.sql",
+  "20261019100000_pillar_day_state.sql",
+  "20261020090000_pillar_criteria.sql",
+  "20261020100000_user_pillars.sql",
+  "20261020110000_backfill_days.sql",
+  "20261020120000_pillar_streaks.sql",
+];
+
+const SUPABASE_STAND_IN = `
+  create role anon;
+  create role authenticated;
+  create role service_role;
+
+  create schema auth;
+  create table auth.users (id uuid primary key);
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+
+  create schema disciplined;
+
+  create table disciplined.user_settings (
+    user_id uuid primary key references auth.users (id) on delete cascade,
+    timezone text
+  );
+
+  create table disciplined.daily_entries (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    entry_date date not null,
+    unique (user_id, entry_date)
+  );
+
+  create table disciplined.daily_pillars (
+    entry_id uuid not null references disciplined.daily_entries (id) on delete cascade,
+    pillar text not null check (pillar in ('train', 'eat', 'word', 'freedom')),
+    completed boolean not null default false,
+    completed_at timestamptz,
+    source text check (source in ('manual', 'auto')),
+    notes text,
+    primary key (entry_id, pillar)
+  );
+`;
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(SUPABASE_STAND_IN);
+  for (const file of MIGRATIONS) {
+    await db.exec(readFileSync(join(__dirname, "..", "migrations", file), "utf8"));
+  }
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+// a fresh user on UTC with no back-fill limit, so every test starts from an empty day
+async function newUser(): Promise<string> {
+  const id = randomUUID();
+  await db.query("insert into auth.users (id) values ($1)", [id]);
+  await db.query("insert into disciplined.user_settings (user_id, timezone) values ($1, 'UTC')", [id]);
+  return id;
+}
+
+async function dayState(
+  userId: string,
+  date: string,
+  pillar: PillarKey | null = null,
+  transition: PillarTransition | null = null
+): Promise<DayPillarState> {
+  const res = await db.query<{ state: DayPillarState }>(
+    "select disciplined.pillar_day_state($1, $2::date, $3, $4) as state",
+    [userId, date, pillar, transition]
+  );
+  return res.rows[0].state;
+}
+
+async function apply(userId: string, date: string, pillar: PillarKey, transition: PillarTransition) {
+  const day = await dayState(userId, date, pillar, transition);
+  const row = day.pillars.find((p) => p.pillar === pillar);
+  if (!row) throw new Error(`Missing ${pillar} pillar row.`);
+  return { changed: day.changed, completed: row.completed, source: row.source, backfilled: row.backfilled };
+}
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+async function today(userId: string): Promise<string> {
+  return (await dayState(userId, "2000-01-01")).today;
+}
+
+describe("pillar_day_state", () => {
+  it("seeds every built-in pillar as not completed", async () => {
+    const user = await newUser();
+    const day = await dayState(user, await today(user));
+
+    expect(day.changed).toBe(false);
+    expect(day.pillars.map((p) => p.pillar)).toEqual(["eat", "freedom", "train", "word"]);
+    expect(day.pillars.every((p) => !p.completed && p.source === null)).toBe(true);
+  });
+
+  it("accepts custom pillars from the user's catalog", async () => {
+    const user = await newUser();
+    const date = await today(user);
+    await db.query("insert into disciplined.user_pillars (user_id, key, label) values ($1, 'sleep', 'Sleep')", [user]);
+
+    expect(await apply(user, date, "sleep", "manual_complete")).toMatchObject({ completed: true, source: "manual" });
+  });
+
+  describe("manual transitions override auto", () => {
+    it("manual_uncomplete clears an auto completion", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      expect(await apply(user, date, "train", "auto_complete")).toMatchObject({ completed: true, source: "auto" });
+      expect(await apply(user, date, "train", "manual_uncomplete")).toMatchObject({
+        changed: true,
+        completed: false,
+        source: "manual",
+      });
+    });
+
+    it("manual_complete takes over an auto completion", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      await apply(user, date, "eat", "auto_complete");
+      expect(await apply(user, date, "eat", "manual_complete")).toMatchObject({
+        changed: true,
+        completed: true,
+        source: "manual",
+      });
+    });
+
+    it("manual_complete after an auto_revoke", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      await apply(user, date, "word", "auto_complete");
+      await apply(user, date, "word", "auto_revoke");
+      expect(await apply(user, date, "word", "manual_complete")).toMatchObject({ completed: true, source: "manual" });
+    });
+  });
+
+  describe("auto transitions never touch a manual row", () => {
+    it("auto_complete leaves a manual_uncomplete alone", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      await apply(user, date, "train", "manual_uncomplete");
+      expect(await apply(user, date, "train", "auto_complete")).toEqual({
+        changed: false,
+        completed: false,
+        source: "manual",
+        backfilled: false,
+      });
+    });
+
+    it("auto_revoke leaves a manual_complete alone", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      await apply(user, date, "freedom", "manual_complete");
+      expect(await apply(user, date, "freedom", "auto_revoke")).toMatchObject({
+        changed: false,
+        completed: true,
+        source: "manual",
+      });
+    });
+
+    it("auto_revoke clears an auto completion back to no source", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      await apply(user, date, "train", "auto_complete");
+      expect(await apply(user, date, "train", "auto_revoke")).toMatchObject({
+        changed: true,
+        completed: false,
+        source: null,
+      });
+    });
+
+    it("repeating auto_complete is a no-op", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      await apply(user, date, "eat", "auto_complete");
+      expect(await apply(user, date, "eat", "auto_complete")).toMatchObject({ changed: false, completed: true });
+    });
+  });
+
+  describe("backfilled flag", () => {
+    it("is false for a completion on the day itself", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      expect(await apply(user, date, "train", "manual_complete")).toMatchObject({ backfilled: false });
+    });
+
+    it("is set when a past day is completed, manually or automatically", async () => {
+      const user = await newUser();
+      const yesterday = addDays(await today(user), -1);
+
+      expect(await apply(user, yesterday, "train", "manual_complete")).toMatchObject({ backfilled: true });
+      expect(await apply(user, yesterday, "eat", "auto_complete")).toMatchObject({ backfilled: true });
+    });
+
+    it("keeps the flag of an existing completion when manual takes over", async () => {
+      const user = await newUser();
+      const date = await today(user);
+
+      await apply(user, date, "word", "auto_complete");
+      expect(await apply(user, date, "word", "manual_complete")).toMatchObject({ source: "manual", backfilled: false });
+    });
+
+    it("is cleared when the completion is undone", async () => {
+      const user = await newUser();
+      const yesterday = addDays(await today(user), -1);
+
+      await apply(user, yesterday, "freedom", "manual_complete");
+      expect(await apply(user, yesterday, "freedom", "manual_uncomplete")).toMatchObject({
+        completed: false,
+        backfilled: false,
+      });
+    });
+  });
+
+  describe("guards", () => {
+    it("refuses future days", async () => {
+      const user = await newUser();
+      const tomorrow = addDays(await today(user), 1);
+
+      await expect(apply(user, tomorrow, "train", "manual_complete")).rejects.toThrow(/future day/);
+    });
+
+    it("refuses days outside the back-fill window", async () => {
+      const user = await newUser();
+      const date = await today(user);
+      await db.query("update disciplined.user_settings set backfill_grace_hours = 24 where user_id = $1", [user]);
+
+      await expect(apply(user, addDays(date, -3), "train", "manual_complete")).rejects.toThrow(/back-fill window/);
+    });
+
+    it("refuses unknown transitions", async () => {
+      const user = await newUser();
+
+      await expect(apply(user, await today(user), "train", "complete" as PillarTransition)).rejects.toThrow(
+        /unknown transition/
+      );
+    });
+
+    it("refuses pillars outside the catalog", async () => {
+      const user = await newUser();
+
+      await expect(apply(user, await today(user), "sleep", "manual_complete")).rejects.toThrow(/unknown pillar/);
+    });
+  });
+});